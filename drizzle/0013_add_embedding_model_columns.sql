@@ -0,0 +1,23 @@
+-- Record which embedding model produced each chunk's vector
+ALTER TABLE tiger_den.content_chunks ADD COLUMN embedding_model text;
+ALTER TABLE tiger_den.content_chunks ADD COLUMN embedding_dimensions integer;
+
+-- Everything embedded so far came from OpenAI text-embedding-3-small
+UPDATE tiger_den.content_chunks
+SET embedding_model = 'openai:text-embedding-3-small',
+    embedding_dimensions = 1536
+WHERE embedding IS NOT NULL;
+
+-- Allow vectors of any dimension. HNSW needs a fixed dimension, so the
+-- vector index becomes a partial expression index per dimension.
+DROP INDEX IF EXISTS tiger_den.content_chunks_embedding_idx;
+ALTER TABLE tiger_den.content_chunks ALTER COLUMN embedding TYPE halfvec;
+
+CREATE INDEX IF NOT EXISTS content_chunks_embedding_1536_idx
+ON tiger_den.content_chunks
+USING hnsw ((embedding::halfvec(1536)) halfvec_cosine_ops)
+WITH (m = 16, ef_construction = 64)
+WHERE embedding_dimensions = 1536;
+
+CREATE INDEX IF NOT EXISTS content_chunks_embedding_model_idx
+ON tiger_den.content_chunks (embedding_model);
@@ -0,0 +1,35 @@
+-- Shadow embedding columns written by a model migration before the flip
+ALTER TABLE tiger_den.content_chunks ADD COLUMN shadow_embedding halfvec;
+ALTER TABLE tiger_den.content_chunks ADD COLUMN shadow_embedding_model text;
+ALTER TABLE tiger_den.content_chunks ADD COLUMN shadow_embedding_dimensions integer;
+
+CREATE TYPE tiger_den.embedding_migration_status AS ENUM ('running', 'completed', 'cancelled');
+
+CREATE TABLE tiger_den.embedding_migrations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  status tiger_den.embedding_migration_status DEFAULT 'running' NOT NULL,
+  target_provider text NOT NULL,
+  target_model_name text NOT NULL,
+  target_dimensions integer NOT NULL,
+  target_base_url text,
+  target_model text NOT NULL,
+  source_model text NOT NULL,
+  cursor uuid,
+  sweeping boolean DEFAULT false NOT NULL,
+  total_chunks integer DEFAULT 0 NOT NULL,
+  processed_chunks integer DEFAULT 0 NOT NULL,
+  failed_chunks integer DEFAULT 0 NOT NULL,
+  total_tokens integer DEFAULT 0 NOT NULL,
+  processed_tokens integer DEFAULT 0 NOT NULL,
+  last_error text,
+  started_by_user_id text REFERENCES tiger_den.users(id),
+  started_at timestamptz DEFAULT now() NOT NULL,
+  completed_at timestamptz
+);
+
+CREATE INDEX embedding_migrations_status_idx ON tiger_den.embedding_migrations (status);
+
+-- Only one migration may run at a time
+CREATE UNIQUE INDEX embedding_migrations_one_running_idx
+ON tiger_den.embedding_migrations (status)
+WHERE status = 'running';
@@ -0,0 +1,8 @@
+-- Embeddings keyed by model + SHA256 of the chunk text, reused on reindex
+CREATE TABLE tiger_den.embedding_cache (
+  chunk_hash text NOT NULL,
+  embedding_model text NOT NULL,
+  embedding halfvec NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  PRIMARY KEY (embedding_model, chunk_hash)
+);
@@ -0,0 +1,9 @@
+-- Re-crawl policy per content type (NULL = never re-crawl)
+ALTER TABLE tiger_den.content_types ADD COLUMN recrawl_interval_days integer;
+
+-- Website pages drift the most; check them weekly
+UPDATE tiger_den.content_types SET recrawl_interval_days = 7 WHERE slug = 'website_content';
+
+-- When a re-crawl last found different content
+ALTER TABLE tiger_den.content_items ADD COLUMN last_changed_at timestamptz;
+CREATE INDEX content_items_last_changed_at_idx ON tiger_den.content_items(last_changed_at);
@@ -0,0 +1,41 @@
+-- Every distinct plain text an item has had, so past content can be diffed and restored
+CREATE TYPE tiger_den.content_version_source AS ENUM (
+  'crawl', 'transcript', 'ghost_api', 'contentful_api', 'youtube_api', 'restore'
+);
+
+CREATE TABLE tiger_den.content_text_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  content_item_id uuid NOT NULL REFERENCES tiger_den.content_items(id) ON DELETE CASCADE,
+  content_hash text NOT NULL,
+  full_text text NOT NULL,
+  plain_text text NOT NULL,
+  word_count integer NOT NULL,
+  token_count integer NOT NULL,
+  source tiger_den.content_version_source NOT NULL,
+  created_by_user_id text REFERENCES tiger_den.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX content_text_versions_item_idx
+  ON tiger_den.content_text_versions(content_item_id, created_at);
+
+-- Seed history with the text each item has today
+INSERT INTO tiger_den.content_text_versions
+  (content_item_id, content_hash, full_text, plain_text, word_count, token_count, source, created_at)
+SELECT
+  ct.content_item_id,
+  ct.content_hash,
+  ct.full_text,
+  ct.plain_text,
+  ct.word_count,
+  ct.token_count,
+  CASE ci.source
+    WHEN 'ghost_api' THEN 'ghost_api'
+    WHEN 'contentful_api' THEN 'contentful_api'
+    WHEN 'youtube_api' THEN 'youtube_api'
+    ELSE 'crawl'
+  END::tiger_den.content_version_source,
+  ct.crawled_at
+FROM tiger_den.content_text ct
+JOIN tiger_den.content_items ci ON ci.id = ct.content_item_id
+WHERE ct.plain_text <> '';
@@ -0,0 +1,29 @@
+-- Link health: result of each HEAD/GET check against an item's current URL
+CREATE TYPE tiger_den.link_status AS ENUM (
+  'ok', 'redirect', 'broken', 'timeout', 'error'
+);
+
+CREATE TABLE tiger_den.link_checks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  content_item_id uuid NOT NULL REFERENCES tiger_den.content_items(id) ON DELETE CASCADE,
+  url text NOT NULL,
+  status tiger_den.link_status NOT NULL,
+  status_code integer,
+  redirect_status_code integer,
+  redirect_url text,
+  error text,
+  response_time_ms integer,
+  checked_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX link_checks_item_idx
+  ON tiger_den.link_checks(content_item_id, checked_at);
+
+-- Latest check result on the item itself, for filtering and scheduling
+ALTER TABLE tiger_den.content_items ADD COLUMN link_status tiger_den.link_status;
+ALTER TABLE tiger_den.content_items ADD COLUMN link_checked_at timestamptz;
+-- Destination of a permanent redirect, offered as a URL update
+ALTER TABLE tiger_den.content_items ADD COLUMN suggested_url text;
+
+CREATE INDEX content_items_link_status_idx ON tiger_den.content_items(link_status);
+CREATE INDEX content_items_link_checked_at_idx ON tiger_den.content_items(link_checked_at);
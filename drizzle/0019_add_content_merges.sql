@@ -0,0 +1,25 @@
+-- Duplicate items merged into a surviving item. The merged item is deleted,
+-- so its row is kept as a snapshot rather than a foreign key.
+CREATE TABLE tiger_den.content_merges (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  survivor_id uuid NOT NULL REFERENCES tiger_den.content_items(id) ON DELETE CASCADE,
+  merged_item_id uuid NOT NULL,
+  merged_title text NOT NULL,
+  merged_url text NOT NULL,
+  merged_snapshot jsonb NOT NULL,
+  text_moved boolean NOT NULL DEFAULT false,
+  merged_by_user_id text REFERENCES tiger_den.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX content_merges_survivor_idx
+  ON tiger_den.content_merges(survivor_id, created_at);
+
+-- Suggested pairs a reviewer marked as not duplicates (item_a_id < item_b_id)
+CREATE TABLE tiger_den.duplicate_dismissals (
+  item_a_id uuid NOT NULL REFERENCES tiger_den.content_items(id) ON DELETE CASCADE,
+  item_b_id uuid NOT NULL REFERENCES tiger_den.content_items(id) ON DELETE CASCADE,
+  dismissed_by_user_id text REFERENCES tiger_den.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (item_a_id, item_b_id)
+);
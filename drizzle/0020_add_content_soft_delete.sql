@@ -0,0 +1,6 @@
+-- Soft delete: trashed items keep their row (and URL) until restored or purged
+ALTER TABLE tiger_den.content_items ADD COLUMN deleted_at timestamptz;
+ALTER TABLE tiger_den.content_items
+  ADD COLUMN deleted_by_user_id text REFERENCES tiger_den.users(id) ON DELETE SET NULL;
+
+CREATE INDEX content_items_deleted_at_idx ON tiger_den.content_items(deleted_at);
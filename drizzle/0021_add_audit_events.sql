@@ -0,0 +1,21 @@
+-- Audit log: who changed which entity, and how
+CREATE TYPE tiger_den.audit_action AS ENUM ('create', 'update', 'delete', 'run');
+
+CREATE TABLE tiger_den.audit_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  occurred_at timestamptz NOT NULL DEFAULT now(),
+  actor_user_id text REFERENCES tiger_den.users(id) ON DELETE SET NULL,
+  system_actor text,
+  procedure text NOT NULL,
+  action tiger_den.audit_action NOT NULL,
+  entity_type text,
+  entity_id text,
+  entity_label text,
+  changes jsonb
+);
+
+CREATE INDEX audit_events_occurred_at_idx ON tiger_den.audit_events(occurred_at);
+CREATE INDEX audit_events_entity_idx
+  ON tiger_den.audit_events(entity_type, entity_id, occurred_at);
+CREATE INDEX audit_events_actor_idx
+  ON tiger_den.audit_events(actor_user_id, occurred_at);
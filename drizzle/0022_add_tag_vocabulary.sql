@@ -0,0 +1,27 @@
+-- Tag taxonomy. Tags stay free text on content_items.tags; the vocabulary
+-- names the canonical spellings and the synonyms that map onto them.
+CREATE TABLE tiger_den.tag_vocabulary (
+  name text PRIMARY KEY,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Synonyms are matched case-, space- and hyphen-insensitively (see
+-- services/tag-taxonomy.ts); renaming a canonical tag carries them along
+CREATE TABLE tiger_den.tag_synonyms (
+  synonym text PRIMARY KEY,
+  tag text NOT NULL REFERENCES tiger_den.tag_vocabulary(name) ON UPDATE CASCADE ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX tag_synonyms_tag_idx ON tiger_den.tag_synonyms(tag);
+
+-- Admin-editable settings, one JSON value per key
+CREATE TABLE tiger_den.app_settings (
+  key text PRIMARY KEY,
+  value jsonb NOT NULL,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Tag rename/merge rewrites only the items carrying the tag
+CREATE INDEX content_items_tags_idx
+  ON tiger_den.content_items USING gin (tags);
@@ -0,0 +1,12 @@
+-- Named content list filters and sort, private to their owner unless shared
+-- with the team
+CREATE TABLE tiger_den.saved_views (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  owner_user_id text NOT NULL REFERENCES tiger_den.users(id) ON DELETE CASCADE,
+  shared boolean NOT NULL DEFAULT false,
+  state jsonb NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT saved_views_owner_name_unique UNIQUE (owner_user_id, name)
+);
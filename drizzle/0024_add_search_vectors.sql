@@ -0,0 +1,28 @@
+-- Stored full-text search vectors, so keyword search no longer runs
+-- to_tsvector over every chunk at query time. Weights rank matches in the
+-- title (A) above tags (B), the description (C) and body text (D).
+-- Adding a stored generated column rewrites the table once.
+
+-- array_to_string is only STABLE; tags are plain text, so joining them is
+-- safe to use in a generated column
+CREATE FUNCTION tiger_den.tags_to_text(tags text[]) RETURNS text
+  LANGUAGE sql IMMUTABLE PARALLEL SAFE
+  AS $$ SELECT coalesce(array_to_string(tags, ' '), '') $$;
+
+ALTER TABLE tiger_den.content_chunks
+  ADD COLUMN search_vector tsvector
+  GENERATED ALWAYS AS (setweight(to_tsvector('english', chunk_text), 'D')) STORED;
+
+CREATE INDEX content_chunks_search_vector_idx
+  ON tiger_den.content_chunks USING gin (search_vector);
+
+ALTER TABLE tiger_den.content_items
+  ADD COLUMN search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', tiger_den.tags_to_text(tags)), 'B') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'C')
+  ) STORED;
+
+CREATE INDEX content_items_search_vector_idx
+  ON tiger_den.content_items USING gin (search_vector);
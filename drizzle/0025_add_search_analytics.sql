@@ -0,0 +1,47 @@
+-- Search analytics: one row per search request and per click from a result
+-- list to an item. Both are append-only time series, stored as TimescaleDB
+-- hypertables partitioned by week.
+CREATE TABLE tiger_den.search_queries (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  searched_at timestamptz NOT NULL DEFAULT now(),
+  user_id text REFERENCES tiger_den.users(id) ON DELETE SET NULL,
+  query text NOT NULL,
+  -- Content page search mode: metadata, keyword or fullContent
+  mode text NOT NULL,
+  filters jsonb,
+  result_count integer NOT NULL,
+  latency_ms integer NOT NULL,
+  -- Unique indexes on a hypertable must include the time column
+  PRIMARY KEY (id, searched_at)
+);
+
+SELECT create_hypertable(
+  'tiger_den.search_queries',
+  'searched_at',
+  chunk_time_interval => INTERVAL '7 days'
+);
+
+CREATE INDEX search_queries_query_idx
+  ON tiger_den.search_queries (lower(btrim(query)), searched_at DESC);
+
+-- search_id points at search_queries.id; hypertables can't be the target of
+-- a foreign key
+CREATE TABLE tiger_den.search_clicks (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  clicked_at timestamptz NOT NULL DEFAULT now(),
+  search_id uuid NOT NULL,
+  content_item_id uuid NOT NULL REFERENCES tiger_den.content_items(id) ON DELETE CASCADE,
+  -- Zero-based rank of the item in the results
+  position integer NOT NULL,
+  user_id text REFERENCES tiger_den.users(id) ON DELETE SET NULL,
+  PRIMARY KEY (id, clicked_at)
+);
+
+SELECT create_hypertable(
+  'tiger_den.search_clicks',
+  'clicked_at',
+  chunk_time_interval => INTERVAL '7 days'
+);
+
+CREATE INDEX search_clicks_search_id_idx
+  ON tiger_den.search_clicks (search_id, clicked_at DESC);
@@ -0,0 +1,18 @@
+-- Search relevance golden set: queries maintained by admins with the content
+-- items a good search should return, graded 1 (somewhat relevant) to 3 (the
+-- best answer). scripts/evaluate-search.ts scores search modes against it.
+CREATE TABLE tiger_den.search_eval_queries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  query text NOT NULL UNIQUE,
+  notes text,
+  created_by_user_id text REFERENCES tiger_den.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE tiger_den.search_eval_judgments (
+  query_id uuid NOT NULL REFERENCES tiger_den.search_eval_queries(id) ON DELETE CASCADE,
+  content_item_id uuid NOT NULL REFERENCES tiger_den.content_items(id) ON DELETE CASCADE,
+  grade integer NOT NULL CHECK (grade BETWEEN 1 AND 3),
+  PRIMARY KEY (query_id, content_item_id)
+);
@@ -0,0 +1,8 @@
+-- Key cached embeddings by vector size too: the same OpenAI model name can
+-- return different sizes when EMBEDDING_DIMENSIONS changes
+ALTER TABLE tiger_den.embedding_cache ADD COLUMN embedding_dimensions integer;
+UPDATE tiger_den.embedding_cache SET embedding_dimensions = vector_dims(embedding);
+ALTER TABLE tiger_den.embedding_cache ALTER COLUMN embedding_dimensions SET NOT NULL;
+ALTER TABLE tiger_den.embedding_cache DROP CONSTRAINT embedding_cache_pkey;
+ALTER TABLE tiger_den.embedding_cache
+  ADD PRIMARY KEY (embedding_model, embedding_dimensions, chunk_hash);
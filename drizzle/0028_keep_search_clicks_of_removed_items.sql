@@ -0,0 +1,4 @@
+-- Clicks outlive the items they point at: purging the trash or merging
+-- duplicates must not rewrite past click-through rates
+ALTER TABLE tiger_den.search_clicks
+  DROP CONSTRAINT search_clicks_content_item_id_fkey;
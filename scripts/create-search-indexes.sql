@@ -8,10 +8,13 @@ USING bm25(chunk_text)
 WITH (text_config='english');
 
 -- HNSW vector similarity search index (pgvector)
-CREATE INDEX IF NOT EXISTS content_chunks_embedding_idx
+-- The embedding column has no fixed dimension, so index per dimension.
+-- Add one of these for each EMBEDDING_DIMENSIONS in use.
+CREATE INDEX IF NOT EXISTS content_chunks_embedding_1536_idx
 ON tiger_den.content_chunks
-USING hnsw (embedding halfvec_cosine_ops)
-WITH (m = 16, ef_construction = 64);
+USING hnsw ((embedding::halfvec(1536)) halfvec_cosine_ops)
+WITH (m = 16, ef_construction = 64)
+WHERE embedding_dimensions = 1536;
 
 -- Verify indexes created
 SELECT indexname, indexdef
@@ -0,0 +1,157 @@
+/**
+ * Score search against the golden set (Admin → Search Relevance)
+ * Reports mean nDCG@10, MRR@10 and recall@10 for each search mode, for the
+ * configured parameters and for any alternatives given, side by side.
+ * rrfK only changes hybrid results.
+ *
+ * Run with: npx tsx --env-file=.env scripts/evaluate-search.ts
+ *   [--rrf-k 20,60,100] [--candidates 50,100] [--modes keyword,hybrid] [--verbose]
+ */
+
+import {
+  configuredSearchTuning,
+  EVAL_CUTOFF,
+  EVAL_MODES,
+  type EvalMode,
+  type EvalRun,
+  evaluateSearch,
+  type RelevanceScores,
+  type SearchTuning,
+} from "../src/server/services/search-eval";
+
+function readList(flag: string): string[] | undefined {
+  const i = process.argv.indexOf(flag);
+  const value = i === -1 ? undefined : process.argv[i + 1];
+  if (i !== -1 && !value) {
+    throw new Error(`${flag} needs a comma-separated list`);
+  }
+  return value?.split(",").map((part) => part.trim());
+}
+
+function readNumbers(flag: string, fallback: number): number[] {
+  const values = (readList(flag) ?? [String(fallback)]).map(Number);
+  if (values.some((value) => !Number.isInteger(value) || value < 1)) {
+    throw new Error(`${flag} takes positive whole numbers`);
+  }
+  return values;
+}
+
+function readModes(): EvalMode[] {
+  const modes = readList("--modes") ?? [...EVAL_MODES];
+  for (const mode of modes) {
+    if (!(EVAL_MODES as readonly string[]).includes(mode)) {
+      throw new Error(
+        `Unknown mode "${mode}" (expected ${EVAL_MODES.join(", ")})`,
+      );
+    }
+  }
+  return modes as EvalMode[];
+}
+
+/**
+ * Every combination of the given values, with the configured settings first
+ * so the others are compared against it
+ */
+function readTunings(): SearchTuning[] {
+  const baseline = configuredSearchTuning();
+  const candidateValues = readNumbers(
+    "--candidates",
+    baseline.candidatesPerSearch,
+  );
+  const tunings = [baseline];
+  for (const rrfK of readNumbers("--rrf-k", baseline.rrfK)) {
+    for (const candidatesPerSearch of candidateValues) {
+      const exists = tunings.some(
+        (t) => t.rrfK === rrfK && t.candidatesPerSearch === candidatesPerSearch,
+      );
+      if (!exists) tunings.push({ rrfK, candidatesPerSearch });
+    }
+  }
+  return tunings;
+}
+
+function tuningLabel(tuning: SearchTuning) {
+  return `rrfK=${tuning.rrfK} candidates=${tuning.candidatesPerSearch}`;
+}
+
+function formatScore(value: number, baseline?: number) {
+  const score = value.toFixed(3);
+  if (baseline === undefined) return score.padEnd(14);
+  const delta = value - baseline;
+  const sign = delta > 0 ? "+" : delta < 0 ? "-" : "±";
+  return `${score} (${sign}${Math.abs(delta).toFixed(3)})`.padEnd(14);
+}
+
+function printScores(
+  label: string,
+  scores: RelevanceScores,
+  baseline?: RelevanceScores,
+) {
+  console.log(
+    `  ${label.padEnd(36)} ${formatScore(scores.ndcg, baseline?.ndcg)}  ${formatScore(scores.mrr, baseline?.mrr)}  ${formatScore(scores.recall, baseline?.recall)}`,
+  );
+}
+
+function printMode(mode: EvalMode, runs: EvalRun[], verbose: boolean) {
+  const [baseline, ...others] = runs;
+  if (!baseline) return;
+
+  console.log(`\n${mode.toUpperCase()}`);
+  console.log(
+    `  ${"".padEnd(36)} ${`nDCG@${EVAL_CUTOFF}`.padEnd(14)}  ${`MRR@${EVAL_CUTOFF}`.padEnd(14)}  Recall@${EVAL_CUTOFF}`,
+  );
+  printScores(`${tuningLabel(baseline.tuning)} (configured)`, baseline.mean);
+  for (const run of others) {
+    printScores(tuningLabel(run.tuning), run.mean, baseline.mean);
+  }
+
+  if (verbose) {
+    for (const run of runs) {
+      console.log(`\n  Per query, ${tuningLabel(run.tuning)}:`);
+      for (const { query, scores } of run.perQuery) {
+        printScores(`  ${query.slice(0, 34)}`, scores);
+      }
+    }
+  }
+}
+
+async function main() {
+  const tunings = readTunings();
+  const modes = readModes();
+  const verbose = process.argv.includes("--verbose");
+
+  console.log(
+    `🎯 Evaluating ${modes.join(", ")} search under ${tunings.length} ${tunings.length === 1 ? "setting" : "settings"}...`,
+  );
+
+  const { evaluated, skipped, runs } = await evaluateSearch(tunings, modes);
+
+  if (evaluated === 0) {
+    console.log(
+      "\nNo golden queries with relevant items yet. Add some under Admin → Search Relevance.",
+    );
+    process.exit(0);
+  }
+
+  console.log(`\n${evaluated} ${evaluated === 1 ? "query" : "queries"} scored`);
+  for (const mode of modes) {
+    printMode(
+      mode,
+      runs.filter((run) => run.mode === mode),
+      verbose,
+    );
+  }
+
+  if (skipped.length > 0) {
+    console.log(
+      `\n⚠️  Skipped (no relevant items judged): ${skipped.join(", ")}`,
+    );
+  }
+
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error("Search evaluation failed:", error);
+  process.exit(1);
+});
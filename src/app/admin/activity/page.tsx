@@ -0,0 +1,243 @@
+"use client";
+
+import { addDays, format } from "date-fns";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import Link from "next/link";
+import { useState } from "react";
+import {
+  AUDIT_ENTITY_LABELS,
+  AuditChangeList,
+  type AuditEvent,
+  auditActionLabel,
+  auditActorLabel,
+} from "~/components/audit-changes";
+import { PageHeader } from "~/components/page-header";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { Card, CardContent } from "~/components/ui/card";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { Loading } from "~/components/ui/loading";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import { api, type RouterInputs } from "~/trpc/react";
+
+type EntityType = NonNullable<RouterInputs["audit"]["list"]["entityType"]>;
+
+const pageSize = 50;
+
+// Start of a yyyy-mm-dd date in local time, as an ISO timestamp
+function startOfDate(date: string, addDaysCount = 0) {
+  return addDays(new Date(`${date}T00:00:00`), addDaysCount).toISOString();
+}
+
+function EntityCell({ event }: { event: AuditEvent }) {
+  const label = event.entityLabel ?? event.entityId;
+  return (
+    <div className="space-y-0.5">
+      {event.entityType && (
+        <span className="block text-muted-foreground text-xs">
+          {AUDIT_ENTITY_LABELS[event.entityType] ?? event.entityType}
+        </span>
+      )}
+      {label &&
+        (event.entityType === "content" && event.action !== "delete" ? (
+          <Link
+            className="font-medium hover:underline"
+            href={`/content/${event.entityId}`}
+          >
+            {label}
+          </Link>
+        ) : (
+          <span className="font-medium">{label}</span>
+        ))}
+      <span className="block font-mono text-muted-foreground text-xs">
+        {event.procedure}
+      </span>
+    </div>
+  );
+}
+
+export default function ActivityPage() {
+  const [actor, setActor] = useState("all");
+  const [entityType, setEntityType] = useState<EntityType | "all">("all");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [page, setPage] = useState(0);
+
+  const { data: users } = api.users.list.useQuery();
+  const { data, isLoading } = api.audit.list.useQuery({
+    actor: actor === "all" ? undefined : actor,
+    entityType: entityType === "all" ? undefined : entityType,
+    from: fromDate ? startOfDate(fromDate) : undefined,
+    // Inclusive of the whole "to" day
+    to: toDate ? startOfDate(toDate, 1) : undefined,
+    limit: pageSize,
+    offset: page * pageSize,
+  });
+
+  const total = data?.total ?? 0;
+  const hasMore = (page + 1) * pageSize < total;
+
+  // Any filter change starts again from the first page
+  const filterChanged = <T,>(set: (value: T) => void, value: T) => {
+    set(value);
+    setPage(0);
+  };
+
+  return (
+    <div className="space-y-6 p-6">
+      <PageHeader
+        description="Every change to content, campaigns and settings: who made it, when, and which fields changed. Syncs and CSV imports appear as system actors."
+        title="Activity"
+      />
+
+      <div className="flex flex-wrap items-end gap-4">
+        <div>
+          <Label className="mb-1 block text-sm">User</Label>
+          <Select
+            onValueChange={(value) => filterChanged(setActor, value)}
+            value={actor}
+          >
+            <SelectTrigger className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Everyone</SelectItem>
+              <SelectItem value="system">System (syncs and imports)</SelectItem>
+              {users?.map((user) => (
+                <SelectItem key={user.id} value={user.id}>
+                  {user.name ?? user.email}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label className="mb-1 block text-sm">Entity</Label>
+          <Select
+            onValueChange={(value) =>
+              filterChanged(setEntityType, value as EntityType | "all")
+            }
+            value={entityType}
+          >
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All entities</SelectItem>
+              {Object.entries(AUDIT_ENTITY_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label className="mb-1 block text-sm">From</Label>
+          <Input
+            className="w-44"
+            onChange={(e) => filterChanged(setFromDate, e.target.value)}
+            type="date"
+            value={fromDate}
+          />
+        </div>
+        <div>
+          <Label className="mb-1 block text-sm">To</Label>
+          <Input
+            className="w-44"
+            onChange={(e) => filterChanged(setToDate, e.target.value)}
+            type="date"
+            value={toDate}
+          />
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          {isLoading ? (
+            <Loading message="Loading activity..." />
+          ) : !data || data.events.length === 0 ? (
+            <p className="text-muted-foreground text-sm">
+              No activity matches these filters.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[150px]">When</TableHead>
+                  <TableHead className="w-[180px]">Who</TableHead>
+                  <TableHead className="w-[130px]">Action</TableHead>
+                  <TableHead className="w-[260px]">Entity</TableHead>
+                  <TableHead>Changes</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.events.map((event) => (
+                  <TableRow key={event.id}>
+                    <TableCell className="align-top text-sm">
+                      {format(event.occurredAt, "MMM d, yyyy HH:mm")}
+                    </TableCell>
+                    <TableCell className="align-top text-sm">
+                      {auditActorLabel(event)}
+                    </TableCell>
+                    <TableCell className="align-top">
+                      <Badge variant="outline">{auditActionLabel(event)}</Badge>
+                    </TableCell>
+                    <TableCell className="align-top text-sm">
+                      <EntityCell event={event} />
+                    </TableCell>
+                    <TableCell className="align-top">
+                      {event.action === "update" && (
+                        <AuditChangeList event={event} />
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {(page > 0 || hasMore) && (
+        <div className="flex items-center justify-end gap-2">
+          <span className="text-muted-foreground text-sm">
+            {page * pageSize + 1}–{Math.min((page + 1) * pageSize, total)} of{" "}
+            {total}
+          </span>
+          <Button
+            disabled={page === 0}
+            onClick={() => setPage((p) => Math.max(0, p - 1))}
+            size="icon"
+            variant="outline"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button
+            disabled={!hasMore}
+            onClick={() => setPage((p) => p + 1)}
+            size="icon"
+            variant="outline"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
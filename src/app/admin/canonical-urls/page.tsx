@@ -0,0 +1,191 @@
+"use client";
+
+import { CheckCircle, CopyCheck, Files, Wand2 } from "lucide-react";
+import Link from "next/link";
+import { useState } from "react";
+import { toast } from "sonner";
+import { PageHeader } from "~/components/page-header";
+import { StatCard } from "~/components/stat-card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "~/components/ui/alert-dialog";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import { api } from "~/trpc/react";
+
+export default function CanonicalUrlsPage() {
+  const [applyDialogOpen, setApplyDialogOpen] = useState(false);
+  const {
+    data: audit,
+    isLoading,
+    refetch,
+  } = api.canonicalUrls.audit.useQuery();
+
+  const applyMutation = api.canonicalUrls.apply.useMutation({
+    onSuccess: (result) => {
+      toast.success(result.message);
+      setApplyDialogOpen(false);
+      void refetch();
+    },
+    onError: (error) => {
+      toast.error(`Failed to update URLs: ${error.message}`);
+    },
+  });
+
+  const fixableCount = audit?.fixable.length ?? 0;
+  const collisionCount = audit?.collisions.length ?? 0;
+
+  return (
+    <div className="space-y-6 p-6">
+      <PageHeader
+        actions={
+          <Button
+            disabled={fixableCount === 0 || applyMutation.isPending}
+            onClick={() => setApplyDialogOpen(true)}
+            size="sm"
+            variant="outline"
+          >
+            <Wand2 className="mr-2 h-4 w-4" />
+            Canonicalize {fixableCount} URLs
+          </Button>
+        }
+        description="New and synced URLs are canonicalized automatically (host, www, trailing slash, tracking parameters, YouTube links). This audit covers items stored before that."
+        title="Canonical URLs"
+      />
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <StatCard
+          accentColor="teal"
+          icon={CheckCircle}
+          label="Items"
+          value={audit?.totalItems ?? 0}
+        />
+        <StatCard
+          accentColor="yellow"
+          icon={CopyCheck}
+          label="Non-canonical URLs"
+          value={fixableCount}
+        />
+        <StatCard
+          accentColor={collisionCount > 0 ? "red" : undefined}
+          icon={Files}
+          label="Colliding URL Groups"
+          value={collisionCount}
+        />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Collisions</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-muted-foreground text-sm">Loading...</p>
+          ) : collisionCount === 0 ? (
+            <p className="text-muted-foreground text-sm">
+              No items collide under the canonical URL rules.
+            </p>
+          ) : (
+            <>
+              <p className="mb-4 text-muted-foreground text-sm">
+                These items are the same page under different URLs. They are
+                left unchanged by the fix above; merge them on the{" "}
+                <Link className="underline" href="/admin/duplicates">
+                  Duplicates
+                </Link>{" "}
+                page. Items in the trash still hold their URLs: restore or purge
+                them first.
+              </p>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Canonical URL</TableHead>
+                    <TableHead>Items</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {audit?.collisions.map((collision) => (
+                    <TableRow key={collision.canonicalUrl}>
+                      <TableCell className="break-all align-top font-medium text-sm">
+                        {collision.canonicalUrl}
+                      </TableCell>
+                      <TableCell>
+                        <ul className="space-y-2">
+                          {collision.items.map((item) => (
+                            <li key={item.id}>
+                              <Link
+                                className="hover:underline"
+                                href={
+                                  item.trashed
+                                    ? "/trash"
+                                    : `/content/${item.id}`
+                                }
+                              >
+                                {item.title}
+                              </Link>
+                              <Badge className="ml-2" variant="outline">
+                                {item.source}
+                              </Badge>
+                              {item.trashed && (
+                                <Badge className="ml-2" variant="secondary">
+                                  In trash
+                                </Badge>
+                              )}
+                              <span className="block break-all text-muted-foreground text-xs">
+                                {item.currentUrl}
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog onOpenChange={setApplyDialogOpen} open={applyDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Canonicalize {fixableCount} URLs?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Each item moves to its canonical URL and keeps the old one in its
+              URL history, so redirects and lookups still find it. Colliding
+              items are not changed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={applyMutation.isPending}
+              onClick={() => applyMutation.mutate()}
+            >
+              {applyMutation.isPending ? "Updating..." : "Canonicalize"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
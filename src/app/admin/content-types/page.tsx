@@ -15,6 +15,13 @@ import {
 } from "~/components/ui/alert-dialog";
 import { Button } from "~/components/ui/button";
 import { PageHeader } from "~/components/page-header";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
 import {
   Table,
   TableBody,
@@ -27,6 +34,14 @@ import { ContentTypeBadge } from "~/app/content/_components/content-badge";
 import { api } from "~/trpc/react";
 import { ContentTypeFormDialog } from "./_components/content-type-form-dialog";
 
+// Re-crawl interval choices in days ("never" = not re-crawled)
+const RECRAWL_OPTIONS = [
+  { value: "never", label: "Never" },
+  { value: "1", label: "Daily" },
+  { value: "7", label: "Weekly" },
+  { value: "30", label: "Monthly" },
+] as const;
+
 export default function ContentTypesPage() {
   const [showAddDialog, setShowAddDialog] = useState(false);
   const [editingTypeId, setEditingTypeId] = useState<number | null>(null);
@@ -50,6 +65,16 @@ export default function ContentTypesPage() {
     },
   });
 
+  const recrawlMutation = api.contentTypes.setRecrawlInterval.useMutation({
+    onSuccess: () => {
+      void utils.contentTypes.list.invalidate();
+      toast.success("Re-crawl interval updated");
+    },
+    onError: (error) => {
+      toast.error(error.message ?? "Failed to update re-crawl interval");
+    },
+  });
+
   const reassignAndDeleteMutation =
     api.contentTypes.reassignAndDelete.useMutation({
       onSuccess: () => {
@@ -123,6 +148,7 @@ export default function ContentTypesPage() {
               <TableHead>Slug</TableHead>
               <TableHead>Badge Preview</TableHead>
               <TableHead>Type</TableHead>
+              <TableHead>Re-crawl</TableHead>
               <TableHead className="text-right">Actions</TableHead>
             </TableRow>
           </TableHeader>
@@ -145,6 +171,41 @@ export default function ContentTypesPage() {
                     <span className="text-muted-foreground text-xs">Custom</span>
                   )}
                 </TableCell>
+                <TableCell>
+                  <Select
+                    disabled={recrawlMutation.isPending}
+                    onValueChange={(value) =>
+                      recrawlMutation.mutate({
+                        id: type.id,
+                        recrawlIntervalDays:
+                          value === "never" ? null : Number(value),
+                      })
+                    }
+                    value={type.recrawlIntervalDays?.toString() ?? "never"}
+                  >
+                    <SelectTrigger
+                      aria-label={`Re-crawl interval for ${type.name}`}
+                      className="h-8 w-[120px]"
+                    >
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {RECRAWL_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                      {type.recrawlIntervalDays !== null &&
+                        !RECRAWL_OPTIONS.some(
+                          (o) => o.value === type.recrawlIntervalDays?.toString(),
+                        ) && (
+                          <SelectItem value={type.recrawlIntervalDays.toString()}>
+                            Every {type.recrawlIntervalDays} days
+                          </SelectItem>
+                        )}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
                 <TableCell className="text-right">
                   <div className="flex justify-end gap-2">
                     <Button
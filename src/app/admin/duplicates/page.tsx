@@ -0,0 +1,302 @@
+"use client";
+
+import { format } from "date-fns";
+import { Copy, GitMerge, Link2, Sparkles, X } from "lucide-react";
+import Link from "next/link";
+import { useState } from "react";
+import { toast } from "sonner";
+import { PageHeader } from "~/components/page-header";
+import { StatCard } from "~/components/stat-card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "~/components/ui/alert-dialog";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
+import { Label } from "~/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "~/components/ui/radio-group";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import { api, type RouterOutputs } from "~/trpc/react";
+
+type Candidate =
+  RouterOutputs["duplicates"]["candidates"]["candidates"][number];
+type CandidateItem = Candidate["items"][number];
+
+const REASON_LABELS: Record<Candidate["reasons"][number], string> = {
+  same_url: "Same canonical URL",
+  same_text: "Identical text",
+  similar_embedding: "Near-identical text",
+  similar_url: "Same URL slug",
+};
+
+function pairKey(candidate: Candidate) {
+  return candidate.items.map((item) => item.id).join(":");
+}
+
+function ItemSummary({ item }: { item: CandidateItem }) {
+  return (
+    <div className="space-y-1">
+      <Link
+        className="font-medium hover:underline"
+        href={`/content/${item.id}`}
+      >
+        {item.title}
+      </Link>
+      <span className="block break-all text-muted-foreground text-xs">
+        {item.currentUrl}
+      </span>
+      <div className="flex flex-wrap items-center gap-1 text-muted-foreground text-xs">
+        <Badge variant="outline">{item.source.replace("_", " ")}</Badge>
+        {item.contentTypeName && (
+          <Badge variant="outline">{item.contentTypeName}</Badge>
+        )}
+        <span>
+          {item.wordCount !== null
+            ? `${item.wordCount.toLocaleString()} words`
+            : "Not indexed"}
+          {" · "}added {format(item.createdAt, "MMM d, yyyy")}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+function MergeDialog({
+  candidate,
+  onClose,
+  onMerged,
+}: {
+  candidate: Candidate;
+  onClose: () => void;
+  onMerged: () => void;
+}) {
+  const [survivorId, setSurvivorId] = useState(candidate.suggestedSurvivorId);
+  const duplicate = candidate.items.find((item) => item.id !== survivorId);
+
+  const mergeMutation = api.content.merge.useMutation({
+    onSuccess: (result) => {
+      toast.success(`Merged "${result.mergedTitle}"`);
+      onMerged();
+    },
+    onError: (error) => {
+      toast.error(`Merge failed: ${error.message}`);
+    },
+  });
+
+  return (
+    <AlertDialog onOpenChange={(open) => !open && onClose()} open>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Merge duplicate items?</AlertDialogTitle>
+          <AlertDialogDescription>
+            Pick the item to keep. The other item is deleted; its tags,
+            campaigns, URLs and API links move to the kept item, and its URL
+            redirects there. The merge is recorded in the kept item&apos;s
+            history.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <RadioGroup onValueChange={setSurvivorId} value={survivorId}>
+          {candidate.items.map((item) => (
+            <div className="flex items-start gap-3" key={item.id}>
+              <RadioGroupItem
+                className="mt-1"
+                id={`survivor-${item.id}`}
+                value={item.id}
+              />
+              <Label
+                className="block cursor-pointer font-normal"
+                htmlFor={`survivor-${item.id}`}
+              >
+                <span className="font-medium">{item.title}</span>
+                {item.hasApiId && (
+                  <Badge className="ml-2" variant="secondary">
+                    API linked
+                  </Badge>
+                )}
+                <span className="block break-all text-muted-foreground text-xs">
+                  {item.currentUrl}
+                </span>
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            disabled={mergeMutation.isPending || !duplicate}
+            onClick={(e) => {
+              e.preventDefault();
+              if (duplicate) {
+                mergeMutation.mutate({ survivorId, duplicateId: duplicate.id });
+              }
+            }}
+          >
+            {mergeMutation.isPending ? "Merging..." : "Merge"}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
+
+export default function DuplicatesPage() {
+  const [merging, setMerging] = useState<Candidate | null>(null);
+  const { data, isLoading, refetch } = api.duplicates.candidates.useQuery({});
+
+  const dismissMutation = api.duplicates.dismiss.useMutation({
+    onSuccess: () => {
+      toast.success("Pair dismissed");
+      void refetch();
+    },
+    onError: (error) => {
+      toast.error(`Failed to dismiss: ${error.message}`);
+    },
+  });
+
+  const candidates = data?.candidates ?? [];
+  const countWith = (...reasons: Candidate["reasons"]) =>
+    candidates.filter((candidate) =>
+      candidate.reasons.some((reason) => reasons.includes(reason)),
+    ).length;
+
+  return (
+    <div className="space-y-6 p-6">
+      <PageHeader
+        description="Items that look like the same page, by canonical URL, identical or near-identical indexed text, and shared URL slugs. Merge them into one item, or dismiss pairs that are distinct."
+        title="Duplicates"
+      />
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <StatCard
+          accentColor={(data?.total ?? 0) > 0 ? "yellow" : undefined}
+          icon={Copy}
+          label="Suggested Pairs"
+          value={data?.total ?? 0}
+        />
+        <StatCard
+          accentColor="purple"
+          icon={Sparkles}
+          label="Matching Text"
+          value={countWith("same_text", "similar_embedding")}
+        />
+        <StatCard
+          accentColor="teal"
+          icon={Link2}
+          label="Matching URLs"
+          value={countWith("same_url", "similar_url")}
+        />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Suggested Pairs</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-muted-foreground text-sm">Loading...</p>
+          ) : candidates.length === 0 ? (
+            <p className="text-muted-foreground text-sm">
+              No likely duplicates found.
+            </p>
+          ) : (
+            <>
+              {data && data.total > candidates.length && (
+                <p className="mb-4 text-muted-foreground text-sm">
+                  Showing the {candidates.length} strongest of {data.total}{" "}
+                  pairs.
+                </p>
+              )}
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[200px]">Evidence</TableHead>
+                    <TableHead>Item</TableHead>
+                    <TableHead>Item</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {candidates.map((candidate) => (
+                    <TableRow key={pairKey(candidate)}>
+                      <TableCell className="align-top">
+                        <div className="flex flex-wrap gap-1">
+                          {candidate.reasons.map((reason) => (
+                            <Badge key={reason} variant="secondary">
+                              {REASON_LABELS[reason]}
+                            </Badge>
+                          ))}
+                        </div>
+                        {candidate.similarity !== null && (
+                          <span className="mt-1 block text-muted-foreground text-xs">
+                            {(candidate.similarity * 100).toFixed(1)}% similar
+                          </span>
+                        )}
+                      </TableCell>
+                      {candidate.items.map((item) => (
+                        <TableCell className="align-top" key={item.id}>
+                          <ItemSummary item={item} />
+                        </TableCell>
+                      ))}
+                      <TableCell className="text-right align-top">
+                        <div className="flex justify-end gap-1">
+                          <Button
+                            onClick={() => setMerging(candidate)}
+                            size="sm"
+                            variant="outline"
+                          >
+                            <GitMerge className="mr-2 h-4 w-4" />
+                            Merge
+                          </Button>
+                          <Button
+                            disabled={dismissMutation.isPending}
+                            onClick={() =>
+                              dismissMutation.mutate({
+                                itemId: candidate.items[0].id,
+                                otherItemId: candidate.items[1].id,
+                              })
+                            }
+                            size="sm"
+                            title="Not duplicates"
+                            variant="ghost"
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {merging && (
+        <MergeDialog
+          candidate={merging}
+          key={pairKey(merging)}
+          onClose={() => setMerging(null)}
+          onMerged={() => {
+            setMerging(null);
+            void refetch();
+          }}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,402 @@
+"use client";
+
+import {
+  ArrowRight,
+  CheckCircle,
+  ChevronLeft,
+  ChevronRight,
+  CircleDashed,
+  ExternalLink,
+  History,
+  Link2Off,
+  RefreshCw,
+  Repeat,
+} from "lucide-react";
+import Link from "next/link";
+import { useState } from "react";
+import { toast } from "sonner";
+import { ContentTypeBadge } from "~/app/content/_components/content-badge";
+import { PageHeader } from "~/components/page-header";
+import { StatCard } from "~/components/stat-card";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "~/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import { Tabs, TabsList, TabsTrigger } from "~/components/ui/tabs";
+import { api, type RouterOutputs } from "~/trpc/react";
+
+const pageSize = 50;
+
+type ReportKind = "broken" | "redirect";
+type LinkCheck = RouterOutputs["linkHealth"]["history"][number];
+
+const STATUS_LABELS: Record<LinkCheck["status"], string> = {
+  ok: "OK",
+  redirect: "Redirect",
+  broken: "Broken",
+  timeout: "Timeout",
+  error: "Unreachable",
+};
+
+function StatusBadge({
+  status,
+  statusCode,
+}: {
+  status: LinkCheck["status"];
+  statusCode: number | null;
+}) {
+  const label = statusCode
+    ? `${statusCode} ${STATUS_LABELS[status]}`
+    : STATUS_LABELS[status];
+
+  if (status === "ok") {
+    return <Badge variant="secondary">{label}</Badge>;
+  }
+  if (status === "redirect") {
+    return (
+      <Badge className="bg-blue-500 text-white hover:bg-blue-600">
+        {label}
+      </Badge>
+    );
+  }
+  return <Badge variant="destructive">{label}</Badge>;
+}
+
+function LinkHistoryDialog({
+  item,
+  onClose,
+}: {
+  item: { id: string; title: string } | null;
+  onClose: () => void;
+}) {
+  const { data: history, isLoading } = api.linkHealth.history.useQuery(
+    { id: item?.id ?? "" },
+    { enabled: !!item },
+  );
+
+  return (
+    <Dialog onOpenChange={(open) => !open && onClose()} open={!!item}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Link History</DialogTitle>
+          <DialogDescription>{item?.title}</DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <p className="text-muted-foreground text-sm">Loading...</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Checked</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Details</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {history?.map((check) => (
+                <TableRow key={check.id}>
+                  <TableCell className="whitespace-nowrap text-sm">
+                    {check.checkedAt.toLocaleString()}
+                  </TableCell>
+                  <TableCell>
+                    <StatusBadge
+                      status={check.status}
+                      statusCode={check.redirectStatusCode ?? check.statusCode}
+                    />
+                  </TableCell>
+                  <TableCell className="break-all text-muted-foreground text-xs">
+                    {check.redirectUrl
+                      ? `→ ${check.redirectUrl}`
+                      : (check.error ?? `${check.responseTimeMs ?? 0}ms`)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function LinkHealthPage() {
+  const [kind, setKind] = useState<ReportKind>("broken");
+  const [page, setPage] = useState(0);
+  const [historyItem, setHistoryItem] = useState<{
+    id: string;
+    title: string;
+  } | null>(null);
+  const utils = api.useUtils();
+
+  const { data: stats, refetch: refetchStats } =
+    api.linkHealth.getStats.useQuery();
+  const { data, isLoading } = api.linkHealth.report.useQuery({
+    kind,
+    limit: pageSize,
+    offset: page * pageSize,
+  });
+
+  const refresh = () =>
+    Promise.all([
+      utils.linkHealth.getStats.invalidate(),
+      utils.linkHealth.report.invalidate(),
+      utils.linkHealth.history.invalidate(),
+    ]);
+
+  const runNowMutation = api.linkHealth.runNow.useMutation({
+    onSuccess: (result) => {
+      toast.success(result.message);
+      void refetchStats();
+    },
+    onError: (error) => {
+      toast.error(`Failed to start link check: ${error.message}`);
+    },
+  });
+
+  const recheckMutation = api.linkHealth.recheck.useMutation({
+    onSuccess: async (result) => {
+      await refresh();
+      toast.success(
+        `Link is ${STATUS_LABELS[result.status].toLowerCase()}${result.statusCode ? ` (${result.statusCode})` : ""}`,
+      );
+    },
+    onError: (error) => {
+      toast.error(`Check failed: ${error.message}`);
+    },
+  });
+
+  const applyMutation = api.linkHealth.applySuggestion.useMutation({
+    onSuccess: async (result) => {
+      await Promise.all([refresh(), utils.content.list.invalidate()]);
+      toast.success(`URL updated to ${result?.currentUrl}`);
+    },
+    onError: (error) => {
+      toast.error(`Failed to update URL: ${error.message}`);
+    },
+  });
+
+  const items = data?.items ?? [];
+
+  return (
+    <div className="space-y-6 p-6">
+      <PageHeader
+        actions={
+          <Button
+            disabled={!stats?.due || runNowMutation.isPending}
+            onClick={() => runNowMutation.mutate()}
+            size="sm"
+            variant="outline"
+          >
+            <RefreshCw className="mr-2 h-4 w-4" />
+            {runNowMutation.isPending
+              ? "Queueing..."
+              : `Check Due Links (${stats?.due ?? 0})`}
+          </Button>
+        }
+        description="Every content URL is checked weekly. Permanent redirects come with a suggested URL update."
+        title="Link Health"
+      />
+
+      <div className="grid gap-4 md:grid-cols-4">
+        <StatCard
+          accentColor="teal"
+          icon={CheckCircle}
+          label="OK"
+          value={stats?.ok ?? 0}
+        />
+        <StatCard
+          accentColor="purple"
+          icon={Repeat}
+          label={`Redirected (${stats?.suggestedUpdates ?? 0} suggested updates)`}
+          value={stats?.redirect ?? 0}
+        />
+        <StatCard
+          accentColor="red"
+          icon={Link2Off}
+          label="Broken"
+          value={stats?.broken ?? 0}
+        />
+        <StatCard
+          icon={CircleDashed}
+          label="Not Checked Yet"
+          value={stats?.unchecked ?? 0}
+        />
+      </div>
+
+      <Tabs
+        onValueChange={(value) => {
+          setKind(value as ReportKind);
+          setPage(0);
+        }}
+        value={kind}
+      >
+        <TabsList>
+          <TabsTrigger value="broken">Broken</TabsTrigger>
+          <TabsTrigger value="redirect">Redirected</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {isLoading ? (
+        <p className="text-muted-foreground text-sm">Loading...</p>
+      ) : items.length === 0 ? (
+        <div className="rounded-lg border border-dashed p-8 text-center">
+          <p className="text-muted-foreground">
+            {kind === "broken"
+              ? "No broken links found."
+              : "No redirected links found."}
+          </p>
+        </div>
+      ) : (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Title</TableHead>
+                <TableHead className="w-[140px]">Type</TableHead>
+                <TableHead className="w-[160px]">Status</TableHead>
+                <TableHead>
+                  {kind === "broken" ? "Error" : "Redirects To"}
+                </TableHead>
+                <TableHead className="w-[180px]">Checked</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map((item) => (
+                <TableRow key={item.id}>
+                  <TableCell>
+                    <div className="flex flex-col gap-1">
+                      <Link
+                        className="font-medium hover:underline"
+                        href={`/content/${item.id}`}
+                      >
+                        {item.title}
+                      </Link>
+                      <a
+                        className="flex items-center gap-1 break-all text-muted-foreground text-xs hover:underline"
+                        href={item.currentUrl}
+                        rel="noopener noreferrer"
+                        target="_blank"
+                      >
+                        {item.currentUrl}
+                        <ExternalLink className="h-3 w-3 shrink-0" />
+                      </a>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <ContentTypeBadge type={item.contentTypeRel} />
+                  </TableCell>
+                  <TableCell>
+                    {item.linkStatus && (
+                      <StatusBadge
+                        status={item.linkStatus}
+                        statusCode={
+                          item.lastCheck?.redirectStatusCode ??
+                          item.lastCheck?.statusCode ??
+                          null
+                        }
+                      />
+                    )}
+                  </TableCell>
+                  <TableCell className="break-all text-sm">
+                    {kind === "broken" ? (
+                      <span className="text-muted-foreground">
+                        {item.lastCheck?.error}
+                      </span>
+                    ) : (
+                      <div className="flex flex-col gap-1">
+                        <span>{item.lastCheck?.redirectUrl}</span>
+                        <span className="text-muted-foreground text-xs">
+                          {item.suggestedUrl
+                            ? "Permanent redirect"
+                            : "Temporary redirect"}
+                        </span>
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground text-sm">
+                    {item.linkCheckedAt?.toLocaleString()}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex justify-end gap-1">
+                      {item.suggestedUrl && (
+                        <Button
+                          disabled={applyMutation.isPending}
+                          onClick={() => applyMutation.mutate({ id: item.id })}
+                          size="sm"
+                          title={`Update URL to ${item.suggestedUrl}`}
+                          variant="outline"
+                        >
+                          <ArrowRight className="mr-1 h-4 w-4" />
+                          Update URL
+                        </Button>
+                      )}
+                      <Button
+                        disabled={recheckMutation.isPending}
+                        onClick={() => recheckMutation.mutate({ id: item.id })}
+                        size="sm"
+                        title="Check again now"
+                        variant="ghost"
+                      >
+                        <RefreshCw className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        onClick={() =>
+                          setHistoryItem({ id: item.id, title: item.title })
+                        }
+                        size="sm"
+                        title="Status history"
+                        variant="ghost"
+                      >
+                        <History className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {(page > 0 || data?.hasMore) && (
+        <div className="flex items-center justify-end gap-1">
+          <Button
+            disabled={page === 0}
+            onClick={() => setPage((p) => Math.max(0, p - 1))}
+            size="icon"
+            variant="outline"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button
+            disabled={!data?.hasMore}
+            onClick={() => setPage((p) => p + 1)}
+            size="icon"
+            variant="outline"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+
+      <LinkHistoryDialog
+        item={historyItem}
+        onClose={() => setHistoryItem(null)}
+      />
+    </div>
+  );
+}
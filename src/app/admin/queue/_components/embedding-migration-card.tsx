@@ -0,0 +1,281 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "~/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { Progress } from "~/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { api, type RouterInputs, type RouterOutputs } from "~/trpc/react";
+
+type ProviderSpec = RouterInputs["queue"]["startEmbeddingMigration"];
+type Estimate = RouterOutputs["queue"]["estimateEmbeddingMigration"];
+
+const PROVIDER_LABELS: Record<ProviderSpec["provider"], string> = {
+  openai: "OpenAI",
+  "openai-compatible": "OpenAI-compatible (local)",
+  deterministic: "Deterministic (offline)",
+};
+
+function formatCost(usd: number | null): string {
+  if (usd === null) return "n/a";
+  return usd < 0.01 && usd > 0 ? "< $0.01" : `$${usd.toFixed(2)}`;
+}
+
+export function EmbeddingMigrationCard() {
+  const utils = api.useUtils();
+  const [provider, setProvider] = useState<ProviderSpec["provider"]>("openai");
+  const [model, setModel] = useState("");
+  const [dimensions, setDimensions] = useState("");
+  const [baseUrl, setBaseUrl] = useState("");
+  const [estimate, setEstimate] = useState<Estimate | null>(null);
+  const [isEstimating, setIsEstimating] = useState(false);
+
+  const { data: status, refetch } = api.queue.getEmbeddingMigration.useQuery(
+    undefined,
+    { refetchInterval: 5000 },
+  );
+
+  const spec: ProviderSpec = {
+    provider,
+    model: model.trim() || undefined,
+    dimensions: dimensions ? Number.parseInt(dimensions, 10) : undefined,
+    baseUrl:
+      provider === "openai-compatible" && baseUrl.trim()
+        ? baseUrl.trim()
+        : undefined,
+  };
+
+  const startMutation = api.queue.startEmbeddingMigration.useMutation({
+    onSuccess: (data) => {
+      toast.success(data.message);
+      setEstimate(null);
+      void refetch();
+    },
+    onError: (error) => {
+      toast.error(`Failed to start migration: ${error.message}`);
+    },
+  });
+
+  const resumeMutation = api.queue.resumeEmbeddingMigration.useMutation({
+    onSuccess: (data) => toast.success(data.message),
+    onError: (error) => {
+      toast.error(`Failed to resume migration: ${error.message}`);
+    },
+  });
+
+  const cancelMutation = api.queue.cancelEmbeddingMigration.useMutation({
+    onSuccess: (data) => {
+      toast.success(data.message);
+      void refetch();
+    },
+    onError: (error) => {
+      toast.error(`Failed to cancel migration: ${error.message}`);
+    },
+  });
+
+  const handleEstimate = async () => {
+    setIsEstimating(true);
+    try {
+      setEstimate(await utils.queue.estimateEmbeddingMigration.fetch(spec));
+    } catch (error) {
+      setEstimate(null);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to estimate migration",
+      );
+    } finally {
+      setIsEstimating(false);
+    }
+  };
+
+  const migration = status?.migration;
+  const running = migration?.status === "running" ? migration : null;
+  const percent =
+    running && running.totalChunks > 0
+      ? Math.min(100, (running.processedChunks / running.totalChunks) * 100)
+      : 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Embedding Model</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm">
+          <span className="text-muted-foreground">Active model: </span>
+          {status?.activeModel ? (
+            <span className="font-mono">{status.activeModel}</span>
+          ) : (
+            <span className="text-destructive">
+              {status?.activeModelError ?? "..."}
+            </span>
+          )}
+        </p>
+
+        {running ? (
+          <div className="space-y-3">
+            <p className="text-sm">
+              Migrating to{" "}
+              <span className="font-mono">{running.targetModel}</span>
+              {running.sweeping && " (picking up changed and failed chunks)"}
+            </p>
+            <Progress value={percent} />
+            <div className="grid grid-cols-2 gap-2 text-muted-foreground text-sm">
+              <span>
+                {running.processedChunks.toLocaleString()} of{" "}
+                {running.totalChunks.toLocaleString()} chunks (
+                {percent.toFixed(0)}%)
+              </span>
+              <span>{running.failedChunks.toLocaleString()} failed</span>
+              <span>
+                {running.processedTokens.toLocaleString()} of{" "}
+                {running.totalTokens.toLocaleString()} tokens
+              </span>
+              <span>
+                Cost: {formatCost(running.spentCostUsd)} of est.{" "}
+                {formatCost(running.estimatedCostUsd)}
+              </span>
+            </div>
+            {running.lastError && (
+              <p className="text-destructive text-sm">
+                Last error: {running.lastError}
+              </p>
+            )}
+            <p className="text-muted-foreground text-xs">
+              Search keeps using the active model until every chunk has been
+              re-embedded, then switches over in one step.
+            </p>
+            <div className="flex gap-3">
+              <Button
+                disabled={resumeMutation.isPending}
+                onClick={() => resumeMutation.mutate({ id: running.id })}
+                variant="outline"
+              >
+                Resume
+              </Button>
+              <Button
+                disabled={cancelMutation.isPending}
+                onClick={() => cancelMutation.mutate({ id: running.id })}
+                variant="outline"
+              >
+                {cancelMutation.isPending
+                  ? "Cancelling..."
+                  : "Cancel Migration"}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {migration && (
+              <p className="text-muted-foreground text-sm">
+                Last migration to{" "}
+                <span className="font-mono">{migration.targetModel}</span>{" "}
+                {migration.status}
+                {migration.failedChunks > 0 &&
+                  ` (${migration.failedChunks} chunks failed)`}
+              </p>
+            )}
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="space-y-1">
+                <Label>Provider</Label>
+                <Select
+                  onValueChange={(v) => {
+                    setProvider(v as ProviderSpec["provider"]);
+                    setEstimate(null);
+                  }}
+                  value={provider}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(PROVIDER_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="embedding-model">Model</Label>
+                <Input
+                  id="embedding-model"
+                  onChange={(e) => {
+                    setModel(e.target.value);
+                    setEstimate(null);
+                  }}
+                  placeholder={
+                    provider === "openai" ? "text-embedding-3-small" : ""
+                  }
+                  value={model}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="embedding-dimensions">Dimensions</Label>
+                <Input
+                  id="embedding-dimensions"
+                  min={1}
+                  onChange={(e) => {
+                    setDimensions(e.target.value);
+                    setEstimate(null);
+                  }}
+                  placeholder="1536"
+                  type="number"
+                  value={dimensions}
+                />
+              </div>
+              {provider === "openai-compatible" && (
+                <div className="space-y-1">
+                  <Label htmlFor="embedding-base-url">Base URL</Label>
+                  <Input
+                    id="embedding-base-url"
+                    onChange={(e) => {
+                      setBaseUrl(e.target.value);
+                      setEstimate(null);
+                    }}
+                    placeholder="http://localhost:11434/v1"
+                    value={baseUrl}
+                  />
+                </div>
+              )}
+            </div>
+
+            {estimate && (
+              <div className="rounded-md border p-3 text-sm">
+                Re-embed {estimate.chunks.toLocaleString()} chunks (
+                {estimate.tokens.toLocaleString()} tokens) with{" "}
+                <span className="font-mono">{estimate.targetModel}</span>.
+                Estimated cost: {formatCost(estimate.estimatedCostUsd)}
+              </div>
+            )}
+
+            <div className="flex gap-3">
+              <Button
+                disabled={isEstimating}
+                onClick={() => void handleEstimate()}
+                variant="outline"
+              >
+                {isEstimating ? "Estimating..." : "Estimate"}
+              </Button>
+              <Button
+                disabled={!estimate || startMutation.isPending}
+                onClick={() => startMutation.mutate(spec)}
+              >
+                {startMutation.isPending ? "Starting..." : "Start Migration"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { CheckCircle, CircleDashed, Clock, TriangleAlert, XCircle } from "lucide-react";
+import { CheckCircle, CircleDashed, Clock, Puzzle, TriangleAlert, XCircle } from "lucide-react";
 import { useState } from "react";
 import { toast } from "sonner";
 import {
@@ -23,6 +23,7 @@ import {
 import { PageHeader } from "~/components/page-header";
 import { StatCard } from "~/components/stat-card";
 import { api } from "~/trpc/react";
+import { EmbeddingMigrationCard } from "./_components/embedding-migration-card";
 
 export default function QueueDashboardPage() {
   const [isPaused, setIsPaused] = useState(false);
@@ -80,6 +81,16 @@ export default function QueueDashboardPage() {
     },
   });
 
+  const backfillEmbeddingsMutation = api.queue.backfillEmbeddings.useMutation({
+    onSuccess: (data) => {
+      toast.success(data.message);
+      void refetch();
+    },
+    onError: (error) => {
+      toast.error(`Failed to start embedding backfill: ${error.message}`);
+    },
+  });
+
   const reindexAllMutation = api.queue.reindexAll.useMutation({
     onSuccess: (data) => {
       setReindexResult({
@@ -108,7 +119,7 @@ export default function QueueDashboardPage() {
         <h2 className="mb-3 font-semibold text-muted-foreground text-xs uppercase tracking-wide">
           Content Indexing
         </h2>
-        <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+        <div className="grid grid-cols-2 gap-4 md:grid-cols-5">
           <StatCard
             accentColor="teal"
             icon={CheckCircle}
@@ -133,6 +144,12 @@ export default function QueueDashboardPage() {
             label="Pending"
             value={stats?.pending ?? 0}
           />
+          <StatCard
+            accentColor="purple"
+            icon={Puzzle}
+            label="Chunks Missing Embeddings"
+            value={stats?.missingEmbeddings ?? 0}
+          />
         </div>
       </div>
 
@@ -244,10 +261,29 @@ export default function QueueDashboardPage() {
                   : `Retry Failed (${stats?.failed ?? 0})`}
               </Button>
             </div>
+            <div className="space-y-2">
+              <Button
+                disabled={
+                  !stats?.missingEmbeddings ||
+                  backfillEmbeddingsMutation.isPending
+                }
+                onClick={() => backfillEmbeddingsMutation.mutate()}
+                variant="outline"
+              >
+                {backfillEmbeddingsMutation.isPending
+                  ? "Queueing..."
+                  : `Backfill Embeddings (${stats?.missingEmbeddings ?? 0} chunks)`}
+              </Button>
+              <p className="text-muted-foreground text-xs">
+                Embeds chunks stored without an embedding. Also runs hourly.
+              </p>
+            </div>
           </CardContent>
         </Card>
       </div>
 
+      <EmbeddingMigrationCard />
+
       <p className="text-center text-muted-foreground text-xs">
         Stats auto-refresh every 5 seconds
       </p>
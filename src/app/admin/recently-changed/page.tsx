@@ -0,0 +1,148 @@
+"use client";
+
+import {
+  ChevronLeft,
+  ChevronRight,
+  ExternalLink,
+  RefreshCw,
+} from "lucide-react";
+import Link from "next/link";
+import { useState } from "react";
+import { toast } from "sonner";
+import { ContentTypeBadge } from "~/app/content/_components/content-badge";
+import { PageHeader } from "~/components/page-header";
+import { Button } from "~/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import { api } from "~/trpc/react";
+
+const pageSize = 50;
+
+export default function RecentlyChangedPage() {
+  const [page, setPage] = useState(0);
+
+  const { data, isLoading } = api.recrawl.recentlyChanged.useQuery({
+    limit: pageSize,
+    offset: page * pageSize,
+  });
+  const { data: due, refetch: refetchDue } = api.recrawl.getDueCount.useQuery();
+
+  const runNowMutation = api.recrawl.runNow.useMutation({
+    onSuccess: (result) => {
+      toast.success(result.message);
+      void refetchDue();
+    },
+    onError: (error) => {
+      toast.error(`Failed to start re-crawl: ${error.message}`);
+    },
+  });
+
+  const items = data?.items ?? [];
+
+  return (
+    <div className="space-y-6 p-6">
+      <PageHeader
+        actions={
+          <Button
+            disabled={!due?.count || runNowMutation.isPending}
+            onClick={() => runNowMutation.mutate()}
+            size="sm"
+            variant="outline"
+          >
+            <RefreshCw className="mr-2 h-4 w-4" />
+            {runNowMutation.isPending
+              ? "Queueing..."
+              : `Re-crawl Due Items (${due?.count ?? 0})`}
+          </Button>
+        }
+        description="Web pages whose live content changed since they were last crawled. Re-crawl intervals are set per content type."
+        title="Recently Changed"
+      />
+
+      {isLoading ? (
+        <p className="text-muted-foreground text-sm">Loading...</p>
+      ) : items.length === 0 ? (
+        <div className="rounded-lg border border-dashed p-8 text-center">
+          <p className="text-muted-foreground">
+            No changes detected yet. Enable re-crawling for a content type on
+            the{" "}
+            <Link className="underline" href="/admin/content-types">
+              Content Types
+            </Link>{" "}
+            page.
+          </p>
+        </div>
+      ) : (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Title</TableHead>
+                <TableHead className="w-[160px]">Type</TableHead>
+                <TableHead className="w-[200px]">Changed</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map((item) => (
+                <TableRow key={item.id}>
+                  <TableCell>
+                    <div className="flex flex-col gap-1">
+                      <Link
+                        className="font-medium hover:underline"
+                        href={`/content/${item.id}`}
+                      >
+                        {item.title}
+                      </Link>
+                      <a
+                        className="flex items-center gap-1 text-muted-foreground text-xs hover:underline"
+                        href={item.currentUrl}
+                        rel="noopener noreferrer"
+                        target="_blank"
+                      >
+                        {item.currentUrl}
+                        <ExternalLink className="h-3 w-3" />
+                      </a>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <ContentTypeBadge type={item.contentTypeRel} />
+                  </TableCell>
+                  <TableCell className="text-muted-foreground text-sm">
+                    {item.lastChangedAt?.toLocaleString()}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {(page > 0 || data?.hasMore) && (
+        <div className="flex items-center justify-end gap-1">
+          <Button
+            disabled={page === 0}
+            onClick={() => setPage((p) => Math.max(0, p - 1))}
+            size="icon"
+            variant="outline"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button
+            disabled={!data?.hasMore}
+            onClick={() => setPage((p) => p + 1)}
+            size="icon"
+            variant="outline"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
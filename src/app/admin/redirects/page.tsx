@@ -0,0 +1,265 @@
+"use client";
+
+import {
+  AlertTriangle,
+  ArrowRight,
+  Download,
+  GitMerge,
+  Repeat,
+  Search,
+  Signpost,
+} from "lucide-react";
+import Link from "next/link";
+import { useState } from "react";
+import { PageHeader } from "~/components/page-header";
+import { StatCard } from "~/components/stat-card";
+import { Button } from "~/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
+import { Input } from "~/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import { api } from "~/trpc/react";
+
+type RedirectFormat = "vercel" | "netlify" | "nginx" | "csv";
+
+const FORMAT_OPTIONS: Array<{ format: RedirectFormat; label: string }> = [
+  { format: "vercel", label: "vercel.json" },
+  { format: "netlify", label: "Netlify _redirects" },
+  { format: "nginx", label: "nginx map" },
+  { format: "csv", label: "CSV (all hosts)" },
+];
+
+function UrlLookup() {
+  const [input, setInput] = useState("");
+  const [url, setUrl] = useState("");
+
+  const { data: match, isFetching } = api.redirects.lookup.useQuery(
+    { url },
+    { enabled: url.length > 0 },
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Look Up an Old URL</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            setUrl(input.trim());
+          }}
+        >
+          <Input
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="https://www.tigerdata.com/blog/old-post"
+            value={input}
+          />
+          <Button disabled={!input.trim() || isFetching} type="submit">
+            <Search className="mr-2 h-4 w-4" />
+            Look Up
+          </Button>
+        </form>
+        {url &&
+          !isFetching &&
+          (match ? (
+            <p className="text-sm">
+              {match.redirected
+                ? `Moved (${match.hops} ${match.hops === 1 ? "hop" : "hops"}) to `
+                : "Current URL of "}
+              <Link
+                className="font-medium hover:underline"
+                href={`/content/${match.id}`}
+              >
+                {match.title}
+              </Link>
+              {match.redirected && (
+                <span className="block break-all text-muted-foreground text-xs">
+                  {match.currentUrl}
+                </span>
+              )}
+            </p>
+          ) : (
+            <p className="text-muted-foreground text-sm">
+              No content item has used this URL.
+            </p>
+          ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function RedirectsPage() {
+  const { data: summary, isLoading } = api.redirects.getSummary.useQuery();
+  const [selectedHost, setSelectedHost] = useState<string | undefined>();
+
+  const host = selectedHost ?? summary?.hosts[0]?.host;
+
+  const handleExport = (format: RedirectFormat) => {
+    const params = new URLSearchParams({ format });
+    if (format !== "csv" && host) {
+      params.set("host", host);
+    }
+    window.location.assign(`/api/redirects/export?${params.toString()}`);
+  };
+
+  const problemCount =
+    (summary?.loops.length ?? 0) +
+    (summary?.conflicts.length ?? 0) +
+    (summary?.shadowed.length ?? 0);
+
+  return (
+    <div className="space-y-6 p-6">
+      <PageHeader
+        description="Redirect rules built from each item's previous URLs. Chains are collapsed to their final destination."
+        title="Redirects"
+      />
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <StatCard
+          accentColor="teal"
+          icon={Signpost}
+          label="Redirect Rules"
+          value={summary?.totalRules ?? 0}
+        />
+        <StatCard
+          accentColor="purple"
+          icon={GitMerge}
+          label="Collapsed Chains"
+          value={summary?.collapsedChains ?? 0}
+        />
+        <StatCard
+          accentColor={problemCount > 0 ? "red" : undefined}
+          icon={AlertTriangle}
+          label="Needs Review"
+          value={problemCount}
+        />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Export</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <p className="text-muted-foreground text-sm">
+            Server configs cover one site. Pick the host whose old URLs should
+            redirect; destinations on other hosts are written as absolute URLs.
+          </p>
+          <div className="flex flex-wrap items-center gap-2">
+            <Select
+              disabled={!summary?.hosts.length}
+              onValueChange={setSelectedHost}
+              value={host}
+            >
+              <SelectTrigger className="w-[280px]">
+                <SelectValue placeholder="No redirects yet" />
+              </SelectTrigger>
+              <SelectContent>
+                {summary?.hosts.map(({ host, count }) => (
+                  <SelectItem key={host} value={host}>
+                    {host} ({count})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {FORMAT_OPTIONS.map(({ format, label }) => (
+              <Button
+                disabled={isLoading || (format !== "csv" && !host)}
+                key={format}
+                onClick={() => handleExport(format)}
+                size="sm"
+                variant="outline"
+              >
+                <Download className="mr-2 h-4 w-4" />
+                {label}
+              </Button>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <UrlLookup />
+
+      {summary && problemCount > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Needs Review</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[160px]">Problem</TableHead>
+                  <TableHead>URLs</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {summary.loops.map((loop) => (
+                  <TableRow key={`loop-${loop.join(" ")}`}>
+                    <TableCell>
+                      <span className="flex items-center gap-1 text-red-600">
+                        <Repeat className="h-4 w-4" />
+                        Loop (skipped)
+                      </span>
+                    </TableCell>
+                    <TableCell className="break-all text-sm">
+                      {[...loop, loop[0]].join(" → ")}
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {summary.conflicts.map((conflict) => (
+                  <TableRow key={`conflict-${conflict.from}`}>
+                    <TableCell>Claimed twice</TableCell>
+                    <TableCell className="break-all text-sm">
+                      {conflict.from}
+                      <span className="block text-muted-foreground text-xs">
+                        Redirects to {conflict.targets[0]} (newest item); also
+                        claimed by {conflict.targets.slice(1).join(", ")}
+                      </span>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {summary.shadowed.map((shadowed) => (
+                  <TableRow key={`shadowed-${shadowed.from}`}>
+                    <TableCell>Still live (skipped)</TableCell>
+                    <TableCell className="break-all text-sm">
+                      <span className="flex flex-wrap items-center gap-1">
+                        {shadowed.from}
+                        <ArrowRight className="h-3 w-3" />
+                        {shadowed.to}
+                      </span>
+                      <span className="block text-muted-foreground text-xs">
+                        The old URL is still the current URL of{" "}
+                        <Link
+                          className="underline"
+                          href={`/content/${shadowed.liveItemId}`}
+                        >
+                          another item
+                        </Link>
+                        , possibly a duplicate.
+                      </span>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
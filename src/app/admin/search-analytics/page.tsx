@@ -0,0 +1,276 @@
+"use client";
+
+import { formatDistanceToNow } from "date-fns";
+import { MousePointerClick, Search, SearchX, Timer } from "lucide-react";
+import Link from "next/link";
+import { useState } from "react";
+import {
+  contentViewParams,
+  DEFAULT_CONTENT_VIEW,
+  type SearchMode,
+} from "~/app/content/_components/content-view-params";
+import { PageHeader } from "~/components/page-header";
+import { StatCard } from "~/components/stat-card";
+import { Badge } from "~/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import { api } from "~/trpc/react";
+
+const PERIODS = [7, 30, 90];
+
+const MODE_LABELS: Record<SearchMode, string> = {
+  metadata: "Titles/Metadata",
+  keyword: "Keyword",
+  fullContent: "Content Search",
+};
+
+function percent(rate: number) {
+  return `${Math.round(rate * 100)}%`;
+}
+
+// The content page running this search, to see what users saw
+function searchHref(query: string, mode: SearchMode = "metadata") {
+  const params = contentViewParams({
+    ...DEFAULT_CONTENT_VIEW,
+    filters: {
+      ...DEFAULT_CONTENT_VIEW.filters,
+      search: query,
+      searchMode: mode,
+    },
+  });
+  return `/content?${params.toString()}`;
+}
+
+export default function SearchAnalyticsPage() {
+  const [days, setDays] = useState(30);
+  const { data, isLoading } = api.searchAnalytics.overview.useQuery({ days });
+
+  return (
+    <div className="space-y-6 p-6">
+      <PageHeader
+        actions={
+          <Select
+            onValueChange={(value) => setDays(Number(value))}
+            value={String(days)}
+          >
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PERIODS.map((period) => (
+                <SelectItem key={period} value={String(period)}>
+                  Last {period} days
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        }
+        description="What people search the content library for, which searches find nothing, and how often results get opened."
+        title="Search Analytics"
+      />
+
+      <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+        <StatCard
+          accentColor="teal"
+          icon={Search}
+          label="Searches"
+          value={data?.searches ?? 0}
+        />
+        <StatCard
+          accentColor="red"
+          icon={SearchX}
+          label="Zero Results"
+          value={percent(data?.zeroResultRate ?? 0)}
+        />
+        <StatCard
+          accentColor="purple"
+          icon={MousePointerClick}
+          label="Click-Through"
+          value={percent(data?.clickThroughRate ?? 0)}
+        />
+        <StatCard
+          accentColor="yellow"
+          icon={Timer}
+          label="Average Latency"
+          value={`${data?.avgLatencyMs ?? 0}ms`}
+        />
+      </div>
+
+      {isLoading ? (
+        <p className="text-muted-foreground text-sm">Loading...</p>
+      ) : !data || data.searches === 0 ? (
+        <div className="rounded-lg border border-dashed p-8 text-center">
+          <p className="text-muted-foreground">
+            No searches in the last {days} days.
+          </p>
+        </div>
+      ) : (
+        <>
+          <div>
+            <h2 className="mb-3 font-semibold text-muted-foreground text-xs uppercase tracking-wide">
+              By Search Mode
+            </h2>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Mode</TableHead>
+                    <TableHead className="text-right">Searches</TableHead>
+                    <TableHead className="text-right">Zero Results</TableHead>
+                    <TableHead className="text-right">Click-Through</TableHead>
+                    <TableHead className="text-right">Avg Latency</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.byMode.map((row) => (
+                    <TableRow key={row.mode}>
+                      <TableCell className="font-medium">
+                        {MODE_LABELS[row.mode]}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {row.searches}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {percent(row.zeroResultRate)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {percent(row.clickThroughRate)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {row.avgLatencyMs}ms
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+
+          <div className="grid gap-6 lg:grid-cols-2">
+            <div>
+              <h2 className="mb-3 font-semibold text-muted-foreground text-xs uppercase tracking-wide">
+                Top Queries
+              </h2>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Query</TableHead>
+                      <TableHead className="text-right">Searches</TableHead>
+                      <TableHead className="text-right">Avg Results</TableHead>
+                      <TableHead className="text-right">
+                        Click-Through
+                      </TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {data.topQueries.map((row) => (
+                      <TableRow key={row.query}>
+                        <TableCell className="break-all">
+                          <Link
+                            className="font-medium hover:underline"
+                            href={searchHref(row.query)}
+                          >
+                            {row.query}
+                          </Link>
+                          <span className="block text-muted-foreground text-xs">
+                            {row.users} {row.users === 1 ? "user" : "users"}
+                          </span>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {row.searches}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {row.avgResults}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {percent(row.clickThroughRate)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+
+            <div>
+              <h2 className="mb-3 font-semibold text-muted-foreground text-xs uppercase tracking-wide">
+                Zero-Result Queries
+              </h2>
+              {data.zeroResultQueries.length === 0 ? (
+                <div className="rounded-lg border border-dashed p-8 text-center">
+                  <p className="text-muted-foreground">
+                    Every search found something.
+                  </p>
+                </div>
+              ) : (
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Query</TableHead>
+                        <TableHead>Modes</TableHead>
+                        <TableHead className="text-right">Searches</TableHead>
+                        <TableHead className="text-right">Last</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {data.zeroResultQueries.map((row) => (
+                        <TableRow key={row.query}>
+                          <TableCell className="break-all">
+                            <Link
+                              className="font-medium hover:underline"
+                              href={searchHref(
+                                row.query,
+                                row.modes[0] as SearchMode | undefined,
+                              )}
+                            >
+                              {row.query}
+                            </Link>
+                            <span className="block text-muted-foreground text-xs">
+                              {row.users} {row.users === 1 ? "user" : "users"}
+                            </span>
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex flex-wrap gap-1">
+                              {row.modes.map((mode) => (
+                                <Badge key={mode} variant="secondary">
+                                  {MODE_LABELS[mode as SearchMode] ?? mode}
+                                </Badge>
+                              ))}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {row.searches}
+                          </TableCell>
+                          <TableCell className="whitespace-nowrap text-right text-muted-foreground text-sm">
+                            {formatDistanceToNow(row.lastSearchedAt, {
+                              addSuffix: true,
+                            })}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "~/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "~/components/ui/dialog";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { Textarea } from "~/components/ui/textarea";
+import { api } from "~/trpc/react";
+
+interface EvalQueryDialogProps {
+  // The query to edit; omitted to add a new one
+  query?: { id: string; query: string; notes: string | null };
+  onClose: () => void;
+  onDone: () => void;
+}
+
+export function EvalQueryDialog({
+  query: existing,
+  onClose,
+  onDone,
+}: EvalQueryDialogProps) {
+  const isEdit = !!existing;
+  const [query, setQuery] = useState(existing?.query ?? "");
+  const [notes, setNotes] = useState(existing?.notes ?? "");
+
+  const onSuccess = () => {
+    toast.success(isEdit ? "Query updated" : "Query added");
+    onDone();
+  };
+  const onError = (error: { message: string }) => {
+    toast.error(
+      `Failed to ${isEdit ? "update" : "add"} query: ${error.message}`,
+    );
+  };
+
+  const createMutation = api.searchEval.create.useMutation({
+    onSuccess,
+    onError,
+  });
+  const updateMutation = api.searchEval.update.useMutation({
+    onSuccess,
+    onError,
+  });
+  const isPending = createMutation.isPending || updateMutation.isPending;
+
+  const trimmed = query.trim();
+
+  const handleSubmit = () => {
+    if (existing) {
+      updateMutation.mutate({ id: existing.id, query: trimmed, notes });
+    } else {
+      createMutation.mutate({ query: trimmed, notes });
+    }
+  };
+
+  return (
+    <Dialog onOpenChange={(open) => !open && onClose()} open>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{isEdit ? "Edit query" : "Add query"}</DialogTitle>
+          <DialogDescription>
+            Write it the way people search, operators included. Judge the items
+            it should find once it's added.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1.5">
+            <Label htmlFor="eval-query">Query</Label>
+            <Input
+              id="eval-query"
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="continuous aggregates"
+              value={query}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="eval-notes">Notes</Label>
+            <Textarea
+              id="eval-notes"
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="What a good answer looks like"
+              rows={3}
+              value={notes}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={onClose} variant="outline">
+            Cancel
+          </Button>
+          <Button disabled={!trimmed || isPending} onClick={handleSubmit}>
+            {isPending ? "Saving..." : isEdit ? "Save" : "Add"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
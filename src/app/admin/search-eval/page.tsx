@@ -0,0 +1,401 @@
+"use client";
+
+import {
+  CircleDashed,
+  ListChecks,
+  Pencil,
+  Plus,
+  Search,
+  Target,
+  Trash2,
+  X,
+} from "lucide-react";
+import Link from "next/link";
+import { useState } from "react";
+import { toast } from "sonner";
+import { ContentTypeBadge } from "~/app/content/_components/content-badge";
+import { PageHeader } from "~/components/page-header";
+import { StatCard } from "~/components/stat-card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "~/components/ui/alert-dialog";
+import { Button } from "~/components/ui/button";
+import {
+  Card,
+  CardAction,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "~/components/ui/card";
+import { EmptyState } from "~/components/ui/empty-state";
+import { Input } from "~/components/ui/input";
+import { Loading } from "~/components/ui/loading";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import { api, type RouterOutputs } from "~/trpc/react";
+import { EvalQueryDialog } from "./_components/eval-query-dialog";
+
+type EvalQuery = RouterOutputs["searchEval"]["list"][number];
+
+const GRADES = [
+  { grade: 3, label: "Best answer" },
+  { grade: 2, label: "Relevant" },
+  { grade: 1, label: "Somewhat relevant" },
+];
+
+// Grade given to items added from the picker
+const DEFAULT_GRADE = 2;
+
+function ItemPicker({
+  query,
+  onChange,
+}: {
+  query: EvalQuery;
+  onChange: () => void;
+}) {
+  const [input, setInput] = useState("");
+  const [search, setSearch] = useState("");
+
+  const { data: candidates, isFetching } = api.searchEval.findContent.useQuery(
+    { search },
+    { enabled: search.length > 0 },
+  );
+
+  const setMutation = api.searchEval.setJudgment.useMutation({
+    onSuccess: onChange,
+    onError: (error) => {
+      toast.error(`Failed to add item: ${error.message}`);
+    },
+  });
+
+  const judged = new Set(query.judgments.map((j) => j.contentItemId));
+
+  return (
+    <div className="space-y-2">
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          setSearch(input.trim());
+        }}
+      >
+        <Input
+          onChange={(e) => setInput(e.target.value)}
+          placeholder="Find an item this query should return"
+          value={input}
+        />
+        <Button
+          disabled={!input.trim() || isFetching}
+          type="submit"
+          variant="outline"
+        >
+          <Search className="mr-2 h-4 w-4" />
+          Find
+        </Button>
+      </form>
+      {search &&
+        !isFetching &&
+        (candidates?.length ? (
+          <ul className="divide-y rounded-md border">
+            {candidates.map((item) => (
+              <li
+                className="flex items-center justify-between gap-2 px-3 py-2"
+                key={item.id}
+              >
+                <span className="flex min-w-0 items-center gap-2">
+                  <ContentTypeBadge type={item.contentTypeRel} />
+                  <span className="truncate text-sm">{item.title}</span>
+                </span>
+                <Button
+                  disabled={judged.has(item.id) || setMutation.isPending}
+                  onClick={() =>
+                    setMutation.mutate({
+                      queryId: query.id,
+                      contentItemId: item.id,
+                      grade: DEFAULT_GRADE,
+                    })
+                  }
+                  size="sm"
+                  variant="ghost"
+                >
+                  <Plus className="mr-1 h-3 w-3" />
+                  {judged.has(item.id) ? "Added" : "Add"}
+                </Button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-muted-foreground text-sm">
+            No items match "{search}".
+          </p>
+        ))}
+    </div>
+  );
+}
+
+function EvalQueryCard({
+  query,
+  onEdit,
+  onDelete,
+  onChange,
+}: {
+  query: EvalQuery;
+  onEdit: () => void;
+  onDelete: () => void;
+  onChange: () => void;
+}) {
+  const setMutation = api.searchEval.setJudgment.useMutation({
+    onSuccess: onChange,
+    onError: (error) => {
+      toast.error(`Failed to change grade: ${error.message}`);
+    },
+  });
+  const removeMutation = api.searchEval.removeJudgment.useMutation({
+    onSuccess: onChange,
+    onError: (error) => {
+      toast.error(`Failed to remove item: ${error.message}`);
+    },
+  });
+
+  const judgments = [...query.judgments].sort((a, b) => b.grade - a.grade);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="break-all">{query.query}</CardTitle>
+        {query.notes && <CardDescription>{query.notes}</CardDescription>}
+        <CardAction className="flex gap-1">
+          <Button onClick={onEdit} size="sm" variant="ghost">
+            <Pencil className="h-4 w-4" />
+          </Button>
+          <Button onClick={onDelete} size="sm" variant="ghost">
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </CardAction>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {judgments.length > 0 ? (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Relevant Item</TableHead>
+                  <TableHead className="w-[200px]">Grade</TableHead>
+                  <TableHead className="w-[50px]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {judgments.map((judgment) => (
+                  <TableRow key={judgment.contentItemId}>
+                    <TableCell>
+                      <Link
+                        className="font-medium hover:underline"
+                        href={`/content/${judgment.contentItemId}`}
+                      >
+                        {judgment.contentItem.title}
+                      </Link>
+                      <span className="block break-all text-muted-foreground text-xs">
+                        {judgment.contentItem.currentUrl}
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        onValueChange={(value) =>
+                          setMutation.mutate({
+                            queryId: query.id,
+                            contentItemId: judgment.contentItemId,
+                            grade: Number(value),
+                          })
+                        }
+                        value={String(judgment.grade)}
+                      >
+                        <SelectTrigger className="w-[180px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {GRADES.map(({ grade, label }) => (
+                            <SelectItem key={grade} value={String(grade)}>
+                              {label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        aria-label="Remove item"
+                        disabled={removeMutation.isPending}
+                        onClick={() =>
+                          removeMutation.mutate({
+                            queryId: query.id,
+                            contentItemId: judgment.contentItemId,
+                          })
+                        }
+                        size="sm"
+                        variant="ghost"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <p className="text-muted-foreground text-sm">
+            No relevant items yet. The evaluator skips this query until it has
+            some.
+          </p>
+        )}
+        <ItemPicker onChange={onChange} query={query} />
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function SearchEvalPage() {
+  const [dialog, setDialog] = useState<{ query?: EvalQuery } | null>(null);
+  const [deleting, setDeleting] = useState<EvalQuery | null>(null);
+
+  const { data: queries, isLoading, refetch } = api.searchEval.list.useQuery();
+
+  const refresh = () => {
+    void refetch();
+  };
+
+  const deleteMutation = api.searchEval.delete.useMutation({
+    onSuccess: () => {
+      toast.success("Query deleted");
+      setDeleting(null);
+      refresh();
+    },
+    onError: (error) => {
+      toast.error(`Failed to delete query: ${error.message}`);
+    },
+  });
+
+  const judgedCount =
+    queries?.filter((q) => q.judgments.length > 0).length ?? 0;
+  const itemCount =
+    queries?.reduce((sum, q) => sum + q.judgments.length, 0) ?? 0;
+
+  return (
+    <div className="space-y-6 p-6">
+      <PageHeader
+        actions={
+          <Button onClick={() => setDialog({})}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Query
+          </Button>
+        }
+        description="A golden set of searches and the items each should find. Score keyword, semantic and hybrid search against it with: npx tsx --env-file=.env scripts/evaluate-search.ts"
+        title="Search Relevance"
+      />
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <StatCard
+          accentColor="teal"
+          icon={Target}
+          label="Golden Queries"
+          value={queries?.length ?? 0}
+        />
+        <StatCard
+          accentColor="purple"
+          icon={ListChecks}
+          label="Relevant Items"
+          value={itemCount}
+        />
+        <StatCard
+          accentColor={
+            queries && judgedCount < queries.length ? "yellow" : undefined
+          }
+          icon={CircleDashed}
+          label="Not Yet Judged"
+          value={(queries?.length ?? 0) - judgedCount}
+        />
+      </div>
+
+      {isLoading ? (
+        <Loading message="Loading golden set" />
+      ) : !queries?.length ? (
+        <EmptyState
+          action={{ label: "Add Query", onClick: () => setDialog({}) }}
+          icon={Target}
+          message="No golden queries yet. Add the searches people run most, then mark the items each one should find."
+        />
+      ) : (
+        <div className="space-y-4">
+          {queries.map((query) => (
+            <EvalQueryCard
+              key={query.id}
+              onChange={refresh}
+              onDelete={() => setDeleting(query)}
+              onEdit={() => setDialog({ query })}
+              query={query}
+            />
+          ))}
+        </div>
+      )}
+
+      {dialog && (
+        <EvalQueryDialog
+          onClose={() => setDialog(null)}
+          onDone={() => {
+            setDialog(null);
+            refresh();
+          }}
+          query={dialog.query}
+        />
+      )}
+
+      <AlertDialog
+        onOpenChange={(open) => !open && setDeleting(null)}
+        open={!!deleting}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this query?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{deleting?.query}" and its {deleting?.judgments.length ?? 0}{" "}
+              relevance{" "}
+              {deleting?.judgments.length === 1 ? "judgment" : "judgments"}{" "}
+              leave the golden set.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() =>
+                deleting && deleteMutation.mutate({ id: deleting.id })
+              }
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
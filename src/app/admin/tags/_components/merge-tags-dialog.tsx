@@ -0,0 +1,139 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "~/components/ui/button";
+import { Checkbox } from "~/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "~/components/ui/dialog";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { api } from "~/trpc/react";
+
+interface MergeTagsDialogProps {
+  // One tag renames it; several merge them
+  sources: string[];
+  // Suggested target name (defaults to the first source)
+  target?: string;
+  onClose: () => void;
+  onDone: () => void;
+}
+
+export function MergeTagsDialog({
+  sources,
+  target: suggestedTarget,
+  onClose,
+  onDone,
+}: MergeTagsDialogProps) {
+  const isRename = sources.length === 1;
+  const [target, setTarget] = useState(suggestedTarget ?? sources[0] ?? "");
+  // Merged spellings usually come back from imports; renames usually don't
+  const [keepAsSynonyms, setKeepAsSynonyms] = useState(!isRename);
+
+  const utils = api.useUtils();
+  const onSuccess = (result: { message: string }) => {
+    toast.success(result.message);
+    void utils.content.getDistinctTags.invalidate();
+    void utils.content.list.invalidate();
+    onDone();
+  };
+  const onError = (error: { message: string }) => {
+    toast.error(`${isRename ? "Rename" : "Merge"} failed: ${error.message}`);
+  };
+
+  const renameMutation = api.tags.rename.useMutation({ onSuccess, onError });
+  const mergeMutation = api.tags.merge.useMutation({ onSuccess, onError });
+  const isPending = renameMutation.isPending || mergeMutation.isPending;
+
+  const trimmed = target.trim();
+  const unchanged = isRename && trimmed === sources[0];
+
+  const handleSubmit = () => {
+    if (isRename && sources[0]) {
+      renameMutation.mutate({
+        from: sources[0],
+        to: trimmed,
+        keepAsSynonym: keepAsSynonyms,
+      });
+    } else {
+      mergeMutation.mutate({ sources, target: trimmed, keepAsSynonyms });
+    }
+  };
+
+  return (
+    <Dialog onOpenChange={(open) => !open && onClose()} open>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{isRename ? "Rename tag" : "Merge tags"}</DialogTitle>
+          <DialogDescription>
+            {isRename
+              ? `Every item tagged "${sources[0]}" gets the new name instead. Renaming onto an existing tag merges the two.`
+              : `Every item tagged ${sources.map((tag) => `"${tag}"`).join(", ")} gets the tag below instead.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {!isRename && (
+            <div className="flex flex-wrap gap-1">
+              {sources.map((tag) => (
+                <Button
+                  key={tag}
+                  onClick={() => setTarget(tag)}
+                  size="sm"
+                  variant={tag === trimmed ? "default" : "outline"}
+                >
+                  {tag}
+                </Button>
+              ))}
+            </div>
+          )}
+          <div className="space-y-1.5">
+            <Label htmlFor="tag-target">
+              {isRename ? "New name" : "Merge into"}
+            </Label>
+            <Input
+              id="tag-target"
+              onChange={(e) => setTarget(e.target.value)}
+              value={target}
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              checked={keepAsSynonyms}
+              id="tag-keep-synonyms"
+              onCheckedChange={(checked) => setKeepAsSynonyms(checked === true)}
+            />
+            <Label htmlFor="tag-keep-synonyms">
+              Keep the old {isRename ? "name" : "names"} as{" "}
+              {isRename ? "a synonym" : "synonyms"} so imports map them here
+            </Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={onClose} variant="outline">
+            Cancel
+          </Button>
+          <Button
+            disabled={!trimmed || unchanged || isPending}
+            onClick={handleSubmit}
+          >
+            {isPending
+              ? isRename
+                ? "Renaming..."
+                : "Merging..."
+              : isRename
+                ? "Rename"
+                : "Merge"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
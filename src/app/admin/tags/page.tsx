@@ -0,0 +1,404 @@
+"use client";
+
+import {
+  BookCheck,
+  Copy,
+  GitMerge,
+  Pencil,
+  Plus,
+  Tag,
+  Tags,
+  X,
+} from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { PageHeader } from "~/components/page-header";
+import { StatCard } from "~/components/stat-card";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
+import { Checkbox } from "~/components/ui/checkbox";
+import { Input } from "~/components/ui/input";
+import { Loading } from "~/components/ui/loading";
+import { Switch } from "~/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import { api, type RouterOutputs } from "~/trpc/react";
+import { MergeTagsDialog } from "./_components/merge-tags-dialog";
+
+type TagRow = RouterOutputs["tags"]["overview"]["tags"][number];
+
+// Rows rendered at once; the filter narrows the rest
+const MAX_ROWS = 200;
+
+function SynonymEditor({
+  tag,
+  onChange,
+}: {
+  tag: TagRow;
+  onChange: () => void;
+}) {
+  const [synonym, setSynonym] = useState("");
+
+  const addMutation = api.tags.addSynonym.useMutation({
+    onSuccess: () => {
+      setSynonym("");
+      onChange();
+    },
+    onError: (error) => {
+      toast.error(`Failed to add synonym: ${error.message}`);
+    },
+  });
+  const removeMutation = api.tags.removeSynonym.useMutation({
+    onSuccess: onChange,
+    onError: (error) => {
+      toast.error(`Failed to remove synonym: ${error.message}`);
+    },
+  });
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      {tag.synonyms.map((name) => (
+        <Badge className="gap-1" key={name} variant="secondary">
+          {name}
+          <button
+            aria-label={`Remove synonym ${name}`}
+            className="hover:text-destructive"
+            disabled={removeMutation.isPending}
+            onClick={() => removeMutation.mutate({ synonym: name })}
+            type="button"
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </Badge>
+      ))}
+      <form
+        className="flex items-center gap-1"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (synonym.trim()) {
+            addMutation.mutate({ synonym: synonym.trim(), tag: tag.name });
+          }
+        }}
+      >
+        <Input
+          className="h-7 w-32 text-xs"
+          onChange={(e) => setSynonym(e.target.value)}
+          placeholder="Add synonym"
+          value={synonym}
+        />
+        <Button
+          aria-label="Add synonym"
+          className="h-7 w-7"
+          disabled={!synonym.trim() || addMutation.isPending}
+          size="icon"
+          type="submit"
+          variant="ghost"
+        >
+          <Plus className="h-3 w-3" />
+        </Button>
+      </form>
+    </div>
+  );
+}
+
+export default function TagsPage() {
+  const [filter, setFilter] = useState("");
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [merging, setMerging] = useState<{
+    sources: string[];
+    target?: string;
+  } | null>(null);
+
+  const { data, isLoading, refetch } = api.tags.overview.useQuery();
+
+  const refresh = () => {
+    void refetch();
+  };
+
+  const controlledMutation = api.tags.setControlledVocabulary.useMutation({
+    onSuccess: (_, { enabled }) => {
+      toast.success(
+        enabled
+          ? "Controlled vocabulary enabled"
+          : "Controlled vocabulary disabled",
+      );
+      refresh();
+    },
+    onError: (error) => {
+      toast.error(`Failed to update setting: ${error.message}`);
+    },
+  });
+  const addMutation = api.tags.addToVocabulary.useMutation({
+    onSuccess: refresh,
+    onError: (error) => {
+      toast.error(`Failed to add to vocabulary: ${error.message}`);
+    },
+  });
+  const removeMutation = api.tags.removeFromVocabulary.useMutation({
+    onSuccess: refresh,
+    onError: (error) => {
+      toast.error(`Failed to remove from vocabulary: ${error.message}`);
+    },
+  });
+
+  const tags = data?.tags ?? [];
+  const query = filter.trim().toLowerCase();
+  const filtered = query
+    ? tags.filter(
+        (tag) =>
+          tag.name.toLowerCase().includes(query) ||
+          tag.synonyms.some((s) => s.toLowerCase().includes(query)),
+      )
+    : tags;
+  const inUse = tags.filter((tag) => tag.count > 0).length;
+  const vocabularySize = tags.filter((tag) => tag.inVocabulary).length;
+  const nearDuplicates = data?.nearDuplicates ?? [];
+  const countOf = (name: string) =>
+    tags.find((tag) => tag.name === name)?.count ?? 0;
+
+  const toggleSelected = (name: string) => {
+    const next = new Set(selected);
+    if (next.has(name)) {
+      next.delete(name);
+    } else {
+      next.add(name);
+    }
+    setSelected(next);
+  };
+
+  return (
+    <div className="space-y-6 p-6">
+      <PageHeader
+        actions={
+          <Button
+            disabled={selected.size < 2}
+            onClick={() => setMerging({ sources: [...selected] })}
+            size="sm"
+          >
+            <GitMerge className="mr-2 h-4 w-4" />
+            Merge Selected{selected.size > 1 ? ` (${selected.size})` : ""}
+          </Button>
+        }
+        description="Tags across the inventory with usage counts. Rename and merge rewrite the tag on every item. The vocabulary names canonical tags; synonyms map other spellings onto them for new content, CSV imports and API syncs."
+        title="Tags"
+      />
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <StatCard
+          accentColor="teal"
+          icon={Tags}
+          label="Tags In Use"
+          value={inUse}
+        />
+        <StatCard
+          accentColor="purple"
+          icon={BookCheck}
+          label="In Vocabulary"
+          value={vocabularySize}
+        />
+        <StatCard
+          accentColor={nearDuplicates.length > 0 ? "yellow" : undefined}
+          icon={Copy}
+          label="Near Duplicates"
+          value={nearDuplicates.length}
+        />
+      </div>
+
+      <Card>
+        <CardContent className="flex items-center justify-between gap-4 pt-6">
+          <div>
+            <span className="font-medium">Controlled vocabulary</span>
+            <p className="text-muted-foreground text-sm">
+              Only vocabulary tags and their synonyms are accepted. Manual edits
+              and CSV rows with other tags are rejected; API syncs drop them.
+              {vocabularySize === 0 &&
+                " Add tags to the vocabulary before turning this on."}
+            </p>
+          </div>
+          <Switch
+            checked={data?.controlled ?? false}
+            disabled={
+              controlledMutation.isPending ||
+              (!data?.controlled && vocabularySize === 0)
+            }
+            onCheckedChange={(enabled) =>
+              controlledMutation.mutate({ enabled })
+            }
+          />
+        </CardContent>
+      </Card>
+
+      {nearDuplicates.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Near Duplicates</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {nearDuplicates.map((group) => (
+              <div
+                className="flex items-center justify-between gap-4 rounded-lg border p-3"
+                key={group.join("\n")}
+              >
+                <div className="flex flex-wrap gap-1">
+                  {group.map((name) => (
+                    <Badge key={name} variant="outline">
+                      {name}
+                      <span className="ml-1 text-muted-foreground">
+                        {countOf(name)}
+                      </span>
+                    </Badge>
+                  ))}
+                </div>
+                <Button
+                  onClick={() =>
+                    setMerging({ sources: group, target: group[0] })
+                  }
+                  size="sm"
+                  variant="outline"
+                >
+                  <GitMerge className="mr-2 h-4 w-4" />
+                  Merge
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>All Tags</CardTitle>
+          <Input
+            className="w-64"
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Filter tags..."
+            value={filter}
+          />
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Loading message="Loading tags..." />
+          ) : filtered.length === 0 ? (
+            <p className="text-muted-foreground text-sm">
+              {tags.length === 0 ? "No tags yet." : "No tags match the filter."}
+            </p>
+          ) : (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10" />
+                    <TableHead>Tag</TableHead>
+                    <TableHead className="w-[90px] text-right">Items</TableHead>
+                    <TableHead className="w-[150px]">Vocabulary</TableHead>
+                    <TableHead>Synonyms</TableHead>
+                    <TableHead className="w-[60px]" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filtered.slice(0, MAX_ROWS).map((tag) => (
+                    <TableRow key={tag.name}>
+                      <TableCell>
+                        <Checkbox
+                          aria-label={`Select ${tag.name}`}
+                          checked={selected.has(tag.name)}
+                          disabled={tag.count === 0}
+                          onCheckedChange={() => toggleSelected(tag.name)}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <span className="flex items-center gap-2 font-medium">
+                          <Tag className="h-3 w-3 text-muted-foreground" />
+                          {tag.name}
+                        </span>
+                        {tag.mapsTo && (
+                          <span className="block text-muted-foreground text-xs">
+                            New content maps to &ldquo;{tag.mapsTo}&rdquo;
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {tag.count}
+                      </TableCell>
+                      <TableCell>
+                        {tag.inVocabulary ? (
+                          <Button
+                            disabled={removeMutation.isPending}
+                            onClick={() =>
+                              removeMutation.mutate({ name: tag.name })
+                            }
+                            size="sm"
+                            title="Remove from the vocabulary (items keep the tag)"
+                            variant="secondary"
+                          >
+                            <BookCheck className="mr-1 h-3 w-3" />
+                            Canonical
+                          </Button>
+                        ) : (
+                          <Button
+                            disabled={addMutation.isPending || !!tag.mapsTo}
+                            onClick={() =>
+                              addMutation.mutate({ names: [tag.name] })
+                            }
+                            size="sm"
+                            variant="outline"
+                          >
+                            <Plus className="mr-1 h-3 w-3" />
+                            Add
+                          </Button>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {tag.inVocabulary && (
+                          <SynonymEditor onChange={refresh} tag={tag} />
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          aria-label={`Rename ${tag.name}`}
+                          disabled={tag.count === 0}
+                          onClick={() => setMerging({ sources: [tag.name] })}
+                          size="icon"
+                          variant="ghost"
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {filtered.length > MAX_ROWS && (
+                <p className="mt-4 text-muted-foreground text-xs">
+                  Showing {MAX_ROWS} of {filtered.length} tags. Filter to find
+                  the rest.
+                </p>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {merging && (
+        <MergeTagsDialog
+          key={merging.sources.join("\n")}
+          onClose={() => setMerging(null)}
+          onDone={() => {
+            setMerging(null);
+            setSelected(new Set());
+            refresh();
+          }}
+          sources={merging.sources}
+          target={merging.target}
+        />
+      )}
+    </div>
+  );
+}
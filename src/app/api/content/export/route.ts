@@ -0,0 +1,84 @@
+import type { NextRequest } from "next/server";
+import { auth } from "~/server/auth";
+import {
+  createContentExportStream,
+  EXPORT_FORMATS,
+  type ExportFormat,
+  getExportContentType,
+  getExportFilename,
+} from "~/server/services/content-export";
+import {
+  type ContentQuery,
+  contentQuerySchema,
+  loadViewQuery,
+} from "~/server/services/content-query";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Stream the filtered content inventory as a file download.
+ *
+ * Query params:
+ * - format: csv | json | markdown
+ * - filters: JSON-encoded content list filters + sort (same shape as content.list input)
+ * - view: a saved view id, exported with its own filters + sort instead
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return new Response("Unauthorized", { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+
+    const format = searchParams.get("format") ?? "csv";
+    if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+      return new Response(`Unsupported export format: ${format}`, {
+        status: 400,
+      });
+    }
+
+    let query: ContentQuery;
+    const viewId = searchParams.get("view");
+    if (viewId) {
+      try {
+        query = await loadViewQuery(viewId, session.user.id);
+      } catch (error) {
+        return new Response(
+          error instanceof Error ? error.message : "Invalid view",
+          { status: 400 },
+        );
+      }
+    } else {
+      let rawFilters: unknown = {};
+      try {
+        rawFilters = JSON.parse(searchParams.get("filters") ?? "{}");
+      } catch {
+        return new Response("Invalid filters", { status: 400 });
+      }
+
+      const parsed = contentQuerySchema.safeParse(rawFilters);
+      if (!parsed.success) {
+        return new Response("Invalid filters", { status: 400 });
+      }
+      query = parsed.data;
+    }
+
+    const exportFormat = format as ExportFormat;
+    const stream = createContentExportStream(query, exportFormat);
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": getExportContentType(exportFormat),
+        "Content-Disposition": `attachment; filename="${getExportFilename(exportFormat)}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Error in content export:", error);
+    return new Response("Internal server error", { status: 500 });
+  }
+}
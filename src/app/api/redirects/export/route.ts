@@ -0,0 +1,62 @@
+import type { NextRequest } from "next/server";
+import { auth } from "~/server/auth";
+import {
+  buildRedirectMap,
+  formatRedirectMap,
+  getRedirectContentType,
+  getRedirectFilename,
+  REDIRECT_FORMATS,
+  type RedirectFormat,
+} from "~/server/services/redirect-map";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Download redirect rules built from content URL history (admin only).
+ *
+ * Query params:
+ * - format: vercel | netlify | nginx | csv
+ * - host: site whose old URLs to export (required except for csv)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return new Response("Unauthorized", { status: 401 });
+    }
+    if (session.user.role !== "admin") {
+      return new Response("Admin access required", { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+
+    const format = searchParams.get("format") ?? "csv";
+    if (!REDIRECT_FORMATS.includes(format as RedirectFormat)) {
+      return new Response(`Unsupported redirect format: ${format}`, {
+        status: 400,
+      });
+    }
+    const redirectFormat = format as RedirectFormat;
+
+    const host = searchParams.get("host") ?? undefined;
+    if (redirectFormat !== "csv" && !host) {
+      return new Response(`A host is required for ${format} redirects`, {
+        status: 400,
+      });
+    }
+
+    const map = await buildRedirectMap();
+
+    return new Response(formatRedirectMap(map, redirectFormat, host), {
+      headers: {
+        "Content-Type": getRedirectContentType(redirectFormat),
+        "Content-Disposition": `attachment; filename="${getRedirectFilename(redirectFormat)}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Error in redirect export:", error);
+    return new Response("Internal server error", { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { auth } from "~/server/auth";
+import { resolveUrl } from "~/server/services/redirect-map";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Resolve a current or old URL to the content item that lives there now.
+ *
+ * Query params:
+ * - url: the URL to look up
+ *
+ * Responds 404 when no item has ever used the URL.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const url = new URL(request.url).searchParams.get("url");
+    if (!url) {
+      return NextResponse.json(
+        { error: "Missing url parameter" },
+        { status: 400 },
+      );
+    }
+
+    const match = await resolveUrl(url);
+    if (!match) {
+      return NextResponse.json({ error: "No content found" }, { status: 404 });
+    }
+
+    return NextResponse.json(match);
+  } catch (error) {
+    console.error("Error in redirect lookup:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,230 @@
+"use client";
+
+import { ExternalLink, Loader2, MessagesSquare } from "lucide-react";
+import Link from "next/link";
+import { type FormEvent, Fragment, useState } from "react";
+import { ContentTypeBadge } from "~/app/content/_components/content-badge";
+import { Button } from "~/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
+import { Textarea } from "~/components/ui/textarea";
+import { api, type RouterOutputs } from "~/trpc/react";
+
+// The answer procedure streams these events
+type AnswerEvent =
+  RouterOutputs["ask"]["answer"] extends AsyncIterable<infer E> ? E : never;
+type AnswerSource = Extract<
+  AnswerEvent,
+  { type: "sources" }
+>["sources"][number];
+
+const EXAMPLE_QUESTIONS = [
+  "Do we have a case study about manufacturing with compression numbers?",
+  "What have we published about continuous aggregates for IoT?",
+  "Which webinars cover migrating from InfluxDB?",
+];
+
+/**
+ * Answer text with its [n] citations linked to the sources below
+ */
+function AnswerText({
+  sources,
+  text,
+}: {
+  sources: AnswerSource[];
+  text: string;
+}) {
+  // Keyed by their offset in the text, which stays put as the answer grows
+  let offset = 0;
+  const parts = text
+    .split(/(\[\d+\])/)
+    .filter(Boolean)
+    .map((part) => {
+      const start = offset;
+      offset += part.length;
+      return { part, start };
+    });
+
+  return (
+    <p className="whitespace-pre-wrap text-sm leading-relaxed">
+      {parts.map(({ part, start }) => {
+        const number = Number(part.match(/^\[(\d+)\]$/)?.[1]);
+        const source = sources.find((s) => s.number === number);
+        if (!source) {
+          return <Fragment key={start}>{part}</Fragment>;
+        }
+        return (
+          <a
+            className="mx-0.5 inline-flex h-4 min-w-4 items-center justify-center rounded bg-[var(--vivid-purple)]/10 px-1 align-super font-medium text-[10px] text-[var(--vivid-purple)] hover:bg-[var(--vivid-purple)]/20"
+            href={`#source-${source.number}`}
+            key={start}
+            title={source.title}
+          >
+            {source.number}
+          </a>
+        );
+      })}
+    </p>
+  );
+}
+
+function SourceCard({ source }: { source: AnswerSource }) {
+  return (
+    <div
+      className="scroll-mt-6 space-y-1.5 rounded-md border p-3 target:ring-2 target:ring-[var(--vivid-purple)]"
+      id={`source-${source.number}`}
+    >
+      <div className="flex items-start gap-2">
+        <span className="font-medium text-muted-foreground text-xs">
+          [{source.number}]
+        </span>
+        <div className="min-w-0 flex-1 space-y-1">
+          <div className="flex flex-wrap items-center gap-2">
+            <Link
+              className="font-medium text-sm hover:underline"
+              href={`/content/${source.contentItemId}`}
+            >
+              {source.title}
+            </Link>
+            <a
+              className="text-muted-foreground hover:text-foreground"
+              href={source.url}
+              rel="noopener noreferrer"
+              target="_blank"
+              title="Open published page"
+            >
+              <ExternalLink className="h-3 w-3" />
+            </a>
+          </div>
+          <div className="flex items-center gap-2 text-muted-foreground text-xs">
+            <ContentTypeBadge type={source.contentType} />
+            {source.publishDate && <span>{source.publishDate}</span>}
+          </div>
+          <p className="text-muted-foreground text-xs leading-relaxed">
+            {source.passage}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function AskTheDen() {
+  const [draft, setDraft] = useState("");
+  const [question, setQuestion] = useState("");
+
+  // The answer streams in as a growing list of events
+  const { data: events = [], error } = api.ask.answer.useQuery(
+    { question },
+    {
+      enabled: question.length > 0,
+      refetchOnWindowFocus: false,
+      retry: false,
+      staleTime: Number.POSITIVE_INFINITY,
+    },
+  );
+
+  const sources =
+    events.find((event) => event.type === "sources")?.sources ?? undefined;
+  const text = events
+    .map((event) => (event.type === "text" ? event.text : ""))
+    .join("");
+  const done = events.find((event) => event.type === "done");
+  const answering = question.length > 0 && !done && !error;
+
+  const ask = (next: string) => {
+    const trimmed = next.trim();
+    if (trimmed.length < 3) return;
+    setDraft(trimmed);
+    setQuestion(trimmed);
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    ask(draft);
+  };
+
+  return (
+    <div className="space-y-6">
+      <form className="space-y-3" onSubmit={handleSubmit}>
+        <Textarea
+          className="min-h-24"
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+              e.preventDefault();
+              ask(draft);
+            }
+          }}
+          placeholder="Ask a question about our content..."
+          value={draft}
+        />
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex flex-wrap gap-2">
+            {EXAMPLE_QUESTIONS.map((example) => (
+              <Button
+                className="h-auto whitespace-normal py-1 text-left text-xs"
+                key={example}
+                onClick={() => ask(example)}
+                size="sm"
+                type="button"
+                variant="outline"
+              >
+                {example}
+              </Button>
+            ))}
+          </div>
+          <Button disabled={draft.trim().length < 3 || answering} type="submit">
+            {answering ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <MessagesSquare className="mr-2 h-4 w-4" />
+            )}
+            Ask
+          </Button>
+        </div>
+      </form>
+
+      {error && <p className="text-destructive text-sm">{error.message}</p>}
+
+      {question && !error && (
+        <div className="grid gap-6 lg:grid-cols-[3fr_2fr]">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">{question}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {text ? (
+                <AnswerText sources={sources ?? []} text={text} />
+              ) : (
+                <p className="flex items-center gap-2 text-muted-foreground text-sm">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  {sources
+                    ? "Writing the answer..."
+                    : "Searching the library..."}
+                </p>
+              )}
+              {done && (
+                <p className="text-muted-foreground text-xs">
+                  Answered by {done.model} from {sources?.length ?? 0}{" "}
+                  {sources?.length === 1 ? "passage" : "passages"}. Check the
+                  sources before quoting.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          {sources && sources.length > 0 && (
+            <div className="space-y-2">
+              <h2 className="font-semibold text-muted-foreground text-xs uppercase tracking-wide">
+                Sources
+              </h2>
+              {sources.map((source) => (
+                <SourceCard key={source.number} source={source} />
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
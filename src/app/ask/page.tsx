@@ -0,0 +1,17 @@
+import { AskTheDen } from "./_components/ask-the-den";
+
+export default async function AskPage() {
+  return (
+    <div className="space-y-6 p-6">
+      <div>
+        <h1 className="font-bold text-2xl">Ask the Den</h1>
+        <p className="text-muted-foreground text-sm">
+          Ask a question and get an answer drawn from our published content,
+          with every claim linked to the passage it came from.
+        </p>
+      </div>
+
+      <AskTheDen />
+    </div>
+  );
+}
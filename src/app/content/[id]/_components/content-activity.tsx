@@ -0,0 +1,67 @@
+"use client";
+
+import { format } from "date-fns";
+import { ClipboardList } from "lucide-react";
+import {
+  AuditChangeList,
+  auditActionLabel,
+  auditActorLabel,
+} from "~/components/audit-changes";
+import { Badge } from "~/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
+import { Loading } from "~/components/ui/loading";
+import { api } from "~/trpc/react";
+
+interface ContentActivityProps {
+  contentId: string;
+}
+
+export function ContentActivity({ contentId }: ContentActivityProps) {
+  const { data, isLoading } = api.audit.contentHistory.useQuery({
+    id: contentId,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardList className="h-4 w-4" />
+          Change History
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Loading compact message="Loading" />
+        ) : !data || data.events.length === 0 ? (
+          <p className="text-muted-foreground text-sm">
+            No changes recorded yet.
+          </p>
+        ) : (
+          <>
+            <ul className="space-y-4">
+              {data.events.map((event) => (
+                <li className="space-y-1" key={event.id}>
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <Badge variant="outline">{auditActionLabel(event)}</Badge>
+                    <span>{auditActorLabel(event)}</span>
+                    <span className="text-muted-foreground text-xs">
+                      {format(event.occurredAt, "MMM d, yyyy HH:mm")}
+                    </span>
+                  </div>
+                  {event.action !== "create" && (
+                    <AuditChangeList event={event} />
+                  )}
+                </li>
+              ))}
+            </ul>
+            {data.total > data.events.length && (
+              <p className="mt-4 text-muted-foreground text-xs">
+                Showing the latest {data.events.length} of {data.total} changes.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
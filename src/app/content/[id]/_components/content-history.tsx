@@ -0,0 +1,268 @@
+"use client";
+
+import { format } from "date-fns";
+import { RotateCcw } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "~/components/ui/alert-dialog";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
+import { Loading } from "~/components/ui/loading";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import { api, type RouterOutputs } from "~/trpc/react";
+
+type ContentVersion = RouterOutputs["content"]["getVersions"][number];
+
+const SOURCE_LABELS: Record<ContentVersion["source"], string> = {
+  crawl: "Crawl",
+  transcript: "Transcript",
+  ghost_api: "Ghost",
+  contentful_api: "Contentful",
+  youtube_api: "YouTube",
+  restore: "Restored",
+};
+
+function versionLabel(version: ContentVersion) {
+  return `${format(version.createdAt, "MMM d, yyyy HH:mm")} · ${SOURCE_LABELS[version.source]}${version.isCurrent ? " (current)" : ""}`;
+}
+
+type DiffSegment = RouterOutputs["content"]["diffVersions"]["segments"][number];
+
+// Character offset of each segment in the rendered diff, used as its key
+function withOffsets(segments: DiffSegment[]) {
+  let offset = 0;
+  return segments.map((segment) => {
+    const keyed = { ...segment, offset };
+    offset += segment.text.length;
+    return keyed;
+  });
+}
+
+interface ContentHistoryProps {
+  contentId: string;
+}
+
+export function ContentHistory({ contentId }: ContentHistoryProps) {
+  const utils = api.useUtils();
+  const [fromId, setFromId] = useState<string | undefined>();
+  const [toId, setToId] = useState<string | undefined>();
+  const [restoring, setRestoring] = useState<ContentVersion | null>(null);
+
+  const { data: versions, isLoading } = api.content.getVersions.useQuery({
+    id: contentId,
+  });
+
+  // Default comparison: previous version → newest version
+  const from = fromId ?? versions?.[1]?.id;
+  const to = toId ?? versions?.[0]?.id;
+
+  const { data: diff, isFetching: diffLoading } =
+    api.content.diffVersions.useQuery(
+      { fromVersionId: from ?? "", toVersionId: to ?? "" },
+      { enabled: !!from && !!to && from !== to },
+    );
+
+  const restoreMutation = api.content.restoreVersion.useMutation({
+    onSuccess: async () => {
+      setRestoring(null);
+      await Promise.all([
+        utils.content.getVersions.invalidate({ id: contentId }),
+        utils.content.getIndexStatus.invalidate({ id: contentId }),
+      ]);
+      toast.success("Version restored and re-indexed");
+    },
+    onError: (error) => {
+      toast.error(`Restore failed: ${error.message}`);
+    },
+  });
+
+  if (isLoading) {
+    return <Loading message="Loading history..." />;
+  }
+
+  if (!versions || versions.length === 0) {
+    return (
+      <p className="text-muted-foreground text-sm">
+        No content has been captured for this item yet.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {versions.length > 1 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Compare Versions</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-3 sm:grid-cols-2">
+              {[
+                { label: "From", value: from, onChange: setFromId },
+                { label: "To", value: to, onChange: setToId },
+              ].map(({ label, value, onChange }) => (
+                <div className="space-y-1" key={label}>
+                  <span className="text-muted-foreground text-xs">{label}</span>
+                  <Select onValueChange={onChange} value={value}>
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {versions.map((version) => (
+                        <SelectItem key={version.id} value={version.id}>
+                          {versionLabel(version)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            {from === to ? (
+              <p className="text-muted-foreground text-sm">
+                Pick two different versions to compare.
+              </p>
+            ) : diffLoading || !diff ? (
+              <Loading message="Comparing..." />
+            ) : (
+              <div className="space-y-2">
+                <p className="text-sm">
+                  <span className="text-green-700">+{diff.added} words</span>{" "}
+                  <span className="text-red-700">−{diff.removed} words</span>
+                </p>
+                <div className="max-h-[480px] overflow-y-auto whitespace-pre-wrap rounded-md border p-4 text-sm leading-relaxed">
+                  {withOffsets(diff.segments).map(({ offset, ...segment }) =>
+                    segment.type === "insert" ? (
+                      <ins
+                        className="bg-green-100 text-green-900 no-underline"
+                        key={offset}
+                      >
+                        {segment.text}
+                      </ins>
+                    ) : segment.type === "delete" ? (
+                      <del className="bg-red-100 text-red-900" key={offset}>
+                        {segment.text}
+                      </del>
+                    ) : (
+                      <span key={offset}>{segment.text}</span>
+                    ),
+                  )}
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Versions</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Captured</TableHead>
+                <TableHead>Source</TableHead>
+                <TableHead className="text-right">Words</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {versions.map((version) => (
+                <TableRow key={version.id}>
+                  <TableCell>
+                    {format(version.createdAt, "MMM d, yyyy HH:mm")}
+                    {version.createdByUser && (
+                      <span className="ml-2 text-muted-foreground text-xs">
+                        by{" "}
+                        {version.createdByUser.name ??
+                          version.createdByUser.email}
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">
+                      {SOURCE_LABELS[version.source]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {version.wordCount.toLocaleString()}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {version.isCurrent ? (
+                      <Badge variant="secondary">Current</Badge>
+                    ) : (
+                      <Button
+                        onClick={() => setRestoring(version)}
+                        size="sm"
+                        variant="ghost"
+                      >
+                        <RotateCcw className="mr-2 h-4 w-4" />
+                        Restore
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <AlertDialog
+        onOpenChange={(open) => !open && setRestoring(null)}
+        open={!!restoring}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore this version?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The text captured on{" "}
+              {restoring && format(restoring.createdAt, "MMMM d, yyyy")} becomes
+              the current indexed text and is re-indexed for search. The next
+              re-crawl or API sync replaces it again if the live content
+              differs.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={restoreMutation.isPending}
+              onClick={() =>
+                restoring && restoreMutation.mutate({ versionId: restoring.id })
+              }
+            >
+              {restoreMutation.isPending ? "Restoring..." : "Restore"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+"use client";
+
+import { format } from "date-fns";
+import { GitMerge } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
+import { api } from "~/trpc/react";
+
+interface ContentMergesProps {
+  contentId: string;
+}
+
+export function ContentMerges({ contentId }: ContentMergesProps) {
+  const { data: merges } = api.content.getMerges.useQuery({ id: contentId });
+
+  if (!merges || merges.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GitMerge className="h-4 w-4" />
+          Merged Items
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ul className="space-y-3">
+          {merges.map((merge) => (
+            <li className="text-sm" key={merge.id}>
+              <span className="font-medium">{merge.mergedTitle}</span>
+              <span className="block break-all text-muted-foreground text-xs">
+                {merge.mergedUrl}
+              </span>
+              <span className="block text-muted-foreground text-xs">
+                Merged {format(merge.createdAt, "MMM d, yyyy HH:mm")}
+                {merge.mergedByUser &&
+                  ` by ${merge.mergedByUser.name ?? merge.mergedByUser.email}`}
+                {merge.textMoved && " · indexed text taken from this item"}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
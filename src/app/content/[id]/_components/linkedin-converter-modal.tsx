@@ -122,7 +122,7 @@ export function LinkedInConverterModal({
           query: searchQuery,
           limit: 5,
         });
-        suggestedLinks = searchResults
+        suggestedLinks = searchResults.results
           .filter(
             (r: { contentItem: { id: string } | null }) =>
               r.contentItem && r.contentItem.id !== contentId,
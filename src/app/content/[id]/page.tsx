@@ -15,12 +15,16 @@ import { Badge } from "~/components/ui/badge";
 import { Button } from "~/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
 import { Separator } from "~/components/ui/separator";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "~/components/ui/tabs";
 import { api } from "~/trpc/server";
 import { ContentTypeBadge } from "../_components/content-badge";
 import { ContentIndexStatus } from "../_components/content-index-status";
 import { ReindexButton } from "../_components/reindex-button";
 import { SubmitTranscriptDialog } from "../_components/submit-transcript-dialog";
+import { ContentActivity } from "./_components/content-activity";
 import { ContentDetailActions } from "./_components/content-detail-actions";
+import { ContentHistory } from "./_components/content-history";
+import { ContentMerges } from "./_components/content-merges";
 
 interface PageProps {
   params: Promise<{ id: string }>;
@@ -85,79 +89,94 @@ export default async function ContentDetailPage(props: PageProps) {
 
       <div className="grid gap-6 lg:grid-cols-3">
         {/* Main Content */}
-        <div className="space-y-6 lg:col-span-2">
-          {/* Description */}
-          {content.description && (
-            <Card>
-              <CardHeader>
-                <CardTitle>Description</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <p className="whitespace-pre-wrap text-muted-foreground leading-relaxed">
-                  {content.description}
-                </p>
-              </CardContent>
-            </Card>
-          )}
+        <div className="lg:col-span-2">
+          <Tabs defaultValue="overview">
+            <TabsList>
+              <TabsTrigger value="overview">Overview</TabsTrigger>
+              <TabsTrigger value="history">History</TabsTrigger>
+            </TabsList>
 
-          {/* Campaigns */}
-          <Card>
-            <CardHeader>
-              <CardTitle>Campaigns</CardTitle>
-            </CardHeader>
-            <CardContent>
-              {content.campaigns.length > 0 ? (
-                <div className="flex flex-wrap gap-2">
-                  {content.campaigns.map((cc) => (
-                    <Link
-                      href={`/campaigns?highlight=${cc.campaign.id}`}
-                      key={cc.campaign.id}
-                    >
-                      <Badge className="cursor-pointer" variant="outline">
-                        {cc.campaign.name}
-                      </Badge>
-                    </Link>
-                  ))}
-                </div>
-              ) : (
-                <p className="text-muted-foreground text-sm">
-                  No campaigns assigned
-                </p>
+            <TabsContent className="mt-4 space-y-6" value="overview">
+              {/* Description */}
+              {content.description && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Description</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <p className="whitespace-pre-wrap text-muted-foreground leading-relaxed">
+                      {content.description}
+                    </p>
+                  </CardContent>
+                </Card>
               )}
-            </CardContent>
-          </Card>
 
-          {/* URL History */}
-          {content.previousUrls && content.previousUrls.length > 0 && (
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <History className="h-4 w-4" />
-                  URL History
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-2">
-                  {content.previousUrls.map((url, index) => (
-                    <div
-                      className="flex items-center gap-2 text-muted-foreground text-sm"
-                      key={index}
-                    >
-                      <a
-                        className="hover:underline"
-                        href={url}
-                        rel="noopener noreferrer"
-                        target="_blank"
-                      >
-                        {url}
-                      </a>
-                      <ExternalLink className="h-3 w-3" />
+              {/* Campaigns */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Campaigns</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {content.campaigns.length > 0 ? (
+                    <div className="flex flex-wrap gap-2">
+                      {content.campaigns.map((cc) => (
+                        <Link
+                          href={`/campaigns?highlight=${cc.campaign.id}`}
+                          key={cc.campaign.id}
+                        >
+                          <Badge className="cursor-pointer" variant="outline">
+                            {cc.campaign.name}
+                          </Badge>
+                        </Link>
+                      ))}
                     </div>
-                  ))}
-                </div>
-              </CardContent>
-            </Card>
-          )}
+                  ) : (
+                    <p className="text-muted-foreground text-sm">
+                      No campaigns assigned
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* URL History */}
+              {content.previousUrls && content.previousUrls.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <History className="h-4 w-4" />
+                      URL History
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-2">
+                      {content.previousUrls.map((url, index) => (
+                        <div
+                          className="flex items-center gap-2 text-muted-foreground text-sm"
+                          key={index}
+                        >
+                          <a
+                            className="hover:underline"
+                            href={url}
+                            rel="noopener noreferrer"
+                            target="_blank"
+                          >
+                            {url}
+                          </a>
+                          <ExternalLink className="h-3 w-3" />
+                        </div>
+                      ))}
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+            </TabsContent>
+
+            <TabsContent className="mt-4 space-y-6" value="history">
+              <ContentMerges contentId={content.id} />
+              <ContentHistory contentId={content.id} />
+              <ContentActivity contentId={content.id} />
+            </TabsContent>
+          </Tabs>
         </div>
 
         {/* Sidebar */}
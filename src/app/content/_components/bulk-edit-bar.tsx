@@ -0,0 +1,59 @@
+"use client";
+
+import { Pencil, X } from "lucide-react";
+import { Button } from "~/components/ui/button";
+
+interface BulkEditBarProps {
+  selectedCount: number;
+  totalMatching: number;
+  allMatching: boolean;
+  // Select-all needs a filter scope, which ranked search results don't have
+  canSelectAllMatching: boolean;
+  onSelectAllMatching: () => void;
+  onClear: () => void;
+  onEdit: () => void;
+}
+
+export function BulkEditBar({
+  selectedCount,
+  totalMatching,
+  allMatching,
+  canSelectAllMatching,
+  onSelectAllMatching,
+  onClear,
+  onEdit,
+}: BulkEditBarProps) {
+  return (
+    <div className="flex items-center justify-between rounded-lg border bg-muted/50 px-4 py-2">
+      <div className="flex items-center gap-3 text-sm">
+        <span className="font-medium">
+          {allMatching
+            ? `All ${totalMatching} matching items selected`
+            : `${selectedCount} selected`}
+        </span>
+        {!allMatching &&
+          canSelectAllMatching &&
+          totalMatching > selectedCount && (
+            <Button
+              className="h-auto p-0"
+              onClick={onSelectAllMatching}
+              size="sm"
+              variant="link"
+            >
+              Select all {totalMatching} matching
+            </Button>
+          )}
+      </div>
+      <div className="flex items-center gap-2">
+        <Button onClick={onClear} size="sm" variant="ghost">
+          <X className="mr-1 h-4 w-4" />
+          Clear
+        </Button>
+        <Button onClick={onEdit} size="sm">
+          <Pencil className="mr-1 h-4 w-4" />
+          Edit Selected
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,244 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "~/components/ui/button";
+import { Checkbox } from "~/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "~/components/ui/dialog";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { api, type RouterInputs } from "~/trpc/react";
+import { CampaignMultiSelect } from "./campaign-multi-select";
+
+export type BulkEditScope = RouterInputs["content"]["bulkUpdate"]["scope"];
+
+interface BulkEditDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  scope: BulkEditScope;
+  count: number;
+  onDone: () => void;
+}
+
+const KEEP = "keep";
+
+function parseTags(value: string) {
+  return value
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+}
+
+export function BulkEditDialog({
+  open,
+  onOpenChange,
+  scope,
+  count,
+  onDone,
+}: BulkEditDialogProps) {
+  const [addTags, setAddTags] = useState("");
+  const [removeTags, setRemoveTags] = useState("");
+  const [addCampaignIds, setAddCampaignIds] = useState<string[]>([]);
+  const [removeCampaignIds, setRemoveCampaignIds] = useState<string[]>([]);
+  const [contentTypeId, setContentTypeId] = useState(KEEP);
+  const [setAudience, setSetAudience] = useState(false);
+  const [targetAudience, setTargetAudience] = useState("");
+  const [setAuthor, setSetAuthor] = useState(false);
+  const [author, setAuthorValue] = useState("");
+  const [reindex, setReindex] = useState(false);
+
+  const utils = api.useUtils();
+  const { data: contentTypes } = api.contentTypes.list.useQuery();
+
+  const reset = () => {
+    setAddTags("");
+    setRemoveTags("");
+    setAddCampaignIds([]);
+    setRemoveCampaignIds([]);
+    setContentTypeId(KEEP);
+    setSetAudience(false);
+    setTargetAudience("");
+    setSetAuthor(false);
+    setAuthorValue("");
+    setReindex(false);
+  };
+
+  const bulkUpdateMutation = api.content.bulkUpdate.useMutation({
+    onSuccess: (result) => {
+      toast.success(result.message);
+      void utils.content.list.invalidate();
+      if (result.reindexQueued > 0) {
+        void utils.content.getIndexStatus.invalidate();
+      }
+      reset();
+      onOpenChange(false);
+      onDone();
+    },
+    onError: (error) => {
+      toast.error(`Bulk edit failed: ${error.message}`);
+    },
+  });
+
+  const changes = {
+    addTags: parseTags(addTags),
+    removeTags: parseTags(removeTags),
+    addCampaignIds,
+    removeCampaignIds,
+    contentTypeId:
+      contentTypeId === KEEP ? undefined : Number.parseInt(contentTypeId, 10),
+    // An empty value clears the field
+    targetAudience: setAudience ? targetAudience.trim() || null : undefined,
+    author: setAuthor ? author.trim() || null : undefined,
+    reindex,
+  };
+
+  const hasChanges =
+    changes.addTags.length > 0 ||
+    changes.removeTags.length > 0 ||
+    addCampaignIds.length > 0 ||
+    removeCampaignIds.length > 0 ||
+    changes.contentTypeId !== undefined ||
+    setAudience ||
+    setAuthor ||
+    reindex;
+
+  return (
+    <Dialog onOpenChange={onOpenChange} open={open}>
+      <DialogContent className="max-h-[90vh] max-w-lg overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            Edit {count} {count === 1 ? "item" : "items"}
+          </DialogTitle>
+          <DialogDescription>
+            Only the changes you fill in are applied. Everything else on each
+            item stays as it is.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="bulk-add-tags">Add tags</Label>
+              <Input
+                id="bulk-add-tags"
+                onChange={(e) => setAddTags(e.target.value)}
+                placeholder="tag1, tag2"
+                value={addTags}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="bulk-remove-tags">Remove tags</Label>
+              <Input
+                id="bulk-remove-tags"
+                onChange={(e) => setRemoveTags(e.target.value)}
+                placeholder="tag1, tag2"
+                value={removeTags}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-1.5">
+            <Label>Add to campaigns</Label>
+            <CampaignMultiSelect
+              onChange={setAddCampaignIds}
+              value={addCampaignIds}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label>Remove from campaigns</Label>
+            <CampaignMultiSelect
+              onChange={setRemoveCampaignIds}
+              value={removeCampaignIds}
+            />
+          </div>
+
+          <div className="space-y-1.5">
+            <Label>Content type</Label>
+            <Select onValueChange={setContentTypeId} value={contentTypeId}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={KEEP}>Don't change</SelectItem>
+                {contentTypes?.map((type) => (
+                  <SelectItem key={type.id} value={type.id.toString()}>
+                    {type.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1.5">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                checked={setAudience}
+                id="bulk-set-audience"
+                onCheckedChange={(checked) => setSetAudience(checked === true)}
+              />
+              <Label htmlFor="bulk-set-audience">Set target audience</Label>
+            </div>
+            <Input
+              disabled={!setAudience}
+              onChange={(e) => setTargetAudience(e.target.value)}
+              placeholder="Leave empty to clear"
+              value={targetAudience}
+            />
+          </div>
+
+          <div className="space-y-1.5">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                checked={setAuthor}
+                id="bulk-set-author"
+                onCheckedChange={(checked) => setSetAuthor(checked === true)}
+              />
+              <Label htmlFor="bulk-set-author">Set author</Label>
+            </div>
+            <Input
+              disabled={!setAuthor}
+              onChange={(e) => setAuthorValue(e.target.value)}
+              placeholder="Leave empty to clear"
+              value={author}
+            />
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              checked={reindex}
+              id="bulk-reindex"
+              onCheckedChange={(checked) => setReindex(checked === true)}
+            />
+            <Label htmlFor="bulk-reindex">Queue for reindexing</Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={() => onOpenChange(false)} variant="outline">
+            Cancel
+          </Button>
+          <Button
+            disabled={!hasChanges || bulkUpdateMutation.isPending}
+            onClick={() => bulkUpdateMutation.mutate({ scope, ...changes })}
+          >
+            {bulkUpdateMutation.isPending ? "Applying..." : "Apply Changes"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
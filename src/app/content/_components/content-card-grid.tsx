@@ -6,6 +6,7 @@ import Link from "next/link";
 import { Badge } from "~/components/ui/badge";
 import { Button } from "~/components/ui/button";
 import { Card, CardContent, CardHeader } from "~/components/ui/card";
+import { Checkbox } from "~/components/ui/checkbox";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -14,8 +15,9 @@ import {
 } from "~/components/ui/dropdown-menu";
 import { ContentTypeBadge } from "./content-badge";
 import { ContentIndexStatus } from "./content-index-status";
-import { HighlightedSnippet } from "./highlighted-snippet";
+import type { ContentSelection } from "./content-list";
 import { MatchTypeBadge } from "./match-type-badge";
+import { type SearchPassage, SearchPassages } from "./search-passages";
 
 interface ContentCardGridProps {
   items: Array<{
@@ -29,13 +31,15 @@ interface ContentCardGridProps {
     contentTypeRel: { name: string; color: string };
     campaigns: Array<{ campaign: { id: string; name: string } }>;
     relevanceScore?: number;
-    matchedText?: string;
     matchType?: "keyword" | "semantic" | "both";
-    matchedTerms?: string[];
+    passages?: SearchPassage[];
   }>;
   showRelevance: boolean;
   onEdit: (id: string) => void;
   onDelete: (item: { id: string; title: string }) => void;
+  // An item was opened from its position in the list
+  onOpen?: (id: string, index: number) => void;
+  selection?: ContentSelection;
 }
 
 export function ContentCardGrid({
@@ -43,17 +47,26 @@ export function ContentCardGrid({
   showRelevance,
   onEdit,
   onDelete,
+  onOpen,
+  selection,
 }: ContentCardGridProps) {
   return (
     <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
-      {items.map((item) => (
+      {items.map((item, index) => (
         <Card
-          className="group relative transition-shadow hover:shadow-md"
+          className={`group relative transition-shadow hover:shadow-md ${selection?.isSelected(item.id) ? "ring-2 ring-primary" : ""}`}
           key={item.id}
         >
           <CardHeader className="pb-3">
             <div className="flex items-start justify-between gap-2">
               <div className="flex items-center gap-2">
+                {selection && (
+                  <Checkbox
+                    aria-label={`Select ${item.title}`}
+                    checked={selection.isSelected(item.id)}
+                    onCheckedChange={() => selection.onToggle(item.id)}
+                  />
+                )}
                 <ContentTypeBadge type={item.contentTypeRel} />
                 <ContentIndexStatus contentId={item.id} />
               </div>
@@ -87,6 +100,7 @@ export function ContentCardGrid({
             <Link
               className="font-semibold text-sm leading-tight hover:underline"
               href={`/content/${item.id}`}
+              onClick={() => onOpen?.(item.id, index)}
             >
               {item.title}
             </Link>
@@ -109,12 +123,7 @@ export function ContentCardGrid({
                   )}
                   {item.matchType && <MatchTypeBadge type={item.matchType} />}
                 </div>
-                {item.matchedText && (
-                  <HighlightedSnippet
-                    matchedTerms={item.matchedTerms ?? []}
-                    snippet={item.matchedText}
-                  />
-                )}
+                {item.passages && <SearchPassages passages={item.passages} />}
               </div>
             )}
 
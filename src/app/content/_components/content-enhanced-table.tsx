@@ -14,6 +14,7 @@ import {
 import Link from "next/link";
 import { Badge } from "~/components/ui/badge";
 import { Button } from "~/components/ui/button";
+import { Checkbox } from "~/components/ui/checkbox";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -35,9 +36,10 @@ import {
 } from "~/components/ui/tooltip";
 import { ContentTypeBadge } from "./content-badge";
 import { ContentIndexStatus } from "./content-index-status";
-import { HighlightedSnippet } from "./highlighted-snippet";
+import type { ContentSelection } from "./content-list";
 import { MatchTypeBadge } from "./match-type-badge";
 import { ReindexButton } from "./reindex-button";
+import { type SearchPassage, SearchPassages } from "./search-passages";
 
 type SortColumn = "title" | "date" | "type" | "author" | "createdAt";
 type SortOrder = "asc" | "desc";
@@ -54,9 +56,8 @@ interface ContentEnhancedTableProps {
     contentTypeRel: { name: string; color: string };
     campaigns: Array<{ campaign: { id: string; name: string } }>;
     relevanceScore?: number;
-    matchedText?: string;
     matchType?: "keyword" | "semantic" | "both";
-    matchedTerms?: string[];
+    passages?: SearchPassage[];
   }>;
   showRelevance: boolean;
   sortBy?: SortColumn;
@@ -64,7 +65,10 @@ interface ContentEnhancedTableProps {
   onSort?: (column: SortColumn) => void;
   onEdit: (id: string) => void;
   onDelete: (item: { id: string; title: string }) => void;
+  // An item was opened from its position in the list
+  onOpen?: (id: string, index: number) => void;
   onReindex?: (id: string) => void;
+  selection?: ContentSelection;
 }
 
 export function ContentEnhancedTable({
@@ -75,7 +79,9 @@ export function ContentEnhancedTable({
   onSort,
   onEdit,
   onDelete,
+  onOpen,
   onReindex,
+  selection,
 }: ContentEnhancedTableProps) {
   function SortableHeader({
     column,
@@ -114,6 +120,21 @@ export function ContentEnhancedTable({
       <Table aria-label="Content inventory" className="table-fixed">
         <TableHeader>
           <TableRow className="hover:bg-transparent">
+            {selection && (
+              <TableHead className="sticky top-0 w-10">
+                <Checkbox
+                  aria-label="Select all on this page"
+                  checked={
+                    selection.pageSelected
+                      ? true
+                      : selection.someSelected
+                        ? "indeterminate"
+                        : false
+                  }
+                  onCheckedChange={selection.onTogglePage}
+                />
+              </TableHead>
+            )}
             <SortableHeader className="w-[30%]" column="title">
               Title
             </SortableHeader>
@@ -135,14 +156,30 @@ export function ContentEnhancedTable({
           </TableRow>
         </TableHeader>
         <TableBody>
-          {items.map((item) => (
-            <TableRow className="group" key={item.id}>
+          {items.map((item, index) => (
+            <TableRow
+              className="group"
+              data-state={
+                selection?.isSelected(item.id) ? "selected" : undefined
+              }
+              key={item.id}
+            >
+              {selection && (
+                <TableCell>
+                  <Checkbox
+                    aria-label={`Select ${item.title}`}
+                    checked={selection.isSelected(item.id)}
+                    onCheckedChange={() => selection.onToggle(item.id)}
+                  />
+                </TableCell>
+              )}
               <TableCell className="whitespace-normal py-3">
                 <div className="flex flex-col gap-0.5 overflow-hidden">
                   <div className="flex items-start gap-2">
                     <Link
                       className="break-words font-medium hover:underline"
                       href={`/content/${item.id}`}
+                      onClick={() => onOpen?.(item.id, index)}
                     >
                       {item.title}
                     </Link>
@@ -159,17 +196,14 @@ export function ContentEnhancedTable({
                   <span className="truncate text-muted-foreground text-xs">
                     {item.currentUrl}
                   </span>
-                  {showRelevance && item.matchedText && (
+                  {showRelevance && item.passages && (
                     <div className="mt-1 flex flex-col gap-1">
                       <div className="flex items-center gap-2">
                         {item.matchType && (
                           <MatchTypeBadge type={item.matchType} />
                         )}
                       </div>
-                      <HighlightedSnippet
-                        matchedTerms={item.matchedTerms ?? []}
-                        snippet={item.matchedText}
-                      />
+                      <SearchPassages passages={item.passages} />
                     </div>
                   )}
                 </div>
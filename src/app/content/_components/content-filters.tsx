@@ -1,6 +1,6 @@
 "use client";
 
-import { Check, ChevronsUpDown, X } from "lucide-react";
+import { BarChart3, Check, ChevronsUpDown, X } from "lucide-react";
 import { useState } from "react";
 import { Badge } from "~/components/ui/badge";
 import { Button } from "~/components/ui/button";
@@ -27,7 +27,46 @@ import {
   SelectValue,
 } from "~/components/ui/select";
 import { cn } from "~/lib/utils";
-import { api } from "~/trpc/react";
+import { api, type RouterOutputs } from "~/trpc/react";
+
+// Counts of the matching content per filter value, from the list or search
+export type ContentFacets = RouterOutputs["content"]["list"]["facets"];
+
+export type LinkStatusFilter =
+  | "ok"
+  | "redirect"
+  | "broken"
+  | "timeout"
+  | "error"
+  | "unchecked";
+
+const LINK_STATUS_LABELS: Record<LinkStatusFilter, string> = {
+  ok: "Link OK",
+  redirect: "Redirected",
+  broken: "Broken (HTTP error)",
+  timeout: "Timed out",
+  error: "Unreachable",
+  unchecked: "Not checked yet",
+};
+
+const SOURCE_LABELS: Record<string, string> = {
+  manual: "Added manually",
+  csv_import: "CSV import",
+  cms_api: "CMS API",
+  asana_webhook: "Asana",
+  ghost_api: "Ghost",
+  contentful_api: "Contentful",
+  youtube_api: "YouTube",
+};
+
+function FacetCount({ count }: { count: number | undefined }) {
+  if (count === undefined) return null;
+  return (
+    <span className="ml-2 text-muted-foreground text-xs tabular-nums">
+      {count}
+    </span>
+  );
+}
 
 interface ContentFiltersProps {
   filters: {
@@ -38,6 +77,7 @@ interface ContentFiltersProps {
     tags: string[];
     publishDateFrom: string;
     publishDateTo: string;
+    linkStatuses: LinkStatusFilter[];
   };
   onFiltersChange: (filters: {
     search: string;
@@ -47,12 +87,56 @@ interface ContentFiltersProps {
     tags: string[];
     publishDateFrom: string;
     publishDateTo: string;
+    linkStatuses: LinkStatusFilter[];
   }) => void;
+  // Undefined while the list or search is loading
+  facets?: ContentFacets;
+}
+
+interface FacetRow {
+  label: string;
+  count: number;
+  onSelect?: () => void;
+}
+
+function FacetSection({ title, rows }: { title: string; rows: FacetRow[] }) {
+  return (
+    <div className="space-y-1">
+      <p className="font-medium text-muted-foreground text-xs uppercase">
+        {title}
+      </p>
+      {rows.length === 0 && (
+        <p className="text-muted-foreground text-sm">None</p>
+      )}
+      {rows.map((row) =>
+        row.onSelect ? (
+          <button
+            className="flex w-full items-center justify-between rounded px-1 text-left text-sm hover:bg-accent"
+            key={row.label}
+            onClick={row.onSelect}
+            type="button"
+          >
+            <span className="truncate">{row.label}</span>
+            <FacetCount count={row.count} />
+          </button>
+        ) : (
+          <div
+            className="flex items-center justify-between px-1 text-sm"
+            key={row.label}
+          >
+            <span className="truncate">{row.label}</span>
+            <FacetCount count={row.count} />
+          </div>
+        ),
+      )}
+    </div>
+  );
 }
 
 export function ContentFilters({
   filters,
   onFiltersChange,
+  facets,
 }: ContentFiltersProps) {
   const { data: campaigns } = api.campaigns.list.useQuery();
   const { data: contentTypes } = api.contentTypes.list.useQuery();
@@ -64,7 +148,8 @@ export function ContentFilters({
     filters.campaignIds.length > 0 ||
     filters.tags.length > 0 ||
     filters.publishDateFrom.length > 0 ||
-    filters.publishDateTo.length > 0;
+    filters.publishDateTo.length > 0 ||
+    filters.linkStatuses.length > 0;
 
   const handleClearFilters = () => {
     onFiltersChange({
@@ -74,6 +159,7 @@ export function ContentFilters({
       tags: [],
       publishDateFrom: "",
       publishDateTo: "",
+      linkStatuses: [],
     });
   };
 
@@ -87,6 +173,21 @@ export function ContentFilters({
     });
   };
 
+  // Values missing from a facet have no matching items
+  const countOf = <T extends string | number>(
+    counts: Array<{ value: T; count: number }> | undefined,
+    value: T,
+  ) =>
+    counts ? (counts.find((c) => c.value === value)?.count ?? 0) : undefined;
+
+  const handleSelectYear = (year: number) => {
+    onFiltersChange({
+      ...filters,
+      publishDateFrom: `${year}-01-01`,
+      publishDateTo: `${year}-12-31`,
+    });
+  };
+
   const activeContentType = contentTypes?.find(
     (t) => t.id === filters.contentTypeIds[0],
   );
@@ -115,6 +216,7 @@ export function ContentFilters({
             {contentTypes?.map((type) => (
               <SelectItem key={type.id} value={type.id.toString()}>
                 {type.name}
+                <FacetCount count={countOf(facets?.contentTypes, type.id)} />
               </SelectItem>
             ))}
           </SelectContent>
@@ -137,6 +239,30 @@ export function ContentFilters({
             {campaigns?.map((campaign) => (
               <SelectItem key={campaign.id} value={campaign.id}>
                 {campaign.name}
+                <FacetCount count={countOf(facets?.campaigns, campaign.id)} />
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select
+          onValueChange={(value) =>
+            onFiltersChange({
+              ...filters,
+              linkStatuses:
+                value === "all" ? [] : [value as LinkStatusFilter],
+            })
+          }
+          value={filters.linkStatuses[0] ?? "all"}
+        >
+          <SelectTrigger className="w-[180px]">
+            <SelectValue placeholder="Link Status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Any Link Status</SelectItem>
+            {Object.entries(LINK_STATUS_LABELS).map(([status, label]) => (
+              <SelectItem key={status} value={status}>
+                {label}
               </SelectItem>
             ))}
           </SelectContent>
@@ -177,6 +303,9 @@ export function ContentFilters({
                         )}
                       />
                       {tag}
+                      <span className="ml-auto">
+                        <FacetCount count={countOf(facets?.tags, tag)} />
+                      </span>
                     </CommandItem>
                   ))}
                 </CommandGroup>
@@ -185,6 +314,39 @@ export function ContentFilters({
           </PopoverContent>
         </Popover>
 
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button disabled={!facets} variant="outline">
+              <BarChart3 className="mr-2 h-4 w-4" />
+              Breakdown
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="start" className="w-[300px] space-y-4">
+            <FacetSection
+              rows={(facets?.sources ?? []).map((source) => ({
+                label: SOURCE_LABELS[source.value] ?? source.value,
+                count: source.count,
+              }))}
+              title="Source"
+            />
+            <FacetSection
+              rows={(facets?.publishYears ?? []).map((year) => ({
+                label: String(year.value),
+                count: year.count,
+                onSelect: () => handleSelectYear(year.value),
+              }))}
+              title="Publish year"
+            />
+            <FacetSection
+              rows={(facets?.authors ?? []).map((author) => ({
+                label: author.value,
+                count: author.count,
+              }))}
+              title="Top authors"
+            />
+          </PopoverContent>
+        </Popover>
+
         <div className="flex items-end gap-2">
           <div className="flex flex-col gap-1">
             <Label className="text-muted-foreground text-xs" htmlFor="date-from">
@@ -260,6 +422,16 @@ export function ContentFilters({
               <X className="h-3 w-3" />
             </Badge>
           )}
+          {filters.linkStatuses[0] && (
+            <Badge
+              className="cursor-pointer gap-1"
+              onClick={() => onFiltersChange({ ...filters, linkStatuses: [] })}
+              variant="secondary"
+            >
+              Link: {LINK_STATUS_LABELS[filters.linkStatuses[0]]}
+              <X className="h-3 w-3" />
+            </Badge>
+          )}
           {filters.tags.map((tag) => (
             <Badge
               className="cursor-pointer gap-1"
@@ -36,6 +36,26 @@ export function ContentIndexStatus({ contentId }: ContentIndexStatusProps) {
 
   switch (indexStatus.indexStatus) {
     case "indexed":
+      // Some chunks have no embedding yet; the backfill job fills them in
+      if (indexStatus.embeddedChunks < indexStatus.totalChunks) {
+        return (
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <button
+                className="cursor-default rounded-full bg-orange-100 px-2 py-1 text-orange-700 text-xs"
+                type="button"
+              >
+                Partially embedded ({indexStatus.embeddedChunks} of{" "}
+                {indexStatus.totalChunks} chunks)
+              </button>
+            </TooltipTrigger>
+            <TooltipContent className="max-w-xs">
+              Chunks without an embedding only match keyword search until the
+              embedding backfill runs
+            </TooltipContent>
+          </Tooltip>
+        );
+      }
       return (
         <Tooltip>
           <TooltipTrigger asChild>
@@ -18,11 +18,16 @@ import {
   SelectValue,
 } from "~/components/ui/select";
 import { Skeleton } from "~/components/ui/skeleton";
+import { hasFreeText, parseSearchQuery } from "~/lib/search-query";
 import { api } from "~/trpc/react";
+import { BulkEditBar } from "./bulk-edit-bar";
+import { BulkEditDialog } from "./bulk-edit-dialog";
 import { ContentCardGrid } from "./content-card-grid";
 import { ContentEnhancedTable } from "./content-enhanced-table";
+import type { ContentFacets, LinkStatusFilter } from "./content-filters";
 import { ContentFormDialog } from "./content-form-dialog";
 import { DeleteContentDialog } from "./delete-content-dialog";
+import type { SearchPassage } from "./search-passages";
 
 interface ContentListProps {
   filters: {
@@ -33,13 +38,34 @@ interface ContentListProps {
     tags: string[];
     publishDateFrom: string;
     publishDateTo: string;
+    linkStatuses: LinkStatusFilter[];
   };
+  sort: ContentSort;
+  onSortChange: (sort: ContentSort) => void;
   viewMode: "grid" | "table";
   onTotalChange?: (total: number) => void;
+  onFacetsChange?: (facets: ContentFacets | undefined) => void;
+  // Show selection checkboxes and bulk edit (contributors and admins)
+  selectable?: boolean;
+  // Unmodified saved view on screen: "all matching" bulk edits run on the view
+  scopeViewId?: string;
 }
 
-type SortColumn = "title" | "date" | "type" | "author" | "createdAt";
-type SortOrder = "asc" | "desc";
+export type SortColumn = "title" | "date" | "type" | "author" | "createdAt";
+export type SortOrder = "asc" | "desc";
+export interface ContentSort {
+  sortBy: SortColumn;
+  sortOrder: SortOrder;
+}
+
+// Row selection handed to the table and grid views
+export interface ContentSelection {
+  isSelected: (id: string) => boolean;
+  onToggle: (id: string) => void;
+  onTogglePage: () => void;
+  pageSelected: boolean;
+  someSelected: boolean;
+}
 
 const SORT_LABELS: Record<SortColumn, string> = {
   title: "Title",
@@ -51,20 +77,30 @@ const SORT_LABELS: Record<SortColumn, string> = {
 
 export function ContentList({
   filters,
+  sort,
+  onSortChange,
   viewMode,
   onTotalChange,
+  onFacetsChange,
+  selectable = false,
+  scopeViewId,
 }: ContentListProps) {
   const [page, setPage] = useState(0);
   const pageSize = 50;
+  const searchPageSize = 20;
   const [editingId, setEditingId] = useState<string | undefined>();
   const [deletingItem, setDeletingItem] = useState<
     { id: string; title: string } | undefined
   >();
   const [debouncedSearch, setDebouncedSearch] = useState(filters.search);
-  const [sortBy, setSortBy] = useState<SortColumn>("date");
-  const [sortOrder, setSortOrder] = useState<SortOrder>("desc");
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  // Every item matching the filters, not just the selected rows
+  const [allMatching, setAllMatching] = useState(false);
+  const [showBulkEdit, setShowBulkEdit] = useState(false);
+  const { sortBy, sortOrder } = sort;
 
   const utils = api.useUtils();
+  const recordClick = api.searchAnalytics.recordClick.useMutation();
   const reindexMutation = api.content.reindexContent.useMutation({
     onSuccess: () => {
       void utils.content.getIndexStatus.invalidate();
@@ -73,24 +109,30 @@ export function ContentList({
 
   const handleSort = (column: SortColumn) => {
     if (sortBy === column) {
-      setSortOrder((prev) => (prev === "asc" ? "desc" : "asc"));
+      onSortChange({ sortBy, sortOrder: sortOrder === "asc" ? "desc" : "asc" });
     } else {
-      setSortBy(column);
-      setSortOrder(column === "title" ? "asc" : "desc");
+      onSortChange({
+        sortBy: column,
+        sortOrder: column === "title" ? "asc" : "desc",
+      });
     }
     setPage(0);
   };
 
-  // Reset page to 0 when filters change
+  // Reset page and selection when filters change
   useEffect(() => {
     setPage(0);
+    setSelectedIds(new Set());
+    setAllMatching(false);
   }, [
     filters.search,
+    filters.searchMode,
     filters.contentTypeIds,
     filters.campaignIds,
     filters.tags,
     filters.publishDateFrom,
     filters.publishDateTo,
+    filters.linkStatuses,
   ]);
 
   // Debounce search input by 300ms
@@ -101,27 +143,36 @@ export function ContentList({
     return () => clearTimeout(timer);
   }, [filters.search]);
 
-  // Determine which search mode to use
-  const useHybridSearch =
-    filters.searchMode === "fullContent" && debouncedSearch.length > 0;
-  const useKeywordSearch =
-    filters.searchMode === "keyword" && debouncedSearch.length > 0;
+  // Determine which search mode to use. A query of only field operators has
+  // nothing to rank, so it runs as a filtered list in every mode
+  const rankable = hasFreeText(parseSearchQuery(debouncedSearch));
+  const useHybridSearch = filters.searchMode === "fullContent" && rankable;
+  const useKeywordSearch = filters.searchMode === "keyword" && rankable;
   const useAdvancedSearch = useHybridSearch || useKeywordSearch;
 
+  // Structured filters apply in every search mode
+  const structuredFilters = {
+    contentTypeIds:
+      filters.contentTypeIds.length > 0 ? filters.contentTypeIds : undefined,
+    campaignIds:
+      filters.campaignIds.length > 0 ? filters.campaignIds : undefined,
+    tags: filters.tags.length > 0 ? filters.tags : undefined,
+    publishDateFrom:
+      filters.publishDateFrom.length > 0 ? filters.publishDateFrom : undefined,
+    publishDateTo:
+      filters.publishDateTo.length > 0 ? filters.publishDateTo : undefined,
+    linkStatuses:
+      filters.linkStatuses.length > 0 ? filters.linkStatuses : undefined,
+  };
+
+  const listFilters = {
+    ...structuredFilters,
+    search: debouncedSearch.length > 0 ? debouncedSearch : undefined,
+  };
+
   const { data: listData, isLoading: listLoading } = api.content.list.useQuery(
     {
-      search: debouncedSearch.length > 0 ? debouncedSearch : undefined,
-      contentTypeIds:
-        filters.contentTypeIds.length > 0 ? filters.contentTypeIds : undefined,
-      campaignIds:
-        filters.campaignIds.length > 0 ? filters.campaignIds : undefined,
-      tags: filters.tags.length > 0 ? filters.tags : undefined,
-      publishDateFrom:
-        filters.publishDateFrom.length > 0
-          ? filters.publishDateFrom
-          : undefined,
-      publishDateTo:
-        filters.publishDateTo.length > 0 ? filters.publishDateTo : undefined,
+      ...listFilters,
       sortBy,
       sortOrder,
       limit: pageSize,
@@ -132,13 +183,23 @@ export function ContentList({
 
   const { data: hybridSearchData, isLoading: hybridSearchLoading } =
     api.content.hybridSearch.useQuery(
-      { query: debouncedSearch, limit: pageSize },
+      {
+        ...structuredFilters,
+        query: debouncedSearch,
+        limit: searchPageSize,
+        offset: page * searchPageSize,
+      },
       { enabled: useHybridSearch },
     );
 
   const { data: keywordSearchData, isLoading: keywordSearchLoading } =
     api.content.keywordSearch.useQuery(
-      { query: debouncedSearch, limit: pageSize },
+      {
+        ...structuredFilters,
+        query: debouncedSearch,
+        limit: searchPageSize,
+        offset: page * searchPageSize,
+      },
       { enabled: useKeywordSearch },
     );
 
@@ -154,14 +215,14 @@ export function ContentList({
     filters.campaignIds.length > 0 ||
     filters.tags.length > 0 ||
     filters.publishDateFrom.length > 0 ||
-    filters.publishDateTo.length > 0;
+    filters.publishDateTo.length > 0 ||
+    filters.linkStatuses.length > 0;
 
   // Normalize data
   type ItemWithSearch = NonNullable<typeof listData>["items"][number] & {
     relevanceScore?: number;
-    matchedText?: string;
     matchType?: "keyword" | "semantic" | "both";
-    matchedTerms?: string[];
+    passages?: SearchPassage[];
   };
 
   const searchData = useHybridSearch
@@ -170,37 +231,21 @@ export function ContentList({
       ? keywordSearchData
       : null;
 
+  // Search results arrive grouped: one per content item with its top passages
   const items: ItemWithSearch[] = useAdvancedSearch
-    ? (() => {
-        const allItems =
-          searchData
-            ?.map((result) =>
-              result.contentItem
-                ? {
-                    ...result.contentItem,
-                    relevanceScore: result.relevanceScore,
-                    matchedText: result.snippet,
-                    matchType: result.matchType,
-                    matchedTerms: result.matchedTerms,
-                  }
-                : null,
-            )
-            .filter(
-              (item): item is NonNullable<typeof item> => item !== null,
-            ) ?? [];
-
-        const itemMap = new Map<string, ItemWithSearch>();
-        for (const item of allItems) {
-          const existing = itemMap.get(item.id);
-          if (
-            !existing ||
-            (item.relevanceScore ?? 0) > (existing.relevanceScore ?? 0)
-          ) {
-            itemMap.set(item.id, item);
-          }
-        }
-        return Array.from(itemMap.values());
-      })()
+    ? (searchData?.results
+        .map((result) =>
+          result.contentItem
+            ? {
+                ...result.contentItem,
+                relevanceScore: result.relevanceScore,
+                matchType: result.matchType,
+                passages: result.passages,
+              }
+            : null,
+        )
+        .filter((item): item is NonNullable<typeof item> => item !== null) ??
+      [])
     : (listData?.items ?? []);
 
   const totalItems = useAdvancedSearch ? items.length : (listData?.total ?? 0);
@@ -210,6 +255,83 @@ export function ContentList({
     onTotalChange?.(totalItems);
   }, [totalItems, onTotalChange]);
 
+  // Clicks on any page count toward the search logged with its first page
+  const [searchId, setSearchId] = useState<string | null>(null);
+  const pageSearchId = useAdvancedSearch
+    ? searchData?.searchId
+    : listData?.searchId;
+  useEffect(() => {
+    if (page === 0 && pageSearchId !== undefined) {
+      setSearchId(pageSearchId);
+    }
+  }, [page, pageSearchId]);
+
+  const handleOpen = (id: string, index: number) => {
+    if (!searchId) return;
+    recordClick.mutate({
+      searchId,
+      contentItemId: id,
+      position: page * (useAdvancedSearch ? searchPageSize : pageSize) + index,
+    });
+  };
+
+  // Report facet counts to parent, for the filter controls
+  const facets = useAdvancedSearch ? searchData?.facets : listData?.facets;
+  useEffect(() => {
+    onFacetsChange?.(facets);
+  }, [facets, onFacetsChange]);
+
+  const clearSelection = () => {
+    setSelectedIds(new Set());
+    setAllMatching(false);
+  };
+
+  const isSelected = (id: string) => allMatching || selectedIds.has(id);
+
+  const toggleSelected = (id: string) => {
+    // Unticking one row of "all matching" narrows back to the visible rows
+    const next = allMatching
+      ? new Set(items.map((item) => item.id))
+      : new Set(selectedIds);
+    if (isSelected(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setAllMatching(false);
+    setSelectedIds(next);
+  };
+
+  const pageSelected =
+    items.length > 0 && items.every((item) => isSelected(item.id));
+
+  const togglePageSelected = () => {
+    const next = allMatching
+      ? new Set(items.map((item) => item.id))
+      : new Set(selectedIds);
+    for (const item of items) {
+      if (pageSelected) {
+        next.delete(item.id);
+      } else {
+        next.add(item.id);
+      }
+    }
+    setAllMatching(false);
+    setSelectedIds(next);
+  };
+
+  const selectedCount = allMatching ? totalItems : selectedIds.size;
+
+  const selection: ContentSelection | undefined = selectable
+    ? {
+        isSelected,
+        onToggle: toggleSelected,
+        onTogglePage: togglePageSelected,
+        pageSelected,
+        someSelected: items.some((item) => isSelected(item.id)),
+      }
+    : undefined;
+
   if (isLoading) {
     return viewMode === "grid" ? (
       <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
@@ -247,13 +369,25 @@ export function ContentList({
 
   return (
     <div className="space-y-4">
+      {selectable && selectedCount > 0 && (
+        <BulkEditBar
+          allMatching={allMatching}
+          canSelectAllMatching={!useAdvancedSearch}
+          onClear={clearSelection}
+          onEdit={() => setShowBulkEdit(true)}
+          onSelectAllMatching={() => setAllMatching(true)}
+          selectedCount={selectedCount}
+          totalMatching={totalItems}
+        />
+      )}
+
       {viewMode === "grid" ? (
         <div className="space-y-3">
           <div className="flex items-center gap-2">
             <span className="text-muted-foreground text-sm">Sort by</span>
             <Select
               onValueChange={(v) => {
-                setSortBy(v as SortColumn);
+                onSortChange({ sortBy: v as SortColumn, sortOrder });
                 setPage(0);
               }}
               value={sortBy}
@@ -272,7 +406,10 @@ export function ContentList({
             <Button
               className="h-8 w-8"
               onClick={() =>
-                setSortOrder((prev) => (prev === "asc" ? "desc" : "asc"))
+                onSortChange({
+                  sortBy,
+                  sortOrder: sortOrder === "asc" ? "desc" : "asc",
+                })
               }
               size="icon"
               title={sortOrder === "asc" ? "Ascending" : "Descending"}
@@ -289,6 +426,8 @@ export function ContentList({
             items={items}
             onDelete={(item) => setDeletingItem(item)}
             onEdit={(id) => setEditingId(id)}
+            onOpen={handleOpen}
+            selection={selection}
             showRelevance={useAdvancedSearch}
           />
         </div>
@@ -297,8 +436,10 @@ export function ContentList({
           items={items}
           onDelete={(item) => setDeletingItem(item)}
           onEdit={(id) => setEditingId(id)}
+          onOpen={handleOpen}
           onReindex={(id) => reindexMutation.mutate({ id })}
           onSort={handleSort}
+          selection={selection}
           showRelevance={useAdvancedSearch}
           sortBy={sortBy}
           sortOrder={sortOrder}
@@ -354,9 +495,32 @@ export function ContentList({
           </div>
         </div>
       )}
-      {useAdvancedSearch && (
-        <div className="text-muted-foreground text-sm">
-          Showing top {items.length} most relevant results
+      {useAdvancedSearch && searchData && (
+        <div className="flex items-center justify-between pt-2">
+          <span className="text-muted-foreground text-sm">
+            Showing results {page * searchPageSize + 1}–
+            {page * searchPageSize + items.length}, most relevant first
+          </span>
+          {(page > 0 || searchData.hasMore) && (
+            <div className="flex items-center gap-1">
+              <Button
+                disabled={page === 0}
+                onClick={() => setPage((p) => Math.max(0, p - 1))}
+                size="icon"
+                variant="outline"
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button
+                disabled={!searchData.hasMore}
+                onClick={() => setPage((p) => p + 1)}
+                size="icon"
+                variant="outline"
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
         </div>
       )}
 
@@ -366,6 +530,22 @@ export function ContentList({
         open={!!editingId}
       />
 
+      {selectable && (
+        <BulkEditDialog
+          count={selectedCount}
+          onDone={clearSelection}
+          onOpenChange={setShowBulkEdit}
+          open={showBulkEdit}
+          scope={
+            !allMatching
+              ? { ids: [...selectedIds] }
+              : scopeViewId
+                ? { viewId: scopeViewId }
+                : { filters: listFilters }
+          }
+        />
+      )}
+
       {deletingItem && (
         <DeleteContentDialog
           contentId={deletingItem.id}
@@ -1,7 +1,9 @@
 "use client";
 
-import { LayoutGrid, List, Plus, Trash2, Upload } from "lucide-react";
+import { Download, LayoutGrid, List, Plus, Trash2, Upload } from "lucide-react";
+import Link from "next/link";
 import { useState } from "react";
+import { toast } from "sonner";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -13,36 +15,102 @@ import {
   AlertDialogTitle,
 } from "~/components/ui/alert-dialog";
 import { Button } from "~/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "~/components/ui/dropdown-menu";
 import { ToggleGroup, ToggleGroupItem } from "~/components/ui/toggle-group";
+import { hasFreeText, parseSearchQuery } from "~/lib/search-query";
 import { api } from "~/trpc/react";
+import type { LinkStatusFilter } from "./content-filters";
 import { ContentFormDialog } from "./content-form-dialog";
+import type { ContentSort } from "./content-list";
 import { ImportCsvDialog } from "./import-csv-dialog";
 
+type ExportFormat = "csv" | "json" | "markdown";
+
+const EXPORT_OPTIONS: Array<{ format: ExportFormat; label: string }> = [
+  { format: "csv", label: "CSV (re-importable)" },
+  { format: "json", label: "JSON" },
+  { format: "markdown", label: "Markdown table" },
+];
+
 interface ContentToolbarProps {
+  filters: {
+    search: string;
+    searchMode: "metadata" | "keyword" | "fullContent";
+    contentTypeIds: number[];
+    campaignIds: string[];
+    tags: string[];
+    publishDateFrom: string;
+    publishDateTo: string;
+    linkStatuses: LinkStatusFilter[];
+  };
+  sort: ContentSort;
   totalItems: number;
   viewMode: "grid" | "table";
   onViewModeChange: (mode: "grid" | "table") => void;
-  isAdmin: boolean;
+  canEdit: boolean;
+  // Unmodified saved view on screen: export and bulk delete run on the view
+  scopeView?: { id: string; name: string };
 }
 
 export function ContentToolbar({
+  filters,
+  sort,
   totalItems,
   viewMode,
   onViewModeChange,
-  isAdmin,
+  canEdit,
+  scopeView,
 }: ContentToolbarProps) {
   const [showAddDialog, setShowAddDialog] = useState(false);
   const [showImportDialog, setShowImportDialog] = useState(false);
-  const [showDeleteAllDialog, setShowDeleteAllDialog] = useState(false);
+  const [showTrashDialog, setShowTrashDialog] = useState(false);
   const utils = api.useUtils();
 
-  const deleteAllMutation = api.content.deleteAll.useMutation({
-    onSuccess: () => {
+  const bulkDeleteMutation = api.content.bulkDelete.useMutation({
+    onSuccess: (result) => {
+      toast.success(result.message);
       void utils.content.list.invalidate();
-      setShowDeleteAllDialog(false);
+      setShowTrashDialog(false);
+    },
+    onError: (error) => {
+      toast.error(`Failed to move items to the trash: ${error.message}`);
     },
   });
 
+  // Export and bulk delete cover the filtered inventory; full-text search
+  // results are ranked chunks rather than list rows, so both are only offered
+  // for the list view
+  const exportDisabled =
+    filters.searchMode !== "metadata" &&
+    hasFreeText(parseSearchQuery(filters.search));
+  const { searchMode: _searchMode, ...listFilters } = filters;
+
+  // Bulk delete needs a scope: never the whole unfiltered inventory
+  const hasScope =
+    filters.search.length > 0 ||
+    filters.contentTypeIds.length > 0 ||
+    filters.campaignIds.length > 0 ||
+    filters.tags.length > 0 ||
+    !!filters.publishDateFrom ||
+    !!filters.publishDateTo ||
+    filters.linkStatuses.length > 0;
+
+  const handleExport = (format: ExportFormat) => {
+    const params = new URLSearchParams(
+      scopeView
+        ? { format, view: scopeView.id }
+        : { format, filters: JSON.stringify({ ...listFilters, ...sort }) },
+    );
+    window.location.assign(`/api/content/export?${params.toString()}`);
+  };
+
   return (
     <>
       <div className="flex items-center justify-between">
@@ -80,14 +148,52 @@ export function ContentToolbar({
             <Upload className="mr-1 h-4 w-4" />
             Import CSV
           </Button>
-          {isAdmin && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                disabled={exportDisabled || totalItems === 0}
+                size="sm"
+                title={
+                  exportDisabled
+                    ? "Export is available for title/metadata search and filters"
+                    : undefined
+                }
+                variant="outline"
+              >
+                <Download className="mr-1 h-4 w-4" />
+                Export
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel>
+                Export {totalItems} {totalItems === 1 ? "item" : "items"}
+                {scopeView && ` in "${scopeView.name}"`}
+              </DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              {EXPORT_OPTIONS.map((option) => (
+                <DropdownMenuItem
+                  key={option.format}
+                  onClick={() => handleExport(option.format)}
+                >
+                  {option.label}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+          {canEdit && (
             <Button
-              onClick={() => setShowDeleteAllDialog(true)}
+              disabled={exportDisabled || !hasScope || totalItems === 0}
+              onClick={() => setShowTrashDialog(true)}
               size="sm"
-              variant="destructive"
+              title={
+                hasScope
+                  ? undefined
+                  : "Search or filter to choose the items to move to the trash"
+              }
+              variant="outline"
             >
               <Trash2 className="mr-1 h-4 w-4" />
-              Delete All
+              Move to Trash
             </Button>
           )}
         </div>
@@ -100,28 +206,40 @@ export function ContentToolbar({
         open={showImportDialog}
       />
 
-      <AlertDialog
-        onOpenChange={setShowDeleteAllDialog}
-        open={showDeleteAllDialog}
-      >
+      <AlertDialog onOpenChange={setShowTrashDialog} open={showTrashDialog}>
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Delete All Content?</AlertDialogTitle>
+            <AlertDialogTitle>
+              Move {totalItems} {totalItems === 1 ? "item" : "items"} to the
+              trash?
+            </AlertDialogTitle>
             <AlertDialogDescription>
-              This action cannot be undone. This will permanently delete{" "}
-              <strong>all content items</strong> from the database.
-              <br />
-              <br />
-              This is a testing feature. Are you sure you want to continue?
+              Every item{" "}
+              {scopeView
+                ? `in the saved view "${scopeView.name}"`
+                : "matching the current search and filters"}{" "}
+              is hidden from the inventory, search and exports. Items can be
+              restored from the{" "}
+              <Link className="underline" href="/trash">
+                Trash
+              </Link>{" "}
+              for 30 days before they are permanently deleted.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
             <AlertDialogCancel>Cancel</AlertDialogCancel>
             <AlertDialogAction
               className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-              onClick={() => deleteAllMutation.mutate()}
+              disabled={bulkDeleteMutation.isPending}
+              onClick={() =>
+                bulkDeleteMutation.mutate(
+                  scopeView
+                    ? { viewId: scopeView.id }
+                    : { filters: listFilters },
+                )
+              }
             >
-              Delete All Content
+              {bulkDeleteMutation.isPending ? "Moving..." : "Move to Trash"}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
@@ -0,0 +1,152 @@
+/**
+ * The content page's filters and sort, kept in the URL query string so a
+ * view can be reloaded or sent as a link, and stored as saved views
+ */
+
+import type { LinkStatusFilter } from "./content-filters";
+import type { ContentSort, SortColumn } from "./content-list";
+
+export type SearchMode = "metadata" | "keyword" | "fullContent";
+
+export interface ContentFilterState {
+  search: string;
+  searchMode: SearchMode;
+  contentTypeIds: number[];
+  campaignIds: string[];
+  tags: string[];
+  publishDateFrom: string;
+  publishDateTo: string;
+  linkStatuses: LinkStatusFilter[];
+}
+
+export interface ContentViewState {
+  filters: ContentFilterState;
+  sort: ContentSort;
+}
+
+export const DEFAULT_CONTENT_VIEW: ContentViewState = {
+  filters: {
+    search: "",
+    searchMode: "metadata",
+    contentTypeIds: [],
+    campaignIds: [],
+    tags: [],
+    publishDateFrom: "",
+    publishDateTo: "",
+    linkStatuses: [],
+  },
+  sort: { sortBy: "date", sortOrder: "desc" },
+};
+
+const SEARCH_MODES: SearchMode[] = ["metadata", "keyword", "fullContent"];
+const SORT_COLUMNS: SortColumn[] = [
+  "title",
+  "date",
+  "type",
+  "author",
+  "createdAt",
+];
+const LINK_STATUSES: LinkStatusFilter[] = [
+  "ok",
+  "redirect",
+  "broken",
+  "timeout",
+  "error",
+  "unchecked",
+];
+
+// The saved view being shown, alongside its (possibly edited) filters
+export const VIEW_PARAM = "view";
+
+function oneOf<T extends string>(values: readonly T[], value: string | null) {
+  return values.find((v) => v === value);
+}
+
+/**
+ * Filters and sort from a query string; unknown or missing values fall back
+ * to the defaults
+ */
+export function parseContentView(params: URLSearchParams): ContentViewState {
+  const defaults = DEFAULT_CONTENT_VIEW;
+  return {
+    filters: {
+      search: params.get("q") ?? "",
+      searchMode:
+        oneOf(SEARCH_MODES, params.get("mode")) ?? defaults.filters.searchMode,
+      contentTypeIds: params
+        .getAll("type")
+        .map(Number)
+        .filter((id) => Number.isInteger(id)),
+      campaignIds: params.getAll("campaign"),
+      tags: params.getAll("tag"),
+      publishDateFrom: params.get("from") ?? "",
+      publishDateTo: params.get("to") ?? "",
+      linkStatuses: params
+        .getAll("link")
+        .flatMap((status) => oneOf(LINK_STATUSES, status) ?? []),
+    },
+    sort: {
+      sortBy: oneOf(SORT_COLUMNS, params.get("sort")) ?? defaults.sort.sortBy,
+      sortOrder: params.get("order") === "asc" ? "asc" : "desc",
+    },
+  };
+}
+
+/**
+ * Query string for filters and sort, leaving out defaults so links stay short
+ */
+export function contentViewParams(view: ContentViewState): URLSearchParams {
+  const { filters, sort } = view;
+  const defaults = DEFAULT_CONTENT_VIEW;
+  const params = new URLSearchParams();
+
+  if (filters.search) params.set("q", filters.search);
+  if (filters.searchMode !== defaults.filters.searchMode) {
+    params.set("mode", filters.searchMode);
+  }
+  for (const id of filters.contentTypeIds) params.append("type", String(id));
+  for (const id of filters.campaignIds) params.append("campaign", id);
+  for (const tag of filters.tags) params.append("tag", tag);
+  if (filters.publishDateFrom) params.set("from", filters.publishDateFrom);
+  if (filters.publishDateTo) params.set("to", filters.publishDateTo);
+  for (const status of filters.linkStatuses) params.append("link", status);
+  if (sort.sortBy !== defaults.sort.sortBy) params.set("sort", sort.sortBy);
+  if (sort.sortOrder !== defaults.sort.sortOrder) {
+    params.set("order", sort.sortOrder);
+  }
+
+  return params;
+}
+
+export function isSameContentView(a: ContentViewState, b: ContentViewState) {
+  return contentViewParams(a).toString() === contentViewParams(b).toString();
+}
+
+/**
+ * Saved views store the page state flat, like the content.list input
+ */
+export function toSavedViewState(view: ContentViewState) {
+  return { ...view.filters, ...view.sort };
+}
+
+export function fromSavedViewState(
+  state: Partial<ContentFilterState & ContentSort>,
+): ContentViewState {
+  const defaults = DEFAULT_CONTENT_VIEW;
+  return {
+    filters: {
+      search: state.search ?? defaults.filters.search,
+      searchMode: state.searchMode ?? defaults.filters.searchMode,
+      contentTypeIds: state.contentTypeIds ?? [],
+      campaignIds: state.campaignIds ?? [],
+      tags: state.tags ?? [],
+      publishDateFrom: state.publishDateFrom ?? "",
+      publishDateTo: state.publishDateTo ?? "",
+      linkStatuses: state.linkStatuses ?? [],
+    },
+    sort: {
+      sortBy: state.sortBy ?? defaults.sort.sortBy,
+      sortOrder: state.sortOrder ?? defaults.sort.sortOrder,
+    },
+  };
+}
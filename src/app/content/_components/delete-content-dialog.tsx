@@ -50,10 +50,10 @@ export function DeleteContentDialog({
     <AlertDialog onOpenChange={onOpenChange} open={open}>
         <AlertDialogContent>
         <AlertDialogHeader>
-          <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+          <AlertDialogTitle>Move to trash?</AlertDialogTitle>
           <AlertDialogDescription>
-            This will permanently delete &quot;{contentTitle}&quot;. This action
-            cannot be undone.
+            &quot;{contentTitle}&quot; will be hidden from the inventory and
+            search. It can be restored from the Trash for 30 days.
           </AlertDialogDescription>
         </AlertDialogHeader>
         {deleteMutation.isError && (
@@ -72,7 +72,7 @@ export function DeleteContentDialog({
             onClick={handleDelete}
             variant="destructive"
           >
-            {deleteMutation.isPending ? "Deleting..." : "Delete"}
+            {deleteMutation.isPending ? "Moving..." : "Move to Trash"}
           </AlertDialogAction>
         </AlertDialogFooter>
       </AlertDialogContent>
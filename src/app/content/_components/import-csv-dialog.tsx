@@ -28,20 +28,14 @@ import { Progress } from "~/components/ui/progress";
 import { api } from "~/trpc/react";
 
 const REQUIRED_COLUMNS = ["current_url", "content_type"];
-const CONTENT_TYPES = [
-  "youtube_video",
-  "blog_post",
-  "case_study",
-  "website_content",
-  "third_party",
-  "other",
-] as const;
 const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
 const URL_REGEX = /^https?:\/\/[^\s/$.?#].[^\s]*$/i;
 
 function validateCsvRows(
   rows: Array<Record<string, unknown>>,
   headers: string[],
+  // Slugs from the content_types table, custom types included
+  contentTypeSlugs: string[],
 ): Array<{ row: number; message: string; field?: string }> {
   const errors: Array<{ row: number; message: string; field?: string }> = [];
   const missingCols = REQUIRED_COLUMNS.filter((c) => !headers.includes(c));
@@ -77,14 +71,10 @@ function validateCsvRows(
         message: "content_type is required",
         field: "content_type",
       });
-    } else if (
-      !CONTENT_TYPES.includes(
-        String(ct).trim() as (typeof CONTENT_TYPES)[number],
-      )
-    ) {
+    } else if (!contentTypeSlugs.includes(String(ct).trim())) {
       errors.push({
         row: rowNum,
-        message: `content_type must be one of: ${CONTENT_TYPES.join(", ")}`,
+        message: `content_type must be one of: ${contentTypeSlugs.join(", ")}`,
         field: "content_type",
       });
     }
@@ -127,6 +117,7 @@ interface ImportResult {
 
 export function ImportCsvDialog({ open, onOpenChange }: ImportCsvDialogProps) {
   const utils = api.useUtils();
+  const { data: contentTypes = [] } = api.contentTypes.list.useQuery();
   const validateOnlyInputRef = useRef<HTMLInputElement>(null);
   const [importing, setImporting] = useState(false);
   const [validating, setValidating] = useState(false);
@@ -464,7 +455,11 @@ export function ImportCsvDialog({ open, onOpenChange }: ImportCsvDialogProps) {
             });
             return;
           }
-          const errors = validateCsvRows(rows, headers);
+          const errors = validateCsvRows(
+            rows,
+            headers,
+            contentTypes.map((type) => type.slug),
+          );
           if (errors.length > 0) {
             setResult({
               successful: 0,
@@ -491,7 +486,7 @@ export function ImportCsvDialog({ open, onOpenChange }: ImportCsvDialogProps) {
         },
       });
     },
-    [],
+    [contentTypes],
   );
 
   return (
@@ -24,10 +24,14 @@ export function ReindexButton({ contentId, indexStatus }: ReindexButtonProps) {
   );
 
   const reindexMutation = api.content.reindexContent.useMutation({
-    onSuccess: async () => {
+    onSuccess: async (data) => {
       await utils.content.getIndexStatus.invalidate({ id: contentId });
       setIsReindexing(false);
-      toast.success("Re-indexed successfully");
+      toast.success(
+        data.unchanged
+          ? "Content unchanged since last index"
+          : "Re-indexed successfully",
+      );
     },
     onError: (error) => {
       console.error("Reindex failed:", error);
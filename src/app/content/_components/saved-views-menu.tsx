@@ -0,0 +1,269 @@
+"use client";
+
+import {
+  Bookmark,
+  BookmarkPlus,
+  ChevronDown,
+  Link2,
+  Save,
+  Trash2,
+  Users,
+} from "lucide-react";
+import Link from "next/link";
+import { useState } from "react";
+import { toast } from "sonner";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { Checkbox } from "~/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "~/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "~/components/ui/dropdown-menu";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { api, type RouterOutputs } from "~/trpc/react";
+import {
+  type ContentViewState,
+  toSavedViewState,
+  VIEW_PARAM,
+} from "./content-view-params";
+
+export type SavedView = RouterOutputs["savedViews"]["list"][number];
+
+interface SavedViewsMenuProps {
+  views: SavedView[];
+  activeView: SavedView | undefined;
+  // The page's current filters differ from the active view's
+  modified: boolean;
+  current: ContentViewState;
+  isAdmin: boolean;
+  onSaved: (view: { id: string }) => void;
+  onDeleted: () => void;
+}
+
+export function SavedViewsMenu({
+  views,
+  activeView,
+  modified,
+  current,
+  isAdmin,
+  onSaved,
+  onDeleted,
+}: SavedViewsMenuProps) {
+  const [showSaveDialog, setShowSaveDialog] = useState(false);
+  const [name, setName] = useState("");
+  const [shared, setShared] = useState(false);
+
+  const utils = api.useUtils();
+  const onError = (error: { message: string }) => {
+    toast.error(error.message);
+  };
+
+  const createMutation = api.savedViews.create.useMutation({
+    onSuccess: (view) => {
+      toast.success(`Saved view "${view.name}"`);
+      void utils.savedViews.list.invalidate();
+      setShowSaveDialog(false);
+      onSaved(view);
+    },
+    onError,
+  });
+  const updateMutation = api.savedViews.update.useMutation({
+    onSuccess: (view) => {
+      if (view) toast.success(`Updated "${view.name}"`);
+      void utils.savedViews.list.invalidate();
+    },
+    onError,
+  });
+  const deleteMutation = api.savedViews.delete.useMutation({
+    onSuccess: () => {
+      toast.success("View deleted");
+      void utils.savedViews.list.invalidate();
+      onDeleted();
+    },
+    onError,
+  });
+
+  const canManage =
+    !!activeView && (activeView.isOwn || (isAdmin && activeView.shared));
+  const myViews = views.filter((view) => view.isOwn);
+  const teamViews = views.filter((view) => !view.isOwn);
+
+  const openSaveDialog = () => {
+    setName("");
+    setShared(false);
+    setShowSaveDialog(true);
+  };
+
+  const copyLink = async () => {
+    await navigator.clipboard.writeText(window.location.href);
+    toast.success("Link copied");
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button size="sm" variant="outline">
+            <Bookmark className="mr-1 h-4 w-4" />
+            {activeView ? activeView.name : "Views"}
+            {modified && (
+              <Badge className="ml-2" variant="secondary">
+                Edited
+              </Badge>
+            )}
+            <ChevronDown className="ml-1 h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          <DropdownMenuItem onClick={openSaveDialog}>
+            <BookmarkPlus className="mr-2 h-4 w-4" />
+            Save as new view...
+          </DropdownMenuItem>
+          {canManage && activeView && (
+            <>
+              <DropdownMenuItem
+                disabled={!modified || updateMutation.isPending}
+                onClick={() =>
+                  updateMutation.mutate({
+                    id: activeView.id,
+                    state: toSavedViewState(current),
+                  })
+                }
+              >
+                <Save className="mr-2 h-4 w-4" />
+                Update "{activeView.name}"
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                disabled={updateMutation.isPending}
+                onClick={() =>
+                  updateMutation.mutate({
+                    id: activeView.id,
+                    shared: !activeView.shared,
+                  })
+                }
+              >
+                <Users className="mr-2 h-4 w-4" />
+                {activeView.shared ? "Stop sharing" : "Share with team"}
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                className="text-destructive"
+                disabled={deleteMutation.isPending}
+                onClick={() => deleteMutation.mutate({ id: activeView.id })}
+              >
+                <Trash2 className="mr-2 h-4 w-4" />
+                Delete view
+              </DropdownMenuItem>
+            </>
+          )}
+          <DropdownMenuItem onClick={() => void copyLink()}>
+            <Link2 className="mr-2 h-4 w-4" />
+            Copy link to these filters
+          </DropdownMenuItem>
+
+          {myViews.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>My views</DropdownMenuLabel>
+              {myViews.map((view) => (
+                <DropdownMenuItem asChild key={view.id}>
+                  <Link href={`/content?${VIEW_PARAM}=${view.id}`}>
+                    {view.shared ? (
+                      <Users className="mr-2 h-4 w-4" />
+                    ) : (
+                      <Bookmark className="mr-2 h-4 w-4" />
+                    )}
+                    {view.name}
+                  </Link>
+                </DropdownMenuItem>
+              ))}
+            </>
+          )}
+          {teamViews.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>Shared by the team</DropdownMenuLabel>
+              {teamViews.map((view) => (
+                <DropdownMenuItem asChild key={view.id}>
+                  <Link href={`/content?${VIEW_PARAM}=${view.id}`}>
+                    <Users className="mr-2 h-4 w-4" />
+                    <span className="truncate">{view.name}</span>
+                    <span className="ml-auto truncate text-muted-foreground text-xs">
+                      {view.ownerName}
+                    </span>
+                  </Link>
+                </DropdownMenuItem>
+              ))}
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog onOpenChange={setShowSaveDialog} open={showSaveDialog}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Save view</DialogTitle>
+            <DialogDescription>
+              Saves the current search, filters and sort. Saved views are listed
+              in the sidebar and can be exported or bulk edited as a whole.
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            className="space-y-4"
+            id="save-view-form"
+            onSubmit={(e) => {
+              e.preventDefault();
+              createMutation.mutate({
+                name,
+                shared,
+                state: toSavedViewState(current),
+              });
+            }}
+          >
+            <div className="space-y-1.5">
+              <Label htmlFor="view-name">Name</Label>
+              <Input
+                id="view-name"
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Q3 case studies"
+                value={name}
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                checked={shared}
+                id="view-shared"
+                onCheckedChange={(checked) => setShared(checked === true)}
+              />
+              <Label htmlFor="view-shared">Share with the team</Label>
+            </div>
+          </form>
+          <DialogFooter>
+            <Button onClick={() => setShowSaveDialog(false)} variant="outline">
+              Cancel
+            </Button>
+            <Button
+              disabled={!name.trim() || createMutation.isPending}
+              form="save-view-form"
+              type="submit"
+            >
+              {createMutation.isPending ? "Saving..." : "Save View"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -1,8 +1,15 @@
 "use client";
 
-import { Search, Sparkles, X } from "lucide-react";
+import { CircleHelp, Search, Sparkles, X } from "lucide-react";
+import { Button } from "~/components/ui/button";
 import { Input } from "~/components/ui/input";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "~/components/ui/popover";
 import { ToggleGroup, ToggleGroupItem } from "~/components/ui/toggle-group";
+import { parseSearchQuery, SEARCH_SYNTAX_HELP } from "~/lib/search-query";
 import { cn } from "~/lib/utils";
 
 interface SearchBarProps {
@@ -18,11 +25,15 @@ export function SearchBar({
   onSearchChange,
   onSearchModeChange,
 }: SearchBarProps) {
+  const { errors } = parseSearchQuery(search);
+
   return (
     <div className="space-y-3">
       <div className="relative">
         <Search className="absolute top-1/2 left-3 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
         <Input
+          aria-describedby={errors.length > 0 ? "search-errors" : undefined}
+          aria-invalid={errors.length > 0}
           aria-label="Search content"
           className={cn(
             "h-11 pr-10 pl-10 text-base",
@@ -51,38 +62,80 @@ export function SearchBar({
           </button>
         )}
       </div>
-      <ToggleGroup
-        className="justify-start"
-        onValueChange={(value) => {
-          if (value) onSearchModeChange(value as typeof searchMode);
-        }}
-        type="single"
-        value={searchMode}
-      >
-        <ToggleGroupItem
-          className="text-xs"
-          disabled={!search}
-          value="metadata"
-        >
-          Titles/Metadata
-        </ToggleGroupItem>
-        <ToggleGroupItem className="text-xs" disabled={!search} value="keyword">
-          Keyword
-        </ToggleGroupItem>
-        <ToggleGroupItem
-          className={cn(
-            "text-xs",
-            searchMode === "fullContent" &&
-              search.length > 0 &&
-              "data-[state=on]:bg-[var(--vivid-purple)]/10 data-[state=on]:text-[var(--vivid-purple)]",
-          )}
-          disabled={!search}
-          value="fullContent"
+      {errors.length > 0 && (
+        <ul className="space-y-0.5 text-destructive text-xs" id="search-errors">
+          {errors.map((error) => (
+            <li key={`${error.start}-${error.end}`}>
+              <code className="font-mono">
+                {search.slice(error.start, error.end)}
+              </code>
+              : {error.message}
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="flex items-center justify-between">
+        <ToggleGroup
+          className="justify-start"
+          onValueChange={(value) => {
+            if (value) onSearchModeChange(value as typeof searchMode);
+          }}
+          type="single"
+          value={searchMode}
         >
-          <Sparkles className="mr-1 h-3 w-3" />
-          Content Search
-        </ToggleGroupItem>
-      </ToggleGroup>
+          <ToggleGroupItem
+            className="text-xs"
+            disabled={!search}
+            value="metadata"
+          >
+            Titles/Metadata
+          </ToggleGroupItem>
+          <ToggleGroupItem
+            className="text-xs"
+            disabled={!search}
+            value="keyword"
+          >
+            Keyword
+          </ToggleGroupItem>
+          <ToggleGroupItem
+            className={cn(
+              "text-xs",
+              searchMode === "fullContent" &&
+                search.length > 0 &&
+                "data-[state=on]:bg-[var(--vivid-purple)]/10 data-[state=on]:text-[var(--vivid-purple)]",
+            )}
+            disabled={!search}
+            value="fullContent"
+          >
+            <Sparkles className="mr-1 h-3 w-3" />
+            Content Search
+          </ToggleGroupItem>
+        </ToggleGroup>
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button className="text-xs" size="sm" variant="ghost">
+              <CircleHelp className="mr-1 h-3 w-3" />
+              Search syntax
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="end" className="w-[360px]">
+            <p className="mb-2 text-muted-foreground text-sm">
+              Combine free text with filters. Separate values with commas to
+              match any of them.
+            </p>
+            <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-sm">
+              {SEARCH_SYNTAX_HELP.map((item) => (
+                <div className="contents" key={item.example}>
+                  <dt>
+                    <code className="font-mono text-xs">{item.example}</code>
+                  </dt>
+                  <dd className="text-muted-foreground">{item.description}</dd>
+                </div>
+              ))}
+            </dl>
+          </PopoverContent>
+        </Popover>
+      </div>
     </div>
   );
 }
@@ -0,0 +1,37 @@
+/**
+ * Top matching passages of a document-level search result
+ */
+
+import { HighlightedSnippet } from "./highlighted-snippet";
+
+export interface SearchPassage {
+  chunkId: string;
+  snippet: string;
+  matchedTerms: string[];
+}
+
+interface SearchPassagesProps {
+  passages: SearchPassage[];
+}
+
+export function SearchPassages({ passages }: SearchPassagesProps) {
+  if (passages.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-1.5">
+      {passages.map((passage, i) => (
+        <div
+          className={i > 0 ? "border-muted border-l-2 pl-2" : undefined}
+          key={passage.chunkId}
+        >
+          <HighlightedSnippet
+            matchedTerms={passage.matchedTerms}
+            snippet={passage.snippet}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,28 +1,84 @@
 "use client";
 
-import { useCallback, useState } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { Suspense, useCallback, useEffect, useRef, useState } from "react";
 import { Separator } from "~/components/ui/separator";
 import { useViewPreference } from "~/hooks/use-view-preference";
 import { api } from "~/trpc/react";
-import { ContentFilters } from "./_components/content-filters";
+import {
+  type ContentFacets,
+  ContentFilters,
+} from "./_components/content-filters";
 import { ContentList } from "./_components/content-list";
 import { ContentToolbar } from "./_components/content-toolbar";
+import {
+  type ContentViewState,
+  contentViewParams,
+  fromSavedViewState,
+  isSameContentView,
+  parseContentView,
+  VIEW_PARAM,
+} from "./_components/content-view-params";
+import { SavedViewsMenu } from "./_components/saved-views-menu";
 import { SearchBar } from "./_components/search-bar";
 
-export default function ContentPage() {
-  const [filters, setFilters] = useState({
-    search: "",
-    searchMode: "metadata" as "metadata" | "keyword" | "fullContent",
-    contentTypeIds: [] as number[],
-    campaignIds: [] as string[],
-    tags: [] as string[],
-    publishDateFrom: "",
-    publishDateTo: "",
-  });
+function ContentPageContent() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const viewId = searchParams.get(VIEW_PARAM);
+
+  const [view, setView] = useState<ContentViewState>(() =>
+    parseContentView(searchParams),
+  );
+  // Query string this page last wrote, so only outside navigation (back and
+  // forward, sidebar links) is read back into state
+  const lastWritten = useRef(searchParams.toString());
+
   const [viewMode, setViewMode] = useViewPreference();
   const [totalItems, setTotalItems] = useState(0);
+  const [facets, setFacets] = useState<ContentFacets>();
   const { data: myRole } = api.users.getMyRole.useQuery();
-  const isAdmin = myRole?.role === "admin";
+  const canEdit = myRole?.role === "admin" || myRole?.role === "contributor";
+  const { data: savedViews = [] } = api.savedViews.list.useQuery();
+  const activeView = savedViews.find((saved) => saved.id === viewId);
+
+  const writeUrl = (next: ContentViewState, nextViewId: string | null) => {
+    const params = contentViewParams(next);
+    if (nextViewId) params.set(VIEW_PARAM, nextViewId);
+    const query = params.toString();
+    lastWritten.current = query;
+    router.replace(query ? `${pathname}?${query}` : pathname, {
+      scroll: false,
+    });
+  };
+
+  const updateView = (next: ContentViewState) => {
+    setView(next);
+    writeUrl(next, viewId);
+  };
+
+  const searchKey = searchParams.toString();
+  useEffect(() => {
+    if (searchKey === lastWritten.current) return;
+    lastWritten.current = searchKey;
+    setView(parseContentView(new URLSearchParams(searchKey)));
+  }, [searchKey]);
+
+  // A bare ?view=<id> link carries no filters of its own: show the view's
+  const activeState = activeView?.state;
+  useEffect(() => {
+    if (!activeState || searchKey !== `${VIEW_PARAM}=${activeView?.id}`) {
+      return;
+    }
+    setView(fromSavedViewState(activeState));
+  }, [activeState, activeView?.id, searchKey]);
+
+  const viewModified =
+    !!activeView &&
+    !isSameContentView(view, fromSavedViewState(activeView.state));
+  const scopeView = activeView && !viewModified ? activeView : undefined;
+  const { filters, sort } = view;
 
   const handleTotalChange = useCallback((total: number) => {
     setTotalItems(total);
@@ -30,38 +86,76 @@ export default function ContentPage() {
 
   return (
     <div className="p-6 space-y-6">
-      <div>
-        <h1 className="font-bold text-2xl">Content Inventory</h1>
-        <p className="text-muted-foreground text-sm">
-          Manage and search your published content
-        </p>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="font-bold text-2xl">
+            {activeView ? activeView.name : "Content Inventory"}
+          </h1>
+          <p className="text-muted-foreground text-sm">
+            {activeView
+              ? `Saved view${activeView.isOwn ? "" : ` shared by ${activeView.ownerName}`}`
+              : "Manage and search your published content"}
+          </p>
+        </div>
+        <SavedViewsMenu
+          activeView={activeView}
+          current={view}
+          isAdmin={myRole?.role === "admin"}
+          modified={viewModified}
+          onDeleted={() => writeUrl(view, null)}
+          onSaved={(saved) => writeUrl(view, saved.id)}
+          views={savedViews}
+        />
       </div>
 
       <SearchBar
-        onSearchChange={(value) => setFilters((f) => ({ ...f, search: value }))}
+        onSearchChange={(value) =>
+          updateView({ ...view, filters: { ...filters, search: value } })
+        }
         onSearchModeChange={(mode) =>
-          setFilters((f) => ({ ...f, searchMode: mode }))
+          updateView({ ...view, filters: { ...filters, searchMode: mode } })
         }
         search={filters.search}
         searchMode={filters.searchMode}
       />
 
-      <ContentFilters filters={filters} onFiltersChange={setFilters} />
+      <ContentFilters
+        facets={facets}
+        filters={filters}
+        onFiltersChange={(next) => updateView({ ...view, filters: next })}
+      />
 
       <Separator />
 
       <ContentToolbar
-        isAdmin={isAdmin}
+        canEdit={canEdit}
+        filters={filters}
         onViewModeChange={setViewMode}
+        scopeView={scopeView}
+        sort={sort}
         totalItems={totalItems}
         viewMode={viewMode}
       />
 
       <ContentList
         filters={filters}
+        onFacetsChange={setFacets}
+        onSortChange={(next) => updateView({ ...view, sort: next })}
         onTotalChange={handleTotalChange}
+        scopeViewId={scopeView?.id}
+        selectable={canEdit}
+        sort={sort}
         viewMode={viewMode}
       />
     </div>
   );
 }
+
+// useSearchParams needs a Suspense boundary when the page is prerendered
+export default function ContentPage() {
+  return (
+    <Suspense>
+      <ContentPageContent />
+    </Suspense>
+  );
+}
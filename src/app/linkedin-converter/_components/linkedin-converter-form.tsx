@@ -166,7 +166,7 @@ export function LinkedInConverterForm() {
           query: searchQuery.slice(0, 500), // cap query length
           limit: 5,
         });
-        suggestedLinks = searchResults
+        suggestedLinks = searchResults.results
           .filter(
             (r: { contentItem: { id: string } | null }) => r.contentItem,
           )
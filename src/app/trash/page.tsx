@@ -0,0 +1,245 @@
+"use client";
+
+import { format, formatDistanceToNow } from "date-fns";
+import { ChevronLeft, ChevronRight, RotateCcw, Trash2 } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { ContentTypeBadge } from "~/app/content/_components/content-badge";
+import { PageHeader } from "~/components/page-header";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "~/components/ui/alert-dialog";
+import { Button } from "~/components/ui/button";
+import { Loading } from "~/components/ui/loading";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import { api, type RouterOutputs } from "~/trpc/react";
+
+const pageSize = 50;
+
+type TrashedItem = RouterOutputs["trash"]["list"]["items"][number];
+
+export default function TrashPage() {
+  const [page, setPage] = useState(0);
+  // null = empty the whole trash
+  const [purging, setPurging] = useState<TrashedItem | null | undefined>();
+  const utils = api.useUtils();
+
+  const { data: myRole } = api.users.getMyRole.useQuery();
+  const isAdmin = myRole?.role === "admin";
+
+  const { data, isLoading } = api.trash.list.useQuery({
+    limit: pageSize,
+    offset: page * pageSize,
+  });
+
+  const refresh = async () => {
+    await Promise.all([
+      utils.trash.list.invalidate(),
+      utils.content.list.invalidate(),
+    ]);
+  };
+
+  const restoreMutation = api.trash.restore.useMutation({
+    onSuccess: async (result) => {
+      if (result.restored === 0) {
+        toast.error("This item is past the retention period");
+      } else {
+        toast.success(result.message);
+      }
+      await refresh();
+    },
+    onError: (error) => {
+      toast.error(`Restore failed: ${error.message}`);
+    },
+  });
+
+  const purgeMutation = api.trash.purge.useMutation({
+    onSuccess: async (result) => {
+      toast.success(result.message);
+      setPurging(undefined);
+      await refresh();
+    },
+    onError: (error) => {
+      toast.error(`Delete failed: ${error.message}`);
+    },
+  });
+
+  const total = data?.total ?? 0;
+  const hasMore = (page + 1) * pageSize < total;
+
+  return (
+    <div className="space-y-6 p-6">
+      <PageHeader
+        actions={
+          isAdmin && (
+            <Button
+              disabled={total === 0 || purgeMutation.isPending}
+              onClick={() => setPurging(null)}
+              size="sm"
+              variant="destructive"
+            >
+              <Trash2 className="mr-2 h-4 w-4" />
+              Empty Trash
+            </Button>
+          )
+        }
+        description={`Deleted content can be restored for ${data?.retentionDays ?? 30} days, then it is permanently deleted along with its indexed text and history.`}
+        title="Trash"
+      />
+
+      {isLoading ? (
+        <Loading message="Loading trash..." />
+      ) : !data || data.items.length === 0 ? (
+        <p className="text-muted-foreground text-sm">The trash is empty.</p>
+      ) : (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Title</TableHead>
+                <TableHead className="w-[140px]">Type</TableHead>
+                <TableHead className="w-[200px]">Deleted</TableHead>
+                <TableHead className="w-[160px]">Permanently Deleted</TableHead>
+                <TableHead className="w-[140px] text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.items.map((item) => {
+                const expired = !!item.purgeAt && item.purgeAt <= new Date();
+                return (
+                  <TableRow key={item.id}>
+                    <TableCell>
+                      <span className="font-medium">{item.title}</span>
+                      <span className="block break-all text-muted-foreground text-xs">
+                        {item.currentUrl}
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      {item.contentTypeName && item.contentTypeColor && (
+                        <ContentTypeBadge
+                          type={{
+                            name: item.contentTypeName,
+                            color: item.contentTypeColor,
+                          }}
+                        />
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {item.deletedAt &&
+                        format(item.deletedAt, "MMM d, yyyy HH:mm")}
+                      {item.deletedBy && (
+                        <span className="block text-muted-foreground text-xs">
+                          by {item.deletedBy}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground text-sm">
+                      {expired
+                        ? "Pending"
+                        : item.purgeAt &&
+                          formatDistanceToNow(item.purgeAt, {
+                            addSuffix: true,
+                          })}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          disabled={expired || restoreMutation.isPending}
+                          onClick={() =>
+                            restoreMutation.mutate({ ids: [item.id] })
+                          }
+                          size="sm"
+                          variant="outline"
+                        >
+                          <RotateCcw className="mr-2 h-4 w-4" />
+                          Restore
+                        </Button>
+                        {isAdmin && (
+                          <Button
+                            onClick={() => setPurging(item)}
+                            size="sm"
+                            title="Delete permanently"
+                            variant="ghost"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {(page > 0 || hasMore) && (
+        <div className="flex items-center justify-end gap-1">
+          <Button
+            disabled={page === 0}
+            onClick={() => setPage((p) => Math.max(0, p - 1))}
+            size="icon"
+            variant="outline"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button
+            disabled={!hasMore}
+            onClick={() => setPage((p) => p + 1)}
+            size="icon"
+            variant="outline"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+
+      <AlertDialog
+        onOpenChange={(open) => !open && setPurging(undefined)}
+        open={purging !== undefined}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {purging
+                ? "Delete permanently?"
+                : `Permanently delete ${total} ${total === 1 ? "item" : "items"}?`}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {purging ? `"${purging.title}"` : "Everything in the trash"} will
+              be deleted with its campaigns, indexed text and history. This
+              cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              disabled={purgeMutation.isPending}
+              onClick={() =>
+                purgeMutation.mutate(purging ? { ids: [purging.id] } : {})
+              }
+            >
+              {purgeMutation.isPending ? "Deleting..." : "Delete Permanently"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
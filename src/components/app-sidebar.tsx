@@ -1,15 +1,27 @@
 "use client";
 
 import {
+  Activity,
+  Bookmark,
   Captions,
+  CopyCheck,
   Download,
   FileText,
   FolderKanban,
+  GitMerge,
+  History,
   Home,
+  Link2Off,
   ListChecks,
+  MessagesSquare,
   Mic,
   Repeat,
+  SearchCheck,
+  Signpost,
+  Tag,
   Tags,
+  Target,
+  Trash2,
   Users,
 } from "lucide-react";
 import Link from "next/link";
@@ -27,22 +39,46 @@ import {
   SidebarMenuButton,
   SidebarMenuItem,
 } from "~/components/ui/sidebar";
+import { api } from "~/trpc/react";
 import { SidebarUserMenu } from "./sidebar-user-menu";
 
 const mainNav = [
   { title: "Dashboard", href: "/", icon: Home },
   { title: "Content", href: "/content", icon: FileText },
+  { title: "Ask the Den", href: "/ask", icon: MessagesSquare },
   { title: "Campaigns", href: "/campaigns", icon: FolderKanban },
   { title: "Voice Profiles", href: "/voice-profiles", icon: Mic },
   { title: "LinkedIn Converter", href: "/linkedin-converter", icon: Repeat },
 ] as const;
 
+// Shown to contributors and admins
+const contributorNav = [
+  { title: "Trash", href: "/trash", icon: Trash2 },
+] as const;
+
 const adminNav = [
   { title: "Queue", href: "/admin/queue", icon: ListChecks },
   { title: "Transcripts", href: "/admin/transcripts", icon: Captions },
   { title: "API Import", href: "/admin/api-import", icon: Download },
+  {
+    title: "Recently Changed",
+    href: "/admin/recently-changed",
+    icon: History,
+  },
+  { title: "Link Health", href: "/admin/link-health", icon: Link2Off },
+  { title: "Redirects", href: "/admin/redirects", icon: Signpost },
+  { title: "Canonical URLs", href: "/admin/canonical-urls", icon: CopyCheck },
+  { title: "Duplicates", href: "/admin/duplicates", icon: GitMerge },
   { title: "Content Types", href: "/admin/content-types", icon: Tags },
+  { title: "Tags", href: "/admin/tags", icon: Tag },
+  {
+    title: "Search Analytics",
+    href: "/admin/search-analytics",
+    icon: SearchCheck,
+  },
+  { title: "Search Relevance", href: "/admin/search-eval", icon: Target },
   { title: "Users", href: "/admin/users", icon: Users },
+  { title: "Activity", href: "/admin/activity", icon: Activity },
 ] as const;
 
 function isActive(pathname: string, href: string) {
@@ -50,6 +86,41 @@ function isActive(pathname: string, href: string) {
   return pathname === href || pathname.startsWith(`${href}/`);
 }
 
+// The user's saved content views, then views shared by the rest of the team
+function SavedViewsNav() {
+  const { data: views = [] } = api.savedViews.list.useQuery();
+
+  if (views.length === 0) return null;
+
+  const ordered = [
+    ...views.filter((view) => view.isOwn),
+    ...views.filter((view) => !view.isOwn),
+  ];
+
+  return (
+    <SidebarGroup>
+      <SidebarGroupLabel>Views</SidebarGroupLabel>
+      <SidebarMenu>
+        {ordered.map((view) => (
+          <SidebarMenuItem key={view.id}>
+            <SidebarMenuButton
+              asChild
+              tooltip={
+                view.isOwn ? view.name : `${view.name} (${view.ownerName})`
+              }
+            >
+              <Link href={`/content?view=${view.id}`}>
+                {view.isOwn ? <Bookmark /> : <Users />}
+                <span>{view.name}</span>
+              </Link>
+            </SidebarMenuButton>
+          </SidebarMenuItem>
+        ))}
+      </SidebarMenu>
+    </SidebarGroup>
+  );
+}
+
 export function AppSidebar({
   session,
   signOutAction,
@@ -87,7 +158,10 @@ export function AppSidebar({
         <SidebarGroup>
           <SidebarGroupLabel>Main</SidebarGroupLabel>
           <SidebarMenu>
-            {mainNav.map((item) => (
+            {[
+              ...mainNav,
+              ...(session.user.role === "reader" ? [] : contributorNav),
+            ].map((item) => (
               <SidebarMenuItem key={item.href}>
                 <SidebarMenuButton
                   asChild
@@ -104,6 +178,8 @@ export function AppSidebar({
           </SidebarMenu>
         </SidebarGroup>
 
+        <SavedViewsNav />
+
         {session.user.role === "admin" && (
           <SidebarGroup>
             <SidebarGroupLabel>Admin</SidebarGroupLabel>
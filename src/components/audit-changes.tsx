@@ -0,0 +1,112 @@
+import type { RouterOutputs } from "~/trpc/react";
+
+export type AuditEvent = RouterOutputs["audit"]["list"]["events"][number];
+
+export const AUDIT_ENTITY_LABELS: Record<string, string> = {
+  content: "Content",
+  campaign: "Campaign",
+  contentType: "Content type",
+  user: "User",
+  importSchedule: "Import schedule",
+  tag: "Tag",
+  setting: "Setting",
+  embeddingMigration: "Embedding migration",
+};
+
+const SYSTEM_ACTOR_LABELS: Record<string, string> = {
+  ghost_api: "Ghost sync",
+  contentful_api: "Contentful sync",
+  youtube_api: "YouTube sync",
+  csv_import: "CSV import",
+};
+
+// Fields too noisy or internal to list in a change
+const HIDDEN_FIELDS = new Set(["id", "textHash"]);
+
+/**
+ * Who made the change: a user, or a system job and the user it ran for
+ */
+export function auditActorLabel(event: AuditEvent) {
+  const user = event.actorName ?? event.actorEmail;
+  if (event.systemActor) {
+    const system = SYSTEM_ACTOR_LABELS[event.systemActor] ?? event.systemActor;
+    return user ? `${system} (for ${user})` : system;
+  }
+  return user ?? "Deleted user";
+}
+
+/**
+ * What happened, naming trash moves and text changes rather than the raw
+ * field updates behind them
+ */
+export function auditActionLabel(event: AuditEvent) {
+  const changes = event.changes ?? {};
+  switch (event.action) {
+    case "create":
+      return "Created";
+    case "delete":
+      return "Deleted";
+    case "run":
+      return "Ran";
+    default:
+      if ("deletedAt" in changes) {
+        return changes.deletedAt?.after ? "Moved to trash" : "Restored";
+      }
+      if (
+        "textHash" in changes &&
+        Object.keys(changes).every((field) => HIDDEN_FIELDS.has(field))
+      ) {
+        return "Text changed";
+      }
+      return "Updated";
+  }
+}
+
+function fieldLabel(field: string) {
+  const words = field.replace(/([A-Z])/g, " $1").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function formatValue(value: unknown) {
+  if (value === null || value === "" || value === undefined) return "—";
+  if (Array.isArray(value)) {
+    return value.length > 0 ? value.map(String).join(", ") : "—";
+  }
+  const text =
+    typeof value === "object" ? JSON.stringify(value) : String(value);
+  return text.length > 120 ? `${text.slice(0, 117)}...` : text;
+}
+
+/**
+ * Field-by-field list of a change (values only for creates and deletes)
+ */
+export function AuditChangeList({ event }: { event: AuditEvent }) {
+  const fields = Object.entries(event.changes ?? {}).filter(
+    ([field]) => !HIDDEN_FIELDS.has(field),
+  );
+  if (fields.length === 0) return null;
+
+  return (
+    <dl className="space-y-1 text-xs">
+      {fields.map(([field, { before, after }]) => (
+        <div className="flex gap-2" key={field}>
+          <dt className="shrink-0 text-muted-foreground">
+            {fieldLabel(field)}:
+          </dt>
+          <dd className="break-all">
+            {event.action === "update" ? (
+              <>
+                <span className="text-muted-foreground line-through">
+                  {formatValue(before)}
+                </span>{" "}
+                → {formatValue(after)}
+              </>
+            ) : (
+              formatValue(event.action === "delete" ? before : after)
+            )}
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
@@ -24,6 +24,20 @@ export const env = createEnv({
     INDEXING_TIMEOUT_MS: z.string().optional(),
     ENABLE_CONTENT_INDEXING: z.string().optional(),
     OPENAI_API_KEY: z.string().optional(), // Only needed for Full Content (AI) search
+    EMBEDDING_PROVIDER: z
+      .enum(["openai", "openai-compatible", "deterministic"])
+      .default("openai"),
+    EMBEDDING_MODEL: z.string().optional(),
+    EMBEDDING_DIMENSIONS: z.string().optional(),
+    EMBEDDING_BASE_URL: z.string().url().optional(),
+    EMBEDDING_API_KEY: z.string().optional(),
+    // Ask the Den answers
+    LLM_PROVIDER: z
+      .enum(["openai", "openai-compatible", "mock"])
+      .default("openai"),
+    LLM_MODEL: z.string().optional(),
+    LLM_BASE_URL: z.string().url().optional(),
+    LLM_API_KEY: z.string().optional(),
     // API integrations
     GHOST_API_URL: z.string().url().optional(),
     GHOST_CONTENT_API_KEY: z.string().optional(),
@@ -63,6 +77,15 @@ export const env = createEnv({
     INDEXING_TIMEOUT_MS: process.env.INDEXING_TIMEOUT_MS,
     ENABLE_CONTENT_INDEXING: process.env.ENABLE_CONTENT_INDEXING,
     OPENAI_API_KEY: process.env.OPENAI_API_KEY,
+    EMBEDDING_PROVIDER: process.env.EMBEDDING_PROVIDER,
+    EMBEDDING_MODEL: process.env.EMBEDDING_MODEL,
+    EMBEDDING_DIMENSIONS: process.env.EMBEDDING_DIMENSIONS,
+    EMBEDDING_BASE_URL: process.env.EMBEDDING_BASE_URL,
+    EMBEDDING_API_KEY: process.env.EMBEDDING_API_KEY,
+    LLM_PROVIDER: process.env.LLM_PROVIDER,
+    LLM_MODEL: process.env.LLM_MODEL,
+    LLM_BASE_URL: process.env.LLM_BASE_URL,
+    LLM_API_KEY: process.env.LLM_API_KEY,
     GHOST_API_URL: process.env.GHOST_API_URL,
     GHOST_CONTENT_API_KEY: process.env.GHOST_CONTENT_API_KEY,
     CONTENTFUL_SPACE_ID: process.env.CONTENTFUL_SPACE_ID,
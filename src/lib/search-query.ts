@@ -0,0 +1,286 @@
+import { isValid, parse } from "date-fns";
+
+/**
+ * Search query syntax for the content search box:
+ *
+ *   type:case_study tag:iot after:2025-01-01 "continuous aggregates" -webinar
+ *
+ * Field operators become structured filters; the rest is free text with
+ * quoted phrases and -exclusions, in the form websearch_to_tsquery reads.
+ * Used by the server to run the query and by the search box to show errors
+ * as the user types.
+ */
+
+export const SEARCH_OPERATORS = [
+  "type",
+  "tag",
+  "campaign",
+  "author",
+  "source",
+  "status",
+  "before",
+  "after",
+] as const;
+
+export type SearchOperator = (typeof SEARCH_OPERATORS)[number];
+
+export const SEARCH_SYNTAX_HELP: Array<{
+  example: string;
+  description: string;
+}> = [
+  { example: "type:case_study", description: "Content type name or slug" },
+  { example: "tag:iot,kafka", description: "Any of the tags" },
+  { example: 'campaign:"Q3 Launch"', description: "Campaign name" },
+  { example: "author:ana", description: "Author name contains" },
+  { example: "source:ghost", description: "Where the item came from" },
+  { example: "status:broken", description: "Latest link check result" },
+  { example: "after:2025-01-01", description: "Published on or after" },
+  { example: "before:2025-07-01", description: "Published before" },
+  { example: '"exact phrase"', description: "Words next to each other" },
+  { example: "-webinar", description: "Leave out matches (also -tag:...)" },
+];
+
+// Friendly names for the content source enum values
+const SOURCE_ALIASES: Record<string, string> = {
+  manual: "manual",
+  csv: "csv_import",
+  csv_import: "csv_import",
+  cms: "cms_api",
+  cms_api: "cms_api",
+  asana: "asana_webhook",
+  asana_webhook: "asana_webhook",
+  ghost: "ghost_api",
+  ghost_api: "ghost_api",
+  contentful: "contentful_api",
+  contentful_api: "contentful_api",
+  youtube: "youtube_api",
+  youtube_api: "youtube_api",
+};
+
+const LINK_STATUSES = [
+  "ok",
+  "redirect",
+  "broken",
+  "timeout",
+  "error",
+  "unchecked",
+];
+
+export interface SearchQueryClause {
+  operator: SearchOperator;
+  // Any of the values matches; before/after have exactly one date
+  values: string[];
+  negated: boolean;
+}
+
+export interface SearchQueryError {
+  message: string;
+  // Position of the offending token in the query
+  start: number;
+  end: number;
+}
+
+export interface ParsedSearchQuery {
+  terms: string[];
+  phrases: string[];
+  excluded: string[];
+  clauses: SearchQueryClause[];
+  errors: SearchQueryError[];
+}
+
+/**
+ * Lowercase and strip everything but letters and digits, so "case_study",
+ * "Case Study" and "case-study" compare equal
+ */
+export function searchKey(value: string) {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function isOperator(field: string): field is SearchOperator {
+  return (SEARCH_OPERATORS as readonly string[]).includes(field);
+}
+
+function readQuoted(input: string, start: number) {
+  const close = input.indexOf('"', start + 1);
+  return close === -1
+    ? { value: input.slice(start + 1), end: input.length, closed: false }
+    : { value: input.slice(start + 1, close), end: close + 1, closed: true };
+}
+
+function isDate(value: string) {
+  return (
+    /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+    isValid(parse(value, "yyyy-MM-dd", new Date()))
+  );
+}
+
+/**
+ * Values of an operator, normalized, or the reason they're not valid
+ */
+function operatorValues(
+  operator: SearchOperator,
+  raw: string,
+  negated: boolean,
+): { values: string[] } | { error: string } {
+  const values = raw
+    .split(",")
+    .map((value) => value.trim())
+    .filter(Boolean);
+  if (values.length === 0) {
+    return { error: `${operator}: needs a value` };
+  }
+
+  switch (operator) {
+    case "before":
+    case "after":
+      if (negated) {
+        return { error: `${operator}: can't be excluded` };
+      }
+      if (values.length > 1 || !isDate(values[0] ?? "")) {
+        return { error: `${operator}: takes a date like 2025-01-01` };
+      }
+      return { values };
+    case "source": {
+      const unknown = values.find((v) => !SOURCE_ALIASES[v.toLowerCase()]);
+      if (unknown) {
+        return {
+          error: `Unknown source "${unknown}". Use manual, csv, cms, asana, ghost, contentful or youtube`,
+        };
+      }
+      return {
+        values: values.map((v) => SOURCE_ALIASES[v.toLowerCase()] ?? v),
+      };
+    }
+    case "status": {
+      const unknown = values.find(
+        (v) => !LINK_STATUSES.includes(v.toLowerCase()),
+      );
+      if (unknown) {
+        return {
+          error: `Unknown status "${unknown}". Use ${LINK_STATUSES.join(", ")}`,
+        };
+      }
+      return { values: values.map((v) => v.toLowerCase()) };
+    }
+    default:
+      return { values };
+  }
+}
+
+/**
+ * Split a query into field operators, free text terms, quoted phrases and
+ * exclusions. Invalid operators are reported in `errors` and left out;
+ * words with an unknown prefix (like URLs) stay free text.
+ */
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = {
+    terms: [],
+    phrases: [],
+    excluded: [],
+    clauses: [],
+    errors: [],
+  };
+
+  let i = 0;
+  while (i < input.length) {
+    if (/\s/.test(input.charAt(i))) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    const negated =
+      input.charAt(i) === "-" && /[^\s-]/.test(input.charAt(i + 1));
+    if (negated) i++;
+
+    // Quoted phrase
+    if (input.charAt(i) === '"') {
+      const quoted = readQuoted(input, i);
+      i = quoted.end;
+      if (!quoted.closed) {
+        parsed.errors.push({ message: "Missing closing quote", start, end: i });
+      }
+      const phrase = quoted.value.trim();
+      if (phrase) (negated ? parsed.excluded : parsed.phrases).push(phrase);
+      continue;
+    }
+
+    let end = i;
+    while (end < input.length && !/[\s"]/.test(input.charAt(end))) end++;
+    const word = input.slice(i, end);
+    i = end;
+
+    // field:value or field:"quoted value"
+    const colon = word.indexOf(":");
+    const field = word.slice(0, Math.max(colon, 0)).toLowerCase();
+    if (isOperator(field)) {
+      let raw = word.slice(colon + 1);
+      if (!raw && input.charAt(i) === '"') {
+        const quoted = readQuoted(input, i);
+        raw = quoted.value;
+        i = quoted.end;
+        if (!quoted.closed) {
+          parsed.errors.push({
+            message: "Missing closing quote",
+            start,
+            end: i,
+          });
+          continue;
+        }
+      }
+      const result = operatorValues(field, raw, negated);
+      if ("error" in result) {
+        parsed.errors.push({ message: result.error, start, end: i });
+      } else {
+        parsed.clauses.push({
+          operator: field,
+          values: result.values,
+          negated,
+        });
+      }
+      continue;
+    }
+
+    if (/[\p{L}\p{N}]/u.test(word)) {
+      (negated ? parsed.excluded : parsed.terms).push(word);
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Whether the query has text to rank by, not just operators and exclusions
+ */
+export function hasFreeText(query: ParsedSearchQuery) {
+  return query.terms.length > 0 || query.phrases.length > 0;
+}
+
+/**
+ * Terms and phrases without syntax, for embeddings and snippet highlighting
+ */
+export function plainSearchText(query: ParsedSearchQuery) {
+  return [...query.terms, ...query.phrases].join(" ");
+}
+
+/**
+ * Free text in websearch_to_tsquery syntax: terms, "phrases" and -exclusions
+ */
+export function fullTextSearchText(query: ParsedSearchQuery) {
+  return [
+    ...query.terms,
+    ...query.phrases.map((phrase) => `"${phrase}"`),
+    ...query.excluded.map((excluded) =>
+      excluded.includes(" ") ? `-"${excluded}"` : `-${excluded}`,
+    ),
+  ].join(" ");
+}
+
+/**
+ * The exclusions as one websearch_to_tsquery that matches any of them
+ */
+export function excludedSearchText(query: ParsedSearchQuery) {
+  return query.excluded
+    .map((excluded) => (excluded.includes(" ") ? `"${excluded}"` : excluded))
+    .join(" or ");
+}
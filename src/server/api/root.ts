@@ -1,11 +1,23 @@
 import { apiImportRouter } from "~/server/api/routers/api-import";
+import { askRouter } from "~/server/api/routers/ask";
 import { voiceProfilesRouter } from "~/server/api/routers/voice-profiles";
+import { auditRouter } from "~/server/api/routers/audit";
 import { campaignsRouter } from "~/server/api/routers/campaigns";
+import { canonicalUrlsRouter } from "~/server/api/routers/canonical-urls";
 import { contentRouter } from "~/server/api/routers/content";
 import { contentTypesRouter } from "~/server/api/routers/contentTypes";
 import { csvRouter } from "~/server/api/routers/csv";
+import { duplicatesRouter } from "~/server/api/routers/duplicates";
+import { linkHealthRouter } from "~/server/api/routers/link-health";
 import { postRouter } from "~/server/api/routers/post";
 import { queueRouter } from "~/server/api/routers/queue";
+import { recrawlRouter } from "~/server/api/routers/recrawl";
+import { redirectsRouter } from "~/server/api/routers/redirects";
+import { savedViewsRouter } from "~/server/api/routers/saved-views";
+import { searchAnalyticsRouter } from "~/server/api/routers/search-analytics";
+import { searchEvalRouter } from "~/server/api/routers/search-eval";
+import { tagsRouter } from "~/server/api/routers/tags";
+import { trashRouter } from "~/server/api/routers/trash";
 import { usersRouter } from "~/server/api/routers/users";
 import { createCallerFactory, createTRPCRouter } from "~/server/api/trpc";
 
@@ -24,6 +36,18 @@ export const appRouter = createTRPCRouter({
   contentTypes: contentTypesRouter,
   users: usersRouter,
   apiImport: apiImportRouter,
+  recrawl: recrawlRouter,
+  linkHealth: linkHealthRouter,
+  redirects: redirectsRouter,
+  canonicalUrls: canonicalUrlsRouter,
+  duplicates: duplicatesRouter,
+  trash: trashRouter,
+  audit: auditRouter,
+  tags: tagsRouter,
+  savedViews: savedViewsRouter,
+  searchAnalytics: searchAnalyticsRouter,
+  ask: askRouter,
+  searchEval: searchEvalRouter,
 });
 
 // export type definition of API
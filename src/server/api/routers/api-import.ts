@@ -99,6 +99,7 @@ export const apiImportRouter = createTRPCRouter({
    * Toggle a schedule on/off for a source
    */
   updateSchedule: adminProcedure
+    .meta({ audit: { entity: "importSchedule", idKey: "sourceType" } })
     .input(
       z.object({
         sourceType: importSourceSchema,
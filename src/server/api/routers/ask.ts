@@ -0,0 +1,32 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import { answerQuestion } from "~/server/services/ask-the-den";
+import { searchFiltersSchema } from "~/server/services/content-query";
+
+export const askRouter = createTRPCRouter({
+  /**
+   * Answer a question from the library with cited sources. Streams events:
+   * the sources, then the answer text in pieces, then done.
+   */
+  answer: protectedProcedure
+    .input(
+      searchFiltersSchema.extend({
+        question: z.string().trim().min(3).max(1000),
+      }),
+    )
+    .query(async function* ({ input, signal }) {
+      const { question, ...filters } = input;
+      try {
+        yield* answerQuestion(question, filters, signal);
+      } catch (error) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message:
+            error instanceof Error
+              ? error.message
+              : "Failed to answer question",
+        });
+      }
+    }),
+});
@@ -0,0 +1,60 @@
+import { z } from "zod";
+import {
+  adminProcedure,
+  createTRPCRouter,
+  protectedProcedure,
+} from "~/server/api/trpc";
+import {
+  AUDIT_ENTITY_TYPES,
+  listAuditEvents,
+} from "~/server/services/audit-log";
+
+export const auditRouter = createTRPCRouter({
+  /**
+   * Audit events, newest first, filtered by actor, entity and date range
+   */
+  list: adminProcedure
+    .input(
+      z.object({
+        // A user id, or "system" for syncs and imports
+        actor: z.string().optional(),
+        entityType: z.enum(AUDIT_ENTITY_TYPES).optional(),
+        entityId: z.string().optional(),
+        from: z.string().datetime().optional(),
+        to: z.string().datetime().optional(),
+        limit: z.number().min(1).max(100).default(50),
+        offset: z.number().min(0).default(0),
+      }),
+    )
+    .query(async ({ input }) => {
+      const { limit, offset, from, to, ...filters } = input;
+      return listAuditEvents(
+        {
+          ...filters,
+          from: from ? new Date(from) : undefined,
+          to: to ? new Date(to) : undefined,
+        },
+        limit,
+        offset,
+      );
+    }),
+
+  /**
+   * Change history of one content item, newest first
+   */
+  contentHistory: protectedProcedure
+    .input(
+      z.object({
+        id: z.string().uuid(),
+        limit: z.number().min(1).max(100).default(50),
+        offset: z.number().min(0).default(0),
+      }),
+    )
+    .query(async ({ input }) => {
+      return listAuditEvents(
+        { entityType: "content", entityId: input.id },
+        input.limit,
+        input.offset,
+      );
+    }),
+});
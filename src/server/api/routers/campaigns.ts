@@ -1,11 +1,12 @@
-import { eq, sql } from "drizzle-orm";
+import { and, eq, sql } from "drizzle-orm";
 import { z } from "zod";
 import {
   contributorProcedure,
   createTRPCRouter,
   protectedProcedure,
 } from "~/server/api/trpc";
-import { campaigns, contentCampaigns } from "~/server/db/schema";
+import { campaigns, contentCampaigns, contentItems } from "~/server/db/schema";
+import { notDeleted } from "~/server/services/content-query";
 
 export const campaignsRouter = createTRPCRouter({
   list: protectedProcedure.query(async ({ ctx }) => {
@@ -15,10 +16,15 @@ export const campaignsRouter = createTRPCRouter({
         name: campaigns.name,
         description: campaigns.description,
         createdAt: campaigns.createdAt,
-        contentCount: sql<number>`cast(count(${contentCampaigns.contentItemId}) as int)`,
+        // Live items only; trashed ones keep their campaigns until purged
+        contentCount: sql<number>`cast(count(${contentItems.id}) as int)`,
       })
       .from(campaigns)
       .leftJoin(contentCampaigns, eq(campaigns.id, contentCampaigns.campaignId))
+      .leftJoin(
+        contentItems,
+        and(eq(contentItems.id, contentCampaigns.contentItemId), notDeleted),
+      )
       .groupBy(campaigns.id)
       .orderBy(campaigns.name);
 
@@ -40,6 +46,7 @@ export const campaignsRouter = createTRPCRouter({
     }),
 
   create: contributorProcedure
+    .meta({ audit: { entity: "campaign" } })
     .input(
       z.object({
         name: z.string().min(1),
@@ -65,6 +72,7 @@ export const campaignsRouter = createTRPCRouter({
     }),
 
   update: contributorProcedure
+    .meta({ audit: { entity: "campaign" } })
     .input(
       z.object({
         id: z.string().uuid(),
@@ -96,6 +104,7 @@ export const campaignsRouter = createTRPCRouter({
     }),
 
   delete: contributorProcedure
+    .meta({ audit: { entity: "campaign" } })
     .input(z.object({ id: z.string().uuid() }))
     .mutation(async ({ ctx, input }) => {
       // Check if campaign is in use
@@ -0,0 +1,32 @@
+import { adminProcedure, createTRPCRouter } from "~/server/api/trpc";
+import {
+  applyCanonicalUrls,
+  auditCanonicalUrls,
+  findCanonicalizableIds,
+} from "~/server/services/canonical-url-audit";
+
+export const canonicalUrlsRouter = createTRPCRouter({
+  /**
+   * Items stored under non-canonical URLs, and items that collide once
+   * their URLs are canonicalized
+   */
+  audit: adminProcedure.query(async () => {
+    return auditCanonicalUrls();
+  }),
+
+  /**
+   * One-time fix: move every non-colliding item to its canonical URL
+   */
+  apply: adminProcedure
+    .meta({ audit: { entity: "content", findIds: findCanonicalizableIds } })
+    .mutation(async () => {
+      const { updated } = await applyCanonicalUrls();
+      return {
+        success: true,
+        message:
+          updated > 0
+            ? `Moved ${updated} items to canonical URLs`
+            : "All non-colliding items already use canonical URLs",
+      };
+    }),
+});
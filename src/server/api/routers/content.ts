@@ -1,158 +1,178 @@
 import crypto from "node:crypto";
 import { TRPCError } from "@trpc/server";
-import {
-  and,
-  asc,
-  desc,
-  eq,
-  gte,
-  ilike,
-  inArray,
-  lte,
-  or,
-  sql,
-} from "drizzle-orm";
+import { and, asc, count, eq, inArray, or, sql } from "drizzle-orm";
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
 import { z } from "zod";
+import { parseSearchQuery, plainSearchText } from "~/lib/search-query";
 import {
   adminProcedure,
   contributorProcedure,
   createTRPCRouter,
   protectedProcedure,
 } from "~/server/api/trpc";
+import type * as schema from "~/server/db/schema";
 import {
   contentCampaigns,
+  contentChunks,
   contentItems,
   contentText,
   contentTypes,
 } from "~/server/db/schema";
+import { canonicalizeUrl } from "~/server/services/canonical-url";
+import { bulkUpdateContent } from "~/server/services/content-bulk-edit";
+import { getContentFacets } from "~/server/services/content-facets";
 import { countTokens } from "~/server/services/content-fetcher";
-import { generateEmbedding } from "~/server/services/embeddings";
+import {
+  listContentMerges,
+  mergeContentItems,
+} from "~/server/services/content-merge";
+import {
+  buildContentFilterWhere,
+  buildContentOrderBy,
+  type ContentScope,
+  contentQuerySchema,
+  contentScopeSchema,
+  findContentIds,
+  notDeleted,
+  searchFiltersSchema,
+} from "~/server/services/content-query";
+import { trashContent } from "~/server/services/content-trash";
+import {
+  diffContentVersions,
+  findVersionItemIds,
+  listContentVersions,
+  recordContentVersion,
+  restoreContentVersion,
+} from "~/server/services/content-versions";
+import {
+  getActiveEmbeddingModel,
+  missingEmbeddingCondition,
+} from "~/server/services/embedding-backfill";
+import {
+  generateEmbedding,
+  getActiveEmbeddingProvider,
+} from "~/server/services/embeddings";
 import {
   indexContent,
   indexFromExistingContent,
 } from "~/server/services/indexing-orchestrator";
-import { keywordSearch } from "~/server/services/keyword-search";
+import {
+  countKeywordMatches,
+  keywordMatchSql,
+  keywordSearchDocuments,
+} from "~/server/services/keyword-search";
 import { fetchUrlMetadata } from "~/server/services/publish-date-fetcher";
-import { hybridSearch } from "~/server/services/search-service";
+import type {
+  ChunkHit,
+  DocumentSearchPage,
+} from "~/server/services/result-grouping";
+import { logSearch } from "~/server/services/search-analytics";
+import { hybridSearchDocuments } from "~/server/services/search-service";
+import { mapTagsOrThrow } from "~/server/services/tag-taxonomy";
+
+/**
+ * Enrich a page of document search results with content item details
+ */
+async function attachContentItems<T extends ChunkHit>(
+  db: PostgresJsDatabase<typeof schema>,
+  page: DocumentSearchPage<T>,
+) {
+  const contentItemIds = page.results.map((r) => r.contentItemId);
+
+  if (contentItemIds.length === 0) {
+    return { results: [], hasMore: false };
+  }
+
+  const contentItemsData = await db.query.contentItems.findMany({
+    where: inArray(contentItems.id, contentItemIds),
+    columns: { searchVector: false },
+    with: {
+      contentTypeRel: true,
+      campaigns: {
+        with: {
+          campaign: true,
+        },
+      },
+    },
+  });
+
+  // Create a map for quick lookup
+  const contentMap = new Map(contentItemsData.map((item) => [item.id, item]));
+
+  // Combine search results with content details
+  return {
+    results: page.results.map((result) => ({
+      ...result,
+      contentItem: contentMap.get(result.contentItemId) ?? null,
+    })),
+    hasMore: page.hasMore,
+  };
+}
 
 export const contentRouter = createTRPCRouter({
   list: protectedProcedure
     .input(
-      z.object({
-        search: z.string().optional(),
-        contentTypeIds: z.array(z.number()).optional(),
-        campaignIds: z.array(z.string().uuid()).optional(),
-        tags: z.array(z.string()).optional(),
-        publishDateFrom: z.string().optional(),
-        publishDateTo: z.string().optional(),
-        sortBy: z
-          .enum(["title", "date", "type", "author", "createdAt"])
-          .default("createdAt"),
-        sortOrder: z.enum(["asc", "desc"]).default("desc"),
+      contentQuerySchema.extend({
         limit: z.number().min(1).max(100).default(50),
         offset: z.number().min(0).default(0),
       }),
     )
     .query(async ({ ctx, input }) => {
-      const conditions = [];
-
-      // Search filter
-      if (input.search) {
-        conditions.push(
-          or(
-            ilike(contentItems.title, `%${input.search}%`),
-            ilike(contentItems.description, `%${input.search}%`),
-            ilike(contentItems.currentUrl, `%${input.search}%`),
-            ilike(contentItems.author, `%${input.search}%`),
-          ),
-        );
-      }
-
-      // Content type filter
-      if (input.contentTypeIds && input.contentTypeIds.length > 0) {
-        conditions.push(
-          inArray(contentItems.contentTypeId, input.contentTypeIds),
-        );
-      }
-
-      // Date range filter
-      if (input.publishDateFrom) {
-        conditions.push(gte(contentItems.publishDate, input.publishDateFrom));
-      }
-      if (input.publishDateTo) {
-        conditions.push(lte(contentItems.publishDate, input.publishDateTo));
-      }
-
-      // Tags filter (array overlap)
-      if (input.tags && input.tags.length > 0) {
-        const tagArray = sql.join(
-          input.tags.map((t) => sql`${t}`),
-          sql`, `,
-        );
-        conditions.push(
-          sql`${contentItems.tags} && ARRAY[${tagArray}]::text[]`,
-        );
-      }
-
-      // Campaign filter
-      if (input.campaignIds && input.campaignIds.length > 0) {
-        conditions.push(
-          inArray(
-            contentItems.id,
-            ctx.db
-              .selectDistinct({ id: contentCampaigns.contentItemId })
-              .from(contentCampaigns)
-              .where(inArray(contentCampaigns.campaignId, input.campaignIds)),
-          ),
-        );
-      }
-
-      const whereClause =
-        conditions.length > 0 ? and(...conditions) : undefined;
-
-      const sortDir = input.sortOrder === "asc" ? asc : desc;
-      const nullsLast = input.sortOrder === "desc" ? sql`NULLS LAST` : sql`NULLS FIRST`;
-      const dateExpr = sql`COALESCE(${contentItems.lastModifiedAt}, ${contentItems.publishDate}::timestamptz)`;
-      const sortColumnMap = {
-        title: contentItems.title,
-        date: dateExpr,
-        type: contentItems.contentTypeId,
-        author: contentItems.author,
-        createdAt: contentItems.createdAt,
-      };
-      const sortColumn = sortColumnMap[input.sortBy];
-
-      const items = await ctx.db.query.contentItems.findMany({
-        where: whereClause,
-        limit: input.limit,
-        offset: input.offset,
-        orderBy: [sql`${sortDir(sortColumn)} ${nullsLast}`],
-        with: {
-          contentTypeRel: true,
-          campaigns: {
-            with: {
-              campaign: true,
+      const startedAt = Date.now();
+      const whereClause = buildContentFilterWhere(input);
+
+      const [items, countResult, facets] = await Promise.all([
+        ctx.db.query.contentItems.findMany({
+          where: whereClause,
+          // The search vector is only for queries, not for the page
+          columns: { searchVector: false },
+          limit: input.limit,
+          offset: input.offset,
+          orderBy: [buildContentOrderBy(input)],
+          with: {
+            contentTypeRel: true,
+            campaigns: {
+              with: {
+                campaign: true,
+              },
             },
           },
-        },
-      });
-
-      // Count total for pagination
-      const countResult = await ctx.db
-        .select({ count: sql<number>`cast(count(*) as int)` })
-        .from(contentItems)
-        .where(whereClause);
+        }),
+        // Count total for pagination
+        ctx.db
+          .select({ count: sql<number>`cast(count(*) as int)` })
+          .from(contentItems)
+          .where(whereClause),
+        getContentFacets(input),
+      ]);
 
       const total = countResult[0]?.count ?? 0;
 
+      // Log searches (not filter-only lists), once per query rather than per page
+      const { search, limit, offset, sortBy, sortOrder, ...filters } = input;
+      const searchId =
+        offset === 0 && search?.trim()
+          ? logSearch({
+              userId: ctx.session.user.id,
+              query: search,
+              mode: "metadata",
+              filters,
+              resultCount: total,
+              latencyMs: Date.now() - startedAt,
+            })
+          : null;
+
       return {
         items,
         total,
-        hasMore: input.offset + input.limit < total,
+        hasMore: offset + limit < total,
+        facets,
+        searchId,
       };
     }),
 
   create: contributorProcedure
+    .meta({ audit: { entity: "content" } })
     .input(
       z.object({
         title: z.string().min(1),
@@ -168,14 +188,22 @@ export const contentRouter = createTRPCRouter({
     )
     .mutation(async ({ ctx, input }) => {
       const { campaignIds, ...contentData } = input;
+      contentData.currentUrl = canonicalizeUrl(input.currentUrl);
+      if (input.tags) {
+        contentData.tags = await mapTagsOrThrow(input.tags);
+      }
 
       // Check for duplicate URL
       const existing = await ctx.db.query.contentItems.findFirst({
-        where: eq(contentItems.currentUrl, input.currentUrl),
+        where: eq(contentItems.currentUrl, contentData.currentUrl),
       });
 
       if (existing) {
-        throw new Error("Content with this URL already exists");
+        throw new Error(
+          existing.deletedAt
+            ? "Content with this URL is in the trash; restore it instead"
+            : "Content with this URL already exists",
+        );
       }
 
       // Create content item
@@ -218,6 +246,7 @@ export const contentRouter = createTRPCRouter({
     }),
 
   update: contributorProcedure
+    .meta({ audit: { entity: "content" } })
     .input(
       z.object({
         id: z.string().uuid(),
@@ -233,11 +262,15 @@ export const contentRouter = createTRPCRouter({
       }),
     )
     .mutation(async ({ ctx, input }) => {
-      const { id, campaignIds, currentUrl, ...updates } = input;
+      const { id, campaignIds, currentUrl: rawUrl, ...updates } = input;
+      const currentUrl = rawUrl && canonicalizeUrl(rawUrl);
+      if (input.tags) {
+        updates.tags = await mapTagsOrThrow(input.tags);
+      }
 
-      // Get existing item
+      // Get existing item; trashed items can't be edited until restored
       const existing = await ctx.db.query.contentItems.findFirst({
-        where: eq(contentItems.id, id),
+        where: and(eq(contentItems.id, id), notDeleted),
       });
 
       if (!existing) {
@@ -246,7 +279,20 @@ export const contentRouter = createTRPCRouter({
 
       // If URL changed, add old URL to history
       let previousUrls = existing.previousUrls || [];
-      if (currentUrl && currentUrl !== existing.currentUrl) {
+      const urlChanged = !!currentUrl && currentUrl !== existing.currentUrl;
+      if (urlChanged) {
+        const duplicate = await ctx.db.query.contentItems.findFirst({
+          where: eq(contentItems.currentUrl, currentUrl),
+          columns: { id: true, deletedAt: true },
+        });
+        if (duplicate) {
+          throw new Error(
+            duplicate.deletedAt
+              ? "Content with this URL is in the trash"
+              : "Content with this URL already exists",
+          );
+        }
+
         previousUrls = [...previousUrls, existing.currentUrl];
       }
 
@@ -258,6 +304,12 @@ export const contentRouter = createTRPCRouter({
             ...updates,
             ...(currentUrl && { currentUrl }),
             previousUrls,
+            // The new URL gets checked on the next link check run
+            ...(urlChanged && {
+              linkStatus: null,
+              linkCheckedAt: null,
+              suggestedUrl: null,
+            }),
             updatedAt: new Date(),
           })
           .where(eq(contentItems.id, id))
@@ -291,29 +343,136 @@ export const contentRouter = createTRPCRouter({
       return updatedItem;
     }),
 
+  /**
+   * Move an item to the trash (see trash router to restore or purge)
+   */
   delete: contributorProcedure
+    .meta({ audit: { entity: "content" } })
     .input(z.object({ id: z.string().uuid() }))
     .mutation(async ({ ctx, input }) => {
-      // Verify item exists first
-      const existing = await ctx.db.query.contentItems.findFirst({
-        where: eq(contentItems.id, input.id),
-      });
+      const trashed = await trashContent(
+        { ids: [input.id] },
+        ctx.session.user.id,
+      );
 
-      if (!existing) {
+      if (trashed === 0) {
         throw new Error("Content item not found");
       }
 
-      await ctx.db.delete(contentItems).where(eq(contentItems.id, input.id));
-
       return { success: true };
     }),
 
+  /**
+   * Move the given items, or every item matching the filters, to the trash.
+   * An unfiltered scope is rejected.
+   */
+  bulkDelete: contributorProcedure
+    .meta({ audit: { entity: "content", findIds: findContentIds } })
+    .input(contentScopeSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const trashed = await trashContent(input, ctx.session.user.id);
+        return {
+          success: true,
+          trashed,
+          message: `Moved ${trashed} ${trashed === 1 ? "item" : "items"} to the trash`,
+        };
+      } catch (error) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message:
+            error instanceof Error ? error.message : "Failed to move to trash",
+        });
+      }
+    }),
+
+  /**
+   * Apply the same edits to the given items, or every item matching the
+   * filters, in one transaction
+   */
+  bulkUpdate: contributorProcedure
+    .meta({
+      audit: {
+        entity: "content",
+        findIds: (input: { scope: ContentScope }, userId) =>
+          findContentIds(input.scope, userId),
+      },
+    })
+    .input(
+      z.object({
+        scope: contentScopeSchema,
+        addTags: z.array(z.string().min(1)).optional(),
+        removeTags: z.array(z.string().min(1)).optional(),
+        addCampaignIds: z.array(z.string().uuid()).optional(),
+        removeCampaignIds: z.array(z.string().uuid()).optional(),
+        contentTypeId: z.number().optional(),
+        targetAudience: z.string().nullable().optional(),
+        author: z.string().nullable().optional(),
+        reindex: z.boolean().optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { scope, ...changes } = input;
+      try {
+        const result = await bulkUpdateContent(
+          scope,
+          changes,
+          ctx.session.user.id,
+        );
+        return {
+          success: true,
+          ...result,
+          message: `Updated ${result.updated} ${result.updated === 1 ? "item" : "items"}${result.reindexQueued > 0 ? `, ${result.reindexQueued} queued for reindex` : ""}`,
+        };
+      } catch (error) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: error instanceof Error ? error.message : "Bulk edit failed",
+        });
+      }
+    }),
+
+  /**
+   * Merge a duplicate item into a surviving item and delete the duplicate
+   */
+  merge: contributorProcedure
+    .meta({
+      audit: { entity: "content", idKey: ["survivorId", "duplicateId"] },
+    })
+    .input(
+      z.object({
+        survivorId: z.string().uuid(),
+        duplicateId: z.string().uuid(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return await mergeContentItems(
+          input.survivorId,
+          input.duplicateId,
+          ctx.session.user.id,
+        );
+      } catch (error) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: error instanceof Error ? error.message : "Merge failed",
+        });
+      }
+    }),
+
+  getMerges: protectedProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .query(async ({ input }) => {
+      return listContentMerges(input.id);
+    }),
+
   reindexContent: contributorProcedure
+    .meta({ audit: { entity: "content" } })
     .input(z.object({ id: z.string().uuid() }))
     .mutation(async ({ input, ctx }) => {
-      // Get content item
+      // Get content item (trashed items stay out of the index)
       const item = await ctx.db.query.contentItems.findFirst({
-        where: eq(contentItems.id, input.id),
+        where: and(eq(contentItems.id, input.id), notDeleted),
       });
 
       if (!item) {
@@ -335,7 +494,7 @@ export const contentRouter = createTRPCRouter({
         });
       }
 
-      return { success: true };
+      return { success: true, unchanged: result.unchanged > 0 };
     }),
 
   getIndexStatus: protectedProcedure
@@ -344,6 +503,7 @@ export const contentRouter = createTRPCRouter({
       const indexStatus = await ctx.db.query.contentText.findFirst({
         where: eq(contentText.contentItemId, input.id),
         columns: {
+          id: true,
           indexStatus: true,
           indexError: true,
           indexedAt: true,
@@ -353,7 +513,27 @@ export const contentRouter = createTRPCRouter({
         },
       });
 
-      return indexStatus ?? null;
+      if (!indexStatus) {
+        return null;
+      }
+
+      // Chunks whose embedding failed are only found by keyword search
+      const activeModel = await getActiveEmbeddingModel();
+      const [chunkCounts] = await ctx.db
+        .select({
+          total: count(),
+          missing: count(
+            sql`CASE WHEN ${missingEmbeddingCondition(activeModel)} THEN 1 END`,
+          ),
+        })
+        .from(contentChunks)
+        .where(eq(contentChunks.contentTextId, indexStatus.id));
+
+      return {
+        ...indexStatus,
+        totalChunks: chunkCounts?.total ?? 0,
+        embeddedChunks: (chunkCounts?.total ?? 0) - (chunkCounts?.missing ?? 0),
+      };
     }),
 
   getContentText: protectedProcedure
@@ -374,116 +554,160 @@ export const contentRouter = createTRPCRouter({
       return { plainText: textRecord.plainText };
     }),
 
-  hybridSearch: protectedProcedure
+  getVersions: protectedProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .query(async ({ input }) => {
+      return listContentVersions(input.id);
+    }),
+
+  diffVersions: protectedProcedure
     .input(
       z.object({
+        fromVersionId: z.string().uuid(),
+        toVersionId: z.string().uuid(),
+      }),
+    )
+    .query(async ({ input }) => {
+      try {
+        return await diffContentVersions(
+          input.fromVersionId,
+          input.toVersionId,
+        );
+      } catch (error) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: error instanceof Error ? error.message : "Diff failed",
+        });
+      }
+    }),
+
+  restoreVersion: contributorProcedure
+    .meta({ audit: { entity: "content", findIds: findVersionItemIds } })
+    .input(z.object({ versionId: z.string().uuid() }))
+    .mutation(async ({ input, ctx }) => {
+      let restored: Awaited<ReturnType<typeof restoreContentVersion>>;
+      try {
+        restored = await restoreContentVersion(
+          input.versionId,
+          ctx.session.user.id,
+        );
+      } catch (error) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: error instanceof Error ? error.message : "Restore failed",
+        });
+      }
+
+      // Re-chunk + embed the restored text
+      const result = await indexFromExistingContent(restored.contentTextId);
+      if (!result.success) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: result.error ?? "Indexing failed",
+        });
+      }
+
+      return { success: true };
+    }),
+
+  hybridSearch: protectedProcedure
+    .input(
+      searchFiltersSchema.extend({
         query: z.string().min(1),
         limit: z.number().min(1).max(50).default(10),
+        offset: z.number().min(0).default(0),
       }),
     )
     .query(async ({ input, ctx }) => {
-      // Generate embedding for query
-      const embedding = await generateEmbedding(input.query);
+      const startedAt = Date.now();
+      const { query, limit, offset, ...filters } = input;
+
+      // Generate embedding for query with the model search currently uses.
+      // Only the free text is embedded: operators and exclusions are filters
+      const provider = await getActiveEmbeddingProvider();
+      const embedding = {
+        model: provider.model,
+        vector: await generateEmbedding(
+          plainSearchText(parseSearchQuery(query)) || query,
+          provider,
+        ),
+      };
 
-      // Perform hybrid search
-      const searchResults = await hybridSearch(
-        input.query,
+      // Perform hybrid search, grouped into one result per content item
+      const page = await hybridSearchDocuments(
+        query,
         embedding,
-        input.limit,
+        limit,
+        offset,
+        filters,
       );
 
-      // Enrich results with content item details
-      const contentItemIds = searchResults.map((r) => r.contentItemId);
-
-      if (contentItemIds.length === 0) {
-        return [];
-      }
-
-      const contentItemsData = await ctx.db.query.contentItems.findMany({
-        where: inArray(contentItems.id, contentItemIds),
-        with: {
-          contentTypeRel: true,
-          campaigns: {
-            with: {
-              campaign: true,
-            },
-          },
-        },
-      });
-
-      // Create a map for quick lookup
-      const contentMap = new Map(
-        contentItemsData.map((item) => [item.id, item]),
-      );
+      // Semantic search ranks every item, so facets count the candidate pool
+      // and the logged result count only includes items matching the text
+      const [results, facets, matchCount] = await Promise.all([
+        attachContentItems(ctx.db, page),
+        getContentFacets(
+          filters,
+          inArray(contentItems.id, page.candidateItemIds),
+        ),
+        offset === 0 ? countKeywordMatches(query, filters) : null,
+      ]);
 
-      // Normalize relevance scores to 0-100 scale (top result = 100%)
-      const maxScore = Math.max(...searchResults.map((r) => r.relevanceScore));
-      const normalizedResults = searchResults.map((result) => ({
-        ...result,
-        relevanceScore: maxScore > 0 ? result.relevanceScore / maxScore : 0,
-      }));
-
-      // Combine search results with content details
-      return normalizedResults.map((result) => ({
-        ...result,
-        contentItem: contentMap.get(result.contentItemId) ?? null,
-      }));
+      const searchId =
+        matchCount !== null
+          ? logSearch({
+              userId: ctx.session.user.id,
+              query,
+              mode: "fullContent",
+              filters,
+              resultCount: matchCount,
+              latencyMs: Date.now() - startedAt,
+            })
+          : null;
+
+      return { ...results, facets, searchId };
     }),
 
   keywordSearch: protectedProcedure
     .input(
-      z.object({
+      searchFiltersSchema.extend({
         query: z.string().min(1),
         limit: z.number().min(1).max(50).default(10),
+        offset: z.number().min(0).default(0),
       }),
     )
     .query(async ({ input, ctx }) => {
-      // Perform keyword-only search (BM25)
-      const searchResults = await keywordSearch(input.query, input.limit);
-
-      // Enrich results with content item details
-      const contentItemIds = searchResults.map((r) => r.contentItemId);
-
-      if (contentItemIds.length === 0) {
-        return [];
-      }
-
-      const contentItemsData = await ctx.db.query.contentItems.findMany({
-        where: inArray(contentItems.id, contentItemIds),
-        with: {
-          contentTypeRel: true,
-          campaigns: {
-            with: {
-              campaign: true,
-            },
-          },
-        },
-      });
-
-      // Create a map for quick lookup
-      const contentMap = new Map(
-        contentItemsData.map((item) => [item.id, item]),
-      );
-
-      // Normalize relevance scores to 0-100 scale (top result = 100%)
-      const maxScore = Math.max(...searchResults.map((r) => r.relevanceScore));
-      const normalizedResults = searchResults.map((result) => ({
-        ...result,
-        relevanceScore: maxScore > 0 ? result.relevanceScore / maxScore : 0,
-      }));
-
-      // Combine search results with content details
-      return normalizedResults.map((result) => ({
-        ...result,
-        contentItem: contentMap.get(result.contentItemId) ?? null,
-      }));
+      const startedAt = Date.now();
+      const { query, limit, offset, ...filters } = input;
+
+      // Perform keyword-only search (BM25), grouped into one result per content item
+      const [page, facets, matchCount] = await Promise.all([
+        keywordSearchDocuments(query, limit, offset, filters),
+        getContentFacets(filters, keywordMatchSql(query)),
+        offset === 0 ? countKeywordMatches(query, filters) : null,
+      ]);
+      const results = await attachContentItems(ctx.db, page);
+
+      const searchId =
+        matchCount !== null
+          ? logSearch({
+              userId: ctx.session.user.id,
+              query,
+              mode: "keyword",
+              filters,
+              resultCount: matchCount,
+              latencyMs: Date.now() - startedAt,
+            })
+          : null;
+
+      return { ...results, facets, searchId };
     }),
 
   getById: protectedProcedure
     .input(z.object({ id: z.string().uuid() }))
     .query(async ({ ctx, input }) => {
       const item = await ctx.db.query.contentItems.findFirst({
-        where: eq(contentItems.id, input.id),
+        where: and(eq(contentItems.id, input.id), notDeleted),
         with: {
           contentTypeRel: true,
           campaigns: {
@@ -504,7 +728,8 @@ export const contentRouter = createTRPCRouter({
   getDistinctTags: protectedProcedure.query(async ({ ctx }) => {
     const result = await ctx.db
       .selectDistinct({ tag: sql<string>`unnest(${contentItems.tags})` })
-      .from(contentItems);
+      .from(contentItems)
+      .where(notDeleted);
     return result.map((r) => r.tag).sort();
   }),
 
@@ -516,6 +741,7 @@ export const contentRouter = createTRPCRouter({
     }),
 
   submitTranscript: contributorProcedure
+    .meta({ audit: { entity: "content" } })
     .input(
       z.object({
         id: z.string().uuid(),
@@ -523,9 +749,9 @@ export const contentRouter = createTRPCRouter({
       }),
     )
     .mutation(async ({ ctx, input }) => {
-      // Verify content item exists
+      // Verify content item exists and isn't in the trash
       const item = await ctx.db.query.contentItems.findFirst({
-        where: eq(contentItems.id, input.id),
+        where: and(eq(contentItems.id, input.id), notDeleted),
       });
 
       if (!item) {
@@ -578,6 +804,13 @@ export const contentRouter = createTRPCRouter({
         });
       }
 
+      await recordContentVersion(
+        input.id,
+        { contentHash, fullText: plainText, plainText, wordCount, tokenCount },
+        "transcript",
+        { userId: ctx.session.user.id },
+      );
+
       // Chunk + embed using existing indexing pipeline
       const result = await indexFromExistingContent(contentTextRecord.id);
 
@@ -605,6 +838,7 @@ export const contentRouter = createTRPCRouter({
       .leftJoin(contentText, eq(contentItems.id, contentText.contentItemId))
       .where(
         and(
+          notDeleted,
           eq(contentTypes.slug, "youtube_video"),
           or(
             sql`${contentText.id} IS NULL`,
@@ -616,12 +850,4 @@ export const contentRouter = createTRPCRouter({
 
     return rows;
   }),
-
-  deleteAll: contributorProcedure.mutation(async ({ ctx }) => {
-    // Delete all content items (for testing purposes)
-    // This will cascade delete all content_campaigns relationships
-    await ctx.db.delete(contentItems);
-
-    return { success: true, message: "All content items deleted" };
-  }),
 });
@@ -8,6 +8,7 @@ import {
   protectedProcedure,
 } from "~/server/api/trpc";
 import { contentItems, contentTypes } from "~/server/db/schema";
+import { findContentIdsOfType } from "~/server/services/audit-log";
 
 export const contentTypesRouter = createTRPCRouter({
   // List all content types (ordered by display_order)
@@ -32,6 +33,7 @@ export const contentTypesRouter = createTRPCRouter({
 
   // Create new content type
   create: adminProcedure
+    .meta({ audit: { entity: "contentType" } })
     .input(
       z.object({
         name: z.string().min(1).max(50),
@@ -95,6 +97,7 @@ export const contentTypesRouter = createTRPCRouter({
 
   // Update content type
   update: adminProcedure
+    .meta({ audit: { entity: "contentType" } })
     .input(
       z.object({
         id: z.number(),
@@ -175,8 +178,39 @@ export const contentTypesRouter = createTRPCRouter({
       return result[0];
     }),
 
+  // Set how often web-scraped items of this type are re-crawled (allowed for
+  // system types too; null turns re-crawling off)
+  setRecrawlInterval: adminProcedure
+    .meta({ audit: { entity: "contentType" } })
+    .input(
+      z.object({
+        id: z.number(),
+        recrawlIntervalDays: z.number().int().min(1).max(365).nullable(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const result = await ctx.db
+        .update(contentTypes)
+        .set({
+          recrawlIntervalDays: input.recrawlIntervalDays,
+          updatedAt: new Date(),
+        })
+        .where(eq(contentTypes.id, input.id))
+        .returning();
+
+      if (!result[0]) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Content type not found",
+        });
+      }
+
+      return result[0];
+    }),
+
   // Delete content type (with usage check)
   delete: adminProcedure
+    .meta({ audit: { entity: "contentType" } })
     .input(z.object({ id: z.number() }))
     .mutation(async ({ ctx, input }) => {
       // Check if content type exists
@@ -222,6 +256,12 @@ export const contentTypesRouter = createTRPCRouter({
 
   // Reassign all items to another type, then delete
   reassignAndDelete: adminProcedure
+    .meta({
+      audit: [
+        { entity: "contentType", idKey: "id" },
+        { entity: "content", findIds: findContentIdsOfType },
+      ],
+    })
     .input(
       z.object({
         id: z.number(),
@@ -274,6 +314,7 @@ export const contentTypesRouter = createTRPCRouter({
 
   // Reorder content types
   reorder: adminProcedure
+    .meta({ audit: { entity: "contentType", idKey: "ids" } })
     .input(
       z.object({
         ids: z.array(z.number()),
@@ -0,0 +1,36 @@
+import { z } from "zod";
+import { adminProcedure, createTRPCRouter } from "~/server/api/trpc";
+import {
+  dismissDuplicatePair,
+  findDuplicateCandidates,
+} from "~/server/services/duplicate-detection";
+
+export const duplicatesRouter = createTRPCRouter({
+  /**
+   * Item pairs that look like the same page, strongest evidence first
+   */
+  candidates: adminProcedure
+    .input(z.object({ limit: z.number().min(1).max(500).default(100) }))
+    .query(async ({ input }) => {
+      return findDuplicateCandidates(input.limit);
+    }),
+
+  /**
+   * Mark a suggested pair as distinct items
+   */
+  dismiss: adminProcedure
+    .input(
+      z.object({
+        itemId: z.string().uuid(),
+        otherItemId: z.string().uuid(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await dismissDuplicatePair(
+        input.itemId,
+        input.otherItemId,
+        ctx.session.user.id,
+      );
+      return { success: true };
+    }),
+});
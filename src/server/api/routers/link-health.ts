@@ -0,0 +1,107 @@
+import { TRPCError } from "@trpc/server";
+import { eq } from "drizzle-orm";
+import { z } from "zod";
+import { adminProcedure, createTRPCRouter } from "~/server/api/trpc";
+import { contentItems } from "~/server/db/schema";
+import {
+  applySuggestedUrl,
+  checkItemLink,
+  countItemsDueForLinkCheck,
+  enqueueLinkCheck,
+  getLinkHistory,
+  getLinkReport,
+  getLinkStatusCounts,
+} from "~/server/services/link-check-service";
+
+export const linkHealthRouter = createTRPCRouter({
+  /**
+   * Item counts by link status, plus items due for a check
+   */
+  getStats: adminProcedure.query(async () => {
+    const [counts, due] = await Promise.all([
+      getLinkStatusCounts(),
+      countItemsDueForLinkCheck(),
+    ]);
+    return { ...counts, due };
+  }),
+
+  /**
+   * Broken or redirected content with its latest check
+   */
+  report: adminProcedure
+    .input(
+      z.object({
+        kind: z.enum(["broken", "redirect"]),
+        limit: z.number().min(1).max(100).default(50),
+        offset: z.number().min(0).default(0),
+      }),
+    )
+    .query(async ({ input }) => {
+      return getLinkReport(input.kind, input.limit, input.offset);
+    }),
+
+  /**
+   * Status history of one item's URL
+   */
+  history: adminProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .query(async ({ input }) => {
+      return getLinkHistory(input.id);
+    }),
+
+  /**
+   * Check all due items now instead of waiting for the schedule
+   */
+  runNow: adminProcedure.mutation(async () => {
+    const due = await countItemsDueForLinkCheck();
+    if (due > 0) {
+      await enqueueLinkCheck();
+    }
+
+    return {
+      success: true,
+      message:
+        due > 0
+          ? `Checking links of ${due} items`
+          : "No items are due for a link check",
+    };
+  }),
+
+  /**
+   * Check one item's URL immediately
+   */
+  recheck: adminProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const item = await ctx.db.query.contentItems.findFirst({
+        where: eq(contentItems.id, input.id),
+        columns: { currentUrl: true },
+      });
+      if (!item) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Content item not found",
+        });
+      }
+
+      return checkItemLink(input.id, item.currentUrl);
+    }),
+
+  /**
+   * Replace an item's URL with the destination of its permanent redirect
+   */
+  applySuggestion: adminProcedure
+    .meta({ audit: { entity: "content" } })
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ input }) => {
+      try {
+        return await applySuggestedUrl(input.id);
+      } catch (error) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message:
+            error instanceof Error ? error.message : "Failed to update URL",
+        });
+      }
+    }),
+});
@@ -1,11 +1,43 @@
-import { eq, notInArray, sql } from "drizzle-orm";
+import { TRPCError } from "@trpc/server";
+import { and, eq, notInArray, sql } from "drizzle-orm";
 import { z } from "zod";
 import { createTRPCRouter, adminProcedure, protectedProcedure } from "~/server/api/trpc";
 import { db } from "~/server/db";
 import { contentItems, contentText } from "~/server/db/schema";
 import { getQueue } from "~/server/queue/indexing-queue";
+import {
+  countChunksMissingEmbeddings,
+  enqueueEmbeddingBackfill,
+} from "~/server/services/embedding-backfill";
+import {
+  cancelEmbeddingMigration,
+  enqueueEmbeddingMigration,
+  estimateEmbeddingMigration,
+  getEmbeddingMigrationStatus,
+  startEmbeddingMigration,
+} from "~/server/services/embedding-migration";
 import { indexContent, indexFromExistingContent } from "~/server/services/indexing-orchestrator";
 
+const embeddingProviderSpecSchema = z.object({
+  provider: z.enum(["openai", "openai-compatible", "deterministic"]),
+  model: z.string().min(1).optional(),
+  dimensions: z.number().int().min(1).max(4000).optional(),
+  baseUrl: z.string().url().optional(),
+});
+
+// content_text rows of items that aren't in the trash. Raw SQL for the
+// subquery, since relational queries re-alias every column they are given.
+const ofLiveItem = sql`${contentText.contentItemId} IN (
+  SELECT id FROM tiger_den.content_items WHERE deleted_at IS NULL
+)`;
+
+function toBadRequest(error: unknown): TRPCError {
+  return new TRPCError({
+    code: "BAD_REQUEST",
+    message: error instanceof Error ? error.message : String(error),
+  });
+}
+
 export const queueRouter = createTRPCRouter({
   /**
    * Get queue statistics
@@ -23,13 +55,13 @@ export const queueRouter = createTRPCRouter({
 
     // Get count of pending items in database
     const pendingItems = await db.query.contentText.findMany({
-      where: eq(contentText.indexStatus, "pending"),
+      where: and(eq(contentText.indexStatus, "pending"), ofLiveItem),
     });
 
     // Get count of content items with no content_text row (never indexed)
     const notIndexedResult = await db.execute(sql`
       SELECT COUNT(*) as count FROM tiger_den.content_items ci
-      WHERE NOT EXISTS (
+      WHERE ci.deleted_at IS NULL AND NOT EXISTS (
         SELECT 1 FROM tiger_den.content_text ct WHERE ct.content_item_id = ci.id
       )
     `);
@@ -37,14 +69,17 @@ export const queueRouter = createTRPCRouter({
 
     // Get count of indexed items
     const indexedItems = await db.query.contentText.findMany({
-      where: eq(contentText.indexStatus, "indexed"),
+      where: and(eq(contentText.indexStatus, "indexed"), ofLiveItem),
     });
 
     // Get count of failed items in content_text
     const failedItems = await db.query.contentText.findMany({
-      where: eq(contentText.indexStatus, "failed"),
+      where: and(eq(contentText.indexStatus, "failed"), ofLiveItem),
     });
 
+    // Chunks stored without an embedding for the active model
+    const missingEmbeddings = await countChunksMissingEmbeddings();
+
     return {
       queued: created,
       processing: active,
@@ -54,6 +89,7 @@ export const queueRouter = createTRPCRouter({
       notIndexed,
       indexed: indexedItems.length,
       failedIndexing: failedItems.length,
+      missingEmbeddings,
     };
   }),
 
@@ -90,7 +126,7 @@ export const queueRouter = createTRPCRouter({
 
     // Find all content items with pending status
     const pendingItems = await db.query.contentText.findMany({
-      where: eq(contentText.indexStatus, "pending"),
+      where: and(eq(contentText.indexStatus, "pending"), ofLiveItem),
       with: {
         contentItem: true,
       },
@@ -169,6 +205,7 @@ export const queueRouter = createTRPCRouter({
    */
   reindexAll: adminProcedure.mutation(async () => {
     let succeeded = 0;
+    let unchanged = 0;
     let failed = 0;
     let queued = 0;
     const errors: string[] = [];
@@ -176,7 +213,7 @@ export const queueRouter = createTRPCRouter({
     // 1. Items with content_text that has content and status 'pending' (from API sync)
     //    These already have plainText populated — just chunk + embed.
     const pendingWithContent = await db.query.contentText.findMany({
-      where: eq(contentText.indexStatus, "pending"),
+      where: and(eq(contentText.indexStatus, "pending"), ofLiveItem),
     });
     const pendingReady = pendingWithContent.filter(
       (ct) => ct.plainText && ct.plainText.length > 0,
@@ -197,7 +234,7 @@ export const queueRouter = createTRPCRouter({
     //    If they have content already (from API), re-chunk/embed.
     //    Otherwise, fall back to URL fetching.
     const failedItems = await db.query.contentText.findMany({
-      where: eq(contentText.indexStatus, "failed"),
+      where: and(eq(contentText.indexStatus, "failed"), ofLiveItem),
       with: { contentItem: true },
     });
 
@@ -232,7 +269,7 @@ export const queueRouter = createTRPCRouter({
     // 3. Items with no content_text row at all — need to fetch via URL
     const notIndexedItems = await db.execute(sql`
       SELECT ci.id, ci.current_url FROM tiger_den.content_items ci
-      WHERE NOT EXISTS (
+      WHERE ci.deleted_at IS NULL AND NOT EXISTS (
         SELECT 1 FROM tiger_den.content_text ct WHERE ct.content_item_id = ci.id
       )
     `);
@@ -245,6 +282,7 @@ export const queueRouter = createTRPCRouter({
       console.log(`[reindexAll] ${fetchItems.length} items need URL fetching`);
       const fetchResult = await indexContent(fetchItems);
       succeeded += fetchResult.succeeded;
+      unchanged += fetchResult.unchanged;
       failed += fetchResult.failed;
       queued += fetchResult.queued;
       errors.push(
@@ -254,17 +292,98 @@ export const queueRouter = createTRPCRouter({
       );
     }
 
-    const total = succeeded + failed + queued;
-    console.log(`[reindexAll] Complete: ${succeeded} succeeded, ${failed} failed, ${queued} queued`);
+    const total = succeeded + unchanged + failed + queued;
+    console.log(`[reindexAll] Complete: ${succeeded} succeeded, ${unchanged} unchanged, ${failed} failed, ${queued} queued`);
 
     return {
       success: true,
-      message: `Indexed ${succeeded} items, ${failed} failed, ${queued} queued`,
+      message: `Indexed ${succeeded} items, ${unchanged} unchanged, ${failed} failed, ${queued} queued`,
       total,
       succeeded,
+      unchanged,
       failed,
       queued,
       errors: errors.length > 0 ? errors : undefined,
     };
   }),
+
+  /**
+   * Queue a backfill of chunks missing embeddings (also runs hourly)
+   */
+  backfillEmbeddings: adminProcedure.mutation(async () => {
+    const missing = await countChunksMissingEmbeddings();
+    if (missing > 0) {
+      await enqueueEmbeddingBackfill();
+    }
+
+    return {
+      success: true,
+      message:
+        missing > 0
+          ? `Backfilling embeddings for ${missing} chunks`
+          : "All chunks have embeddings",
+    };
+  }),
+
+  /**
+   * Active embedding model and the latest model migration (progress + cost)
+   */
+  getEmbeddingMigration: protectedProcedure.query(async () => {
+    return getEmbeddingMigrationStatus();
+  }),
+
+  /**
+   * Chunk/token counts and estimated cost of migrating to a target model
+   */
+  estimateEmbeddingMigration: adminProcedure
+    .input(embeddingProviderSpecSchema)
+    .query(async ({ input }) => {
+      try {
+        return await estimateEmbeddingMigration(input);
+      } catch (error) {
+        throw toBadRequest(error);
+      }
+    }),
+
+  /**
+   * Start re-embedding every chunk with a target model in the background.
+   * Search switches to the new vectors once every chunk is done.
+   */
+  startEmbeddingMigration: adminProcedure
+    .meta({ audit: { entity: "embeddingMigration" } })
+    .input(embeddingProviderSpecSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const migration = await startEmbeddingMigration(input, ctx.session.user.id);
+        return {
+          success: true,
+          id: migration.id,
+          message: `Migration to ${migration.targetModel} started (${migration.totalChunks} chunks)`,
+        };
+      } catch (error) {
+        throw toBadRequest(error);
+      }
+    }),
+
+  /**
+   * Re-queue a running migration, e.g. after its job ran out of retries
+   */
+  resumeEmbeddingMigration: adminProcedure
+    .meta({ audit: { entity: "embeddingMigration", recordUnchanged: true } })
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ input }) => {
+      await enqueueEmbeddingMigration(input.id);
+      return { success: true, message: "Migration resumed" };
+    }),
+
+  /**
+   * Cancel a running migration; search keeps using the current model
+   */
+  cancelEmbeddingMigration: adminProcedure
+    .meta({ audit: { entity: "embeddingMigration" } })
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ input }) => {
+      await cancelEmbeddingMigration(input.id);
+      return { success: true, message: "Migration cancelled" };
+    }),
 });
@@ -0,0 +1,48 @@
+import { z } from "zod";
+import { adminProcedure, createTRPCRouter } from "~/server/api/trpc";
+import {
+  countItemsDueForRecrawl,
+  enqueueRecrawl,
+  getRecentlyChangedItems,
+} from "~/server/services/recrawl-service";
+
+export const recrawlRouter = createTRPCRouter({
+  /**
+   * Pages whose live content changed on a recent re-crawl
+   */
+  recentlyChanged: adminProcedure
+    .input(
+      z.object({
+        limit: z.number().min(1).max(100).default(50),
+        offset: z.number().min(0).default(0),
+      }),
+    )
+    .query(async ({ input }) => {
+      return getRecentlyChangedItems(input.limit, input.offset);
+    }),
+
+  /**
+   * Number of items currently due for a re-crawl
+   */
+  getDueCount: adminProcedure.query(async () => {
+    return { count: await countItemsDueForRecrawl() };
+  }),
+
+  /**
+   * Re-crawl all due items now instead of waiting for the schedule
+   */
+  runNow: adminProcedure.mutation(async () => {
+    const due = await countItemsDueForRecrawl();
+    if (due > 0) {
+      await enqueueRecrawl();
+    }
+
+    return {
+      success: true,
+      message:
+        due > 0
+          ? `Re-crawling ${due} items`
+          : "No items are due for a re-crawl",
+    };
+  }),
+});
@@ -0,0 +1,39 @@
+import { z } from "zod";
+import {
+  adminProcedure,
+  createTRPCRouter,
+  protectedProcedure,
+} from "~/server/api/trpc";
+import {
+  buildRedirectMap,
+  getRedirectHosts,
+  resolveUrl,
+} from "~/server/services/redirect-map";
+
+export const redirectsRouter = createTRPCRouter({
+  /**
+   * Redirect map overview: rule counts per host plus the problems that keep
+   * rules out of the export
+   */
+  getSummary: adminProcedure.query(async () => {
+    const map = await buildRedirectMap();
+
+    return {
+      totalRules: map.rules.length,
+      collapsedChains: map.rules.filter((rule) => rule.hops > 1).length,
+      hosts: getRedirectHosts(map),
+      loops: map.loops,
+      conflicts: map.conflicts,
+      shadowed: map.shadowed,
+    };
+  }),
+
+  /**
+   * Resolve a current or old URL to the content item that lives there now
+   */
+  lookup: protectedProcedure
+    .input(z.object({ url: z.string().min(1) }))
+    .query(async ({ input }) => {
+      return resolveUrl(input.url.trim());
+    }),
+});
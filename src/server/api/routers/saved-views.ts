@@ -0,0 +1,89 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import { contentViewSchema } from "~/server/services/content-query";
+import {
+  createSavedView,
+  deleteSavedView,
+  listSavedViews,
+  updateSavedView,
+} from "~/server/services/saved-views";
+
+export const savedViewsRouter = createTRPCRouter({
+  /**
+   * My views plus views shared with the team
+   */
+  list: protectedProcedure.query(async ({ ctx }) => {
+    return listSavedViews(ctx.session.user.id);
+  }),
+
+  create: protectedProcedure
+    .input(
+      z.object({
+        name: z.string().trim().min(1).max(100),
+        state: contentViewSchema,
+        shared: z.boolean().default(false),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return await createSavedView(ctx.session.user.id, input);
+      } catch (error) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message:
+            error instanceof Error ? error.message : "Failed to save view",
+        });
+      }
+    }),
+
+  /**
+   * Rename, re-save the filters of, or share/unshare a view
+   */
+  update: protectedProcedure
+    .input(
+      z.object({
+        id: z.string().uuid(),
+        name: z.string().trim().min(1).max(100).optional(),
+        state: contentViewSchema.optional(),
+        shared: z.boolean().optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { id, ...changes } = input;
+      try {
+        return await updateSavedView(
+          id,
+          {
+            userId: ctx.session.user.id,
+            isAdmin: ctx.session.user.role === "admin",
+          },
+          changes,
+        );
+      } catch (error) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message:
+            error instanceof Error ? error.message : "Failed to update view",
+        });
+      }
+    }),
+
+  delete: protectedProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await deleteSavedView(input.id, {
+          userId: ctx.session.user.id,
+          isAdmin: ctx.session.user.role === "admin",
+        });
+        return { success: true };
+      } catch (error) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message:
+            error instanceof Error ? error.message : "Failed to delete view",
+        });
+      }
+    }),
+});
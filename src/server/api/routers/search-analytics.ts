@@ -0,0 +1,37 @@
+import { z } from "zod";
+import {
+  adminProcedure,
+  createTRPCRouter,
+  protectedProcedure,
+} from "~/server/api/trpc";
+import {
+  getSearchAnalytics,
+  recordSearchClick,
+} from "~/server/services/search-analytics";
+
+export const searchAnalyticsRouter = createTRPCRouter({
+  /**
+   * Top queries, zero-result queries and click-through by search mode
+   */
+  overview: adminProcedure
+    .input(z.object({ days: z.number().int().min(1).max(365).default(30) }))
+    .query(async ({ input }) => {
+      return getSearchAnalytics(input.days);
+    }),
+
+  /**
+   * A result of a logged search was opened
+   */
+  recordClick: protectedProcedure
+    .input(
+      z.object({
+        searchId: z.string().uuid(),
+        contentItemId: z.string().uuid(),
+        position: z.number().int().min(0),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await recordSearchClick({ ...input, userId: ctx.session.user.id });
+      return { success: true };
+    }),
+});
@@ -0,0 +1,105 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { adminProcedure, createTRPCRouter } from "~/server/api/trpc";
+import {
+  createEvalQuery,
+  deleteEvalQuery,
+  findEvalCandidates,
+  listEvalQueries,
+  removeEvalJudgment,
+  setEvalJudgment,
+  updateEvalQuery,
+} from "~/server/services/search-eval";
+
+export const searchEvalRouter = createTRPCRouter({
+  /**
+   * The golden set: queries with their judged content items
+   */
+  list: adminProcedure.query(async () => {
+    return listEvalQueries();
+  }),
+
+  create: adminProcedure
+    .input(
+      z.object({
+        query: z.string().trim().min(1).max(500),
+        notes: z.string().trim().max(2000).optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return await createEvalQuery(ctx.session.user.id, input);
+      } catch (error) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message:
+            error instanceof Error ? error.message : "Failed to add query",
+        });
+      }
+    }),
+
+  update: adminProcedure
+    .input(
+      z.object({
+        id: z.string().uuid(),
+        query: z.string().trim().min(1).max(500).optional(),
+        notes: z.string().trim().max(2000).optional(),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      const { id, ...changes } = input;
+      try {
+        return await updateEvalQuery(id, changes);
+      } catch (error) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message:
+            error instanceof Error ? error.message : "Failed to update query",
+        });
+      }
+    }),
+
+  delete: adminProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ input }) => {
+      await deleteEvalQuery(input.id);
+      return { success: true };
+    }),
+
+  /**
+   * Judge an item relevant to a query: 1 = somewhat, 2 = relevant, 3 = best
+   */
+  setJudgment: adminProcedure
+    .input(
+      z.object({
+        queryId: z.string().uuid(),
+        contentItemId: z.string().uuid(),
+        grade: z.number().int().min(1).max(3),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      await setEvalJudgment(input.queryId, input.contentItemId, input.grade);
+      return { success: true };
+    }),
+
+  removeJudgment: adminProcedure
+    .input(
+      z.object({
+        queryId: z.string().uuid(),
+        contentItemId: z.string().uuid(),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      await removeEvalJudgment(input.queryId, input.contentItemId);
+      return { success: true };
+    }),
+
+  /**
+   * Content to judge, found by title and metadata
+   */
+  findContent: adminProcedure
+    .input(z.object({ search: z.string().trim().min(1) }))
+    .query(async ({ input }) => {
+      return findEvalCandidates(input.search);
+    }),
+});
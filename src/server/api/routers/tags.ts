@@ -0,0 +1,170 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { adminProcedure, createTRPCRouter } from "~/server/api/trpc";
+import {
+  addSynonym,
+  addToVocabulary,
+  CONTROLLED_VOCABULARY_KEY,
+  findContentIdsWithTags,
+  findVocabularyTags,
+  getTagOverview,
+  mergeTags,
+  removeFromVocabulary,
+  removeSynonym,
+  setControlledVocabulary,
+} from "~/server/services/tag-taxonomy";
+
+export const tagsRouter = createTRPCRouter({
+  /**
+   * Tags with usage counts, vocabulary and synonyms, and near-duplicates
+   */
+  overview: adminProcedure.query(async () => {
+    return getTagOverview();
+  }),
+
+  /**
+   * Rename a tag on every item (renaming onto an existing tag merges them)
+   */
+  rename: adminProcedure
+    .meta({
+      audit: {
+        entity: "content",
+        findIds: (input: { from: string }) =>
+          findContentIdsWithTags([input.from]),
+      },
+    })
+    .input(
+      z.object({
+        from: z.string().min(1),
+        to: z.string().min(1),
+        keepAsSynonym: z.boolean().default(false),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      try {
+        const { updated } = await mergeTags({
+          sources: [input.from],
+          target: input.to,
+          keepAsSynonyms: input.keepAsSynonym,
+        });
+        return {
+          success: true,
+          updated,
+          message: `Renamed "${input.from}" to "${input.to}" on ${updated} ${updated === 1 ? "item" : "items"}`,
+        };
+      } catch (error) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: error instanceof Error ? error.message : "Rename failed",
+        });
+      }
+    }),
+
+  /**
+   * Fold several tags into one on every item
+   */
+  merge: adminProcedure
+    .meta({
+      audit: {
+        entity: "content",
+        findIds: (input: { sources: string[] }) =>
+          findContentIdsWithTags(input.sources),
+      },
+    })
+    .input(
+      z.object({
+        sources: z.array(z.string().min(1)).min(1),
+        target: z.string().min(1),
+        keepAsSynonyms: z.boolean().default(true),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      try {
+        const { updated } = await mergeTags(input);
+        return {
+          success: true,
+          updated,
+          message: `Merged into "${input.target}" on ${updated} ${updated === 1 ? "item" : "items"}`,
+        };
+      } catch (error) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: error instanceof Error ? error.message : "Merge failed",
+        });
+      }
+    }),
+
+  addToVocabulary: adminProcedure
+    .meta({
+      audit: {
+        entity: "tag",
+        findIds: (input: { names: string[] }) =>
+          findVocabularyTags(input.names),
+      },
+    })
+    .input(z.object({ names: z.array(z.string().min(1)).min(1) }))
+    .mutation(async ({ input }) => {
+      await addToVocabulary(input.names);
+      return { success: true };
+    }),
+
+  removeFromVocabulary: adminProcedure
+    .meta({ audit: { entity: "tag", idKey: "name" } })
+    .input(z.object({ name: z.string().min(1) }))
+    .mutation(async ({ input }) => {
+      await removeFromVocabulary(input.name);
+      return { success: true };
+    }),
+
+  addSynonym: adminProcedure
+    .meta({
+      audit: {
+        entity: "tag",
+        findIds: (input: { synonym: string; tag: string }) =>
+          findVocabularyTags([input.synonym, input.tag]),
+      },
+    })
+    .input(z.object({ synonym: z.string().min(1), tag: z.string().min(1) }))
+    .mutation(async ({ input }) => {
+      try {
+        await addSynonym(input.synonym, input.tag);
+        return { success: true };
+      } catch (error) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message:
+            error instanceof Error ? error.message : "Failed to add synonym",
+        });
+      }
+    }),
+
+  removeSynonym: adminProcedure
+    .meta({
+      audit: {
+        entity: "tag",
+        findIds: (input: { synonym: string }) =>
+          findVocabularyTags([input.synonym]),
+      },
+    })
+    .input(z.object({ synonym: z.string().min(1) }))
+    .mutation(async ({ input }) => {
+      await removeSynonym(input.synonym);
+      return { success: true };
+    }),
+
+  /**
+   * Controlled vocabulary mode: reject tags that map to no vocabulary tag
+   */
+  setControlledVocabulary: adminProcedure
+    .meta({
+      audit: {
+        entity: "setting",
+        findIds: async () => [CONTROLLED_VOCABULARY_KEY],
+      },
+    })
+    .input(z.object({ enabled: z.boolean() }))
+    .mutation(async ({ input }) => {
+      await setControlledVocabulary(input.enabled);
+      return { success: true };
+    }),
+});
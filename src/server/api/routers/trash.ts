@@ -0,0 +1,58 @@
+import { z } from "zod";
+import {
+  adminProcedure,
+  contributorProcedure,
+  createTRPCRouter,
+} from "~/server/api/trpc";
+import {
+  findPurgeIds,
+  listTrash,
+  purgeContent,
+  restoreContent,
+} from "~/server/services/content-trash";
+
+export const trashRouter = createTRPCRouter({
+  /**
+   * Trashed items, most recently deleted first
+   */
+  list: contributorProcedure
+    .input(
+      z.object({
+        limit: z.number().min(1).max(100).default(50),
+        offset: z.number().min(0).default(0),
+      }),
+    )
+    .query(async ({ input }) => {
+      return listTrash(input.limit, input.offset);
+    }),
+
+  /**
+   * Move items back into the inventory
+   */
+  restore: contributorProcedure
+    .meta({ audit: { entity: "content", idKey: "ids" } })
+    .input(z.object({ ids: z.array(z.string().uuid()).min(1) }))
+    .mutation(async ({ input }) => {
+      const restored = await restoreContent(input.ids);
+      return {
+        success: true,
+        restored,
+        message: `Restored ${restored} ${restored === 1 ? "item" : "items"}`,
+      };
+    }),
+
+  /**
+   * Permanently delete trashed items; omit ids to empty the trash
+   */
+  purge: adminProcedure
+    .meta({ audit: { entity: "content", findIds: findPurgeIds } })
+    .input(z.object({ ids: z.array(z.string().uuid()).min(1).optional() }))
+    .mutation(async ({ input }) => {
+      const purged = await purgeContent(input.ids);
+      return {
+        success: true,
+        purged,
+        message: `Permanently deleted ${purged} ${purged === 1 ? "item" : "items"}`,
+      };
+    }),
+});
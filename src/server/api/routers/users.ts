@@ -26,6 +26,7 @@ export const usersRouter = createTRPCRouter({
 
   // Update user role (admin only)
   updateRole: adminProcedure
+    .meta({ audit: { entity: "user", idKey: "userId" } })
     .input(
       z.object({
         userId: z.string(),
@@ -12,6 +12,13 @@ import superjson from "superjson";
 import { ZodError } from "zod";
 
 import { db } from "~/server/db";
+import {
+  type AuditSnapshot,
+  type AuditSpec,
+  loadSnapshots,
+  recordEntityChanges,
+  resolveAuditIds,
+} from "~/server/services/audit-log";
 
 /**
  * 1. CONTEXT
@@ -44,6 +51,16 @@ export const createTRPCContext = async (opts: {
   };
 };
 
+/**
+ * Procedure meta, set with `.meta()`
+ *
+ * `audit` declares the entities a mutation changes, so the audit log records a before/after diff
+ * for each (see auditMiddleware). Mutations without it aren't audited.
+ */
+interface ProcedureMeta {
+  audit?: AuditSpec | AuditSpec[];
+}
+
 /**
  * 2. INITIALIZATION
  *
@@ -51,19 +68,22 @@ export const createTRPCContext = async (opts: {
  * ZodErrors so that you get typesafety on the frontend if your procedure fails due to validation
  * errors on the backend.
  */
-const t = initTRPC.context<typeof createTRPCContext>().create({
-  transformer: superjson,
-  errorFormatter({ shape, error }) {
-    return {
-      ...shape,
-      data: {
-        ...shape.data,
-        zodError:
-          error.cause instanceof ZodError ? error.cause.flatten() : null,
-      },
-    };
-  },
-});
+const t = initTRPC
+  .context<typeof createTRPCContext>()
+  .meta<ProcedureMeta>()
+  .create({
+    transformer: superjson,
+    errorFormatter({ shape, error }) {
+      return {
+        ...shape,
+        data: {
+          ...shape.data,
+          zodError:
+            error.cause instanceof ZodError ? error.cause.flatten() : null,
+        },
+      };
+    },
+  });
 
 /**
  * Create a server-side caller.
@@ -119,14 +139,71 @@ const timingMiddleware = t.middleware(async ({ next, path }) => {
 export const publicProcedure = t.procedure.use(timingMiddleware);
 
 /**
- * Protected (authenticated) procedure
- *
- * If you want a query or mutation to ONLY be accessible to logged in users, use this. It verifies
- * the session is valid and guarantees `ctx.session.user` is not null.
- *
- * @see https://trpc.io/docs/procedures
+ * Middleware that records successful mutations declaring `meta.audit` in the audit log, one event
+ * per affected entity with the fields that changed. Audit failures are logged and never fail the
+ * mutation.
  */
-export const protectedProcedure = t.procedure
+const auditMiddleware = t.middleware(
+  async ({ ctx, meta, next, path, type, getRawInput }) => {
+    if (type !== "mutation" || !meta?.audit) {
+      return next();
+    }
+
+    const actor = { userId: ctx.session?.user?.id ?? null };
+    const specs = [meta.audit].flat();
+    const targets: Array<{
+      spec: AuditSpec;
+      ids: string[];
+      before: Map<string, AuditSnapshot>;
+    }> = [];
+    for (const spec of specs) {
+      try {
+        const ids = await resolveAuditIds(
+          spec,
+          await getRawInput(),
+          actor.userId,
+        );
+        targets.push({
+          spec,
+          ids,
+          before: await loadSnapshots(spec.entity, ids),
+        });
+      } catch (error) {
+        console.error(`[Audit] Failed to snapshot ${path}:`, error);
+      }
+    }
+
+    const result = await next();
+    if (!result.ok) {
+      return result;
+    }
+
+    try {
+      for (const { spec, ids, before } of targets) {
+        // Creates only learn their id from the result
+        const createdId =
+          ids.length === 0 ? (result.data as { id?: unknown })?.id : undefined;
+        await recordEntityChanges({
+          actor,
+          procedure: path,
+          entity: spec.entity,
+          ids: createdId !== undefined ? [String(createdId)] : ids,
+          before,
+          recordUnchanged: spec.recordUnchanged,
+        });
+      }
+    } catch (error) {
+      console.error(`[Audit] Failed to record ${path}:`, error);
+    }
+
+    return result;
+  },
+);
+
+/**
+ * Authenticated procedure, before role checks and auditing
+ */
+const authedProcedure = t.procedure
   .use(timingMiddleware)
   .use(({ ctx, next }) => {
     if (!ctx.session?.user?.id) {
@@ -147,32 +224,46 @@ export const protectedProcedure = t.procedure
     });
   });
 
+/**
+ * Protected (authenticated) procedure
+ *
+ * If you want a query or mutation to ONLY be accessible to logged in users, use this. It verifies
+ * the session is valid and guarantees `ctx.session.user` is not null.
+ *
+ * @see https://trpc.io/docs/procedures
+ */
+export const protectedProcedure = authedProcedure.use(auditMiddleware);
+
 /**
  * Contributor procedure - requires contributor or admin role
  *
  * Use this for operations that modify content (create, edit, delete content items, CSV import, etc.)
  */
-export const contributorProcedure = protectedProcedure.use(({ ctx, next }) => {
-  if (ctx.session.user.role === "reader") {
-    throw new TRPCError({
-      code: "FORBIDDEN",
-      message: "Contributor access required",
-    });
-  }
-  return next({ ctx });
-});
+export const contributorProcedure = authedProcedure
+  .use(({ ctx, next }) => {
+    if (ctx.session.user.role === "reader") {
+      throw new TRPCError({
+        code: "FORBIDDEN",
+        message: "Contributor access required",
+      });
+    }
+    return next({ ctx });
+  })
+  .use(auditMiddleware);
 
 /**
  * Admin procedure - requires admin role
  *
  * Use this for admin-only operations (manage content types, user roles, queue, etc.)
  */
-export const adminProcedure = protectedProcedure.use(({ ctx, next }) => {
-  if (ctx.session.user.role !== "admin") {
-    throw new TRPCError({
-      code: "FORBIDDEN",
-      message: "Admin access required",
-    });
-  }
-  return next({ ctx });
-});
+export const adminProcedure = authedProcedure
+  .use(({ ctx, next }) => {
+    if (ctx.session.user.role !== "admin") {
+      throw new TRPCError({
+        code: "FORBIDDEN",
+        message: "Admin access required",
+      });
+    }
+    return next({ ctx });
+  })
+  .use(auditMiddleware);
@@ -10,9 +10,65 @@ export const indexingConfig = {
   chunkMaxTokens: 800,
   chunkOverlapTokens: 50,
 
+  // Embeddings (see services/embeddings.ts for per-provider defaults)
+  embeddingProvider: env.EMBEDDING_PROVIDER,
+  embeddingModel: env.EMBEDDING_MODEL,
+  embeddingDimensions: env.EMBEDDING_DIMENSIONS
+    ? parseInt(env.EMBEDDING_DIMENSIONS, 10)
+    : undefined,
+  embeddingBaseUrl: env.EMBEDDING_BASE_URL,
+  embeddingApiKey: env.EMBEDDING_API_KEY,
+  embeddingBatchSize: 64, // inputs per embeddings request
+  embeddingConcurrency: 4, // requests in flight per indexing call
+  embeddingMaxRetries: 5, // on 429 rate limit responses
+  embeddingRetryBaseDelayMs: 1000,
+
+  // Embedding model migration
+  reembedBatchSize: 64,
+  reembedJobTimeBudgetMs: 4 * 60 * 1000, // re-enqueue before pg-boss expires the job
+  // USD per 1M input tokens, for cost estimates (unlisted models are treated as free)
+  embeddingCostPerMillionTokens: {
+    "openai:text-embedding-3-small": 0.02,
+    "openai:text-embedding-3-large": 0.13,
+    "openai:text-embedding-ada-002": 0.1,
+  } as Record<string, number>,
+
+  // Embedding backfill (chunks stored without a usable embedding)
+  embeddingBackfillCron: "30 * * * *", // hourly; also runs on demand
+
+  // Scheduled re-crawl (intervals are set per content type)
+  recrawlCron: "0 3 * * *", // daily check for items that are due
+  recrawlBatchSize: 25,
+  recrawlJobTimeBudgetMs: 4 * 60 * 1000,
+
+  // Link health checks (HEAD/GET of every item's current URL)
+  linkCheckCron: "0 4 * * *", // daily check for items that are due
+  linkCheckIntervalDays: 7,
+  linkCheckBatchSize: 50,
+  linkCheckJobTimeBudgetMs: 4 * 60 * 1000,
+  linkCheckTimeoutMs: 10000,
+  linkCheckDomainDelayMs: 1000, // between requests to the same host
+
+  // Trash: soft-deleted items can be restored until they are purged
+  trashRetentionDays: 30,
+  trashPurgeCron: "0 5 * * *", // daily purge of items past retention
+
   // Search
   rrfK: 60,
   candidatesPerSearch: 50,
+
+  // Document-level results
+  passagesPerResult: 3,
+  passageScoreDecay: 0.5,
+
+  // Ask the Den (answers from search results; see services/llm.ts)
+  llmProvider: env.LLM_PROVIDER,
+  llmModel: env.LLM_MODEL,
+  llmBaseUrl: env.LLM_BASE_URL,
+  llmApiKey: env.LLM_API_KEY,
+  askContextChunks: 8, // passages handed to the model, best first
+  askContextMaxTokens: 4000, // stop adding passages past this budget
+  askMaxAnswerTokens: 800,
 } as const;
 
 export type IndexingConfig = typeof indexingConfig;
@@ -22,7 +22,10 @@ const tigerDenSchema = pgSchema("tiger_den");
 const halfvec = customType<{ data: number[]; config?: { dimension?: number } }>(
   {
     dataType(config) {
-      return `halfvec(${(config as { dimension?: number } | undefined)?.dimension ?? 1536})`;
+      // No dimension = any length (chunks record their embedding dimensions)
+      const dimension = (config as { dimension?: number } | undefined)
+        ?.dimension;
+      return dimension ? `halfvec(${dimension})` : "halfvec";
     },
     toDriver(value: number[]): string {
       // Convert array to PostgreSQL array format: '[0.1,0.2,0.3]'
@@ -41,6 +44,13 @@ const halfvec = customType<{ data: number[]; config?: { dimension?: number } }>(
   },
 );
 
+// Full-text search vector, only written by generated columns
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
+
 // Enums in tiger_den schema
 export const userRoleEnum = tigerDenSchema.enum("user_role", [
   "admin",
@@ -64,6 +74,38 @@ export const indexStatusEnum = tigerDenSchema.enum("index_status", [
   "failed",
 ]);
 
+export const contentVersionSourceEnum = tigerDenSchema.enum(
+  "content_version_source",
+  [
+    "crawl",
+    "transcript",
+    "ghost_api",
+    "contentful_api",
+    "youtube_api",
+    "restore",
+  ],
+);
+
+export const linkStatusEnum = tigerDenSchema.enum("link_status", [
+  "ok",
+  "redirect",
+  "broken",
+  "timeout",
+  "error",
+]);
+
+export const embeddingMigrationStatusEnum = tigerDenSchema.enum(
+  "embedding_migration_status",
+  ["running", "completed", "cancelled"],
+);
+
+export const auditActionEnum = tigerDenSchema.enum("audit_action", [
+  "create",
+  "update",
+  "delete",
+  "run", // An action on an entity that changed none of its fields
+]);
+
 export const posts = tigerDenSchema.table(
   "post",
   {
@@ -184,12 +226,30 @@ export const contentItems = tigerDenSchema.table(
       .notNull()
       .$onUpdate(() => new Date()),
     lastModifiedAt: timestamp("last_modified_at", { withTimezone: true }),
+    // Set when a scheduled re-crawl finds the live page content changed
+    lastChangedAt: timestamp("last_changed_at", { withTimezone: true }),
+    // Latest link check of currentUrl (full history in link_checks)
+    linkStatus: linkStatusEnum("link_status"),
+    linkCheckedAt: timestamp("link_checked_at", { withTimezone: true }),
+    // Where currentUrl permanently redirects to, pending review
+    suggestedUrl: text("suggested_url"),
     ghostId: text("ghost_id"),
     contentfulId: text("contentful_id"),
     youtubeVideoId: text("youtube_video_id"),
     createdByUserId: text("created_by_user_id")
       .notNull()
       .references(() => users.id, { onDelete: "cascade" }),
+    // Soft delete: trashed items are hidden everywhere but the trash, and
+    // purged for good after the retention period
+    deletedAt: timestamp("deleted_at", { withTimezone: true }),
+    deletedByUserId: text("deleted_by_user_id").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    // Title (A), tags (B) and description (C) for keyword search, so title
+    // matches rank above body text (chunks are weight D)
+    searchVector: tsvector("search_vector").generatedAlwaysAs(
+      sql`setweight(to_tsvector('english', coalesce(title, '')), 'A') || setweight(to_tsvector('english', tiger_den.tags_to_text(tags)), 'B') || setweight(to_tsvector('english', coalesce(description, '')), 'C')`,
+    ),
   },
   (table) => ({
     currentUrlIdx: index("content_items_current_url_idx").on(table.currentUrl),
@@ -203,6 +263,10 @@ export const contentItems = tigerDenSchema.table(
       table.publishDate,
     ),
     createdAtIdx: index("content_items_created_at_idx").on(table.createdAt),
+    searchVectorIdx: index("content_items_search_vector_idx").using(
+      "gin",
+      table.searchVector,
+    ),
     ghostIdIdx: index("content_items_ghost_id_idx").on(table.ghostId),
     contentfulIdIdx: index("content_items_contentful_id_idx").on(
       table.contentfulId,
@@ -213,6 +277,15 @@ export const contentItems = tigerDenSchema.table(
     lastModifiedAtIdx: index("content_items_last_modified_at_idx").on(
       table.lastModifiedAt,
     ),
+    lastChangedAtIdx: index("content_items_last_changed_at_idx").on(
+      table.lastChangedAt,
+    ),
+    linkStatusIdx: index("content_items_link_status_idx").on(table.linkStatus),
+    linkCheckedAtIdx: index("content_items_link_checked_at_idx").on(
+      table.linkCheckedAt,
+    ),
+    deletedAtIdx: index("content_items_deleted_at_idx").on(table.deletedAt),
+    tagsIdx: index("content_items_tags_idx").using("gin", table.tags),
   }),
 );
 
@@ -248,6 +321,156 @@ export const contentText = tigerDenSchema.table(
   }),
 );
 
+// Every distinct text an item has had (content_text only holds the latest).
+// A version is added whenever the text differs from the previous version.
+export const contentTextVersions = tigerDenSchema.table(
+  "content_text_versions",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    contentItemId: uuid("content_item_id")
+      .notNull()
+      .references(() => contentItems.id, { onDelete: "cascade" }),
+    contentHash: text("content_hash").notNull(),
+    fullText: text("full_text").notNull(),
+    plainText: text("plain_text").notNull(),
+    wordCount: integer("word_count").notNull(),
+    tokenCount: integer("token_count").notNull(),
+    source: contentVersionSourceEnum("source").notNull(),
+    createdByUserId: text("created_by_user_id").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => ({
+    itemIdx: index("content_text_versions_item_idx").on(
+      table.contentItemId,
+      table.createdAt,
+    ),
+  }),
+);
+
+// Status history of each item's URL, one row per link check
+export const linkChecks = tigerDenSchema.table(
+  "link_checks",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    contentItemId: uuid("content_item_id")
+      .notNull()
+      .references(() => contentItems.id, { onDelete: "cascade" }),
+    url: text("url").notNull(),
+    status: linkStatusEnum("status").notNull(),
+    statusCode: integer("status_code"), // final response
+    redirectStatusCode: integer("redirect_status_code"), // first hop (301, 302, ...)
+    redirectUrl: text("redirect_url"), // final URL after redirects
+    error: text("error"),
+    responseTimeMs: integer("response_time_ms"),
+    checkedAt: timestamp("checked_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => ({
+    itemIdx: index("link_checks_item_idx").on(
+      table.contentItemId,
+      table.checkedAt,
+    ),
+  }),
+);
+
+// Duplicate items merged into a surviving item; the merged item is deleted,
+// so its row is kept as a snapshot
+export const contentMerges = tigerDenSchema.table(
+  "content_merges",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    survivorId: uuid("survivor_id")
+      .notNull()
+      .references(() => contentItems.id, { onDelete: "cascade" }),
+    mergedItemId: uuid("merged_item_id").notNull(),
+    mergedTitle: text("merged_title").notNull(),
+    mergedUrl: text("merged_url").notNull(),
+    mergedSnapshot: jsonb("merged_snapshot").notNull(),
+    // The survivor had no indexed text and took over the merged item's
+    textMoved: boolean("text_moved").notNull().default(false),
+    mergedByUserId: text("merged_by_user_id").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => ({
+    survivorIdx: index("content_merges_survivor_idx").on(
+      table.survivorId,
+      table.createdAt,
+    ),
+  }),
+);
+
+// Suggested duplicate pairs a reviewer marked as distinct (itemAId < itemBId)
+export const duplicateDismissals = tigerDenSchema.table(
+  "duplicate_dismissals",
+  {
+    itemAId: uuid("item_a_id")
+      .notNull()
+      .references(() => contentItems.id, { onDelete: "cascade" }),
+    itemBId: uuid("item_b_id")
+      .notNull()
+      .references(() => contentItems.id, { onDelete: "cascade" }),
+    dismissedByUserId: text("dismissed_by_user_id").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.itemAId, table.itemBId] }),
+  }),
+);
+
+// Field-level change, as JSON values before and after
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+// Who changed what: one row per audited entity touched by a mutation (or by
+// a system job such as an API sync or CSV import)
+export const auditEvents = tigerDenSchema.table(
+  "audit_events",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    occurredAt: timestamp("occurred_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    actorUserId: text("actor_user_id").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    // Set for system actors (e.g. "ghost_api", "csv_import"); actorUserId is
+    // then the user the job ran for, if any
+    systemActor: text("system_actor"),
+    // tRPC procedure path or system operation, e.g. "content.update"
+    procedure: text("procedure").notNull(),
+    action: auditActionEnum("action").notNull(),
+    entityType: text("entity_type"),
+    entityId: text("entity_id"),
+    // Title or name at the time, so deleted entities stay readable
+    entityLabel: text("entity_label"),
+    changes: jsonb("changes").$type<AuditChanges>(),
+  },
+  (table) => ({
+    occurredAtIdx: index("audit_events_occurred_at_idx").on(table.occurredAt),
+    entityIdx: index("audit_events_entity_idx").on(
+      table.entityType,
+      table.entityId,
+      table.occurredAt,
+    ),
+    actorIdx: index("audit_events_actor_idx").on(
+      table.actorUserId,
+      table.occurredAt,
+    ),
+  }),
+);
+
 // Content chunks with embeddings for hybrid search
 export const contentChunks = tigerDenSchema.table(
   "content_chunks",
@@ -261,9 +484,23 @@ export const contentChunks = tigerDenSchema.table(
     chunkText: text("chunk_text").notNull(),
     chunkIndex: integer("chunk_index").notNull(),
     chunkTokenCount: integer("chunk_token_count").notNull(),
+    // Body text for keyword search, at the lowest weight (D)
+    searchVector: tsvector("search_vector").generatedAlwaysAs(
+      sql`setweight(to_tsvector('english', chunk_text), 'D')`,
+    ),
 
     // Vector embedding (halfvec for 50% storage savings)
-    embedding: halfvec("embedding", { dimension: 1536 }),
+    embedding: halfvec("embedding"),
+    // Provider-qualified model and dimension that produced the embedding;
+    // semantic search only compares vectors from the active model
+    embeddingModel: text("embedding_model"),
+    embeddingDimensions: integer("embedding_dimensions"),
+
+    // Shadow embedding written by an in-progress model migration, swapped
+    // into `embedding` when the migration completes
+    shadowEmbedding: halfvec("shadow_embedding"),
+    shadowEmbeddingModel: text("shadow_embedding_model"),
+    shadowEmbeddingDimensions: integer("shadow_embedding_dimensions"),
 
     // Metadata
     createdAt: timestamp("created_at").notNull().defaultNow(),
@@ -274,6 +511,10 @@ export const contentChunks = tigerDenSchema.table(
       table.chunkIndex,
     ),
     textIdIdx: index("content_chunks_text_id_idx").on(table.contentTextId),
+    searchVectorIdx: index("content_chunks_search_vector_idx").using(
+      "gin",
+      table.searchVector,
+    ),
   }),
 );
 
@@ -322,6 +563,8 @@ export const contentTypes = tigerDenSchema.table(
     color: varchar("color", { length: 20 }).notNull(),
     displayOrder: integer("display_order").notNull().default(0),
     isSystem: boolean("is_system").notNull().default(false),
+    // Re-crawl web-scraped items of this type every N days (null = never)
+    recrawlIntervalDays: integer("recrawl_interval_days"),
     createdAt: timestamp("created_at", { withTimezone: true })
       .notNull()
       .defaultNow(),
@@ -353,6 +596,159 @@ export const contentCampaigns = tigerDenSchema.table(
   }),
 );
 
+// Saved views - named content list filters and sort (see content-query.ts
+// contentViewSchema), private unless shared with the team
+export const savedViews = tigerDenSchema.table(
+  "saved_views",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    name: text("name").notNull(),
+    ownerUserId: text("owner_user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    shared: boolean("shared").notNull().default(false),
+    state: jsonb("state").notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => ({
+    ownerNameUnique: unique("saved_views_owner_name_unique").on(
+      table.ownerUserId,
+      table.name,
+    ),
+  }),
+);
+
+// Search analytics (TimescaleDB hypertables, see drizzle/0025): one row per
+// content search, and per click from its results to an item
+export const searchQueries = tigerDenSchema.table(
+  "search_queries",
+  {
+    id: uuid("id").defaultRandom().notNull(),
+    searchedAt: timestamp("searched_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    userId: text("user_id").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    query: text("query").notNull(),
+    mode: text("mode")
+      .$type<"metadata" | "keyword" | "fullContent">()
+      .notNull(),
+    filters: jsonb("filters"),
+    resultCount: integer("result_count").notNull(),
+    latencyMs: integer("latency_ms").notNull(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.id, table.searchedAt] }),
+    queryIdx: index("search_queries_query_idx").on(
+      sql`lower(btrim(${table.query}))`,
+      table.searchedAt.desc(),
+    ),
+  }),
+);
+
+export const searchClicks = tigerDenSchema.table(
+  "search_clicks",
+  {
+    id: uuid("id").defaultRandom().notNull(),
+    clickedAt: timestamp("clicked_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    // searchQueries.id (no foreign key: hypertables can't be referenced)
+    searchId: uuid("search_id").notNull(),
+    // No foreign key: clicks are kept after their item is purged or merged
+    contentItemId: uuid("content_item_id").notNull(),
+    // Zero-based rank of the item in the results
+    position: integer("position").notNull(),
+    userId: text("user_id").references(() => users.id, {
+      onDelete: "set null",
+    }),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.id, table.clickedAt] }),
+    searchIdIdx: index("search_clicks_search_id_idx").on(
+      table.searchId,
+      table.clickedAt.desc(),
+    ),
+  }),
+);
+
+// Search relevance golden set (see services/search-eval.ts): queries with the
+// content items a good search should return, graded by how relevant they are
+export const searchEvalQueries = tigerDenSchema.table("search_eval_queries", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  query: text("query").notNull().unique(),
+  notes: text("notes"),
+  createdByUserId: text("created_by_user_id").references(() => users.id, {
+    onDelete: "set null",
+  }),
+  createdAt: timestamp("created_at", { withTimezone: true })
+    .notNull()
+    .defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true })
+    .notNull()
+    .defaultNow(),
+});
+
+export const searchEvalJudgments = tigerDenSchema.table(
+  "search_eval_judgments",
+  {
+    queryId: uuid("query_id")
+      .notNull()
+      .references(() => searchEvalQueries.id, { onDelete: "cascade" }),
+    contentItemId: uuid("content_item_id")
+      .notNull()
+      .references(() => contentItems.id, { onDelete: "cascade" }),
+    // 1 = somewhat relevant, 2 = relevant, 3 = the best answer
+    grade: integer("grade").notNull(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.queryId, table.contentItemId] }),
+  }),
+);
+
+// Tag vocabulary - canonical tag spellings (see services/tag-taxonomy.ts)
+export const tagVocabulary = tigerDenSchema.table("tag_vocabulary", {
+  name: text("name").primaryKey(),
+  createdAt: timestamp("created_at", { withTimezone: true })
+    .notNull()
+    .defaultNow(),
+});
+
+// Tag synonyms - variant spellings mapped onto a canonical tag
+export const tagSynonyms = tigerDenSchema.table(
+  "tag_synonyms",
+  {
+    synonym: text("synonym").primaryKey(),
+    tag: text("tag")
+      .notNull()
+      .references(() => tagVocabulary.name, {
+        onUpdate: "cascade",
+        onDelete: "cascade",
+      }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => ({
+    tagIdx: index("tag_synonyms_tag_idx").on(table.tag),
+  }),
+);
+
+// App settings - admin-editable settings, one JSON value per key
+export const appSettings = tigerDenSchema.table("app_settings", {
+  key: text("key").primaryKey(),
+  value: jsonb("value").notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true })
+    .notNull()
+    .defaultNow(),
+});
+
 // API Import Schedules - per-source cron settings
 export const apiImportSchedules = tigerDenSchema.table("api_import_schedules", {
   sourceType: text("source_type").primaryKey(),
@@ -366,6 +762,69 @@ export const apiImportSchedules = tigerDenSchema.table("api_import_schedules", {
     .defaultNow(),
 });
 
+// Embedding cache - vectors keyed by model + chunk text hash, reused on reindex
+export const embeddingCache = tigerDenSchema.table(
+  "embedding_cache",
+  {
+    chunkHash: text("chunk_hash").notNull(),
+    embeddingModel: text("embedding_model").notNull(),
+    // OpenAI models return different sizes depending on EMBEDDING_DIMENSIONS
+    embeddingDimensions: integer("embedding_dimensions").notNull(),
+    embedding: halfvec("embedding").notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => ({
+    pk: primaryKey({
+      columns: [
+        table.embeddingModel,
+        table.embeddingDimensions,
+        table.chunkHash,
+      ],
+    }),
+  }),
+);
+
+// Embedding migrations - re-embed every chunk with a new model, then flip search over.
+// The latest completed migration defines the active embedding model.
+export const embeddingMigrations = tigerDenSchema.table(
+  "embedding_migrations",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    status: embeddingMigrationStatusEnum("status").notNull().default("running"),
+
+    // Target provider spec (see services/embeddings.ts)
+    targetProvider: text("target_provider").notNull(),
+    targetModelName: text("target_model_name").notNull(),
+    targetDimensions: integer("target_dimensions").notNull(),
+    targetBaseUrl: text("target_base_url"),
+    // Provider-qualified model id recorded on chunks, e.g. "openai:text-embedding-3-large"
+    targetModel: text("target_model").notNull(),
+    sourceModel: text("source_model").notNull(),
+
+    // Progress (resumable: chunks are walked in id order after `cursor`,
+    // then swept again for new and failed chunks until none are left)
+    cursor: uuid("cursor"),
+    sweeping: boolean("sweeping").notNull().default(false),
+    totalChunks: integer("total_chunks").notNull().default(0),
+    processedChunks: integer("processed_chunks").notNull().default(0),
+    failedChunks: integer("failed_chunks").notNull().default(0),
+    totalTokens: integer("total_tokens").notNull().default(0),
+    processedTokens: integer("processed_tokens").notNull().default(0),
+    lastError: text("last_error"),
+
+    startedByUserId: text("started_by_user_id").references(() => users.id),
+    startedAt: timestamp("started_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    completedAt: timestamp("completed_at", { withTimezone: true }),
+  },
+  (table) => ({
+    statusIdx: index("embedding_migrations_status_idx").on(table.status),
+  }),
+);
+
 // Relations
 export const contentItemsRelations = relations(
   contentItems,
@@ -379,6 +838,8 @@ export const contentItemsRelations = relations(
       references: [contentTypes.id],
     }),
     campaigns: many(contentCampaigns),
+    linkChecks: many(linkChecks),
+    merges: many(contentMerges),
   }),
 );
 
@@ -468,6 +929,84 @@ export const contentTextRelations = relations(contentText, ({ one, many }) => ({
   chunks: many(contentChunks),
 }));
 
+export const contentTextVersionsRelations = relations(
+  contentTextVersions,
+  ({ one }) => ({
+    contentItem: one(contentItems, {
+      fields: [contentTextVersions.contentItemId],
+      references: [contentItems.id],
+    }),
+    createdByUser: one(users, {
+      fields: [contentTextVersions.createdByUserId],
+      references: [users.id],
+    }),
+  }),
+);
+
+export const linkChecksRelations = relations(linkChecks, ({ one }) => ({
+  contentItem: one(contentItems, {
+    fields: [linkChecks.contentItemId],
+    references: [contentItems.id],
+  }),
+}));
+
+export const contentMergesRelations = relations(contentMerges, ({ one }) => ({
+  survivor: one(contentItems, {
+    fields: [contentMerges.survivorId],
+    references: [contentItems.id],
+  }),
+  mergedByUser: one(users, {
+    fields: [contentMerges.mergedByUserId],
+    references: [users.id],
+  }),
+}));
+
+export const auditEventsRelations = relations(auditEvents, ({ one }) => ({
+  actor: one(users, {
+    fields: [auditEvents.actorUserId],
+    references: [users.id],
+  }),
+}));
+
+export const savedViewsRelations = relations(savedViews, ({ one }) => ({
+  owner: one(users, {
+    fields: [savedViews.ownerUserId],
+    references: [users.id],
+  }),
+}));
+
+export const searchEvalQueriesRelations = relations(
+  searchEvalQueries,
+  ({ many }) => ({
+    judgments: many(searchEvalJudgments),
+  }),
+);
+
+export const searchEvalJudgmentsRelations = relations(
+  searchEvalJudgments,
+  ({ one }) => ({
+    query: one(searchEvalQueries, {
+      fields: [searchEvalJudgments.queryId],
+      references: [searchEvalQueries.id],
+    }),
+    contentItem: one(contentItems, {
+      fields: [searchEvalJudgments.contentItemId],
+      references: [contentItems.id],
+    }),
+  }),
+);
+
+export const tagVocabularyRelations = relations(tagVocabulary, ({ many }) => ({
+  synonyms: many(tagSynonyms),
+}));
+
+export const tagSynonymsRelations = relations(tagSynonyms, ({ one }) => ({
+  canonical: one(tagVocabulary, {
+    fields: [tagSynonyms.tag],
+    references: [tagVocabulary.name],
+  }),
+}));
+
 export const contentChunksRelations = relations(contentChunks, ({ one }) => ({
   contentText: one(contentText, {
     fields: [contentChunks.contentTextId],
@@ -54,3 +54,32 @@ export interface IndexJobPayload {
   url: string;
   attempt?: number;
 }
+
+/**
+ * Job payload for reembed-chunks jobs (one embedding model migration)
+ */
+export interface EmbeddingMigrationJobPayload {
+  migrationId: string;
+}
+
+/**
+ * Job payload for backfill-embeddings jobs (resume after `cursor` chunk id)
+ */
+export interface EmbeddingBackfillJobPayload {
+  cursor?: string;
+}
+
+/**
+ * Job payload for recrawl-content jobs (due items are looked up when the job runs)
+ */
+export type RecrawlJobPayload = Record<string, never>;
+
+/**
+ * Job payload for check-links jobs (due items are looked up when the job runs)
+ */
+export type LinkCheckJobPayload = Record<string, never>;
+
+/**
+ * Job payload for purge-trash jobs (expired items are looked up when the job runs)
+ */
+export type TrashPurgeJobPayload = Record<string, never>;
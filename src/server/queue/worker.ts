@@ -1,6 +1,42 @@
 import type PgBoss from "pg-boss";
-import type { IndexJobPayload } from "~/server/queue/indexing-queue";
+import { indexingConfig } from "~/server/config/indexing-config";
+import type {
+  EmbeddingBackfillJobPayload,
+  EmbeddingMigrationJobPayload,
+  IndexJobPayload,
+  LinkCheckJobPayload,
+  RecrawlJobPayload,
+  TrashPurgeJobPayload,
+} from "~/server/queue/indexing-queue";
+import {
+  purgeExpiredTrash,
+  TRASH_PURGE_QUEUE,
+  TRASH_PURGE_SINGLETON_KEY,
+} from "~/server/services/content-trash";
+import {
+  EMBEDDING_BACKFILL_QUEUE,
+  EMBEDDING_BACKFILL_SINGLETON_KEY,
+  enqueueEmbeddingBackfill,
+  processEmbeddingBackfill,
+} from "~/server/services/embedding-backfill";
+import {
+  EMBEDDING_MIGRATION_QUEUE,
+  enqueueEmbeddingMigration,
+  processEmbeddingMigration,
+} from "~/server/services/embedding-migration";
 import { indexSingleItem } from "~/server/services/indexing-orchestrator";
+import {
+  enqueueLinkCheck,
+  LINK_CHECK_QUEUE,
+  LINK_CHECK_SINGLETON_KEY,
+  processLinkChecks,
+} from "~/server/services/link-check-service";
+import {
+  enqueueRecrawl,
+  processRecrawl,
+  RECRAWL_QUEUE,
+  RECRAWL_SINGLETON_KEY,
+} from "~/server/services/recrawl-service";
 
 /**
  * Register the index-content worker on a pg-boss instance.
@@ -41,4 +77,127 @@ export async function registerWorker(queue: PgBoss) {
   );
 
   console.log("[Worker] Registered with batch size of 5");
+
+  // Embedding model migrations: each job processes a slice and then queues
+  // the next. "stately" allows one queued + one active job per migration.
+  await queue.createQueue(EMBEDDING_MIGRATION_QUEUE, {
+    name: EMBEDDING_MIGRATION_QUEUE,
+    policy: "stately",
+  });
+  await queue.work<EmbeddingMigrationJobPayload>(
+    EMBEDDING_MIGRATION_QUEUE,
+    { batchSize: 1 },
+    async ([job]) => {
+      if (!job) return;
+      const { migrationId } = job.data;
+
+      const done = await processEmbeddingMigration(migrationId);
+      if (!done) {
+        await enqueueEmbeddingMigration(migrationId);
+      }
+    },
+  );
+
+  console.log("[Worker] Registered embedding migration worker");
+
+  // Embedding backfill: fills in chunks stored without an embedding. Like
+  // migrations, a job hands its cursor to the next one when time runs out.
+  await queue.createQueue(EMBEDDING_BACKFILL_QUEUE, {
+    name: EMBEDDING_BACKFILL_QUEUE,
+    policy: "stately",
+  });
+  await queue.schedule(
+    EMBEDDING_BACKFILL_QUEUE,
+    indexingConfig.embeddingBackfillCron,
+    {},
+    { singletonKey: EMBEDDING_BACKFILL_SINGLETON_KEY },
+  );
+  await queue.work<EmbeddingBackfillJobPayload>(
+    EMBEDDING_BACKFILL_QUEUE,
+    { batchSize: 1 },
+    async ([job]) => {
+      if (!job) return;
+
+      const result = await processEmbeddingBackfill(job.data.cursor);
+      if (!result.done) {
+        await enqueueEmbeddingBackfill(result.cursor);
+      }
+    },
+  );
+
+  console.log("[Worker] Registered embedding backfill worker");
+
+  // Scheduled re-crawl of web-scraped content (intervals per content type)
+  await queue.createQueue(RECRAWL_QUEUE, {
+    name: RECRAWL_QUEUE,
+    policy: "stately",
+  });
+  await queue.schedule(
+    RECRAWL_QUEUE,
+    indexingConfig.recrawlCron,
+    {},
+    { singletonKey: RECRAWL_SINGLETON_KEY },
+  );
+  await queue.work<RecrawlJobPayload>(
+    RECRAWL_QUEUE,
+    { batchSize: 1 },
+    async ([job]) => {
+      if (!job) return;
+
+      const result = await processRecrawl();
+      if (!result.done) {
+        await enqueueRecrawl();
+      }
+    },
+  );
+
+  console.log("[Worker] Registered re-crawl worker");
+
+  // Link health checks: same pattern as re-crawl
+  await queue.createQueue(LINK_CHECK_QUEUE, {
+    name: LINK_CHECK_QUEUE,
+    policy: "stately",
+  });
+  await queue.schedule(
+    LINK_CHECK_QUEUE,
+    indexingConfig.linkCheckCron,
+    {},
+    { singletonKey: LINK_CHECK_SINGLETON_KEY },
+  );
+  await queue.work<LinkCheckJobPayload>(
+    LINK_CHECK_QUEUE,
+    { batchSize: 1 },
+    async ([job]) => {
+      if (!job) return;
+
+      const result = await processLinkChecks();
+      if (!result.done) {
+        await enqueueLinkCheck();
+      }
+    },
+  );
+
+  console.log("[Worker] Registered link check worker");
+
+  // Trash: permanently delete items past the retention period
+  await queue.createQueue(TRASH_PURGE_QUEUE, {
+    name: TRASH_PURGE_QUEUE,
+    policy: "stately",
+  });
+  await queue.schedule(
+    TRASH_PURGE_QUEUE,
+    indexingConfig.trashPurgeCron,
+    {},
+    { singletonKey: TRASH_PURGE_SINGLETON_KEY },
+  );
+  await queue.work<TrashPurgeJobPayload>(
+    TRASH_PURGE_QUEUE,
+    { batchSize: 1 },
+    async ([job]) => {
+      if (!job) return;
+      await purgeExpiredTrash();
+    },
+  );
+
+  console.log("[Worker] Registered trash purge worker");
 }
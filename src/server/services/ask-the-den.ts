@@ -0,0 +1,166 @@
+/**
+ * Ask the Den
+ * Answers questions from the content library: hybrid search picks the best
+ * passages, and a language model answers from them alone, citing each claim
+ * with the number of the passage it came from. Events stream back as they
+ * happen: the sources first, then the answer text as the model writes it.
+ */
+
+import { inArray } from "drizzle-orm";
+import { parseSearchQuery, plainSearchText } from "~/lib/search-query";
+import { indexingConfig } from "~/server/config/indexing-config";
+import { db } from "~/server/db";
+import { contentItems } from "~/server/db/schema";
+import { countTokens } from "./content-fetcher";
+import type { SearchFilters } from "./content-query";
+import { generateEmbedding, getActiveEmbeddingProvider } from "./embeddings";
+import { type ChatMessage, getLLMProvider } from "./llm";
+import { hybridSearch } from "./search-service";
+
+/**
+ * A passage the answer can cite as [number]
+ */
+export interface AnswerSource {
+  number: number;
+  contentItemId: string;
+  chunkId: string;
+  title: string;
+  url: string;
+  contentType: { name: string; color: string };
+  publishDate: string | null;
+  passage: string;
+}
+
+export type AnswerEvent =
+  | { type: "sources"; sources: AnswerSource[] }
+  | { type: "text"; text: string }
+  | { type: "done"; model: string };
+
+const SYSTEM_PROMPT = `You answer questions from Tiger Data's sales, marketing and developer relations teams about the company's published content.
+
+Answer only from the numbered sources provided. After every claim, cite the source it came from with its number in square brackets, like [2]; cite several as [1][3]. Quote figures exactly as the sources give them. If the sources don't answer the question, say so plainly and mention what they do cover. Keep the answer short and point to the most relevant pieces of content.`;
+
+/**
+ * The best passages for the question, within the context token budget
+ */
+async function retrieveSources(
+  question: string,
+  filters?: SearchFilters,
+): Promise<{ sources: AnswerSource[]; texts: string[] }> {
+  const provider = await getActiveEmbeddingProvider();
+  const embedding = {
+    model: provider.model,
+    vector: await generateEmbedding(
+      plainSearchText(parseSearchQuery(question)) || question,
+      provider,
+    ),
+  };
+
+  const chunks = await hybridSearch(
+    question,
+    embedding,
+    indexingConfig.askContextChunks,
+    filters,
+  );
+  if (chunks.length === 0) {
+    return { sources: [], texts: [] };
+  }
+
+  const items = await db.query.contentItems.findMany({
+    where: inArray(
+      contentItems.id,
+      chunks.map((chunk) => chunk.contentItemId),
+    ),
+    columns: { id: true, title: true, currentUrl: true, publishDate: true },
+    with: { contentTypeRel: { columns: { name: true, color: true } } },
+  });
+  const itemMap = new Map(items.map((item) => [item.id, item]));
+
+  const sources: AnswerSource[] = [];
+  const texts: string[] = [];
+  let tokens = 0;
+  for (const chunk of chunks) {
+    const item = itemMap.get(chunk.contentItemId);
+    if (!item) continue;
+
+    const chunkTokens = await countTokens(chunk.chunkText);
+    if (
+      sources.length > 0 &&
+      tokens + chunkTokens > indexingConfig.askContextMaxTokens
+    ) {
+      break;
+    }
+    tokens += chunkTokens;
+
+    sources.push({
+      number: sources.length + 1,
+      contentItemId: item.id,
+      chunkId: chunk.chunkId,
+      title: item.title,
+      url: item.currentUrl,
+      contentType: item.contentTypeRel,
+      publishDate: item.publishDate,
+      passage: chunk.snippet,
+    });
+    texts.push(chunk.chunkText);
+  }
+
+  return { sources, texts };
+}
+
+function buildPrompt(
+  question: string,
+  sources: AnswerSource[],
+  texts: string[],
+): ChatMessage[] {
+  const context = sources
+    .map((source, i) => {
+      const published = source.publishDate
+        ? `, published ${source.publishDate}`
+        : "";
+      return `[${source.number}] ${source.title} (${source.contentType.name}${published})\n${texts[i]}`;
+    })
+    .join("\n\n");
+
+  return [
+    { role: "system", content: SYSTEM_PROMPT },
+    {
+      role: "user",
+      content: `Sources:\n\n${context}\n\nQuestion: ${question}`,
+    },
+  ];
+}
+
+/**
+ * Answer a question from the library, streaming the sources and then the
+ * answer text. Search and model errors are thrown to the caller.
+ */
+export async function* answerQuestion(
+  question: string,
+  filters?: SearchFilters,
+  signal?: AbortSignal,
+): AsyncGenerator<AnswerEvent> {
+  // Fail on a missing API key before spending an embedding on the search
+  const provider = getLLMProvider();
+  const { sources, texts } = await retrieveSources(question, filters);
+
+  yield { type: "sources", sources };
+
+  if (sources.length === 0) {
+    yield {
+      type: "text",
+      text: "Nothing in the library matches this question. Try different words, or check that the content you expect has been indexed.",
+    };
+    yield { type: "done", model: provider.model };
+    return;
+  }
+
+  for await (const text of provider.streamChat(
+    buildPrompt(question, sources, texts),
+    { maxTokens: indexingConfig.askMaxAnswerTokens, signal },
+  )) {
+    yield { type: "text", text };
+  }
+
+  yield { type: "done", model: provider.model };
+}
@@ -0,0 +1,362 @@
+/**
+ * Audit Log
+ * Records who changed what. Mutations are audited by the tRPC audit
+ * middleware: procedures declare the entity they touch (procedure meta) and
+ * the middleware snapshots it before and after the call, storing the fields
+ * that changed. System jobs (API syncs, CSV import) record their own changes
+ * through the same functions with a system actor.
+ */
+
+import {
+  and,
+  count,
+  desc,
+  eq,
+  gte,
+  inArray,
+  isNotNull,
+  isNull,
+  lt,
+  type SQL,
+} from "drizzle-orm";
+import { db } from "~/server/db";
+import {
+  type AuditChanges,
+  apiImportSchedules,
+  appSettings,
+  auditEvents,
+  campaigns,
+  contentItems,
+  contentText,
+  contentTypes,
+  embeddingMigrations,
+  tagVocabulary,
+  users,
+} from "~/server/db/schema";
+
+export const AUDIT_ENTITY_TYPES = [
+  "content",
+  "campaign",
+  "contentType",
+  "user",
+  "importSchedule",
+  "tag",
+  "setting",
+  "embeddingMigration",
+] as const;
+
+export type AuditEntityType = (typeof AUDIT_ENTITY_TYPES)[number];
+
+// Jobs that change data without a user making the change
+export type SystemActor =
+  | "ghost_api"
+  | "contentful_api"
+  | "youtube_api"
+  | "csv_import";
+
+export interface AuditActor {
+  userId: string | null;
+  system?: SystemActor;
+}
+
+/**
+ * Declares what a mutation changes, as procedure meta: `.meta({ audit })`
+ */
+export interface AuditSpec {
+  entity: AuditEntityType;
+  /** Input field(s) holding the entity id or ids (default "id") */
+  idKey?: string | string[];
+  /** Finds the affected ids when the input doesn't name them; runs before the mutation as the acting user */
+  findIds?(input: unknown, userId: string | null): Promise<string[]>;
+  /** Record a "run" event even when no field changed, for actions on an entity that don't edit it (e.g. resuming a job) */
+  recordUnchanged?: boolean;
+}
+
+export type AuditSnapshot = Record<string, unknown>;
+
+// Bookkeeping columns that change on every write
+const IGNORED_FIELDS = new Set(["createdAt", "updatedAt"]);
+
+const INSERT_BATCH_SIZE = 500;
+
+const snapshotLoaders: Record<
+  AuditEntityType,
+  (ids: string[]) => Promise<AuditSnapshot[]>
+> = {
+  content: async (ids) => {
+    const [items, texts] = await Promise.all([
+      db.query.contentItems.findMany({
+        where: inArray(contentItems.id, ids),
+        // Derived from title, tags and description, which are recorded
+        columns: { searchVector: false },
+        with: { campaigns: { columns: { campaignId: true } } },
+      }),
+      db
+        .select({
+          contentItemId: contentText.contentItemId,
+          contentHash: contentText.contentHash,
+        })
+        .from(contentText)
+        .where(inArray(contentText.contentItemId, ids)),
+    ]);
+    const hashes = new Map(texts.map((t) => [t.contentItemId, t.contentHash]));
+    // The text itself is versioned separately; its hash shows when it changed
+    return items.map(({ campaigns: linked, ...item }) => ({
+      ...item,
+      campaignIds: linked.map((c) => c.campaignId).sort(),
+      textHash: hashes.get(item.id) ?? null,
+    }));
+  },
+  campaign: (ids) =>
+    db.select().from(campaigns).where(inArray(campaigns.id, ids)),
+  contentType: (ids) =>
+    db
+      .select()
+      .from(contentTypes)
+      .where(inArray(contentTypes.id, ids.map(Number))),
+  user: (ids) =>
+    db
+      .select({
+        id: users.id,
+        name: users.name,
+        email: users.email,
+        role: users.role,
+      })
+      .from(users)
+      .where(inArray(users.id, ids)),
+  importSchedule: async (ids) => {
+    const schedules = await db
+      .select()
+      .from(apiImportSchedules)
+      .where(inArray(apiImportSchedules.sourceType, ids));
+    return schedules.map((schedule) => ({
+      ...schedule,
+      id: schedule.sourceType,
+    }));
+  },
+  tag: async (names) => {
+    const tags = await db.query.tagVocabulary.findMany({
+      where: inArray(tagVocabulary.name, names),
+      with: { synonyms: { columns: { synonym: true } } },
+    });
+    return tags.map(({ synonyms, ...tag }) => ({
+      ...tag,
+      id: tag.name,
+      synonyms: synonyms.map((s) => s.synonym).sort(),
+    }));
+  },
+  setting: (keys) =>
+    db
+      .select({ id: appSettings.key, value: appSettings.value })
+      .from(appSettings)
+      .where(inArray(appSettings.key, keys)),
+  // Settings and status only: progress moves on in the background job
+  embeddingMigration: (ids) =>
+    db
+      .select({
+        id: embeddingMigrations.id,
+        status: embeddingMigrations.status,
+        targetModel: embeddingMigrations.targetModel,
+        targetBaseUrl: embeddingMigrations.targetBaseUrl,
+        sourceModel: embeddingMigrations.sourceModel,
+        completedAt: embeddingMigrations.completedAt,
+      })
+      .from(embeddingMigrations)
+      .where(inArray(embeddingMigrations.id, ids)),
+};
+
+/**
+ * Current state of the given entities, keyed by id
+ */
+export async function loadSnapshots(
+  entity: AuditEntityType,
+  ids: string[],
+): Promise<Map<string, AuditSnapshot>> {
+  if (ids.length === 0) return new Map();
+  const rows = await snapshotLoaders[entity](ids);
+  return new Map(rows.map((row) => [String(row.id), row]));
+}
+
+/**
+ * Ids an audited mutation will touch, from its spec and input
+ */
+export async function resolveAuditIds(
+  spec: AuditSpec,
+  input: unknown,
+  userId: string | null,
+): Promise<string[]> {
+  if (spec.findIds) return spec.findIds(input, userId);
+  const fields = input as Record<string, unknown> | undefined;
+  return [spec.idKey ?? "id"].flat().flatMap((key) => {
+    const value = fields?.[key];
+    if (Array.isArray(value)) return value.map(String);
+    return value === undefined || value === null ? [] : [String(value)];
+  });
+}
+
+/**
+ * Content items of a content type, including trashed ones
+ */
+export async function findContentIdsOfType(input: {
+  id: number;
+}): Promise<string[]> {
+  const rows = await db
+    .select({ id: contentItems.id })
+    .from(contentItems)
+    .where(eq(contentItems.contentTypeId, input.id));
+  return rows.map((row) => row.id);
+}
+
+function toJson(value: unknown): unknown {
+  return value === undefined ? null : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Fields that differ between two snapshots (a missing snapshot counts as
+ * all-null, so creates and deletes list every field)
+ */
+export function diffSnapshots(
+  before: AuditSnapshot | undefined,
+  after: AuditSnapshot | undefined,
+): AuditChanges {
+  const changes: AuditChanges = {};
+  const fields = new Set([
+    ...Object.keys(before ?? {}),
+    ...Object.keys(after ?? {}),
+  ]);
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    const from = toJson(before?.[field]);
+    const to = toJson(after?.[field]);
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { before: from, after: to };
+    }
+  }
+  return changes;
+}
+
+function labelOf(snapshot: AuditSnapshot | undefined): string | null {
+  const label =
+    snapshot?.title ??
+    snapshot?.name ??
+    snapshot?.email ??
+    snapshot?.targetModel;
+  return typeof label === "string" ? label : null;
+}
+
+/**
+ * Compare the given entities against their `before` snapshots and record an
+ * event for each one that was created, changed or deleted (and, with
+ * `recordUnchanged`, a "run" event for each one left as it was)
+ */
+export async function recordEntityChanges(params: {
+  actor: AuditActor;
+  procedure: string;
+  entity: AuditEntityType;
+  ids: string[];
+  before: Map<string, AuditSnapshot>;
+  recordUnchanged?: boolean;
+}): Promise<number> {
+  const { actor, procedure, entity, ids, before, recordUnchanged } = params;
+  const after = await loadSnapshots(entity, ids);
+
+  const events: Array<typeof auditEvents.$inferInsert> = [];
+  for (const id of new Set(ids)) {
+    const old = before.get(id);
+    const current = after.get(id);
+    if (!old && !current) continue;
+
+    const changes = diffSnapshots(old, current);
+    const unchanged = Object.keys(changes).length === 0;
+    if (unchanged && !recordUnchanged) continue;
+
+    events.push({
+      actorUserId: actor.userId,
+      systemActor: actor.system,
+      procedure,
+      action: unchanged
+        ? "run"
+        : !old
+          ? "create"
+          : !current
+            ? "delete"
+            : "update",
+      entityType: entity,
+      entityId: id,
+      entityLabel: labelOf(current ?? old),
+      changes,
+    });
+  }
+
+  for (let i = 0; i < events.length; i += INSERT_BATCH_SIZE) {
+    await db.insert(auditEvents).values(events.slice(i, i + INSERT_BATCH_SIZE));
+  }
+  return events.length;
+}
+
+export interface AuditEventFilters {
+  /** A user id, or "system" for events with a system actor */
+  actor?: string;
+  entityType?: AuditEntityType;
+  entityId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Audit events matching the filters, newest first
+ */
+export async function listAuditEvents(
+  filters: AuditEventFilters,
+  limit: number,
+  offset: number,
+) {
+  const conditions: Array<SQL | undefined> = [];
+  if (filters.actor === "system") {
+    conditions.push(isNotNull(auditEvents.systemActor));
+  } else if (filters.actor) {
+    conditions.push(
+      eq(auditEvents.actorUserId, filters.actor),
+      isNull(auditEvents.systemActor),
+    );
+  }
+  if (filters.entityType) {
+    conditions.push(eq(auditEvents.entityType, filters.entityType));
+  }
+  if (filters.entityId) {
+    conditions.push(eq(auditEvents.entityId, filters.entityId));
+  }
+  if (filters.from) {
+    conditions.push(gte(auditEvents.occurredAt, filters.from));
+  }
+  if (filters.to) {
+    conditions.push(lt(auditEvents.occurredAt, filters.to));
+  }
+  const where = and(...conditions);
+
+  const [events, [total]] = await Promise.all([
+    db
+      .select({
+        id: auditEvents.id,
+        occurredAt: auditEvents.occurredAt,
+        procedure: auditEvents.procedure,
+        action: auditEvents.action,
+        entityType: auditEvents.entityType,
+        entityId: auditEvents.entityId,
+        entityLabel: auditEvents.entityLabel,
+        changes: auditEvents.changes,
+        systemActor: auditEvents.systemActor,
+        actorName: users.name,
+        actorEmail: users.email,
+      })
+      .from(auditEvents)
+      .leftJoin(users, eq(users.id, auditEvents.actorUserId))
+      .where(where)
+      .orderBy(desc(auditEvents.occurredAt))
+      .limit(limit)
+      .offset(offset),
+    db.select({ count: count() }).from(auditEvents).where(where),
+  ]);
+
+  return { events, total: total?.count ?? 0 };
+}
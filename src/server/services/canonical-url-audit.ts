@@ -0,0 +1,139 @@
+/**
+ * Canonical URL Audit
+ * Items created before URLs were canonicalized may be stored under
+ * non-canonical URLs, and some of them are the same page. The audit groups
+ * items by canonical URL: groups of two or more are collisions to merge,
+ * single items are safe to move to their canonical URL. Trashed items still
+ * hold their URLs, so they count towards collisions but are never moved.
+ */
+
+import { asc, eq, inArray, sql } from "drizzle-orm";
+import { db } from "~/server/db";
+import { contentItems } from "~/server/db/schema";
+import { canonicalizeUrl } from "./canonical-url";
+
+export interface UrlCollision {
+  canonicalUrl: string;
+  items: Array<{
+    id: string;
+    title: string;
+    currentUrl: string;
+    source: string;
+    createdAt: Date;
+    trashed: boolean;
+  }>;
+}
+
+export interface CanonicalUrlAudit {
+  // Live items; trashed ones are only audited as part of collisions
+  totalItems: number;
+  // Items whose URL is not canonical and no other item shares its canonical URL
+  fixable: Array<{ id: string; currentUrl: string; canonicalUrl: string }>;
+  collisions: UrlCollision[];
+}
+
+/**
+ * Group every content item, trashed ones included, by the canonical form of
+ * its currentUrl
+ */
+export async function auditCanonicalUrls(): Promise<CanonicalUrlAudit> {
+  const items = await db
+    .select({
+      id: contentItems.id,
+      title: contentItems.title,
+      currentUrl: contentItems.currentUrl,
+      source: contentItems.source,
+      createdAt: contentItems.createdAt,
+      trashed: sql<boolean>`${contentItems.deletedAt} IS NOT NULL`,
+    })
+    .from(contentItems)
+    .orderBy(asc(contentItems.createdAt));
+
+  const groups = new Map<string, typeof items>();
+  for (const item of items) {
+    const canonicalUrl = canonicalizeUrl(item.currentUrl);
+    groups.set(canonicalUrl, [...(groups.get(canonicalUrl) ?? []), item]);
+  }
+
+  const fixable: CanonicalUrlAudit["fixable"] = [];
+  const collisions: UrlCollision[] = [];
+
+  for (const [canonicalUrl, group] of groups) {
+    const [first] = group;
+    if (group.every((item) => item.trashed)) {
+      continue;
+    }
+    if (group.length > 1) {
+      collisions.push({ canonicalUrl, items: group });
+    } else if (first && first.currentUrl !== canonicalUrl) {
+      fixable.push({
+        id: first.id,
+        currentUrl: first.currentUrl,
+        canonicalUrl,
+      });
+    }
+  }
+
+  return {
+    totalItems: items.filter((item) => !item.trashed).length,
+    fixable,
+    collisions,
+  };
+}
+
+/**
+ * Ids of the items applyCanonicalUrls would move
+ */
+export async function findCanonicalizableIds(): Promise<string[]> {
+  const { fixable } = await auditCanonicalUrls();
+  return fixable.map((item) => item.id);
+}
+
+/**
+ * Move every non-colliding item to its canonical URL, keeping the old URL in
+ * previousUrls. Colliding items are left alone until they are merged.
+ */
+export async function applyCanonicalUrls(): Promise<{ updated: number }> {
+  const { fixable } = await auditCanonicalUrls();
+  if (fixable.length === 0) {
+    return { updated: 0 };
+  }
+
+  await db.transaction(async (tx) => {
+    const existing = await tx
+      .select({ id: contentItems.id, previousUrls: contentItems.previousUrls })
+      .from(contentItems)
+      .where(
+        inArray(
+          contentItems.id,
+          fixable.map((item) => item.id),
+        ),
+      );
+    const previousUrlsById = new Map(
+      existing.map((item) => [item.id, item.previousUrls ?? []]),
+    );
+
+    for (const item of fixable) {
+      await tx
+        .update(contentItems)
+        .set({
+          currentUrl: item.canonicalUrl,
+          previousUrls: [
+            ...(previousUrlsById.get(item.id) ?? []),
+            item.currentUrl,
+          ],
+          // The new URL gets checked on the next link check run
+          linkStatus: null,
+          linkCheckedAt: null,
+          suggestedUrl: null,
+          updatedAt: new Date(),
+        })
+        .where(eq(contentItems.id, item.id));
+    }
+  });
+
+  console.log(
+    `[CanonicalUrls] Moved ${fixable.length} items to canonical URLs`,
+  );
+  return { updated: fixable.length };
+}
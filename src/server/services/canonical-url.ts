@@ -0,0 +1,88 @@
+/**
+ * Canonical URLs
+ * Every URL is canonicalized before it is stored as a content item's
+ * currentUrl, so the same page reached through different links maps to one
+ * item (and one row under content_items_current_url_unique):
+ *
+ * - scheme and host are lowercased, http is upgraded to https
+ * - tigerdata.com / timescale.com always use www; other hosts keep theirs
+ * - tracking parameters (utm_*, gclid, ...) and #fragments are dropped
+ * - trailing slashes are removed
+ * - YouTube watch/short/embed/youtu.be links become a watch URL
+ */
+
+import { extractYouTubeVideoId } from "./content-fetcher";
+
+// Our own sites are served from www; bare-domain links redirect there
+const WWW_DOMAINS = new Set(["tigerdata.com", "timescale.com"]);
+
+const TRACKING_PARAM_PREFIXES = ["utm_", "hsa_", "mtm_", "pk_"];
+const TRACKING_PARAMS = new Set([
+  "gclid",
+  "dclid",
+  "gbraid",
+  "wbraid",
+  "fbclid",
+  "msclkid",
+  "yclid",
+  "twclid",
+  "li_fat_id",
+  "igshid",
+  "mc_cid",
+  "mc_eid",
+  "_hsenc",
+  "_hsmi",
+  "_ga",
+  "_gl",
+  "ref_src",
+]);
+
+function isTrackingParam(name: string): boolean {
+  const lower = name.toLowerCase();
+  return (
+    TRACKING_PARAMS.has(lower) ||
+    TRACKING_PARAM_PREFIXES.some((prefix) => lower.startsWith(prefix))
+  );
+}
+
+/**
+ * Canonical form of `url`. Strings that don't parse as absolute http(s)
+ * URLs are returned trimmed but otherwise unchanged.
+ */
+export function canonicalizeUrl(url: string): string {
+  const trimmed = url.trim();
+
+  const videoId = extractYouTubeVideoId(trimmed);
+  if (videoId) {
+    return `https://www.youtube.com/watch?v=${videoId}`;
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(trimmed);
+  } catch {
+    return trimmed;
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    return trimmed;
+  }
+
+  // URL already lowercases the scheme and host and drops default ports
+  parsed.protocol = "https:";
+  const bareHost = parsed.hostname.replace(/^www\./, "");
+  if (WWW_DOMAINS.has(bareHost)) {
+    parsed.hostname = `www.${bareHost}`;
+  }
+
+  for (const name of [...parsed.searchParams.keys()]) {
+    if (isTrackingParam(name)) {
+      parsed.searchParams.delete(name);
+    }
+  }
+  parsed.hash = "";
+
+  const path = parsed.pathname.replace(/\/+$/, "");
+  const search = parsed.searchParams.size > 0 ? parsed.search : "";
+
+  return `${parsed.protocol}//${parsed.host}${path}${search}`;
+}
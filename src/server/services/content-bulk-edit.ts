@@ -0,0 +1,144 @@
+/**
+ * Content Bulk Edit
+ * Applies one set of changes (tags, campaigns, content type, target audience,
+ * author) to many items in a single transaction, and optionally queues them
+ * for reindexing.
+ */
+
+import { and, inArray, type SQL, sql } from "drizzle-orm";
+import { db } from "~/server/db";
+import { contentCampaigns, contentItems } from "~/server/db/schema";
+import { buildContentScopeWhere, type ContentScope } from "./content-query";
+import { enqueueIndexing } from "./indexing-orchestrator";
+import { mapTagsOrThrow } from "./tag-taxonomy";
+
+export interface BulkContentChanges {
+  addTags?: string[];
+  removeTags?: string[];
+  addCampaignIds?: string[];
+  removeCampaignIds?: string[];
+  contentTypeId?: number;
+  // null clears the field
+  targetAudience?: string | null;
+  author?: string | null;
+  reindex?: boolean;
+}
+
+export interface BulkUpdateResult {
+  updated: number;
+  reindexQueued: number;
+}
+
+const INSERT_BATCH_SIZE = 1000;
+
+function textArray(values: string[]) {
+  return sql`ARRAY[${sql.join(
+    values.map((value) => sql`${value}`),
+    sql`, `,
+  )}]::text[]`;
+}
+
+// Existing tags plus added ones, minus removed ones, in first-seen order
+function tagsExpression(add: string[], remove: string[]): SQL<string[]> {
+  return sql`ARRAY(
+    SELECT tag
+    FROM unnest(coalesce(${contentItems.tags}, '{}') || ${textArray(add)})
+      WITH ORDINALITY AS t(tag, ord)
+    WHERE tag <> ALL(${textArray(remove)})
+    GROUP BY tag
+    ORDER BY min(ord)
+  )`;
+}
+
+function hasChanges(changes: BulkContentChanges) {
+  return (
+    !!changes.addTags?.length ||
+    !!changes.removeTags?.length ||
+    !!changes.addCampaignIds?.length ||
+    !!changes.removeCampaignIds?.length ||
+    changes.contentTypeId !== undefined ||
+    changes.targetAudience !== undefined ||
+    changes.author !== undefined ||
+    !!changes.reindex
+  );
+}
+
+/**
+ * Apply `changes` to every live item in `scope`, as `userId` sees it
+ */
+export async function bulkUpdateContent(
+  scope: ContentScope,
+  changes: BulkContentChanges,
+  userId: string,
+): Promise<BulkUpdateResult> {
+  if (!hasChanges(changes)) {
+    throw new Error("No changes selected");
+  }
+
+  const addTags = await mapTagsOrThrow(changes.addTags ?? []);
+  const removeTags = changes.removeTags ?? [];
+  const addCampaignIds = changes.addCampaignIds ?? [];
+  const removeCampaignIds = changes.removeCampaignIds ?? [];
+
+  const where = await buildContentScopeWhere(scope, userId);
+
+  const items = await db.transaction(async (tx) => {
+    // Touching updatedAt also gives campaign-only and reindex-only edits a
+    // row to return
+    const updated = await tx
+      .update(contentItems)
+      .set({
+        ...((addTags.length > 0 || removeTags.length > 0) && {
+          tags: tagsExpression(addTags, removeTags),
+        }),
+        ...(changes.contentTypeId !== undefined && {
+          contentTypeId: changes.contentTypeId,
+        }),
+        ...(changes.targetAudience !== undefined && {
+          targetAudience: changes.targetAudience,
+        }),
+        ...(changes.author !== undefined && { author: changes.author }),
+        updatedAt: new Date(),
+      })
+      .where(where)
+      .returning({ id: contentItems.id, currentUrl: contentItems.currentUrl });
+
+    const ids = updated.map((item) => item.id);
+    if (ids.length === 0) return updated;
+
+    if (removeCampaignIds.length > 0) {
+      await tx
+        .delete(contentCampaigns)
+        .where(
+          and(
+            inArray(contentCampaigns.contentItemId, ids),
+            inArray(contentCampaigns.campaignId, removeCampaignIds),
+          ),
+        );
+    }
+
+    const links = ids.flatMap((contentItemId) =>
+      addCampaignIds.map((campaignId) => ({ contentItemId, campaignId })),
+    );
+    for (let i = 0; i < links.length; i += INSERT_BATCH_SIZE) {
+      await tx
+        .insert(contentCampaigns)
+        .values(links.slice(i, i + INSERT_BATCH_SIZE))
+        .onConflictDoNothing();
+    }
+
+    return updated;
+  });
+
+  const reindexQueued = changes.reindex
+    ? await enqueueIndexing(
+        items.map((item) => ({ id: item.id, url: item.currentUrl })),
+      )
+    : 0;
+
+  console.log(
+    `[BulkEdit] Updated ${items.length} items${reindexQueued > 0 ? `, queued ${reindexQueued} for reindex` : ""}`,
+  );
+
+  return { updated: items.length, reindexQueued };
+}
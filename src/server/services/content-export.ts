@@ -0,0 +1,195 @@
+/**
+ * Content Export Service
+ * Streams the content inventory (scoped by the content list filters) as CSV, JSON or Markdown
+ */
+
+import { asc } from "drizzle-orm";
+import Papa from "papaparse";
+import { db } from "~/server/db";
+import { contentItems } from "~/server/db/schema";
+import {
+  buildContentFilterWhere,
+  buildContentOrderBy,
+  type ContentQuery,
+} from "./content-query";
+import { CSV_IMPORT_COLUMNS, joinCsvList } from "./csv-processor";
+
+export const EXPORT_FORMATS = ["csv", "json", "markdown"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+const EXPORT_BATCH_SIZE = 500;
+
+async function fetchExportBatch(query: ContentQuery, offset: number) {
+  return db.query.contentItems.findMany({
+    where: buildContentFilterWhere(query),
+    // Tie-break on id so offset paging is stable across batches
+    orderBy: [buildContentOrderBy(query), asc(contentItems.id)],
+    limit: EXPORT_BATCH_SIZE,
+    offset,
+    with: {
+      contentTypeRel: true,
+      campaigns: {
+        with: {
+          campaign: true,
+        },
+      },
+    },
+  });
+}
+
+type ExportItem = Awaited<ReturnType<typeof fetchExportBatch>>[number];
+
+interface ExportFormatter {
+  contentType: string;
+  extension: string;
+  header(): string;
+  row(item: ExportItem, index: number): string;
+  footer(): string;
+}
+
+function campaignNames(item: ExportItem): string[] {
+  return item.campaigns.map((cc) => cc.campaign.name);
+}
+
+/**
+ * CSV using the importer's snake_case columns, so an export can be fed
+ * straight back into processImportWithProgress()
+ */
+const csvFormatter: ExportFormatter = {
+  contentType: "text/csv; charset=utf-8",
+  extension: "csv",
+  header: () => `${Papa.unparse([CSV_IMPORT_COLUMNS])}\n`,
+  row: (item) => {
+    const values: Record<(typeof CSV_IMPORT_COLUMNS)[number], string> = {
+      title: item.title,
+      current_url: item.currentUrl,
+      content_type: item.contentTypeRel.slug,
+      publish_date: item.publishDate ?? "",
+      description: item.description ?? "",
+      author: item.author ?? "",
+      target_audience: item.targetAudience ?? "",
+      tags: joinCsvList(item.tags ?? []),
+      campaigns: joinCsvList(campaignNames(item)),
+    };
+    return `${Papa.unparse([CSV_IMPORT_COLUMNS.map((col) => values[col])])}\n`;
+  },
+  footer: () => "",
+};
+
+const jsonFormatter: ExportFormatter = {
+  contentType: "application/json; charset=utf-8",
+  extension: "json",
+  header: () => "[\n",
+  row: (item, index) => {
+    const record = {
+      id: item.id,
+      title: item.title,
+      currentUrl: item.currentUrl,
+      previousUrls: item.previousUrls ?? [],
+      contentType: {
+        slug: item.contentTypeRel.slug,
+        name: item.contentTypeRel.name,
+      },
+      publishDate: item.publishDate,
+      lastModifiedAt: item.lastModifiedAt,
+      description: item.description,
+      author: item.author,
+      targetAudience: item.targetAudience,
+      tags: item.tags ?? [],
+      campaigns: campaignNames(item),
+      source: item.source,
+      createdAt: item.createdAt,
+    };
+    return `${index > 0 ? ",\n" : ""}  ${JSON.stringify(record)}`;
+  },
+  footer: () => "\n]\n",
+};
+
+/**
+ * Escape a value for use inside a Markdown table cell
+ */
+function markdownCell(value: string | null | undefined): string {
+  return (value ?? "")
+    .replace(/\|/g, "\\|")
+    .replace(/\s*\n\s*/g, " ")
+    .trim();
+}
+
+const markdownFormatter: ExportFormatter = {
+  contentType: "text/markdown; charset=utf-8",
+  extension: "md",
+  header: () =>
+    "| Title | Type | Published | Author | Campaigns | Tags |\n" +
+    "| --- | --- | --- | --- | --- | --- |\n",
+  row: (item) => {
+    const title = markdownCell(item.title).replace(/[[\]]/g, "\\$&");
+    const cells = [
+      `[${title}](${item.currentUrl.replace(/[()]/g, "\\$&")})`,
+      markdownCell(item.contentTypeRel.name),
+      item.publishDate ?? "",
+      markdownCell(item.author),
+      markdownCell(campaignNames(item).join(", ")),
+      markdownCell((item.tags ?? []).join(", ")),
+    ];
+    return `| ${cells.join(" | ")} |\n`;
+  },
+  footer: () => "",
+};
+
+const formatters: Record<ExportFormat, ExportFormatter> = {
+  csv: csvFormatter,
+  json: jsonFormatter,
+  markdown: markdownFormatter,
+};
+
+/**
+ * Build a download filename for an export, e.g. tiger-den-content-2026-02-10.csv
+ */
+export function getExportFilename(format: ExportFormat): string {
+  const date = new Date().toISOString().slice(0, 10);
+  return `tiger-den-content-${date}.${formatters[format].extension}`;
+}
+
+export function getExportContentType(format: ExportFormat): string {
+  return formatters[format].contentType;
+}
+
+/**
+ * Stream every content item matching the filters (not just one page),
+ * fetching from the database in batches as the client reads
+ */
+export function createContentExportStream(
+  query: ContentQuery,
+  format: ExportFormat,
+): ReadableStream<Uint8Array> {
+  const formatter = formatters[format];
+  const encoder = new TextEncoder();
+  let offset = 0;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(formatter.header()));
+    },
+    async pull(controller) {
+      try {
+        const batch = await fetchExportBatch(query, offset);
+
+        const chunk = batch
+          .map((item, i) => formatter.row(item, offset + i))
+          .join("");
+        if (chunk) {
+          controller.enqueue(encoder.encode(chunk));
+        }
+        offset += batch.length;
+
+        if (batch.length < EXPORT_BATCH_SIZE) {
+          controller.enqueue(encoder.encode(formatter.footer()));
+          controller.close();
+        }
+      } catch (error) {
+        console.error("[Export] Failed to fetch export batch:", error);
+        controller.error(error);
+      }
+    },
+  });
+}
@@ -0,0 +1,103 @@
+/**
+ * Content Facets
+ * Counts of the content matching the current filters by content type,
+ * campaign, tag, author, source and publish year, for the filter controls.
+ * Type, campaign, tag and year counts leave out their own filter, so they
+ * show what picking another value would match rather than repeating the
+ * value already picked.
+ */
+
+import { and, type SQL, sql } from "drizzle-orm";
+import { db } from "~/server/db";
+import { buildContentFilterWhere, type ContentFilters } from "./content-query";
+
+export interface FacetCount<T extends string | number = string> {
+  value: T;
+  count: number;
+}
+
+export interface ContentFacets {
+  contentTypes: FacetCount<number>[];
+  campaigns: FacetCount[];
+  tags: FacetCount[];
+  authors: FacetCount[];
+  sources: FacetCount[];
+  publishYears: FacetCount<number>[];
+}
+
+// Authors are free text, so only the most common are returned
+const MAX_AUTHORS = 25;
+
+interface FacetRow {
+  facet: keyof ContentFacets;
+  value: string;
+  count: number;
+}
+
+/**
+ * Facet counts for the items matching the filters, in one round trip.
+ * `match` narrows the items further, e.g. to those a search matched.
+ */
+export async function getContentFacets(
+  filters: ContentFilters,
+  match?: SQL,
+): Promise<ContentFacets> {
+  const where = (without: Partial<ContentFilters> = {}) =>
+    and(buildContentFilterWhere({ ...filters, ...without }), match);
+
+  const rows = (await db.execute(sql`
+    SELECT 'contentTypes' AS facet, content_type_id::text AS value, count(*)::int AS count
+    FROM tiger_den.content_items
+    WHERE ${where({ contentTypeIds: undefined })}
+    GROUP BY content_type_id
+    UNION ALL
+    SELECT 'campaigns', cc.campaign_id::text, count(*)::int
+    FROM tiger_den.content_campaigns cc
+    JOIN tiger_den.content_items ON tiger_den.content_items.id = cc.content_item_id
+    WHERE ${where({ campaignIds: undefined })}
+    GROUP BY cc.campaign_id
+    UNION ALL
+    SELECT 'tags', tag, count(*)::int
+    FROM tiger_den.content_items
+    CROSS JOIN LATERAL unnest(tiger_den.content_items.tags) AS tag
+    WHERE ${where({ tags: undefined })}
+    GROUP BY tag
+    UNION ALL
+    (
+      SELECT 'authors', author, count(*)::int
+      FROM tiger_den.content_items
+      WHERE ${where()} AND author IS NOT NULL AND author <> ''
+      GROUP BY author
+      ORDER BY count(*) DESC, author
+      LIMIT ${MAX_AUTHORS}
+    )
+    UNION ALL
+    SELECT 'sources', source::text, count(*)::int
+    FROM tiger_den.content_items
+    WHERE ${where()}
+    GROUP BY source
+    UNION ALL
+    SELECT 'publishYears', extract(year FROM publish_date)::int::text, count(*)::int
+    FROM tiger_den.content_items
+    WHERE ${where({ publishDateFrom: undefined, publishDateTo: undefined })}
+      AND publish_date IS NOT NULL
+    GROUP BY 2
+  `)) as unknown as FacetRow[];
+
+  const counts = (facet: keyof ContentFacets) =>
+    rows
+      .filter((row) => row.facet === facet)
+      .map((row) => ({ value: String(row.value), count: Number(row.count) }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+  const numeric = (facet: keyof ContentFacets) =>
+    counts(facet).map((row) => ({ ...row, value: Number(row.value) }));
+
+  return {
+    contentTypes: numeric("contentTypes"),
+    campaigns: counts("campaigns"),
+    tags: counts("tags"),
+    authors: counts("authors"),
+    sources: counts("sources"),
+    publishYears: numeric("publishYears").sort((a, b) => b.value - a.value),
+  };
+}
@@ -67,6 +67,66 @@ function countWords(text: string): number {
   return text.trim().split(/\s+/).filter(Boolean).length;
 }
 
+const USER_AGENT =
+  "Mozilla/5.0 (compatible; TigerDen/1.0; +https://tigerdata.com)";
+
+// Longer chains are almost always redirect loops
+const MAX_REDIRECTS = 10;
+
+export interface RedirectHop {
+  url: string;
+  status: number; // 301, 302, 303, 307 or 308
+}
+
+export interface FollowedResponse {
+  response: Response; // first non-redirect response
+  finalUrl: string;
+  redirects: RedirectHop[]; // in the order they were followed
+}
+
+/**
+ * fetch() that follows redirects itself, so callers can tell permanent
+ * (301/308) from temporary redirects. fetch's own redirect handling only
+ * exposes the final URL. `beforeRequest` runs before every request,
+ * redirect hops included (e.g. to rate limit per host).
+ */
+export async function fetchFollowingRedirects(
+  url: string,
+  options: {
+    method?: "GET" | "HEAD";
+    signal?: AbortSignal;
+    beforeRequest?: (url: string) => Promise<void>;
+  } = {},
+): Promise<FollowedResponse> {
+  const redirects: RedirectHop[] = [];
+  let currentUrl = url;
+
+  while (true) {
+    await options.beforeRequest?.(currentUrl);
+    const response = await fetch(currentUrl, {
+      method: options.method ?? "GET",
+      signal: options.signal,
+      redirect: "manual",
+      headers: { "User-Agent": USER_AGENT },
+    });
+
+    const location = response.headers.get("location");
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return { response, finalUrl: currentUrl, redirects };
+    }
+
+    await response.body?.cancel();
+    if (redirects.length >= MAX_REDIRECTS) {
+      throw new Error(`Too many redirects (more than ${MAX_REDIRECTS})`);
+    }
+
+    const nextUrl = new URL(location, currentUrl).toString();
+    console.log(`[Redirect detected] ${currentUrl} → ${nextUrl}`);
+    redirects.push({ url: currentUrl, status: response.status });
+    currentUrl = nextUrl;
+  }
+}
+
 /**
  * Fetch and extract content from web page (static HTML only)
  * Uses cheerio for HTML parsing
@@ -83,13 +143,10 @@ async function fetchWebContentStatic(url: string): Promise<FetchResult> {
       indexingConfig.timeoutPerUrl,
     );
 
-    const response = await fetch(url, {
-      signal: controller.signal,
-      headers: {
-        "User-Agent":
-          "Mozilla/5.0 (compatible; TigerDen/1.0; +https://tigerdata.com)",
-      },
-    });
+    const { response, finalUrl, redirects } = await fetchFollowingRedirects(
+      url,
+      { signal: controller.signal },
+    );
 
     clearTimeout(timeout);
 
@@ -98,12 +155,7 @@ async function fetchWebContentStatic(url: string): Promise<FetchResult> {
     }
 
     // Check for redirects
-    const finalUrl = response.url;
-    const wasRedirected = finalUrl !== url;
-
-    if (wasRedirected) {
-      console.log(`[Redirect detected] ${url} → ${finalUrl}`);
-    }
+    const wasRedirected = redirects.length > 0;
 
     const html = await response.text();
     const $ = cheerio.load(html);
@@ -0,0 +1,158 @@
+/**
+ * Content Merge
+ * Folds a duplicate content item into a surviving item and deletes the
+ * duplicate. The survivor keeps its own fields and gains everything the
+ * duplicate adds: tags, campaigns, URL history (including the duplicate's
+ * current URL, so redirects and lookups still resolve it), missing metadata
+ * and API ids. If only the duplicate has indexed text, the text and its
+ * chunks move to the survivor instead of being re-crawled.
+ */
+
+import { desc, eq, inArray } from "drizzle-orm";
+import { db } from "~/server/db";
+import {
+  contentCampaigns,
+  contentItems,
+  contentMerges,
+  contentText,
+  contentTextVersions,
+} from "~/server/db/schema";
+
+export interface MergeResult {
+  survivorId: string;
+  mergedTitle: string;
+  textMoved: boolean;
+}
+
+// Union that keeps the order of first appearance
+function union(...lists: Array<string[] | null>): string[] {
+  return [...new Set(lists.flatMap((list) => list ?? []))];
+}
+
+/**
+ * Merge `duplicateId` into `survivorId`, recording the merge on the survivor
+ */
+export async function mergeContentItems(
+  survivorId: string,
+  duplicateId: string,
+  userId?: string,
+): Promise<MergeResult> {
+  if (survivorId === duplicateId) {
+    throw new Error("An item cannot be merged into itself");
+  }
+
+  return db.transaction(async (tx) => {
+    const items = await tx.query.contentItems.findMany({
+      where: inArray(contentItems.id, [survivorId, duplicateId]),
+      with: { campaigns: { columns: { campaignId: true } } },
+    });
+    const survivor = items.find((item) => item.id === survivorId);
+    const duplicate = items.find((item) => item.id === duplicateId);
+    if (!survivor || !duplicate) {
+      throw new Error("Content item not found");
+    }
+    if (survivor.deletedAt || duplicate.deletedAt) {
+      throw new Error("Trashed items cannot be merged; restore them first");
+    }
+
+    const texts = await tx
+      .select({ id: contentText.id, contentItemId: contentText.contentItemId })
+      .from(contentText)
+      .where(inArray(contentText.contentItemId, [survivorId, duplicateId]));
+    const survivorText = texts.find((t) => t.contentItemId === survivorId);
+    const duplicateText = texts.find((t) => t.contentItemId === duplicateId);
+
+    // Chunks hang off content_text, so moving the row re-points the index
+    const textMoved = !survivorText && !!duplicateText;
+    if (textMoved) {
+      await tx
+        .update(contentText)
+        .set({ contentItemId: survivorId })
+        .where(eq(contentText.id, duplicateText.id));
+    }
+
+    // Both items tracked the same page, so their text history is combined
+    await tx
+      .update(contentTextVersions)
+      .set({ contentItemId: survivorId })
+      .where(eq(contentTextVersions.contentItemId, duplicateId));
+
+    const campaignIds = duplicate.campaigns.map((c) => c.campaignId);
+    if (campaignIds.length > 0) {
+      await tx
+        .insert(contentCampaigns)
+        .values(
+          campaignIds.map((campaignId) => ({
+            contentItemId: survivorId,
+            campaignId,
+          })),
+        )
+        .onConflictDoNothing();
+    }
+
+    // Items previously merged into the duplicate now belong to the survivor
+    await tx
+      .update(contentMerges)
+      .set({ survivorId })
+      .where(eq(contentMerges.survivorId, duplicateId));
+
+    const { campaigns: _campaigns, ...snapshot } = duplicate;
+    await tx.insert(contentMerges).values({
+      survivorId,
+      mergedItemId: duplicateId,
+      mergedTitle: duplicate.title,
+      mergedUrl: duplicate.currentUrl,
+      mergedSnapshot: { ...snapshot, campaignIds },
+      textMoved,
+      mergedByUserId: userId,
+    });
+
+    // Delete first: the survivor may take over the duplicate's API ids
+    await tx.delete(contentItems).where(eq(contentItems.id, duplicateId));
+
+    await tx
+      .update(contentItems)
+      .set({
+        tags: union(survivor.tags, duplicate.tags),
+        previousUrls: union(survivor.previousUrls, duplicate.previousUrls, [
+          duplicate.currentUrl,
+        ]).filter((url) => url !== survivor.currentUrl),
+        publishDate: survivor.publishDate ?? duplicate.publishDate,
+        description: survivor.description || duplicate.description,
+        author: survivor.author || duplicate.author,
+        targetAudience: survivor.targetAudience || duplicate.targetAudience,
+        ghostId: survivor.ghostId ?? duplicate.ghostId,
+        contentfulId: survivor.contentfulId ?? duplicate.contentfulId,
+        youtubeVideoId: survivor.youtubeVideoId ?? duplicate.youtubeVideoId,
+        updatedAt: new Date(),
+      })
+      .where(eq(contentItems.id, survivorId));
+
+    console.log(
+      `[ContentMerge] Merged ${duplicateId} into ${survivorId}${textMoved ? " (text moved)" : ""}`,
+    );
+
+    return { survivorId, mergedTitle: duplicate.title, textMoved };
+  });
+}
+
+/**
+ * Items merged into an item, newest first
+ */
+export async function listContentMerges(survivorId: string) {
+  return db.query.contentMerges.findMany({
+    where: eq(contentMerges.survivorId, survivorId),
+    orderBy: [desc(contentMerges.createdAt)],
+    columns: {
+      id: true,
+      mergedItemId: true,
+      mergedTitle: true,
+      mergedUrl: true,
+      textMoved: true,
+      createdAt: true,
+    },
+    with: {
+      mergedByUser: { columns: { name: true, email: true } },
+    },
+  });
+}
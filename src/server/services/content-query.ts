@@ -0,0 +1,383 @@
+import {
+  and,
+  asc,
+  desc,
+  eq,
+  gte,
+  ilike,
+  inArray,
+  isNull,
+  lt,
+  lte,
+  not,
+  or,
+  type SQL,
+  sql,
+} from "drizzle-orm";
+import { z } from "zod";
+import {
+  hasFreeText,
+  type ParsedSearchQuery,
+  parseSearchQuery,
+  type SearchQueryClause,
+  searchKey,
+} from "~/lib/search-query";
+import { db } from "~/server/db";
+import {
+  campaigns,
+  contentCampaigns,
+  contentItems,
+  contentTypes,
+  linkStatusEnum,
+  savedViews,
+} from "~/server/db/schema";
+
+/**
+ * Filters shared by the content list, exports and anything else that needs
+ * to operate on "what the content page is currently showing".
+ */
+export const contentFiltersSchema = z.object({
+  search: z.string().optional(),
+  contentTypeIds: z.array(z.number()).optional(),
+  campaignIds: z.array(z.string().uuid()).optional(),
+  tags: z.array(z.string()).optional(),
+  publishDateFrom: z.string().optional(),
+  publishDateTo: z.string().optional(),
+  // Latest link check result; "unchecked" = never checked
+  linkStatuses: z
+    .array(z.enum([...linkStatusEnum.enumValues, "unchecked"]))
+    .optional(),
+});
+
+/**
+ * Items a bulk action applies to: explicit ids, everything matching the
+ * filters (so "select all matching" covers more than the visible page), or
+ * everything matching a saved view
+ */
+export const contentScopeSchema = z.union([
+  z.object({ ids: z.array(z.string().uuid()).min(1) }),
+  z.object({ filters: contentFiltersSchema }),
+  z.object({ viewId: z.string().uuid() }),
+]);
+
+export const contentSortSchema = z.object({
+  sortBy: z
+    .enum(["title", "date", "type", "author", "createdAt"])
+    .default("createdAt"),
+  sortOrder: z.enum(["asc", "desc"]).default("desc"),
+});
+
+export const contentQuerySchema = contentFiltersSchema.extend(
+  contentSortSchema.shape,
+);
+
+/**
+ * Everything the content page shows: filters, sort and which search ran the
+ * query text. Stored as a saved view's state.
+ */
+export const contentViewSchema = contentQuerySchema.extend({
+  searchMode: z
+    .enum(["metadata", "keyword", "fullContent"])
+    .default("metadata"),
+});
+
+/**
+ * Structured filters for the full-text search procedures, where the query
+ * text is the search itself
+ */
+export const searchFiltersSchema = contentFiltersSchema.omit({ search: true });
+
+export type ContentFilters = z.infer<typeof contentFiltersSchema>;
+export type ContentScope = z.infer<typeof contentScopeSchema>;
+export type SearchFilters = z.infer<typeof searchFiltersSchema>;
+export type ContentSort = z.infer<typeof contentSortSchema>;
+export type ContentQuery = z.infer<typeof contentQuerySchema>;
+export type ContentView = z.infer<typeof contentViewSchema>;
+type LinkStatusFilter = NonNullable<ContentFilters["linkStatuses"]>[number];
+
+/**
+ * Excludes trashed items. Every query over the live inventory needs it;
+ * buildContentFilterWhere always includes it.
+ */
+export const notDeleted = isNull(contentItems.deletedAt);
+
+/**
+ * Whether the filters narrow the inventory at all
+ */
+export function hasContentFilter(filters: ContentFilters): boolean {
+  return Boolean(
+    filters.search?.trim() ||
+      filters.contentTypeIds?.length ||
+      filters.campaignIds?.length ||
+      filters.tags?.length ||
+      filters.publishDateFrom ||
+      filters.publishDateTo ||
+      filters.linkStatuses?.length,
+  );
+}
+
+/**
+ * Build the WHERE clause for a set of content filters
+ */
+export function buildContentFilterWhere(filters: ContentFilters) {
+  const conditions: Array<SQL | undefined> = [notDeleted];
+
+  // Search filter: free text against title and metadata, plus any field
+  // operators in the query
+  if (filters.search) {
+    conditions.push(buildMetadataSearchWhere(parseSearchQuery(filters.search)));
+  }
+
+  // Content type filter
+  if (filters.contentTypeIds && filters.contentTypeIds.length > 0) {
+    conditions.push(
+      inArray(contentItems.contentTypeId, filters.contentTypeIds),
+    );
+  }
+
+  // Date range filter
+  if (filters.publishDateFrom) {
+    conditions.push(gte(contentItems.publishDate, filters.publishDateFrom));
+  }
+  if (filters.publishDateTo) {
+    conditions.push(lte(contentItems.publishDate, filters.publishDateTo));
+  }
+
+  // Tags filter (array overlap)
+  if (filters.tags && filters.tags.length > 0) {
+    const tagArray = sql.join(
+      filters.tags.map((t) => sql`${t}`),
+      sql`, `,
+    );
+    conditions.push(sql`${contentItems.tags} && ARRAY[${tagArray}]::text[]`);
+  }
+
+  // Campaign filter
+  if (filters.campaignIds && filters.campaignIds.length > 0) {
+    conditions.push(
+      inArray(
+        contentItems.id,
+        db
+          .selectDistinct({ id: contentCampaigns.contentItemId })
+          .from(contentCampaigns)
+          .where(inArray(contentCampaigns.campaignId, filters.campaignIds)),
+      ),
+    );
+  }
+
+  // Link status filter
+  if (filters.linkStatuses && filters.linkStatuses.length > 0) {
+    conditions.push(buildLinkStatusWhere(filters.linkStatuses));
+  }
+
+  return and(...conditions);
+}
+
+function buildLinkStatusWhere(linkStatuses: LinkStatusFilter[]) {
+  const statuses = linkStatuses.filter((status) => status !== "unchecked");
+  return or(
+    ...(statuses.length > 0
+      ? [inArray(contentItems.linkStatus, statuses)]
+      : []),
+    ...(linkStatuses.includes("unchecked")
+      ? [isNull(contentItems.linkStatus)]
+      : []),
+  );
+}
+
+function textArray(values: string[]) {
+  return sql`ARRAY[${sql.join(
+    values.map((value) => sql`${value}`),
+    sql`, `,
+  )}]::text[]`;
+}
+
+// Nulls (no description, no tags...) count as not matching, so NOT keeps them
+function excluding(condition: SQL | undefined) {
+  return not(sql`coalesce(${condition}, false)`);
+}
+
+function buildOperatorCondition(clause: SearchQueryClause) {
+  const { operator, values } = clause;
+  switch (operator) {
+    case "type":
+      return inArray(
+        contentItems.contentTypeId,
+        db
+          .select({ id: contentTypes.id })
+          .from(contentTypes)
+          .where(
+            or(
+              sql`regexp_replace(lower(${contentTypes.slug}), '[^a-z0-9]', '', 'g') = ANY(${textArray(values.map(searchKey))})`,
+              sql`regexp_replace(lower(${contentTypes.name}), '[^a-z0-9]', '', 'g') = ANY(${textArray(values.map(searchKey))})`,
+            ),
+          ),
+      );
+    case "tag":
+      return sql`EXISTS (SELECT 1 FROM unnest(${contentItems.tags}) AS tag WHERE lower(tag) = ANY(${textArray(values.map((v) => v.toLowerCase()))}))`;
+    case "campaign":
+      return inArray(
+        contentItems.id,
+        db
+          .selectDistinct({ id: contentCampaigns.contentItemId })
+          .from(contentCampaigns)
+          .innerJoin(campaigns, eq(campaigns.id, contentCampaigns.campaignId))
+          .where(
+            sql`lower(${campaigns.name}) = ANY(${textArray(values.map((v) => v.toLowerCase()))})`,
+          ),
+      );
+    case "author":
+      return or(...values.map((v) => ilike(contentItems.author, `%${v}%`)));
+    case "source":
+      return sql`${contentItems.source}::text = ANY(${textArray(values)})`;
+    case "status":
+      return buildLinkStatusWhere(values as LinkStatusFilter[]);
+    case "before":
+      return lt(contentItems.publishDate, values[0] ?? "");
+    case "after":
+      return gte(contentItems.publishDate, values[0] ?? "");
+  }
+}
+
+/**
+ * WHERE clause for the field operators of a search query (type:, tag:,
+ * campaign:, author:, source:, status:, before:, after:). Separate operators
+ * must all match; the values of one operator are alternatives.
+ */
+export function buildSearchOperatorWhere(query: ParsedSearchQuery) {
+  return and(
+    ...query.clauses.map((clause) =>
+      clause.negated
+        ? excluding(buildOperatorCondition(clause))
+        : buildOperatorCondition(clause),
+    ),
+  );
+}
+
+function metadataMatch(text: string) {
+  return or(
+    ilike(contentItems.title, `%${text}%`),
+    ilike(contentItems.description, `%${text}%`),
+    ilike(contentItems.currentUrl, `%${text}%`),
+    ilike(contentItems.author, `%${text}%`),
+  );
+}
+
+/**
+ * Title/metadata search: the free text terms as one substring (as typed),
+ * each quoted phrase, none of the exclusions, and the field operators
+ */
+function buildMetadataSearchWhere(query: ParsedSearchQuery) {
+  const text = query.terms.join(" ");
+  return and(
+    text ? metadataMatch(text) : undefined,
+    ...query.phrases.map(metadataMatch),
+    ...query.excluded.map((excluded) => excluding(metadataMatch(excluded))),
+    buildSearchOperatorWhere(query),
+  );
+}
+
+/**
+ * Filters and sort of a saved view, for exports and bulk actions. Only views
+ * shared with the team or owned by `userId` can be used; anyone else's
+ * private view is reported the same as a missing one. Views whose query text
+ * runs a keyword or full-content search are ranked result lists rather than
+ * filters, so they can't be used this way.
+ */
+export async function loadViewQuery(
+  viewId: string,
+  userId: string | null,
+): Promise<ContentQuery> {
+  const view = await db.query.savedViews.findFirst({
+    where: and(
+      eq(savedViews.id, viewId),
+      userId
+        ? or(eq(savedViews.shared, true), eq(savedViews.ownerUserId, userId))
+        : eq(savedViews.shared, true),
+    ),
+  });
+  if (!view) {
+    throw new Error("Invalid view");
+  }
+
+  const { searchMode, ...query } = contentViewSchema.parse(view.state);
+  if (
+    searchMode !== "metadata" &&
+    hasFreeText(parseSearchQuery(query.search ?? ""))
+  ) {
+    throw new Error(
+      `"${view.name}" uses ${searchMode === "keyword" ? "keyword" : "full content"} search, which can't be exported or bulk edited`,
+    );
+  }
+  return query;
+}
+
+/**
+ * WHERE clause for the live items in a bulk action's scope, with saved views
+ * resolved as `userId` sees them
+ */
+export async function buildContentScopeWhere(
+  scope: ContentScope,
+  userId: string | null,
+) {
+  if ("ids" in scope) {
+    return and(notDeleted, inArray(contentItems.id, scope.ids));
+  }
+  if ("viewId" in scope) {
+    const {
+      sortBy: _sortBy,
+      sortOrder: _sortOrder,
+      ...filters
+    } = await loadViewQuery(scope.viewId, userId);
+    return buildContentFilterWhere(filters);
+  }
+  return buildContentFilterWhere(scope.filters);
+}
+
+/**
+ * Ids of the live items in a bulk action's scope
+ */
+export async function findContentIds(
+  scope: ContentScope,
+  userId: string | null,
+): Promise<string[]> {
+  const rows = await db
+    .select({ id: contentItems.id })
+    .from(contentItems)
+    .where(await buildContentScopeWhere(scope, userId));
+  return rows.map((row) => row.id);
+}
+
+/**
+ * Build an "AND ..." fragment for raw search SQL from the structured filters
+ * and the field operators of the search query. The query must join
+ * tiger_den.content_items without an alias, since drizzle renders columns
+ * fully qualified.
+ */
+export function buildSearchFilterSql(
+  filters: SearchFilters = {},
+  query?: ParsedSearchQuery,
+) {
+  const operators = query && buildSearchOperatorWhere(query);
+  return operators
+    ? sql`AND ${buildContentFilterWhere(filters)} AND ${operators}`
+    : sql`AND ${buildContentFilterWhere(filters)}`;
+}
+
+/**
+ * Build the ORDER BY expression for a sort column/direction
+ */
+export function buildContentOrderBy(sort: ContentSort) {
+  const sortDir = sort.sortOrder === "asc" ? asc : desc;
+  const nulls = sort.sortOrder === "desc" ? sql`NULLS LAST` : sql`NULLS FIRST`;
+  const dateExpr = sql`COALESCE(${contentItems.lastModifiedAt}, ${contentItems.publishDate}::timestamptz)`;
+  const sortColumnMap = {
+    title: contentItems.title,
+    date: dateExpr,
+    type: contentItems.contentTypeId,
+    author: contentItems.author,
+    createdAt: contentItems.createdAt,
+  };
+
+  return sql`${sortDir(sortColumnMap[sort.sortBy])} ${nulls}`;
+}
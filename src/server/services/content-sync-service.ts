@@ -9,10 +9,22 @@ import type { Document } from "@contentful/rich-text-types";
 import { eq, or } from "drizzle-orm";
 import { db } from "~/server/db";
 import { contentItems, contentText, contentTypes } from "~/server/db/schema";
+import {
+  type AuditSnapshot,
+  loadSnapshots,
+  recordEntityChanges,
+  type SystemActor,
+} from "./audit-log";
+import { canonicalizeUrl } from "./canonical-url";
 import { countTokens, fetchYouTubeTranscript } from "./content-fetcher";
+import {
+  type ContentVersionSource,
+  recordContentVersion,
+} from "./content-versions";
 import type { CaseStudyEntry, LearnPageEntry } from "./contentful-api-client";
 import type { GhostPost } from "./ghost-api-client";
 import { indexFromExistingContent } from "./indexing-orchestrator";
+import { mapTags } from "./tag-taxonomy";
 import type { YouTubeVideo } from "./youtube-api-client";
 
 // Cache content type IDs
@@ -46,6 +58,14 @@ function calculateHash(text: string): string {
 }
 
 export class ContentSyncService {
+  /**
+   * Map source tags onto the tag vocabulary. Unknown tags are dropped in
+   * controlled vocabulary mode rather than failing the sync.
+   */
+  private async mapTags(tags: string[]): Promise<string[]> {
+    return (await mapTags(tags)).tags;
+  }
+
   /**
    * Get content type ID by slug, with caching
    */
@@ -70,9 +90,11 @@ export class ContentSyncService {
    * Write or update a content_text row with API-provided content.
    * This avoids scraping by storing the CMS content directly.
    * The row is created with indexStatus 'pending' so the chunker/embedder picks it up.
+   * Content whose hash matches the last successful index is left as is.
    */
   private async writeContentText(
     contentItemId: string,
+    source: ContentVersionSource,
     plainTextContent: string,
     fullTextContent?: string,
   ): Promise<void> {
@@ -82,6 +104,22 @@ export class ContentSyncService {
     const tokenCount = await countTokens(plainTextContent);
     const contentHash = calculateHash(plainTextContent);
 
+    // Unchanged since the last successful index — keep the existing chunks
+    const existing = await db.query.contentText.findFirst({
+      where: eq(contentText.contentItemId, contentItemId),
+      columns: { id: true, contentHash: true, indexStatus: true },
+    });
+    if (
+      existing?.indexStatus === "indexed" &&
+      existing.contentHash === contentHash
+    ) {
+      await db
+        .update(contentText)
+        .set({ crawledAt: new Date() })
+        .where(eq(contentText.id, existing.id));
+      return;
+    }
+
     const [record] = await db
       .insert(contentText)
       .values({
@@ -109,6 +147,18 @@ export class ContentSyncService {
       })
       .returning({ id: contentText.id });
 
+    await recordContentVersion(
+      contentItemId,
+      {
+        contentHash,
+        fullText: fullTextContent ?? plainTextContent,
+        plainText: plainTextContent,
+        wordCount,
+        tokenCount,
+      },
+      source,
+    );
+
     // Immediately chunk + embed so content is fully indexed
     if (record) {
       await indexFromExistingContent(record.id);
@@ -182,7 +232,7 @@ export class ContentSyncService {
 
     if (existing) {
       // Check if we should update
-      if (!this.shouldUpdate(existing.source, "ghost_api")) {
+      if (!this.shouldUpdate(existing, "ghost_api")) {
         result.skipped++;
         return;
       }
@@ -195,23 +245,35 @@ export class ContentSyncService {
       }
 
       // Update existing record
-      await this.updateGhostPost(existing.id, post, normalizedUrl);
+      await this.audited(
+        "contentSync.ghostPosts",
+        "ghost_api",
+        userId,
+        existing.id,
+        () => this.updateGhostPost(existing.id, post, normalizedUrl),
+      );
       result.updated++;
     } else {
       // Create new record
-      await this.createGhostPost(post, normalizedUrl, userId);
+      await this.audited(
+        "contentSync.ghostPosts",
+        "ghost_api",
+        userId,
+        null,
+        () => this.createGhostPost(post, normalizedUrl, userId),
+      );
       result.created++;
     }
   }
 
   /**
-   * Create a new Ghost post record
+   * Create a new Ghost post record, returning its id
    */
   private async createGhostPost(
     post: GhostPost,
     normalizedUrl: string,
     userId: string,
-  ): Promise<void> {
+  ): Promise<string | undefined> {
     const contentTypeId = await this.getContentTypeId("blog_post");
 
     const [inserted] = await db
@@ -223,7 +285,7 @@ export class ContentSyncService {
         publishDate: new Date(post.published_at).toISOString().split("T")[0]!, // Date only
         description: post.excerpt || post.custom_excerpt || undefined,
         author: post.primary_author?.name || undefined,
-        tags: post.tags?.map((t) => t.name) || [],
+        tags: await this.mapTags(post.tags?.map((t) => t.name) ?? []),
         source: "ghost_api" as const,
         ghostId: post.id,
         lastModifiedAt: new Date(post.updated_at),
@@ -232,8 +294,15 @@ export class ContentSyncService {
       .returning({ id: contentItems.id });
 
     if (inserted && post.plaintext) {
-      await this.writeContentText(inserted.id, post.plaintext, post.html);
+      await this.writeContentText(
+        inserted.id,
+        "ghost_api",
+        post.plaintext,
+        post.html,
+      );
     }
+
+    return inserted?.id;
   }
 
   /**
@@ -265,7 +334,7 @@ export class ContentSyncService {
         publishDate: new Date(post.published_at).toISOString().split("T")[0]!, // Date only
         description: post.excerpt || post.custom_excerpt || undefined,
         author: post.primary_author?.name || undefined,
-        tags: post.tags?.map((t) => t.name) || [],
+        tags: await this.mapTags(post.tags?.map((t) => t.name) ?? []),
         ghostId: post.id,
         lastModifiedAt: new Date(post.updated_at),
         ...(urlChanged && { previousUrls }),
@@ -274,7 +343,12 @@ export class ContentSyncService {
 
     // Update content_text with latest API content
     if (post.plaintext) {
-      await this.writeContentText(itemId, post.plaintext, post.html);
+      await this.writeContentText(
+        itemId,
+        "ghost_api",
+        post.plaintext,
+        post.html,
+      );
     }
   }
 
@@ -329,7 +403,7 @@ export class ContentSyncService {
 
     if (existing) {
       // Check if we should update
-      if (!this.shouldUpdate(existing.source, "contentful_api")) {
+      if (!this.shouldUpdate(existing, "contentful_api")) {
         result.skipped++;
         return;
       }
@@ -342,23 +416,35 @@ export class ContentSyncService {
       }
 
       // Update existing record
-      await this.updateLearnPage(existing.id, page, normalizedUrl);
+      await this.audited(
+        "contentSync.learnPages",
+        "contentful_api",
+        userId,
+        existing.id,
+        () => this.updateLearnPage(existing.id, page, normalizedUrl),
+      );
       result.updated++;
     } else {
       // Create new record
-      await this.createLearnPage(page, normalizedUrl, userId);
+      await this.audited(
+        "contentSync.learnPages",
+        "contentful_api",
+        userId,
+        null,
+        () => this.createLearnPage(page, normalizedUrl, userId),
+      );
       result.created++;
     }
   }
 
   /**
-   * Create a new learn page record
+   * Create a new learn page record, returning its id
    */
   private async createLearnPage(
     page: LearnPageEntry,
     normalizedUrl: string,
     userId: string,
-  ): Promise<void> {
+  ): Promise<string | undefined> {
     const contentTypeId = await this.getContentTypeId("website_content");
 
     // Collect tags from section and subSection
@@ -383,7 +469,7 @@ export class ContentSyncService {
         description: page.fields.metaDescription
           ? String(page.fields.metaDescription)
           : undefined,
-        tags: tagNames,
+        tags: await this.mapTags(tagNames),
         source: "contentful_api",
         contentfulId: page.sys.id,
         lastModifiedAt: new Date(page.sys.updatedAt),
@@ -394,9 +480,11 @@ export class ContentSyncService {
     if (inserted && page.fields.content) {
       const plainText = this.extractRichTextPlain(page.fields.content);
       if (plainText) {
-        await this.writeContentText(inserted.id, plainText);
+        await this.writeContentText(inserted.id, "contentful_api", plainText);
       }
     }
+
+    return inserted?.id;
   }
 
   /**
@@ -441,7 +529,7 @@ export class ContentSyncService {
         description: page.fields.metaDescription
           ? String(page.fields.metaDescription)
           : undefined,
-        tags: tagNames,
+        tags: await this.mapTags(tagNames),
         contentfulId: page.sys.id,
         lastModifiedAt: new Date(page.sys.updatedAt),
         ...(urlChanged && { previousUrls }),
@@ -452,7 +540,7 @@ export class ContentSyncService {
     if (page.fields.content) {
       const plainText = this.extractRichTextPlain(page.fields.content);
       if (plainText) {
-        await this.writeContentText(itemId, plainText);
+        await this.writeContentText(itemId, "contentful_api", plainText);
       }
     }
   }
@@ -500,7 +588,7 @@ export class ContentSyncService {
       ? String(study.fields.externalLink)
       : null;
     const normalizedUrl = externalLink
-      ? externalLink
+      ? canonicalizeUrl(externalLink)
       : this.normalizeContentfulUrl(
           `case-studies/${String(study.fields.slug)}`,
         );
@@ -520,10 +608,21 @@ export class ContentSyncService {
     });
 
     if (existing) {
+      if (existing.deletedAt) {
+        result.skipped++;
+        return;
+      }
+
       // If the existing item is from a different source (e.g., a Ghost blog post
       // that a case study links to), merge metadata instead of skipping (#16)
-      if (!this.shouldUpdate(existing.source, "contentful_api")) {
-        await this.mergeCaseStudyMetadata(existing.id, existing.tags, study);
+      if (!this.shouldUpdate(existing, "contentful_api")) {
+        await this.audited(
+          "contentSync.caseStudies",
+          "contentful_api",
+          userId,
+          existing.id,
+          () => this.mergeCaseStudyMetadata(existing.id, existing.tags, study),
+        );
         result.updated++;
         return;
       }
@@ -536,11 +635,23 @@ export class ContentSyncService {
       }
 
       // Update existing record
-      await this.updateCaseStudy(existing.id, study, normalizedUrl);
+      await this.audited(
+        "contentSync.caseStudies",
+        "contentful_api",
+        userId,
+        existing.id,
+        () => this.updateCaseStudy(existing.id, study, normalizedUrl),
+      );
       result.updated++;
     } else {
       // Create new record
-      await this.createCaseStudy(study, normalizedUrl, userId);
+      await this.audited(
+        "contentSync.caseStudies",
+        "contentful_api",
+        userId,
+        null,
+        () => this.createCaseStudy(study, normalizedUrl, userId),
+      );
       result.created++;
     }
   }
@@ -555,11 +666,12 @@ export class ContentSyncService {
     existingTags: string[] | null,
     study: CaseStudyEntry,
   ): Promise<void> {
-    const newTags = new Set(existingTags ?? []);
-    newTags.add("case-study");
-    if (study.fields.category) {
-      newTags.add(String(study.fields.category));
-    }
+    const studyTags = await this.mapTags(
+      study.fields.category
+        ? ["case-study", String(study.fields.category)]
+        : ["case-study"],
+    );
+    const newTags = new Set([...(existingTags ?? []), ...studyTags]);
 
     await db
       .update(contentItems)
@@ -571,13 +683,13 @@ export class ContentSyncService {
   }
 
   /**
-   * Create a new case study record
+   * Create a new case study record, returning its id
    */
   private async createCaseStudy(
     study: CaseStudyEntry,
     normalizedUrl: string,
     userId: string,
-  ): Promise<void> {
+  ): Promise<string | undefined> {
     const contentTypeId = await this.getContentTypeId("case_study");
 
     const description = study.fields.overview
@@ -597,9 +709,11 @@ export class ContentSyncService {
         contentTypeId,
         publishDate: new Date(publishedAt).toISOString().split("T")[0]!,
         description,
-        tags: study.fields.category
-          ? ["case-study", String(study.fields.category)]
-          : ["case-study"],
+        tags: await this.mapTags(
+          study.fields.category
+            ? ["case-study", String(study.fields.category)]
+            : ["case-study"],
+        ),
         source: "contentful_api",
         contentfulId: study.sys.id,
         lastModifiedAt: new Date(study.sys.updatedAt),
@@ -610,9 +724,11 @@ export class ContentSyncService {
     if (inserted && study.fields.content) {
       const plainText = this.extractRichTextPlain(study.fields.content);
       if (plainText) {
-        await this.writeContentText(inserted.id, plainText);
+        await this.writeContentText(inserted.id, "contentful_api", plainText);
       }
     }
+
+    return inserted?.id;
   }
 
   /**
@@ -652,9 +768,11 @@ export class ContentSyncService {
         currentUrl: normalizedUrl,
         publishDate: new Date(publishedAt).toISOString().split("T")[0]!,
         description,
-        tags: study.fields.category
-          ? ["case-study", String(study.fields.category)]
-          : ["case-study"],
+        tags: await this.mapTags(
+          study.fields.category
+            ? ["case-study", String(study.fields.category)]
+            : ["case-study"],
+        ),
         contentfulId: study.sys.id,
         lastModifiedAt: new Date(study.sys.updatedAt),
         ...(urlChanged && { previousUrls }),
@@ -665,7 +783,7 @@ export class ContentSyncService {
     if (study.fields.content) {
       const plainText = this.extractRichTextPlain(study.fields.content);
       if (plainText) {
-        await this.writeContentText(itemId, plainText);
+        await this.writeContentText(itemId, "contentful_api", plainText);
       }
     }
   }
@@ -695,7 +813,7 @@ export class ContentSyncService {
         .limit(1);
 
       if (existing) {
-        if (!this.shouldUpdate(existing.source, "ghost_api")) {
+        if (!this.shouldUpdate(existing, "ghost_api")) {
           result.skipped++;
           result.details.push({
             title: post.title,
@@ -760,7 +878,7 @@ export class ContentSyncService {
       });
 
       if (existing) {
-        if (!this.shouldUpdate(existing.source, "contentful_api")) {
+        if (!this.shouldUpdate(existing, "contentful_api")) {
           result.skipped++;
           result.details.push({ title, url: normalizedUrl, status: "skip" });
         } else {
@@ -807,7 +925,7 @@ export class ContentSyncService {
         : undefined;
       const slug = String(study.fields.slug);
       const normalizedUrl = externalLink
-        ? externalLink
+        ? canonicalizeUrl(externalLink)
         : this.normalizeContentfulUrl(`case-studies/${slug}`);
 
       // Skip case studies that link to external (non-tigerdata.com) domains (#16)
@@ -825,7 +943,7 @@ export class ContentSyncService {
       });
 
       if (existing) {
-        if (!this.shouldUpdate(existing.source, "contentful_api")) {
+        if (!this.shouldUpdate(existing, "contentful_api")) {
           result.skipped++;
           result.details.push({ title, url: normalizedUrl, status: "skip" });
         } else {
@@ -869,7 +987,8 @@ export class ContentSyncService {
       errors: [],
     };
 
-    for (const video of videos) {
+    for (const rawVideo of videos) {
+      const video = { ...rawVideo, url: canonicalizeUrl(rawVideo.url) };
       try {
         await this.syncYouTubeVideo(video, result, userId);
       } catch (error) {
@@ -901,7 +1020,7 @@ export class ContentSyncService {
     });
 
     if (existing) {
-      if (!this.shouldUpdate(existing.source, "youtube_api")) {
+      if (!this.shouldUpdate(existing, "youtube_api")) {
         result.skipped++;
         return;
       }
@@ -917,21 +1036,33 @@ export class ContentSyncService {
         return;
       }
 
-      await this.updateYouTubeVideo(existing.id, video);
+      await this.audited(
+        "contentSync.youtubeVideos",
+        "youtube_api",
+        userId,
+        existing.id,
+        () => this.updateYouTubeVideo(existing.id, video),
+      );
       result.updated++;
     } else {
-      await this.createYouTubeVideo(video, userId);
+      await this.audited(
+        "contentSync.youtubeVideos",
+        "youtube_api",
+        userId,
+        null,
+        () => this.createYouTubeVideo(video, userId),
+      );
       result.created++;
     }
   }
 
   /**
-   * Create a new YouTube video record and fetch transcript
+   * Create a new YouTube video record and fetch transcript, returning its id
    */
   private async createYouTubeVideo(
     video: YouTubeVideo,
     userId: string,
-  ): Promise<void> {
+  ): Promise<string | undefined> {
     const contentTypeId = await this.getContentTypeId("youtube_video");
 
     const [inserted] = await db
@@ -943,7 +1074,7 @@ export class ContentSyncService {
         publishDate: new Date(video.publishedAt).toISOString().split("T")[0]!,
         description: video.description || undefined,
         author: video.channelTitle || undefined,
-        tags: video.tags.length > 0 ? video.tags : [],
+        tags: await this.mapTags(video.tags),
         source: "youtube_api" as const,
         youtubeVideoId: video.id,
         lastModifiedAt: new Date(video.publishedAt),
@@ -955,6 +1086,8 @@ export class ContentSyncService {
     if (inserted) {
       await this.fetchAndWriteTranscript(inserted.id, video.url);
     }
+
+    return inserted?.id;
   }
 
   /**
@@ -982,7 +1115,7 @@ export class ContentSyncService {
         publishDate: new Date(video.publishedAt).toISOString().split("T")[0]!,
         description: video.description || undefined,
         author: video.channelTitle || undefined,
-        tags: video.tags.length > 0 ? video.tags : [],
+        tags: await this.mapTags(video.tags),
         youtubeVideoId: video.id,
         lastModifiedAt: new Date(video.publishedAt),
         ...(urlChanged && { previousUrls }),
@@ -1004,7 +1137,8 @@ export class ContentSyncService {
       details: [],
     };
 
-    for (const video of videos) {
+    for (const rawVideo of videos) {
+      const video = { ...rawVideo, url: canonicalizeUrl(rawVideo.url) };
       const existing = await db.query.contentItems.findFirst({
         where: or(
           eq(contentItems.youtubeVideoId, video.id),
@@ -1013,7 +1147,7 @@ export class ContentSyncService {
       });
 
       if (existing) {
-        if (!this.shouldUpdate(existing.source, "youtube_api")) {
+        if (!this.shouldUpdate(existing, "youtube_api")) {
           result.skipped++;
           result.details.push({
             title: video.title,
@@ -1065,7 +1199,11 @@ export class ContentSyncService {
     try {
       const fetchResult = await fetchYouTubeTranscript(url);
       if (fetchResult.plainText) {
-        await this.writeContentText(contentItemId, fetchResult.plainText);
+        await this.writeContentText(
+          contentItemId,
+          "youtube_api",
+          fetchResult.plainText,
+        );
       }
     } catch (error) {
       console.warn(
@@ -1091,13 +1229,58 @@ export class ContentSyncService {
     }
   }
 
+  /**
+   * Run a sync write to one item and record the change in the audit log.
+   * `existingId` is null for creates, whose write returns the new item's id.
+   * Audit failures are logged and don't fail the sync.
+   */
+  private async audited(
+    procedure: string,
+    system: SystemActor,
+    userId: string,
+    existingId: string | null,
+    write: () => Promise<unknown>,
+  ): Promise<void> {
+    let before = new Map<string, AuditSnapshot>();
+    if (existingId) {
+      try {
+        before = await loadSnapshots("content", [existingId]);
+      } catch (error) {
+        console.error(`[Audit] Failed to snapshot ${existingId}:`, error);
+      }
+    }
+
+    const written = await write();
+    const itemId = typeof written === "string" ? written : existingId;
+    if (!itemId) return;
+
+    try {
+      await recordEntityChanges({
+        actor: { userId, system },
+        procedure,
+        entity: "content",
+        ids: [itemId],
+        before,
+      });
+    } catch (error) {
+      console.error(`[Audit] Failed to record ${procedure}:`, error);
+    }
+  }
+
   /**
    * Check if we should update a content item based on its source
    */
   private shouldUpdate(
-    existingSource: string,
+    existing: { source: string; deletedAt: Date | null },
     newSource: "ghost_api" | "contentful_api" | "youtube_api",
   ): boolean {
+    // Trashed items are left alone (and not re-created) until restored
+    if (existing.deletedAt) {
+      return false;
+    }
+
+    const existingSource = existing.source;
+
     // Only update if existing source is the same API or if it's manual/csv
     // Don't update if it's from a different API
     const apiSources = ["ghost_api", "contentful_api", "youtube_api"];
@@ -1113,14 +1296,12 @@ export class ContentSyncService {
 
   /**
    * Normalize Ghost blog post URL
-   * Remove the blog domain prefix, keep just the path
+   * Remove the blog domain prefix, keep just the path, then canonicalize
    */
   private normalizeGhostUrl(url: string): string {
     try {
       const parsed = new URL(url);
-      // Return pathname without trailing slash
-      const path = parsed.pathname.replace(/\/+$/, "");
-      return `https://www.tigerdata.com${path}`;
+      return canonicalizeUrl(`https://www.tigerdata.com${parsed.pathname}`);
     } catch {
       return url;
     }
@@ -1128,19 +1309,15 @@ export class ContentSyncService {
 
   /**
    * Normalize Contentful URL
-   * Add https://www.tigerdata.com/ prefix if not present
+   * Add https://www.tigerdata.com/ prefix if not present, then canonicalize
    */
   private normalizeContentfulUrl(url: string): string {
-    let normalized: string;
     if (url.startsWith("http://") || url.startsWith("https://")) {
-      normalized = url;
-    } else {
-      // Remove leading slash if present
-      const cleanUrl = url.startsWith("/") ? url.slice(1) : url;
-      normalized = `https://www.tigerdata.com/${cleanUrl}`;
+      return canonicalizeUrl(url);
     }
-    // Strip trailing slash for consistency
-    return normalized.replace(/\/+$/, "");
+    // Remove leading slash if present
+    const cleanUrl = url.startsWith("/") ? url.slice(1) : url;
+    return canonicalizeUrl(`https://www.tigerdata.com/${cleanUrl}`);
   }
 }
 
@@ -0,0 +1,165 @@
+/**
+ * Content Trash
+ * Deleting content moves it to the trash (content_items.deleted_at) instead
+ * of removing the row, so its campaigns, indexed text and history survive.
+ * Trashed items are hidden from lists, search, exports and scheduled jobs,
+ * can be restored for trashRetentionDays, and are then purged for good by a
+ * daily job. Admins can also purge items early.
+ */
+
+import {
+  and,
+  count,
+  desc,
+  eq,
+  gte,
+  inArray,
+  isNotNull,
+  lt,
+  sql,
+} from "drizzle-orm";
+import { indexingConfig } from "~/server/config/indexing-config";
+import { db } from "~/server/db";
+import { contentItems, contentTypes, users } from "~/server/db/schema";
+import {
+  buildContentScopeWhere,
+  type ContentScope,
+  hasContentFilter,
+  loadViewQuery,
+} from "./content-query";
+
+export const TRASH_PURGE_QUEUE = "purge-trash";
+
+// One purge at a time
+export const TRASH_PURGE_SINGLETON_KEY = "purge-trash";
+
+const retentionCutoff = sql`now() - make_interval(days => ${indexingConfig.trashRetentionDays})`;
+
+const isTrashed = isNotNull(contentItems.deletedAt);
+
+/**
+ * Move items to the trash: either the given ids, or every live item matching
+ * the filters. Filters (or a saved view) must narrow the inventory, so the
+ * whole of it can't be trashed at once. Returns the number of items trashed.
+ */
+export async function trashContent(
+  scope: ContentScope,
+  userId: string,
+): Promise<number> {
+  if (!("ids" in scope)) {
+    const filters =
+      "viewId" in scope
+        ? await loadViewQuery(scope.viewId, userId)
+        : scope.filters;
+    if (!hasContentFilter(filters)) {
+      throw new Error(
+        "Search or filter to choose the items to move to the trash",
+      );
+    }
+  }
+
+  const trashed = await db
+    .update(contentItems)
+    .set({ deletedAt: new Date(), deletedByUserId: userId })
+    .where(await buildContentScopeWhere(scope, userId))
+    .returning({ id: contentItems.id });
+
+  console.log(`[Trash] Moved ${trashed.length} items to the trash`);
+  return trashed.length;
+}
+
+/**
+ * Trashed items, most recently deleted first, with the date each is purged
+ */
+export async function listTrash(limit: number, offset: number) {
+  const [items, [total]] = await Promise.all([
+    db
+      .select({
+        id: contentItems.id,
+        title: contentItems.title,
+        currentUrl: contentItems.currentUrl,
+        contentTypeName: contentTypes.name,
+        contentTypeColor: contentTypes.color,
+        deletedAt: contentItems.deletedAt,
+        deletedBy: sql<string | null>`coalesce(${users.name}, ${users.email})`,
+      })
+      .from(contentItems)
+      .leftJoin(contentTypes, eq(contentTypes.id, contentItems.contentTypeId))
+      .leftJoin(users, eq(users.id, contentItems.deletedByUserId))
+      .where(isTrashed)
+      .orderBy(desc(contentItems.deletedAt))
+      .limit(limit)
+      .offset(offset),
+    db.select({ count: count() }).from(contentItems).where(isTrashed),
+  ]);
+
+  const retentionMs = indexingConfig.trashRetentionDays * 24 * 60 * 60 * 1000;
+  return {
+    items: items.map((item) => ({
+      ...item,
+      purgeAt:
+        item.deletedAt && new Date(item.deletedAt.getTime() + retentionMs),
+    })),
+    total: total?.count ?? 0,
+    retentionDays: indexingConfig.trashRetentionDays,
+  };
+}
+
+/**
+ * Take items back out of the trash. Items past the retention period are
+ * awaiting purge and can't be restored.
+ */
+export async function restoreContent(ids: string[]): Promise<number> {
+  const restored = await db
+    .update(contentItems)
+    .set({ deletedAt: null, deletedByUserId: null, updatedAt: new Date() })
+    .where(
+      and(
+        inArray(contentItems.id, ids),
+        gte(contentItems.deletedAt, retentionCutoff),
+      ),
+    )
+    .returning({ id: contentItems.id });
+
+  console.log(`[Trash] Restored ${restored.length} items`);
+  return restored.length;
+}
+
+/**
+ * Ids a purge would delete (all trashed items when `ids` is omitted)
+ */
+export async function findPurgeIds(input: { ids?: string[] }) {
+  if (input.ids) return input.ids;
+  const rows = await db
+    .select({ id: contentItems.id })
+    .from(contentItems)
+    .where(isTrashed);
+  return rows.map((row) => row.id);
+}
+
+/**
+ * Permanently delete trashed items (all of them when `ids` is omitted),
+ * cascading to their campaigns, indexed text and history
+ */
+export async function purgeContent(ids?: string[]): Promise<number> {
+  const purged = await db
+    .delete(contentItems)
+    .where(ids ? and(isTrashed, inArray(contentItems.id, ids)) : isTrashed)
+    .returning({ id: contentItems.id });
+
+  console.log(`[Trash] Purged ${purged.length} items`);
+  return purged.length;
+}
+
+/**
+ * Permanently delete items trashed longer ago than the retention period
+ */
+export async function purgeExpiredTrash(): Promise<number> {
+  const purged = await db
+    .delete(contentItems)
+    .where(and(isTrashed, lt(contentItems.deletedAt, retentionCutoff)))
+    .returning({ id: contentItems.id });
+
+  console.log(`[Trash] Purged ${purged.length} expired items`);
+  return purged.length;
+}
@@ -0,0 +1,216 @@
+/**
+ * Content Text Versions
+ * content_text only holds an item's latest text, overwritten by every crawl,
+ * transcript submission and API sync. Each write also records a version here
+ * when the text differs from the previous version, so past content can be
+ * compared and restored.
+ */
+
+import { and, desc, eq } from "drizzle-orm";
+import { db } from "~/server/db";
+import {
+  contentItems,
+  contentText,
+  contentTextVersions,
+  type contentVersionSourceEnum,
+} from "~/server/db/schema";
+import { notDeleted } from "./content-query";
+import { type DiffSegment, diffWords } from "./word-diff";
+
+export type ContentVersionSource =
+  (typeof contentVersionSourceEnum.enumValues)[number];
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface VersionedText {
+  contentHash: string;
+  fullText: string;
+  plainText: string;
+  wordCount: number;
+  tokenCount: number;
+}
+
+/**
+ * Record `text` as the newest version of an item, unless it is identical to
+ * the current newest version. Pass a transaction to commit it together with
+ * the content_text write.
+ */
+export async function recordContentVersion(
+  contentItemId: string,
+  text: VersionedText,
+  source: ContentVersionSource,
+  options: { tx?: Transaction; userId?: string } = {},
+): Promise<void> {
+  const executor = options.tx ?? db;
+
+  const [latest] = await executor
+    .select({ contentHash: contentTextVersions.contentHash })
+    .from(contentTextVersions)
+    .where(eq(contentTextVersions.contentItemId, contentItemId))
+    .orderBy(desc(contentTextVersions.createdAt))
+    .limit(1);
+
+  if (latest?.contentHash === text.contentHash) {
+    return;
+  }
+
+  await executor.insert(contentTextVersions).values({
+    contentItemId,
+    contentHash: text.contentHash,
+    fullText: text.fullText,
+    plainText: text.plainText,
+    wordCount: text.wordCount,
+    tokenCount: text.tokenCount,
+    source,
+    createdByUserId: options.userId,
+  });
+}
+
+/**
+ * Versions of an item, newest first (without their text)
+ */
+export async function listContentVersions(contentItemId: string) {
+  const [versions, current] = await Promise.all([
+    db.query.contentTextVersions.findMany({
+      where: eq(contentTextVersions.contentItemId, contentItemId),
+      orderBy: [desc(contentTextVersions.createdAt)],
+      columns: {
+        id: true,
+        contentHash: true,
+        wordCount: true,
+        source: true,
+        createdAt: true,
+      },
+      with: { createdByUser: { columns: { name: true, email: true } } },
+    }),
+    db.query.contentText.findFirst({
+      where: eq(contentText.contentItemId, contentItemId),
+      columns: { contentHash: true },
+    }),
+  ]);
+
+  // The current text is the newest version with the live hash
+  const currentId = versions.find(
+    (v) => v.contentHash === current?.contentHash,
+  )?.id;
+
+  return versions.map((version) => ({
+    ...version,
+    isCurrent: version.id === currentId,
+  }));
+}
+
+/**
+ * Id of the item a version belongs to, as a list for audit meta
+ */
+export async function findVersionItemIds(input: {
+  versionId: string;
+}): Promise<string[]> {
+  const version = await db.query.contentTextVersions.findFirst({
+    where: eq(contentTextVersions.id, input.versionId),
+    columns: { contentItemId: true },
+  });
+  return version ? [version.contentItemId] : [];
+}
+
+async function getVersion(versionId: string) {
+  const version = await db.query.contentTextVersions.findFirst({
+    where: eq(contentTextVersions.id, versionId),
+  });
+  if (!version) {
+    throw new Error("Content version not found");
+  }
+  return version;
+}
+
+/**
+ * Word-level diff between two versions of the same item
+ */
+export async function diffContentVersions(
+  fromVersionId: string,
+  toVersionId: string,
+): Promise<{ segments: DiffSegment[]; added: number; removed: number }> {
+  const [from, to] = await Promise.all([
+    getVersion(fromVersionId),
+    getVersion(toVersionId),
+  ]);
+  if (from.contentItemId !== to.contentItemId) {
+    throw new Error("Versions belong to different content items");
+  }
+
+  const segments = diffWords(from.plainText, to.plainText);
+  const countWords = (type: DiffSegment["type"]) =>
+    segments
+      .filter((segment) => segment.type === type)
+      .reduce(
+        (total, segment) =>
+          total + segment.text.split(/\s+/).filter(Boolean).length,
+        0,
+      );
+
+  return {
+    segments,
+    added: countWords("insert"),
+    removed: countWords("delete"),
+  };
+}
+
+/**
+ * Make a past version the item's current text again. Returns the content_text
+ * id, which the caller re-indexes. A scheduled re-crawl or API sync will
+ * replace it again if the live content differs.
+ */
+export async function restoreContentVersion(
+  versionId: string,
+  userId: string,
+): Promise<{ contentItemId: string; contentTextId: string }> {
+  const version = await getVersion(versionId);
+
+  // Restoring re-indexes the text, which would put a trashed item back in search
+  const item = await db.query.contentItems.findFirst({
+    where: and(eq(contentItems.id, version.contentItemId), notDeleted),
+    columns: { id: true },
+  });
+  if (!item) {
+    throw new Error("Content item not found");
+  }
+
+  return db.transaction(async (tx) => {
+    const [record] = await tx
+      .insert(contentText)
+      .values({
+        contentItemId: version.contentItemId,
+        fullText: version.fullText,
+        plainText: version.plainText,
+        wordCount: version.wordCount,
+        tokenCount: version.tokenCount,
+        contentHash: version.contentHash,
+        crawlDurationMs: 0,
+        indexStatus: "pending",
+      })
+      .onConflictDoUpdate({
+        target: contentText.contentItemId,
+        set: {
+          fullText: version.fullText,
+          plainText: version.plainText,
+          wordCount: version.wordCount,
+          tokenCount: version.tokenCount,
+          contentHash: version.contentHash,
+          indexStatus: "pending",
+          indexError: null,
+        },
+      })
+      .returning({ id: contentText.id });
+
+    if (!record) {
+      throw new Error("Failed to restore content version");
+    }
+
+    await recordContentVersion(version.contentItemId, version, "restore", {
+      tx,
+      userId,
+    });
+
+    return { contentItemId: version.contentItemId, contentTextId: record.id };
+  });
+}
@@ -2,11 +2,14 @@ import { eq } from "drizzle-orm";
 import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
 import { ZodError, z } from "zod";
 import * as schema from "~/server/db/schema";
+import { recordEntityChanges } from "~/server/services/audit-log";
+import { canonicalizeUrl } from "~/server/services/canonical-url";
 import { extractYouTubeVideoId } from "~/server/services/content-fetcher";
 import {
   fetchUrlMetadata,
   fetchUrlMetadataBatch,
 } from "~/server/services/publish-date-fetcher";
+import { mapTagsOrThrow } from "~/server/services/tag-taxonomy";
 import { parseFlexibleDate } from "~/server/utils/date-parser";
 import { indexContent } from "./indexing-orchestrator";
 
@@ -16,14 +19,8 @@ const { contentItems, contentCampaigns, campaigns } = schema;
 const csvRowSchema = z.object({
   title: z.string().optional().or(z.literal("")),
   current_url: z.string().url("Invalid URL format"),
-  content_type: z.enum([
-    "youtube_video",
-    "blog_post",
-    "case_study",
-    "website_content",
-    "third_party",
-    "other",
-  ]),
+  // Checked against the content_types table per import (see rowSchema)
+  content_type: z.string().trim().min(1, "Content type is required"),
   publish_date: z
     .string()
     .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
@@ -36,6 +33,46 @@ const csvRowSchema = z.object({
   campaigns: z.string().optional(), // Comma-separated string
 });
 
+/**
+ * Column order accepted by the importer (also used by CSV export so
+ * exported files can be re-imported as-is)
+ */
+export const CSV_IMPORT_COLUMNS = Object.keys(csvRowSchema.shape) as Array<
+  keyof typeof csvRowSchema.shape
+>;
+
+/**
+ * Tags and campaigns share one cell, separated by commas. Commas and
+ * backslashes inside a name are escaped with a backslash, so every name
+ * survives an export and re-import.
+ */
+export function joinCsvList(names: string[]): string {
+  return names.map((name) => name.replace(/[\\,]/g, "\\$&")).join(", ");
+}
+
+/**
+ * Split a tags or campaigns cell written by joinCsvList (or by hand)
+ */
+export function splitCsvList(cell: string): string[] {
+  const names: string[] = [];
+  let current = "";
+  for (let i = 0; i < cell.length; i++) {
+    const char = cell[i];
+    const next = cell[i + 1];
+    if (char === "\\" && (next === "," || next === "\\")) {
+      current += next;
+      i++;
+    } else if (char === ",") {
+      names.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  names.push(current);
+  return names.map((name) => name.trim()).filter(Boolean);
+}
+
 interface ImportError {
   row: number;
   message: string;
@@ -102,6 +139,13 @@ export async function processImportWithProgress(
     throw new Error("System 'Other' content type not found");
   }
 
+  // Any slug in the content_types table, so exports of custom types re-import
+  const rowSchema = csvRowSchema.extend({
+    content_type: csvRowSchema.shape.content_type.pipe(
+      z.enum(allContentTypes.map((ct) => ct.slug) as [string, ...string[]]),
+    ),
+  });
+
   const enrichmentStats: MetadataEnrichmentStats = {
     title: { attempted: 0, successful: 0, failed: 0 },
     date: { attempted: 0, successful: 0, failed: 0 },
@@ -279,7 +323,8 @@ export async function processImportWithProgress(
       }
 
       // Validate row
-      const validatedRow = csvRowSchema.parse(row);
+      const validatedRow = rowSchema.parse(row);
+      validatedRow.current_url = canonicalizeUrl(validatedRow.current_url);
 
       // Check for duplicate URL within CSV
       if (processedUrls.has(validatedRow.current_url)) {
@@ -292,23 +337,21 @@ export async function processImportWithProgress(
       });
 
       if (existing) {
-        throw new Error("URL already exists in database");
+        throw new Error(
+          existing.deletedAt
+            ? "URL already exists in database (in the trash)"
+            : "URL already exists in database",
+        );
       }
 
-      // Parse tags (comma-separated)
+      // Parse tags (comma-separated), mapped onto the tag vocabulary
       const tags = validatedRow.tags
-        ? validatedRow.tags
-            .split(",")
-            .map((tag) => tag.trim())
-            .filter(Boolean)
+        ? await mapTagsOrThrow(splitCsvList(validatedRow.tags))
         : undefined;
 
       // Parse campaign names (comma-separated)
       const campaignNames = validatedRow.campaigns
-        ? validatedRow.campaigns
-            .split(",")
-            .map((name) => name.trim())
-            .filter(Boolean)
+        ? splitCsvList(validatedRow.campaigns)
         : [];
 
       // Insert content item and link campaigns in a single transaction
@@ -427,6 +470,21 @@ export async function processImportWithProgress(
     });
   }
 
+  // Audit the created items (the import itself doesn't fail on audit errors)
+  if (successfulInserts.length > 0) {
+    try {
+      await recordEntityChanges({
+        actor: { userId, system: "csv_import" },
+        procedure: "csv.import",
+        entity: "content",
+        ids: successfulInserts.map((item) => item.id),
+        before: new Map(),
+      });
+    } catch (error) {
+      console.error("Audit logging of CSV import failed:", error);
+    }
+  }
+
   // Index content (sync for ≤10 items, async for 11+)
   let indexed = 0;
   let indexingFailed = 0;
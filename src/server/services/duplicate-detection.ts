@@ -0,0 +1,319 @@
+/**
+ * Duplicate Detection
+ * Suggests pairs of content items that are likely the same page, for review
+ * and merging (see content-merge.ts). Evidence, strongest first:
+ *
+ * - same_url: the URLs are equal once canonicalized
+ * - same_text: the indexed text has the same content hash
+ * - similar_embedding: the opening chunks are near-identical in embedding
+ *   space under the active model (cross-posts, lightly edited copies)
+ * - similar_url: different URLs ending in the same distinctive slug
+ *   (e.g. a post moved from /blog/ to /learn/)
+ *
+ * Pairs a reviewer marked as distinct are not suggested again.
+ */
+
+import { asc, eq, sql } from "drizzle-orm";
+import { db } from "~/server/db";
+import {
+  contentItems,
+  contentText,
+  contentTypes,
+  duplicateDismissals,
+} from "~/server/db/schema";
+import { canonicalizeUrl } from "./canonical-url";
+import { notDeleted } from "./content-query";
+import { getActiveEmbeddingModel } from "./embedding-backfill";
+
+export type DuplicateReason =
+  | "same_url"
+  | "same_text"
+  | "similar_embedding"
+  | "similar_url";
+
+const REASON_WEIGHT: Record<DuplicateReason, number> = {
+  same_url: 4,
+  same_text: 3,
+  similar_embedding: 2,
+  similar_url: 1,
+};
+
+// Cosine distance under which two opening chunks count as the same content
+const MAX_EMBEDDING_DISTANCE = 0.05;
+// Nearest neighbours compared per item
+const EMBEDDING_NEIGHBORS = 3;
+// Shorter slugs ("pricing", "about") are too generic to match on
+const MIN_SLUG_LENGTH = 12;
+// Larger groups sharing a slug or hash are boilerplate, not duplicates
+const MAX_GROUP_SIZE = 10;
+
+export interface DuplicateItem {
+  id: string;
+  title: string;
+  currentUrl: string;
+  source: string;
+  contentTypeName: string | null;
+  wordCount: number | null;
+  hasApiId: boolean;
+  createdAt: Date;
+}
+
+export interface DuplicateCandidate {
+  items: [DuplicateItem, DuplicateItem];
+  reasons: DuplicateReason[];
+  similarity: number | null; // embedding cosine similarity, when compared
+  suggestedSurvivorId: string;
+}
+
+interface PairEvidence {
+  itemIds: [string, string];
+  reasons: Set<DuplicateReason>;
+  similarity: number | null;
+}
+
+// Pairs are unordered; store them under their sorted ids
+function orderPair(a: string, b: string): [string, string] {
+  return a < b ? [a, b] : [b, a];
+}
+
+/**
+ * Last path segment of a URL, if distinctive enough to match on
+ */
+function urlSlug(url: string): string | null {
+  try {
+    const segments = new URL(url).pathname.split("/").filter(Boolean);
+    const slug = segments.at(-1)?.toLowerCase();
+    return slug && slug.length >= MIN_SLUG_LENGTH ? slug : null;
+  } catch {
+    return null;
+  }
+}
+
+function groupBy<T>(values: T[], keyOf: (value: T) => string | null) {
+  const groups = new Map<string, T[]>();
+  for (const value of values) {
+    const key = keyOf(value);
+    if (key) groups.set(key, [...(groups.get(key) ?? []), value]);
+  }
+  return groups;
+}
+
+/**
+ * The item to keep: one linked to an API source (syncs keep updating it),
+ * then the one with more indexed text, then the older one
+ */
+function suggestSurvivor(a: DuplicateItem, b: DuplicateItem): string {
+  if (a.hasApiId !== b.hasApiId) return a.hasApiId ? a.id : b.id;
+  if ((a.wordCount ?? 0) !== (b.wordCount ?? 0)) {
+    return (a.wordCount ?? 0) > (b.wordCount ?? 0) ? a.id : b.id;
+  }
+  return a.createdAt <= b.createdAt ? a.id : b.id;
+}
+
+/**
+ * Item pairs whose opening chunks are near-identical under the active model
+ */
+async function findEmbeddingPairs(): Promise<
+  Array<{ itemAId: string; itemBId: string; distance: number }>
+> {
+  const activeModel = await getActiveEmbeddingModel();
+  if (!activeModel) return [];
+
+  const [sample] = await db.execute(sql`
+    SELECT embedding_dimensions
+    FROM tiger_den.content_chunks
+    WHERE embedding_model = ${activeModel} AND embedding IS NOT NULL
+    LIMIT 1
+  `);
+  const dimensions = Number(sample?.embedding_dimensions);
+  if (!dimensions) return [];
+
+  // Inlined (not a bind parameter) so the per-dimension partial HNSW index applies
+  const dims = sql.raw(String(dimensions));
+  const rows = await db.execute(sql`
+    SELECT
+      a.content_item_id AS item_a_id,
+      neighbor.content_item_id AS item_b_id,
+      neighbor.distance
+    FROM tiger_den.content_chunks ac
+    JOIN tiger_den.content_text a ON a.id = ac.content_text_id
+    CROSS JOIN LATERAL (
+      SELECT
+        b.content_item_id,
+        bc.embedding::halfvec(${dims}) <=> ac.embedding::halfvec(${dims}) AS distance
+      FROM tiger_den.content_chunks bc
+      JOIN tiger_den.content_text b ON b.id = bc.content_text_id
+      WHERE bc.chunk_index = 0
+        AND bc.embedding IS NOT NULL
+        AND bc.embedding_model = ${activeModel}
+        AND bc.embedding_dimensions = ${dims}
+        AND b.content_item_id <> a.content_item_id
+      ORDER BY bc.embedding::halfvec(${dims}) <=> ac.embedding::halfvec(${dims})
+      LIMIT ${EMBEDDING_NEIGHBORS}
+    ) neighbor
+    WHERE ac.chunk_index = 0
+      AND ac.embedding IS NOT NULL
+      AND ac.embedding_model = ${activeModel}
+      AND ac.embedding_dimensions = ${dims}
+      AND neighbor.distance < ${MAX_EMBEDDING_DISTANCE}
+  `);
+
+  return rows.map((row) => ({
+    itemAId: String(row.item_a_id),
+    itemBId: String(row.item_b_id),
+    distance: Number(row.distance),
+  }));
+}
+
+/**
+ * Suggested duplicate pairs, strongest evidence first
+ */
+export async function findDuplicateCandidates(
+  limit = 100,
+): Promise<{ candidates: DuplicateCandidate[]; total: number }> {
+  const items = await db
+    .select({
+      id: contentItems.id,
+      title: contentItems.title,
+      currentUrl: contentItems.currentUrl,
+      source: contentItems.source,
+      contentTypeName: contentTypes.name,
+      wordCount: contentText.wordCount,
+      contentHash: contentText.contentHash,
+      ghostId: contentItems.ghostId,
+      contentfulId: contentItems.contentfulId,
+      youtubeVideoId: contentItems.youtubeVideoId,
+      createdAt: contentItems.createdAt,
+    })
+    .from(contentItems)
+    .leftJoin(contentTypes, eq(contentItems.contentTypeId, contentTypes.id))
+    .leftJoin(contentText, eq(contentText.contentItemId, contentItems.id))
+    .where(notDeleted)
+    .orderBy(asc(contentItems.createdAt));
+
+  const pairs = new Map<string, PairEvidence>();
+  const addPair = (
+    a: string,
+    b: string,
+    reason: DuplicateReason,
+    similarity: number | null = null,
+  ) => {
+    const itemIds = orderPair(a, b);
+    const key = itemIds.join(":");
+    const pair = pairs.get(key) ?? {
+      itemIds,
+      reasons: new Set<DuplicateReason>(),
+      similarity: null,
+    };
+    pair.reasons.add(reason);
+    if (similarity !== null) {
+      pair.similarity = Math.max(pair.similarity ?? 0, similarity);
+    }
+    pairs.set(key, pair);
+  };
+
+  const addGroupPairs = (
+    groups: Map<string, typeof items>,
+    reason: DuplicateReason,
+    maxGroupSize = MAX_GROUP_SIZE,
+  ) => {
+    for (const group of groups.values()) {
+      if (group.length < 2 || group.length > maxGroupSize) continue;
+      for (const [i, a] of group.entries()) {
+        for (const b of group.slice(i + 1)) {
+          addPair(a.id, b.id, reason);
+        }
+      }
+    }
+  };
+
+  // Canonical URL collisions are always reported, however many items collide
+  addGroupPairs(
+    groupBy(items, (item) => canonicalizeUrl(item.currentUrl)),
+    "same_url",
+    Number.POSITIVE_INFINITY,
+  );
+  addGroupPairs(
+    groupBy(items, (item) =>
+      item.wordCount ? (item.contentHash ?? null) : null,
+    ),
+    "same_text",
+  );
+  addGroupPairs(
+    groupBy(items, (item) => urlSlug(item.currentUrl)),
+    "similar_url",
+  );
+
+  for (const { itemAId, itemBId, distance } of await findEmbeddingPairs()) {
+    addPair(itemAId, itemBId, "similar_embedding", 1 - distance);
+  }
+
+  const dismissed = await db
+    .select({
+      itemAId: duplicateDismissals.itemAId,
+      itemBId: duplicateDismissals.itemBId,
+    })
+    .from(duplicateDismissals);
+  for (const { itemAId, itemBId } of dismissed) {
+    pairs.delete(orderPair(itemAId, itemBId).join(":"));
+  }
+
+  const itemsById = new Map(
+    items.map(
+      ({
+        contentHash: _hash,
+        ghostId,
+        contentfulId,
+        youtubeVideoId,
+        ...item
+      }) => [
+        item.id,
+        { ...item, hasApiId: !!(ghostId || contentfulId || youtubeVideoId) },
+      ],
+    ),
+  );
+
+  const strength = (pair: PairEvidence) =>
+    Math.max(...[...pair.reasons].map((reason) => REASON_WEIGHT[reason]));
+
+  const candidates: DuplicateCandidate[] = [];
+  for (const pair of [...pairs.values()].sort(
+    (a, b) =>
+      strength(b) - strength(a) ||
+      b.reasons.size - a.reasons.size ||
+      (b.similarity ?? 0) - (a.similarity ?? 0),
+  )) {
+    const a = itemsById.get(pair.itemIds[0]);
+    const b = itemsById.get(pair.itemIds[1]);
+    if (!a || !b) continue;
+
+    // Older item first
+    const ordered: [DuplicateItem, DuplicateItem] =
+      a.createdAt <= b.createdAt ? [a, b] : [b, a];
+    candidates.push({
+      items: ordered,
+      reasons: [...pair.reasons].sort(
+        (x, y) => REASON_WEIGHT[y] - REASON_WEIGHT[x],
+      ),
+      similarity: pair.similarity,
+      suggestedSurvivorId: suggestSurvivor(a, b),
+    });
+  }
+
+  return { candidates: candidates.slice(0, limit), total: candidates.length };
+}
+
+/**
+ * Stop suggesting a pair that isn't a duplicate
+ */
+export async function dismissDuplicatePair(
+  itemId: string,
+  otherItemId: string,
+  userId?: string,
+): Promise<void> {
+  const [itemAId, itemBId] = orderPair(itemId, otherItemId);
+  await db
+    .insert(duplicateDismissals)
+    .values({ itemAId, itemBId, dismissedByUserId: userId })
+    .onConflictDoNothing();
+}
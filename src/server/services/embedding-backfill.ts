@@ -0,0 +1,177 @@
+/**
+ * Embedding Backfill
+ * Fills in chunks that were stored without a usable embedding: the embedding
+ * request failed at index time (embedding is null), or the chunk was embedded
+ * with a model other than the active one. Both are invisible to the vector
+ * half of hybrid search.
+ *
+ * Runs on a pg-boss schedule and on demand from the admin queue page. Each
+ * job walks the chunks in id order for a bounded time, then hands its cursor
+ * to the next job; rate limits are retried with backoff, and a batch that
+ * fails outright fails the job so pg-boss retries it.
+ */
+
+import {
+  and,
+  asc,
+  count,
+  eq,
+  gt,
+  isNull,
+  or,
+  type SQL,
+  sql,
+} from "drizzle-orm";
+import { indexingConfig } from "~/server/config/indexing-config";
+import { db } from "~/server/db";
+import { contentChunks } from "~/server/db/schema";
+import {
+  type EmbeddingBackfillJobPayload,
+  getQueue,
+} from "~/server/queue/indexing-queue";
+import { generateEmbeddings, getActiveEmbeddingProvider } from "./embeddings";
+
+export const EMBEDDING_BACKFILL_QUEUE = "backfill-embeddings";
+
+// One backfill pass at a time
+export const EMBEDDING_BACKFILL_SINGLETON_KEY = "backfill";
+
+/**
+ * Model whose vectors search uses, or null if no provider is configured
+ */
+export async function getActiveEmbeddingModel(): Promise<string | null> {
+  try {
+    return (await getActiveEmbeddingProvider()).model;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Chunks search can't match semantically. Without an active model only
+ * chunks with no embedding at all are counted.
+ */
+export function missingEmbeddingCondition(activeModel: string | null): SQL {
+  if (!activeModel) {
+    return isNull(contentChunks.embedding);
+  }
+
+  return or(
+    isNull(contentChunks.embedding),
+    sql`${contentChunks.embeddingModel} IS DISTINCT FROM ${activeModel}`,
+  ) as SQL;
+}
+
+/**
+ * Number of chunks missing an embedding for the active model
+ */
+export async function countChunksMissingEmbeddings(): Promise<number> {
+  const activeModel = await getActiveEmbeddingModel();
+  const [row] = await db
+    .select({ count: count() })
+    .from(contentChunks)
+    .where(missingEmbeddingCondition(activeModel));
+
+  return row?.count ?? 0;
+}
+
+/**
+ * Queue a backfill pass, starting after `cursor` (a chunk id) if given
+ */
+export async function enqueueEmbeddingBackfill(cursor?: string) {
+  const queue = await getQueue();
+  await queue.send(
+    EMBEDDING_BACKFILL_QUEUE,
+    { cursor } satisfies EmbeddingBackfillJobPayload,
+    { singletonKey: EMBEDDING_BACKFILL_SINGLETON_KEY },
+  );
+}
+
+export interface EmbeddingBackfillResult {
+  done: boolean;
+  cursor?: string;
+  embedded: number;
+  failed: number;
+}
+
+/**
+ * Embed missing chunks after `cursor` for up to reembedJobTimeBudgetMs.
+ * Chunks that still fail are skipped until the next pass, so one bad chunk
+ * can't stall the rest.
+ */
+export async function processEmbeddingBackfill(
+  cursor?: string,
+): Promise<EmbeddingBackfillResult> {
+  const deadline = Date.now() + indexingConfig.reembedJobTimeBudgetMs;
+  let embedded = 0;
+  let failed = 0;
+
+  // Scheduled runs on installs without an embedding provider are a no-op
+  if (!(await getActiveEmbeddingModel())) {
+    console.log(
+      "[EmbeddingBackfill] No embedding provider configured, skipping",
+    );
+    return { done: true, embedded, failed };
+  }
+  const provider = await getActiveEmbeddingProvider();
+
+  while (Date.now() < deadline) {
+    const batch = await db
+      .select({ id: contentChunks.id, chunkText: contentChunks.chunkText })
+      .from(contentChunks)
+      .where(
+        and(
+          cursor ? gt(contentChunks.id, cursor) : undefined,
+          missingEmbeddingCondition(provider.model),
+        ),
+      )
+      .orderBy(asc(contentChunks.id))
+      .limit(indexingConfig.reembedBatchSize);
+
+    if (batch.length === 0) {
+      console.log(
+        `[EmbeddingBackfill] Complete: ${embedded} embedded, ${failed} failed`,
+      );
+      return { done: true, embedded, failed };
+    }
+
+    const embeddings = await generateEmbeddings(
+      batch.map((chunk) => chunk.chunkText),
+      provider,
+    );
+
+    // Nothing worked (provider down, still rate limited): fail the job so
+    // pg-boss retries it later from the same cursor
+    if (embeddings.every((embedding) => embedding === null)) {
+      throw new Error(
+        `Failed to embed any of ${batch.length} chunks with ${provider.model}`,
+      );
+    }
+
+    await db.transaction(async (tx) => {
+      for (const [i, chunk] of batch.entries()) {
+        const embedding = embeddings[i];
+        if (!embedding) {
+          failed++;
+          continue;
+        }
+        await tx
+          .update(contentChunks)
+          .set({
+            embedding,
+            embeddingModel: provider.model,
+            embeddingDimensions: embedding.length,
+          })
+          .where(eq(contentChunks.id, chunk.id));
+        embedded++;
+      }
+    });
+
+    cursor = batch[batch.length - 1]?.id;
+  }
+
+  console.log(
+    `[EmbeddingBackfill] Time budget reached: ${embedded} embedded, ${failed} failed, continuing after ${cursor}`,
+  );
+  return { done: false, cursor, embedded, failed };
+}
@@ -0,0 +1,82 @@
+/**
+ * Embedding Cache
+ * Embeddings keyed by (model, dimensions, SHA256 of chunk text), so
+ * re-syncing or re-indexing unchanged content reuses vectors instead of
+ * paying for them again
+ */
+
+import crypto from "node:crypto";
+import { and, eq, inArray } from "drizzle-orm";
+import { db } from "~/server/db";
+import { embeddingCache } from "~/server/db/schema";
+import { type EmbeddingProvider, generateEmbeddings } from "./embeddings";
+
+export function hashChunkText(text: string): string {
+  return crypto.createHash("sha256").update(text).digest("hex");
+}
+
+/**
+ * Embed texts with a provider, serving repeats from the cache and only
+ * requesting (batched) embeddings for texts not seen before with this model
+ * at this size.
+ * Texts whose embedding failed come back as null.
+ */
+export async function getCachedEmbeddings(
+  texts: string[],
+  provider: EmbeddingProvider,
+): Promise<Array<number[] | null>> {
+  if (texts.length === 0) {
+    return [];
+  }
+
+  const hashes = texts.map(hashChunkText);
+  const uniqueHashes = [...new Set(hashes)];
+
+  const cached = await db
+    .select({
+      chunkHash: embeddingCache.chunkHash,
+      embedding: embeddingCache.embedding,
+    })
+    .from(embeddingCache)
+    .where(
+      and(
+        eq(embeddingCache.embeddingModel, provider.model),
+        eq(embeddingCache.embeddingDimensions, provider.dimensions),
+        inArray(embeddingCache.chunkHash, uniqueHashes),
+      ),
+    );
+  const byHash = new Map(cached.map((row) => [row.chunkHash, row.embedding]));
+
+  // Embed each distinct uncached text once
+  const missing = uniqueHashes.filter((hash) => !byHash.has(hash));
+  if (missing.length > 0) {
+    const missingTexts = missing.map(
+      (hash) => texts[hashes.indexOf(hash)] ?? "",
+    );
+    const embeddings = await generateEmbeddings(missingTexts, provider);
+
+    const rows = missing.flatMap((hash, i) => {
+      const embedding = embeddings[i];
+      if (!embedding) return [];
+      byHash.set(hash, embedding);
+      return [
+        {
+          chunkHash: hash,
+          embeddingModel: provider.model,
+          embeddingDimensions: provider.dimensions,
+          embedding,
+        },
+      ];
+    });
+
+    if (rows.length > 0) {
+      await db.insert(embeddingCache).values(rows).onConflictDoNothing();
+    }
+  }
+
+  console.log(
+    `[EmbeddingCache] ${texts.length} chunks (${uniqueHashes.length} distinct): ${uniqueHashes.length - missing.length} cached, ${missing.length} embedded`,
+  );
+
+  return hashes.map((hash) => byHash.get(hash) ?? null);
+}
@@ -0,0 +1,452 @@
+/**
+ * Embedding Model Migration
+ * Re-embeds every chunk with a target model into shadow columns on a pg-boss
+ * job, then flips search over to the new vectors in one transaction.
+ *
+ * Resumable: progress (cursor + counters) is committed with every batch, so
+ * a restarted or retried job continues where the last one stopped.
+ */
+
+import { and, asc, count, desc, eq, gt, gte, sql, sum } from "drizzle-orm";
+import { indexingConfig } from "~/server/config/indexing-config";
+import { db } from "~/server/db";
+import { contentChunks, embeddingMigrations } from "~/server/db/schema";
+import {
+  type EmbeddingMigrationJobPayload,
+  getQueue,
+} from "~/server/queue/indexing-queue";
+import {
+  createEmbeddingProvider,
+  type EmbeddingProvider,
+  type EmbeddingProviderName,
+  type EmbeddingProviderSpec,
+  embedWithBackoff,
+  getActiveEmbeddingProvider,
+  getEmbeddingProvider,
+} from "./embeddings";
+
+export const EMBEDDING_MIGRATION_QUEUE = "reembed-chunks";
+
+// pgvector HNSW indexes support halfvec up to 4000 dimensions
+const MAX_INDEXED_DIMENSIONS = 4000;
+
+type EmbeddingMigration = typeof embeddingMigrations.$inferSelect;
+
+/**
+ * Estimated USD cost of embedding `tokens` with a model, or null if unknown
+ */
+export function estimateEmbeddingCost(
+  model: string,
+  tokens: number,
+): number | null {
+  const price = indexingConfig.embeddingCostPerMillionTokens[model];
+  return price === undefined ? null : (tokens / 1_000_000) * price;
+}
+
+async function getCorpusSize() {
+  const [row] = await db
+    .select({
+      chunks: count(),
+      tokens: sum(contentChunks.chunkTokenCount),
+    })
+    .from(contentChunks);
+
+  return { chunks: row?.chunks ?? 0, tokens: Number(row?.tokens ?? 0) };
+}
+
+function migrationSpec(migration: EmbeddingMigration): EmbeddingProviderSpec {
+  return {
+    provider: migration.targetProvider as EmbeddingProviderName,
+    model: migration.targetModelName,
+    dimensions: migration.targetDimensions,
+    baseUrl: migration.targetBaseUrl ?? undefined,
+  };
+}
+
+/**
+ * Validate a target spec and estimate what migrating the corpus to it costs
+ */
+export async function estimateEmbeddingMigration(spec: EmbeddingProviderSpec) {
+  const target = createEmbeddingProvider(spec);
+  const corpus = await getCorpusSize();
+
+  return {
+    targetModel: target.model,
+    dimensions: target.dimensions,
+    chunks: corpus.chunks,
+    tokens: corpus.tokens,
+    estimatedCostUsd: estimateEmbeddingCost(target.model, corpus.tokens),
+  };
+}
+
+/**
+ * Queue the next slice of work for a migration
+ */
+export async function enqueueEmbeddingMigration(migrationId: string) {
+  const queue = await getQueue();
+  await queue.send(
+    EMBEDDING_MIGRATION_QUEUE,
+    { migrationId } satisfies EmbeddingMigrationJobPayload,
+    { singletonKey: migrationId },
+  );
+}
+
+/**
+ * Start migrating every chunk to a new embedding model
+ */
+export async function startEmbeddingMigration(
+  spec: EmbeddingProviderSpec,
+  userId: string,
+): Promise<EmbeddingMigration> {
+  const running = await db.query.embeddingMigrations.findFirst({
+    where: eq(embeddingMigrations.status, "running"),
+  });
+  if (running) {
+    throw new Error(
+      `An embedding migration to ${running.targetModel} is already running`,
+    );
+  }
+
+  const target = createEmbeddingProvider(spec);
+  const active = await getActiveEmbeddingProvider();
+  if (target.model === active.model) {
+    throw new Error(`${target.model} is already the active embedding model`);
+  }
+  if (target.dimensions > MAX_INDEXED_DIMENSIONS) {
+    throw new Error(
+      `Embeddings larger than ${MAX_INDEXED_DIMENSIONS} dimensions cannot be indexed`,
+    );
+  }
+
+  // Fail fast on a misconfigured endpoint or a dimension mismatch
+  await target.embed(["embedding migration check"]);
+
+  // Leftovers from a cancelled migration
+  await db
+    .update(contentChunks)
+    .set({
+      shadowEmbedding: null,
+      shadowEmbeddingModel: null,
+      shadowEmbeddingDimensions: null,
+    })
+    .where(sql`${contentChunks.shadowEmbeddingModel} IS NOT NULL`);
+
+  // Vector index for the target dimension, so search is fast right after the flip
+  const dimensions = sql.raw(String(target.dimensions));
+  await db.execute(sql`
+    CREATE INDEX IF NOT EXISTS ${sql.raw(`content_chunks_embedding_${target.dimensions}_idx`)}
+    ON tiger_den.content_chunks
+    USING hnsw ((embedding::halfvec(${dimensions})) halfvec_cosine_ops)
+    WITH (m = 16, ef_construction = 64)
+    WHERE embedding_dimensions = ${dimensions}
+  `);
+
+  const corpus = await getCorpusSize();
+  const [migration] = await db
+    .insert(embeddingMigrations)
+    .values({
+      targetProvider: spec.provider,
+      targetModelName: target.model.slice(spec.provider.length + 1),
+      targetDimensions: target.dimensions,
+      targetBaseUrl: spec.baseUrl,
+      targetModel: target.model,
+      sourceModel: active.model,
+      totalChunks: corpus.chunks,
+      totalTokens: corpus.tokens,
+      startedByUserId: userId,
+    })
+    .returning();
+
+  if (!migration) {
+    throw new Error("Failed to create embedding migration");
+  }
+
+  await enqueueEmbeddingMigration(migration.id);
+  console.log(
+    `[EmbeddingMigration] Started ${active.model} -> ${target.model} (${corpus.chunks} chunks)`,
+  );
+
+  return migration;
+}
+
+/**
+ * Cancel a running migration and discard its shadow embeddings.
+ * Search keeps using the current model.
+ */
+export async function cancelEmbeddingMigration(migrationId: string) {
+  await db.transaction(async (tx) => {
+    await tx
+      .update(embeddingMigrations)
+      .set({ status: "cancelled", completedAt: new Date() })
+      .where(
+        and(
+          eq(embeddingMigrations.id, migrationId),
+          eq(embeddingMigrations.status, "running"),
+        ),
+      );
+    await tx
+      .update(contentChunks)
+      .set({
+        shadowEmbedding: null,
+        shadowEmbeddingModel: null,
+        shadowEmbeddingDimensions: null,
+      })
+      .where(sql`${contentChunks.shadowEmbeddingModel} IS NOT NULL`);
+  });
+}
+
+function needsReembedding(migration: EmbeddingMigration) {
+  return sql`${contentChunks.shadowEmbeddingModel} IS DISTINCT FROM ${migration.targetModel}`;
+}
+
+/**
+ * Next chunks to re-embed. The first pass walks every chunk in id order;
+ * the sweep pass then walks again for whatever still lacks a target vector:
+ * chunks (re)created after the migration started and chunks that failed.
+ */
+async function fetchNextBatch(migration: EmbeddingMigration) {
+  return db
+    .select({
+      id: contentChunks.id,
+      chunkText: contentChunks.chunkText,
+      chunkTokenCount: contentChunks.chunkTokenCount,
+    })
+    .from(contentChunks)
+    .where(
+      and(
+        migration.cursor ? gt(contentChunks.id, migration.cursor) : undefined,
+        needsReembedding(migration),
+      ),
+    )
+    .orderBy(asc(contentChunks.id))
+    .limit(indexingConfig.reembedBatchSize);
+}
+
+/**
+ * Chunks anywhere in the table still without a target vector. Ids are
+ * random, so a chunk created behind the sweep's cursor is only found here.
+ */
+async function countRemainingChunks(migration: EmbeddingMigration) {
+  const [row] = await db
+    .select({ chunks: count() })
+    .from(contentChunks)
+    .where(needsReembedding(migration));
+  return row?.chunks ?? 0;
+}
+
+type ChunkBatch = Awaited<ReturnType<typeof fetchNextBatch>>;
+
+/**
+ * Embed a batch in one request; if that fails, fall back to one chunk at a
+ * time so a single bad chunk doesn't stall the migration. Throws if nothing
+ * in the batch could be embedded (provider down, rate limited, ...) so the
+ * job is retried later without advancing the cursor.
+ */
+async function embedBatch(provider: EmbeddingProvider, batch: ChunkBatch) {
+  try {
+    return await embedWithBackoff(
+      provider,
+      batch.map((chunk) => chunk.chunkText),
+    );
+  } catch (batchError) {
+    console.warn(
+      "[EmbeddingMigration] Batch embed failed, retrying per chunk:",
+      batchError,
+    );
+
+    const embeddings = await Promise.all(
+      batch.map(async (chunk) => {
+        try {
+          const [embedding] = await embedWithBackoff(provider, [
+            chunk.chunkText,
+          ]);
+          return embedding ?? null;
+        } catch (error) {
+          console.error(
+            `[EmbeddingMigration] Failed to embed chunk ${chunk.id}:`,
+            error,
+          );
+          return null;
+        }
+      }),
+    );
+
+    if (embeddings.every((embedding) => embedding === null)) {
+      throw batchError;
+    }
+    return embeddings;
+  }
+}
+
+/**
+ * Swap the shadow embeddings into place and make the target model active.
+ * Only called once every chunk has a target vector.
+ */
+async function completeEmbeddingMigration(migration: EmbeddingMigration) {
+  await db.transaction(async (tx) => {
+    await tx
+      .update(contentChunks)
+      .set({
+        embedding: sql`${contentChunks.shadowEmbedding}`,
+        embeddingModel: sql`${contentChunks.shadowEmbeddingModel}`,
+        embeddingDimensions: sql`${contentChunks.shadowEmbeddingDimensions}`,
+        shadowEmbedding: null,
+        shadowEmbeddingModel: null,
+        shadowEmbeddingDimensions: null,
+      })
+      .where(eq(contentChunks.shadowEmbeddingModel, migration.targetModel));
+
+    await tx
+      .update(embeddingMigrations)
+      .set({ status: "completed", completedAt: new Date(), lastError: null })
+      .where(eq(embeddingMigrations.id, migration.id));
+  });
+
+  console.log(
+    `[EmbeddingMigration] Completed: search now uses ${migration.targetModel}`,
+  );
+}
+
+/**
+ * Process a migration for up to reembedJobTimeBudgetMs, then hand off to a
+ * fresh job. Returns true once the migration is finished (or no longer running).
+ */
+export async function processEmbeddingMigration(
+  migrationId: string,
+): Promise<boolean> {
+  const deadline = Date.now() + indexingConfig.reembedJobTimeBudgetMs;
+
+  while (Date.now() < deadline) {
+    const migration = await db.query.embeddingMigrations.findFirst({
+      where: eq(embeddingMigrations.id, migrationId),
+    });
+    if (!migration || migration.status !== "running") {
+      return true;
+    }
+
+    const batch = await fetchNextBatch(migration);
+
+    if (batch.length === 0) {
+      if (migration.sweeping) {
+        const remaining = await countRemainingChunks(migration);
+        if (remaining === 0) {
+          await completeEmbeddingMigration(migration);
+          return true;
+        }
+
+        // Never flip with chunks left on the old model; the retried or
+        // resumed job sweeps again from the start
+        const message = `${remaining} ${remaining === 1 ? "chunk still needs" : "chunks still need"} re-embedding with ${migration.targetModel}`;
+        await db
+          .update(embeddingMigrations)
+          .set({ cursor: null, lastError: message })
+          .where(eq(embeddingMigrations.id, migration.id));
+        throw new Error(message);
+      }
+
+      // First pass done; count chunks created since the start for the sweep
+      const [created] = await db
+        .select({
+          chunks: count(),
+          tokens: sum(contentChunks.chunkTokenCount),
+        })
+        .from(contentChunks)
+        .where(gte(contentChunks.createdAt, migration.startedAt));
+      await db
+        .update(embeddingMigrations)
+        .set({
+          sweeping: true,
+          cursor: null,
+          totalChunks: sql`${embeddingMigrations.totalChunks} + ${created?.chunks ?? 0}`,
+          totalTokens: sql`${embeddingMigrations.totalTokens} + ${Number(created?.tokens ?? 0)}`,
+        })
+        .where(eq(embeddingMigrations.id, migration.id));
+      continue;
+    }
+
+    const provider = getEmbeddingProvider(migrationSpec(migration));
+    let embeddings: Array<number[] | null>;
+    try {
+      embeddings = await embedBatch(provider, batch);
+    } catch (error) {
+      await db
+        .update(embeddingMigrations)
+        .set({
+          lastError: error instanceof Error ? error.message : String(error),
+        })
+        .where(eq(embeddingMigrations.id, migration.id));
+      throw error;
+    }
+
+    const failed = embeddings.filter((embedding) => embedding === null).length;
+    const tokens = batch.reduce(
+      (total, chunk) => total + chunk.chunkTokenCount,
+      0,
+    );
+    const lastChunk = batch[batch.length - 1];
+
+    // Shadow vectors and progress commit together, so a crash never loses or repeats work
+    await db.transaction(async (tx) => {
+      for (const [i, chunk] of batch.entries()) {
+        const embedding = embeddings[i];
+        if (!embedding) continue;
+        await tx
+          .update(contentChunks)
+          .set({
+            shadowEmbedding: embedding,
+            shadowEmbeddingModel: migration.targetModel,
+            shadowEmbeddingDimensions: embedding.length,
+          })
+          .where(eq(contentChunks.id, chunk.id));
+      }
+
+      await tx
+        .update(embeddingMigrations)
+        .set({
+          cursor: lastChunk?.id,
+          processedChunks: sql`${embeddingMigrations.processedChunks} + ${batch.length}`,
+          failedChunks: sql`${embeddingMigrations.failedChunks} + ${failed}`,
+          processedTokens: sql`${embeddingMigrations.processedTokens} + ${tokens}`,
+          lastError: null,
+        })
+        .where(eq(embeddingMigrations.id, migration.id));
+    });
+  }
+
+  return false;
+}
+
+/**
+ * Active model plus the most recent migration, for the admin queue page
+ */
+export async function getEmbeddingMigrationStatus() {
+  let activeModel: string | null = null;
+  let activeModelError: string | null = null;
+  try {
+    activeModel = (await getActiveEmbeddingProvider()).model;
+  } catch (error) {
+    activeModelError = error instanceof Error ? error.message : String(error);
+  }
+
+  const latest = await db.query.embeddingMigrations.findFirst({
+    orderBy: [desc(embeddingMigrations.startedAt)],
+  });
+
+  return {
+    activeModel,
+    activeModelError,
+    migration: latest
+      ? {
+          ...latest,
+          estimatedCostUsd: estimateEmbeddingCost(
+            latest.targetModel,
+            latest.totalTokens,
+          ),
+          spentCostUsd: estimateEmbeddingCost(
+            latest.targetModel,
+            latest.processedTokens,
+          ),
+        }
+      : null,
+  };
+}
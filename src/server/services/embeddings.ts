@@ -1,44 +1,272 @@
+import crypto from "node:crypto";
+import { desc, eq } from "drizzle-orm";
 import OpenAI from "openai";
 import { env } from "~/env";
+import {
+  type IndexingConfig,
+  indexingConfig,
+} from "~/server/config/indexing-config";
+import { db } from "~/server/db";
+import { embeddingMigrations } from "~/server/db/schema";
 
-// Lazy initialize OpenAI client only when needed
-let openaiClient: OpenAI | null = null;
+/**
+ * A source of text embeddings.
+ * `model` is recorded on every chunk (e.g. "openai:text-embedding-3-small") so
+ * vectors produced by different models are never compared with each other.
+ */
+export interface EmbeddingProvider {
+  readonly model: string;
+  readonly dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
 
-function getOpenAIClient(): OpenAI {
-  if (!openaiClient) {
-    if (!env.OPENAI_API_KEY) {
-      throw new Error(
-        "OPENAI_API_KEY is required for Full Content (AI) search. Use Keyword (Free) search instead, or add OPENAI_API_KEY to your .env file.",
-      );
+export type EmbeddingProviderName = IndexingConfig["embeddingProvider"];
+
+interface OpenAIEmbeddingProviderOptions {
+  name: EmbeddingProviderName;
+  model: string;
+  dimensions: number;
+  apiKey: string;
+  baseURL?: string;
+  // Only OpenAI's text-embedding-3 models accept a requested dimension
+  sendDimensions: boolean;
+}
+
+/**
+ * OpenAI embeddings API, or any server speaking the same protocol
+ * (Ollama, vLLM, LM Studio, ...) when a base URL is given
+ */
+export function createOpenAIEmbeddingProvider(
+  options: OpenAIEmbeddingProviderOptions,
+): EmbeddingProvider {
+  const client = new OpenAI({
+    apiKey: options.apiKey,
+    baseURL: options.baseURL,
+    // Rate limits are retried by embedWithBackoff()
+    maxRetries: 0,
+  });
+
+  return {
+    model: `${options.name}:${options.model}`,
+    dimensions: options.dimensions,
+    async embed(texts) {
+      const response = await client.embeddings.create({
+        model: options.model,
+        input: texts,
+        encoding_format: "float",
+        ...(options.sendDimensions ? { dimensions: options.dimensions } : {}),
+      });
+
+      const embeddings = [...response.data]
+        .sort((a, b) => a.index - b.index)
+        .map((d) => d.embedding);
+
+      if (embeddings.length !== texts.length) {
+        throw new Error("Failed to generate embedding");
+      }
+      for (const embedding of embeddings) {
+        if (embedding.length !== options.dimensions) {
+          throw new Error(
+            `Embedding model ${options.model} returned ${embedding.length} dimensions, expected ${options.dimensions}. Set EMBEDDING_DIMENSIONS to match the model.`,
+          );
+        }
+      }
+
+      return embeddings;
+    },
+  };
+}
+
+/**
+ * Offline provider for development and tests: hashes lowercased words into a
+ * fixed-size vector (feature hashing) and L2-normalizes it. Same text always
+ * gives the same vector, and texts sharing words land close together.
+ */
+export function createDeterministicEmbeddingProvider(
+  dimensions: number,
+): EmbeddingProvider {
+  return {
+    model: `deterministic:hash-v1-${dimensions}`,
+    dimensions,
+    async embed(texts) {
+      return texts.map((text) => {
+        const vector = new Array<number>(dimensions).fill(0);
+        const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+        for (const word of words) {
+          const digest = crypto.createHash("sha256").update(word).digest();
+          const slot = digest.readUInt32BE(0) % dimensions;
+          const sign = (digest[4] ?? 0) & 1 ? 1 : -1;
+          vector[slot] = (vector[slot] ?? 0) + sign;
+        }
+
+        const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+        return norm > 0 ? vector.map((v) => v / norm) : vector;
+      });
+    },
+  };
+}
+
+// Default output size of OpenAI embedding models
+const OPENAI_NATIVE_DIMENSIONS: Record<string, number> = {
+  "text-embedding-3-small": 1536,
+  "text-embedding-3-large": 3072,
+  "text-embedding-ada-002": 1536,
+};
+
+export interface EmbeddingProviderSpec {
+  provider: EmbeddingProviderName;
+  model?: string;
+  dimensions?: number;
+  baseUrl?: string;
+}
+
+/**
+ * Provider spec from configuration (EMBEDDING_PROVIDER & co.). This is the
+ * active model until an embedding migration completes.
+ */
+export function getConfiguredEmbeddingSpec(): EmbeddingProviderSpec {
+  return {
+    provider: indexingConfig.embeddingProvider,
+    model: indexingConfig.embeddingModel,
+    dimensions: indexingConfig.embeddingDimensions,
+    baseUrl: indexingConfig.embeddingBaseUrl,
+  };
+}
+
+/**
+ * Build a provider from a spec, applying per-provider defaults
+ */
+export function createEmbeddingProvider(
+  spec: EmbeddingProviderSpec,
+): EmbeddingProvider {
+  const { embeddingApiKey } = indexingConfig;
+
+  switch (spec.provider) {
+    case "openai": {
+      const apiKey = embeddingApiKey ?? env.OPENAI_API_KEY;
+      if (!apiKey) {
+        throw new Error(
+          "OPENAI_API_KEY is required for Full Content (AI) search. Use Keyword (Free) search instead, or add OPENAI_API_KEY to your .env file.",
+        );
+      }
+      const model = spec.model ?? "text-embedding-3-small";
+      return createOpenAIEmbeddingProvider({
+        name: spec.provider,
+        model,
+        dimensions: spec.dimensions ?? OPENAI_NATIVE_DIMENSIONS[model] ?? 1536,
+        apiKey,
+        sendDimensions:
+          spec.dimensions !== undefined && model.startsWith("text-embedding-3"),
+      });
+    }
+
+    case "openai-compatible": {
+      if (!spec.baseUrl || !spec.model || !spec.dimensions) {
+        throw new Error(
+          "A base URL, model and dimensions are required for the openai-compatible embedding provider (EMBEDDING_BASE_URL, EMBEDDING_MODEL, EMBEDDING_DIMENSIONS)",
+        );
+      }
+      return createOpenAIEmbeddingProvider({
+        name: spec.provider,
+        model: spec.model,
+        dimensions: spec.dimensions,
+        // Local servers usually ignore the key, but the client requires one
+        apiKey: embeddingApiKey ?? "not-needed",
+        baseURL: spec.baseUrl,
+        sendDimensions: false,
+      });
     }
-    openaiClient = new OpenAI({
-      apiKey: env.OPENAI_API_KEY,
-    });
+
+    case "deterministic":
+      return createDeterministicEmbeddingProvider(spec.dimensions ?? 1536);
+  }
+}
+
+// Providers are cheap but hold an HTTP client, so reuse them per spec
+const providerCache = new Map<string, EmbeddingProvider>();
+
+export function getEmbeddingProvider(
+  spec: EmbeddingProviderSpec = getConfiguredEmbeddingSpec(),
+): EmbeddingProvider {
+  const key = JSON.stringify([
+    spec.provider,
+    spec.model,
+    spec.dimensions,
+    spec.baseUrl,
+  ]);
+  let provider = providerCache.get(key);
+  if (!provider) {
+    provider = createEmbeddingProvider(spec);
+    providerCache.set(key, provider);
   }
-  return openaiClient;
+  return provider;
+}
+
+// Config/active model pairs already warned about, so the warning logs once
+const warnedModelMismatches = new Set<string>();
+
+function warnIfConfigDiffers(active: EmbeddingProvider) {
+  let configured: string;
+  try {
+    configured = getEmbeddingProvider().model;
+  } catch {
+    return;
+  }
+  const key = `${configured} -> ${active.model}`;
+  if (configured === active.model || warnedModelMismatches.has(key)) return;
+
+  warnedModelMismatches.add(key);
+  console.warn(
+    `[Embeddings] EMBEDDING_* config names ${configured}, but search uses ${active.model} from the last completed embedding migration. Run a migration to ${configured} to switch.`,
+  );
+}
+
+/**
+ * The provider whose vectors search currently uses: the target of the latest
+ * completed embedding migration, or the configured provider if there is none.
+ * A completed migration takes precedence over the EMBEDDING_* config, since
+ * the stored vectors belong to its model; only another migration changes it.
+ */
+export async function getActiveEmbeddingProvider(): Promise<EmbeddingProvider> {
+  const [migration] = await db
+    .select()
+    .from(embeddingMigrations)
+    .where(eq(embeddingMigrations.status, "completed"))
+    .orderBy(desc(embeddingMigrations.completedAt))
+    .limit(1);
+
+  if (!migration) {
+    return getEmbeddingProvider();
+  }
+
+  const active = getEmbeddingProvider({
+    provider: migration.targetProvider as EmbeddingProviderName,
+    model: migration.targetModelName,
+    dimensions: migration.targetDimensions,
+    baseUrl: migration.targetBaseUrl ?? undefined,
+  });
+  warnIfConfigDiffers(active);
+  return active;
 }
 
 /**
- * Generate embeddings for text using OpenAI text-embedding-3-small
- * Returns 1536-dimensional vector
+ * Generate an embedding for text
  *
  * @param text Text to generate embedding for
- * @returns Embedding vector (1536 dimensions)
+ * @param provider Provider to use (defaults to the active provider)
+ * @returns Embedding vector (provider.dimensions long)
  */
-export async function generateEmbedding(text: string): Promise<number[]> {
+export async function generateEmbedding(
+  text: string,
+  provider?: EmbeddingProvider,
+): Promise<number[]> {
   if (!text.trim()) {
     throw new Error("Cannot generate embedding for empty text");
   }
 
-  const openai = getOpenAIClient();
-
-  const response = await openai.embeddings.create({
-    model: "text-embedding-3-small",
-    input: text,
-    encoding_format: "float",
-  });
-
-  const embedding = response.data[0]?.embedding;
+  const activeProvider = provider ?? (await getActiveEmbeddingProvider());
+  const [embedding] = await embedWithBackoff(activeProvider, [text]);
 
   if (!embedding) {
     throw new Error("Failed to generate embedding");
@@ -46,3 +274,99 @@ export async function generateEmbedding(text: string): Promise<number[]> {
 
   return embedding;
 }
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Delay before retrying a rate-limited request: the server's Retry-After if
+ * given, otherwise exponential backoff with jitter
+ */
+function rateLimitDelayMs(error: unknown, attempt: number): number | null {
+  if (!(error instanceof OpenAI.APIError) || error.status !== 429) {
+    return null;
+  }
+
+  const retryAfter = Number(error.headers?.get("retry-after"));
+  if (Number.isFinite(retryAfter) && retryAfter > 0) {
+    return retryAfter * 1000;
+  }
+
+  const base = indexingConfig.embeddingRetryBaseDelayMs * 2 ** attempt;
+  return base + Math.random() * base;
+}
+
+/**
+ * provider.embed() with retries on 429 (rate limit) responses
+ */
+export async function embedWithBackoff(
+  provider: EmbeddingProvider,
+  texts: string[],
+): Promise<number[][]> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await provider.embed(texts);
+    } catch (error) {
+      const delay = rateLimitDelayMs(error, attempt);
+      if (delay === null || attempt >= indexingConfig.embeddingMaxRetries) {
+        throw error;
+      }
+      console.warn(
+        `[Embeddings] Rate limited, retrying in ${Math.round(delay)}ms (attempt ${attempt + 1}/${indexingConfig.embeddingMaxRetries})`,
+      );
+      await sleep(delay);
+    }
+  }
+}
+
+/**
+ * Generate embeddings for many texts: multi-input requests of
+ * embeddingBatchSize, at most embeddingConcurrency in flight, with 429 backoff.
+ * A batch that still fails yields null for each of its texts, so callers can
+ * store those chunks without an embedding.
+ */
+export async function generateEmbeddings(
+  texts: string[],
+  provider: EmbeddingProvider,
+): Promise<Array<number[] | null>> {
+  const results: Array<number[] | null> = new Array(texts.length).fill(null);
+
+  const batches: number[][] = [];
+  for (let i = 0; i < texts.length; i += indexingConfig.embeddingBatchSize) {
+    batches.push(
+      texts
+        .slice(i, i + indexingConfig.embeddingBatchSize)
+        .map((_, j) => i + j),
+    );
+  }
+
+  let next = 0;
+  const runWorker = async () => {
+    while (next < batches.length) {
+      const batch = batches[next++];
+      if (!batch) break;
+      try {
+        const embeddings = await embedWithBackoff(
+          provider,
+          batch.map((i) => texts[i] ?? ""),
+        );
+        batch.forEach((textIndex, j) => {
+          results[textIndex] = embeddings[j] ?? null;
+        });
+      } catch (error) {
+        console.error(
+          `[Embeddings] Failed to embed batch of ${batch.length} texts:`,
+          error,
+        );
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from(
+      { length: Math.min(indexingConfig.embeddingConcurrency, batches.length) },
+      runWorker,
+    ),
+  );
+
+  return results;
+}
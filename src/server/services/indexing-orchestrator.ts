@@ -4,19 +4,31 @@ import { indexingConfig } from "~/server/config/indexing-config";
 import { db } from "~/server/db";
 import { contentChunks, contentText } from "~/server/db/schema";
 import { getQueue } from "~/server/queue/indexing-queue";
-import { chunkContent } from "./content-chunker";
-import { ContentFetchError, fetchContent } from "./content-fetcher";
-import { generateEmbedding } from "./embeddings";
+import { type Chunk, chunkContent } from "./content-chunker";
+import {
+  ContentFetchError,
+  type FetchResult,
+  fetchContent,
+} from "./content-fetcher";
+import { recordContentVersion } from "./content-versions";
+import { getCachedEmbeddings } from "./embedding-cache";
+import {
+  type EmbeddingProvider,
+  getActiveEmbeddingProvider,
+} from "./embeddings";
 
 export interface IndexingResult {
   success: boolean;
   contentItemId: string;
   error?: string;
+  // Content hash matched the stored one; chunks and embeddings were kept
+  unchanged?: boolean;
 }
 
 export interface IndexingStats {
   total: number;
-  succeeded: number;
+  succeeded: number; // (re)indexed
+  unchanged: number; // re-fetched, but content was identical
   failed: number;
   queued: number;
   results: IndexingResult[];
@@ -29,6 +41,72 @@ function calculateHash(text: string): string {
   return crypto.createHash("sha256").update(text).digest("hex");
 }
 
+/**
+ * Generate embeddings for chunks with the active provider, reusing cached
+ * vectors for unchanged chunk text and batching the rest.
+ * A chunk whose embedding fails is stored without one rather than failing
+ * the whole item.
+ */
+async function embedChunks(chunks: Chunk[]) {
+  let provider: EmbeddingProvider | null = null;
+  let embeddings: Array<number[] | null> = [];
+  try {
+    provider = await getActiveEmbeddingProvider();
+    embeddings = await getCachedEmbeddings(
+      chunks.map((chunk) => chunk.text),
+      provider,
+    );
+  } catch (error) {
+    console.error("Failed to generate embeddings:", error);
+  }
+
+  return chunks.map((chunk, i) => {
+    const embedding = embeddings[i] ?? null;
+    return {
+      chunkText: chunk.text,
+      chunkIndex: chunk.index,
+      chunkTokenCount: chunk.tokenCount,
+      embedding, // Pass array directly - Drizzle handles halfvec conversion
+      embeddingModel: embedding && provider ? provider.model : null,
+      embeddingDimensions: embedding ? embedding.length : null,
+    };
+  });
+}
+
+type EmbeddedChunk = Awaited<ReturnType<typeof embedChunks>>[number];
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Replace all chunks of a content_text record and mark it indexed.
+ * Runs inside the caller's transaction so a reindex never leaves duplicate
+ * or half-written chunks behind.
+ */
+async function replaceChunks(
+  tx: Transaction,
+  contentTextId: string,
+  chunks: EmbeddedChunk[],
+) {
+  await tx
+    .delete(contentChunks)
+    .where(eq(contentChunks.contentTextId, contentTextId));
+
+  if (chunks.length > 0) {
+    await tx
+      .insert(contentChunks)
+      .values(chunks.map((chunk) => ({ ...chunk, contentTextId })));
+  }
+
+  // Mark as indexed (clear any previous error)
+  await tx
+    .update(contentText)
+    .set({
+      indexStatus: "indexed",
+      indexedAt: new Date(),
+      indexError: null,
+    })
+    .where(eq(contentText.id, contentTextId));
+}
+
 /**
  * Persist an indexing failure to the database.
  * Creates a content_text row if one doesn't exist, or updates the existing one.
@@ -64,59 +142,48 @@ async function persistFailure(
 }
 
 /**
- * Index a single content item
- * Fetches content, chunks it, stores in database
+ * Store freshly fetched content for an item and replace its chunks.
+ * Content identical to the last successful index only bumps crawledAt.
+ * Throws on failure; the previous content and chunks are left intact.
  */
-export async function indexSingleItem(
+export async function indexFetchedContent(
   contentItemId: string,
-  url: string,
+  fetchResult: FetchResult,
 ): Promise<IndexingResult> {
-  try {
-    // Step 1: Fetch content
-    const fetchResult = await fetchContent(url);
-
-    // Handle empty content (e.g., no YouTube transcript)
-    if (!fetchResult.plainText) {
-      const errorMsg = "No content available (empty or transcript unavailable)";
-      await persistFailure(contentItemId, errorMsg);
-      return {
-        success: false,
-        contentItemId,
-        error: errorMsg,
-      };
-    }
-
-    // Step 2: Check for redirects to avoid duplicate content
-    if (fetchResult.wasRedirected) {
-      console.log(
-        `[Redirect] ${url} → ${fetchResult.finalUrl} for item ${contentItemId}`,
-      );
-
-      // Check if the final URL already exists for a different content item
-      const existingItem = await db.query.contentItems.findFirst({
-        where: (items, { eq, and, ne }) =>
-          and(
-            eq(items.currentUrl, fetchResult.finalUrl),
-            ne(items.id, contentItemId),
-          ),
-        columns: { id: true, title: true },
-      });
+  const contentHash = calculateHash(fetchResult.plainText);
+
+  // Step 3: Skip unchanged content - same text as the last successful index
+  const existing = await db.query.contentText.findFirst({
+    where: eq(contentText.contentItemId, contentItemId),
+    columns: { id: true, contentHash: true, indexStatus: true },
+  });
+
+  if (
+    existing?.indexStatus === "indexed" &&
+    existing.contentHash === contentHash
+  ) {
+    await db
+      .update(contentText)
+      .set({
+        crawledAt: new Date(),
+        crawlDurationMs: fetchResult.duration,
+      })
+      .where(eq(contentText.id, existing.id));
 
-      if (existingItem) {
-        const errorMsg = `URL redirects to ${fetchResult.finalUrl} which already exists (${existingItem.title})`;
-        await persistFailure(contentItemId, errorMsg);
-        return {
-          success: false,
-          contentItemId,
-          error: errorMsg,
-        };
-      }
-    }
+    return {
+      success: true,
+      contentItemId,
+      unchanged: true,
+    };
+  }
 
-    const contentHash = calculateHash(fetchResult.plainText);
+  // Step 4: Chunk content and generate embeddings (outside the transaction)
+  const chunks = await chunkContent(fetchResult.plainText);
+  const chunksWithEmbeddings = await embedChunks(chunks);
 
-    // Step 3: Store or update full content (upsert for pending items)
-    const [contentTextRecord] = await db
+  // Step 5: Store full content and replace chunks atomically
+  await db.transaction(async (tx) => {
+    const [contentTextRecord] = await tx
       .insert(contentText)
       .values({
         contentItemId,
@@ -136,65 +203,103 @@ export async function indexSingleItem(
           wordCount: fetchResult.wordCount,
           tokenCount: fetchResult.tokenCount,
           contentHash,
+          crawledAt: new Date(),
           crawlDurationMs: fetchResult.duration,
-          indexStatus: "pending",
         },
       })
-      .returning();
+      .returning({ id: contentText.id });
 
     if (!contentTextRecord) {
       throw new Error("Failed to upsert content_text record");
     }
 
-    // Step 4: Chunk content
-    const chunks = await chunkContent(fetchResult.plainText);
-
-    // Step 5: Generate embeddings and store chunks
-    // Generate embeddings in parallel for better performance
-    const chunksWithEmbeddings = await Promise.all(
-      chunks.map(async (chunk) => {
-        try {
-          const embedding = await generateEmbedding(chunk.text);
-          return {
-            contentTextId: contentTextRecord.id,
-            chunkText: chunk.text,
-            chunkIndex: chunk.index,
-            chunkTokenCount: chunk.tokenCount,
-            embedding: embedding, // Pass array directly - Drizzle handles halfvec conversion
-          };
-        } catch (error) {
-          console.error(
-            `Failed to generate embedding for chunk ${chunk.index}:`,
-            error,
-          );
-          // Store chunk without embedding rather than failing entirely
-          return {
-            contentTextId: contentTextRecord.id,
-            chunkText: chunk.text,
-            chunkIndex: chunk.index,
-            chunkTokenCount: chunk.tokenCount,
-            embedding: null,
-          };
-        }
-      }),
+    await recordContentVersion(
+      contentItemId,
+      { ...fetchResult, contentHash },
+      "crawl",
+      { tx },
     );
+    await replaceChunks(tx, contentTextRecord.id, chunksWithEmbeddings);
+  });
 
-    await db.insert(contentChunks).values(chunksWithEmbeddings);
+  return {
+    success: true,
+    contentItemId,
+  };
+}
 
-    // Step 6: Mark as indexed (clear any previous error)
-    await db
-      .update(contentText)
-      .set({
-        indexStatus: "indexed",
-        indexedAt: new Date(),
-        indexError: null,
-      })
-      .where(eq(contentText.id, contentTextRecord.id));
+/**
+ * If the fetch was redirected to a URL another item already uses, the error
+ * to record instead of indexing the same content twice; otherwise null
+ */
+export async function checkRedirectDuplicate(
+  contentItemId: string,
+  url: string,
+  fetchResult: FetchResult,
+): Promise<string | null> {
+  if (!fetchResult.wasRedirected) {
+    return null;
+  }
 
-    return {
-      success: true,
+  console.log(
+    `[Redirect] ${url} → ${fetchResult.finalUrl} for item ${contentItemId}`,
+  );
+
+  // Check if the final URL already exists for a different content item
+  const existingItem = await db.query.contentItems.findFirst({
+    where: (items, { eq, and, ne }) =>
+      and(
+        eq(items.currentUrl, fetchResult.finalUrl),
+        ne(items.id, contentItemId),
+      ),
+    columns: { id: true, title: true },
+  });
+
+  return existingItem
+    ? `URL redirects to ${fetchResult.finalUrl} which already exists (${existingItem.title})`
+    : null;
+}
+
+/**
+ * Index a single content item
+ * Fetches content, chunks it, stores in database
+ */
+export async function indexSingleItem(
+  contentItemId: string,
+  url: string,
+): Promise<IndexingResult> {
+  try {
+    // Step 1: Fetch content
+    const fetchResult = await fetchContent(url);
+
+    // Handle empty content (e.g., no YouTube transcript)
+    if (!fetchResult.plainText) {
+      const errorMsg = "No content available (empty or transcript unavailable)";
+      await persistFailure(contentItemId, errorMsg);
+      return {
+        success: false,
+        contentItemId,
+        error: errorMsg,
+      };
+    }
+
+    // Step 2: Check for redirects to avoid duplicate content
+    const redirectError = await checkRedirectDuplicate(
       contentItemId,
-    };
+      url,
+      fetchResult,
+    );
+    if (redirectError) {
+      await persistFailure(contentItemId, redirectError);
+      return {
+        success: false,
+        contentItemId,
+        error: redirectError,
+      };
+    }
+
+    // Steps 3-5: Store, chunk and embed (skipped if unchanged)
+    return await indexFetchedContent(contentItemId, fetchResult);
   } catch (error) {
     const errorMsg =
       error instanceof ContentFetchError
@@ -234,53 +339,14 @@ export async function indexFromExistingContent(
       };
     }
 
-    // Delete any old chunks for this content_text
-    await db
-      .delete(contentChunks)
-      .where(eq(contentChunks.contentTextId, record.id));
-
-    // Chunk content
+    // Chunk content and generate embeddings
     const chunks = await chunkContent(record.plainText);
+    const chunksWithEmbeddings = await embedChunks(chunks);
 
-    // Generate embeddings and store chunks
-    const chunksWithEmbeddings = await Promise.all(
-      chunks.map(async (chunk) => {
-        try {
-          const embedding = await generateEmbedding(chunk.text);
-          return {
-            contentTextId: record.id,
-            chunkText: chunk.text,
-            chunkIndex: chunk.index,
-            chunkTokenCount: chunk.tokenCount,
-            embedding,
-          };
-        } catch (error) {
-          console.error(
-            `Failed to generate embedding for chunk ${chunk.index}:`,
-            error,
-          );
-          return {
-            contentTextId: record.id,
-            chunkText: chunk.text,
-            chunkIndex: chunk.index,
-            chunkTokenCount: chunk.tokenCount,
-            embedding: null,
-          };
-        }
-      }),
-    );
-
-    await db.insert(contentChunks).values(chunksWithEmbeddings);
-
-    // Mark as indexed
-    await db
-      .update(contentText)
-      .set({
-        indexStatus: "indexed",
-        indexedAt: new Date(),
-        indexError: null,
-      })
-      .where(eq(contentText.id, record.id));
+    // Replace old chunks and mark as indexed
+    await db.transaction(async (tx) => {
+      await replaceChunks(tx, record.id, chunksWithEmbeddings);
+    });
 
     return {
       success: true,
@@ -295,6 +361,52 @@ export async function indexFromExistingContent(
   }
 }
 
+const ENQUEUE_BATCH_SIZE = 1000;
+
+/**
+ * Queue items for background indexing and mark them pending, adding
+ * placeholder content_text rows for items never indexed. Returns the number
+ * queued (none while indexing is disabled).
+ */
+export async function enqueueIndexing(
+  items: Array<{ id: string; url: string }>,
+): Promise<number> {
+  if (!indexingConfig.enableIndexing || items.length === 0) {
+    return 0;
+  }
+
+  const queue = await getQueue();
+  for (let i = 0; i < items.length; i += ENQUEUE_BATCH_SIZE) {
+    const batch = items.slice(i, i + ENQUEUE_BATCH_SIZE);
+    await queue.insert(
+      batch.map((item) => ({
+        name: "index-content",
+        data: { contentItemId: item.id, url: item.url },
+        singletonKey: item.id,
+      })),
+    );
+    await db
+      .insert(contentText)
+      .values(
+        batch.map((item) => ({
+          contentItemId: item.id,
+          fullText: "",
+          plainText: "",
+          wordCount: 0,
+          tokenCount: 0,
+          contentHash: "",
+          crawlDurationMs: 0,
+          indexStatus: "pending" as const,
+        })),
+      )
+      .onConflictDoUpdate({
+        target: contentText.contentItemId,
+        set: { indexStatus: "pending", indexError: null },
+      });
+  }
+  return items.length;
+}
+
 /**
  * Index multiple content items
  * Sync for ≤10 items, mark as pending for 11+
@@ -306,6 +418,7 @@ export async function indexContent(
     return {
       total: items.length,
       succeeded: 0,
+      unchanged: 0,
       failed: 0,
       queued: 0,
       results: items.map((item) => ({
@@ -325,12 +438,14 @@ export async function indexContent(
       results.push(result);
     }
 
-    const succeeded = results.filter((r) => r.success).length;
+    const succeeded = results.filter((r) => r.success && !r.unchanged).length;
+    const unchanged = results.filter((r) => r.unchanged).length;
     const failed = results.filter((r) => !r.success).length;
 
     return {
       total: items.length,
       succeeded,
+      unchanged,
       failed,
       queued: 0,
       results,
@@ -389,13 +504,15 @@ export async function indexContent(
 
   // Combine results
   const allResults = [...syncResults, ...queueResults];
-  const succeeded = syncResults.filter((r) => r.success).length;
+  const succeeded = syncResults.filter((r) => r.success && !r.unchanged).length;
+  const unchanged = syncResults.filter((r) => r.unchanged).length;
   const failed = syncResults.filter((r) => !r.success).length;
   const queued = queueResults.filter((r) => r.success).length;
 
   return {
     total: items.length,
     succeeded,
+    unchanged,
     failed,
     queued,
     results: allResults,
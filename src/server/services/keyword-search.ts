@@ -1,6 +1,23 @@
-import { sql } from "drizzle-orm";
+import { and, count, type SQL, sql } from "drizzle-orm";
+import {
+  fullTextSearchText,
+  parseSearchQuery,
+  plainSearchText,
+} from "~/lib/search-query";
 import { indexingConfig } from "~/server/config/indexing-config";
 import { db } from "~/server/db";
+import { contentItems } from "~/server/db/schema";
+import {
+  buildContentFilterWhere,
+  buildSearchFilterSql,
+  buildSearchOperatorWhere,
+  type SearchFilters,
+} from "./content-query";
+import {
+  type DocumentSearchPage,
+  documentCandidateLimit,
+  groupByContentItem,
+} from "./result-grouping";
 import { extractSmartSnippet } from "./snippet-extractor";
 
 export interface KeywordSearchResult {
@@ -19,27 +36,62 @@ interface QueryRow {
   chunk_text: string;
 }
 
+/**
+ * Ids of the chunks matching a tsquery: by their own text, or by their
+ * item's title, tags and description (through the item's first chunk, so an
+ * item is found even when only its metadata matches). Both sides use the
+ * stored search vectors and their GIN indexes.
+ */
+export function keywordHitsSql(tsQuery: SQL) {
+  return sql`
+    SELECT cc.id FROM tiger_den.content_chunks cc
+    WHERE cc.search_vector @@ ${tsQuery}
+    UNION
+    SELECT cc.id FROM tiger_den.content_items ci
+    JOIN tiger_den.content_text ct ON ct.content_item_id = ci.id
+    JOIN tiger_den.content_chunks cc ON cc.content_text_id = ct.id AND cc.chunk_index = 0
+    WHERE ci.search_vector @@ ${tsQuery}
+  `;
+}
+
+/**
+ * Keyword rank of chunk cc: its body text plus its item's weighted metadata,
+ * so title matches rank above body matches
+ */
+export function keywordRankSql(tsQuery: SQL) {
+  return sql`ts_rank(tiger_den.content_items.search_vector || cc.search_vector, ${tsQuery})`;
+}
+
 /**
  * Keyword-only search using BM25
  * No semantic search, no OpenAI API calls, no cost
  * Fast and effective for exact keyword matching
+ * Structured filters and the query's field operators narrow the matching
+ * chunks in SQL; phrases and exclusions go through websearch_to_tsquery.
+ * Matches and ranks come from the stored, weighted search vectors.
  */
 export async function keywordSearch(
   query: string,
   limit: number = 10,
+  filters?: SearchFilters,
 ): Promise<KeywordSearchResult[]> {
   console.log(`[keywordSearch] Searching for: "${query}", limit: ${limit}`);
 
+  const parsed = parseSearchQuery(query);
+  const tsQuery = sql`websearch_to_tsquery('english', ${fullTextSearchText(parsed)})`;
+
   // Query: Full-text keyword search using PostgreSQL native search
   const results = await db.execute(sql`
     SELECT
       ct.content_item_id,
       cc.id as chunk_id,
       cc.chunk_text,
-      ts_rank(to_tsvector('english', cc.chunk_text), plainto_tsquery('english', ${query})) as score
+      ${keywordRankSql(tsQuery)} as score
     FROM tiger_den.content_chunks cc
     JOIN tiger_den.content_text ct ON ct.id = cc.content_text_id
-    WHERE to_tsvector('english', cc.chunk_text) @@ plainto_tsquery('english', ${query})
+    JOIN tiger_den.content_items ON tiger_den.content_items.id = ct.content_item_id
+    WHERE cc.id IN (${keywordHitsSql(tsQuery)})
+      ${buildSearchFilterSql(filters, parsed)}
     ORDER BY score DESC
     LIMIT ${limit}
   `);
@@ -48,7 +100,7 @@ export async function keywordSearch(
 
   // Convert to result format with normalized relevance scores and smart snippets
   return (results as unknown as QueryRow[]).map((row, index) => {
-    const { snippet, matchedTerms } = extractSmartSnippet(row.chunk_text, query);
+    const { snippet, matchedTerms } = extractSmartSnippet(row.chunk_text, plainSearchText(parsed));
 
     return {
       contentItemId: row.content_item_id,
@@ -61,3 +113,55 @@ export async function keywordSearch(
     };
   });
 }
+
+/**
+ * Condition on tiger_den.content_items for the items with a chunk matching
+ * the query: every match, where keywordSearch returns the top chunks
+ */
+export function keywordMatchSql(query: string) {
+  const parsed = parseSearchQuery(query);
+  const tsQuery = sql`websearch_to_tsquery('english', ${fullTextSearchText(parsed)})`;
+  return and(
+    sql`tiger_den.content_items.id IN (
+      SELECT ct.content_item_id
+      FROM tiger_den.content_chunks cc
+      JOIN tiger_den.content_text ct ON ct.id = cc.content_text_id
+      WHERE cc.id IN (${keywordHitsSql(tsQuery)})
+    )`,
+    buildSearchOperatorWhere(parsed),
+  );
+}
+
+/**
+ * How many live items match the query and filters: the full result count,
+ * where a search only ranks a limited candidate pool
+ */
+export async function countKeywordMatches(
+  query: string,
+  filters: SearchFilters = {},
+): Promise<number> {
+  const [row] = await db
+    .select({ count: count() })
+    .from(contentItems)
+    .where(and(buildContentFilterWhere(filters), keywordMatchSql(query)));
+  return row?.count ?? 0;
+}
+
+/**
+ * Document-level keyword search: one result per content item with its top
+ * passages, paginated by document
+ */
+export async function keywordSearchDocuments(
+  query: string,
+  limit: number = 10,
+  offset: number = 0,
+  filters?: SearchFilters,
+): Promise<DocumentSearchPage<KeywordSearchResult>> {
+  const chunks = await keywordSearch(
+    query,
+    documentCandidateLimit(limit, offset),
+    filters,
+  );
+
+  return groupByContentItem(chunks, limit, offset);
+}
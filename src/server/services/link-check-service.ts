@@ -0,0 +1,451 @@
+/**
+ * Link Health Checks
+ * Every item's currentUrl is checked on a schedule (HEAD, falling back to GET)
+ * and each result is kept in link_checks. The latest status is copied onto the
+ * item for filtering. When a URL permanently redirects (301/308 all the way),
+ * the destination is stored as a suggested URL update for an admin to apply.
+ *
+ * Requests to the same host are spaced by linkCheckDomainDelayMs; different
+ * hosts are checked concurrently.
+ */
+
+import {
+  and,
+  count,
+  desc,
+  eq,
+  inArray,
+  isNotNull,
+  isNull,
+  lt,
+  ne,
+  or,
+  sql,
+} from "drizzle-orm";
+import { indexingConfig } from "~/server/config/indexing-config";
+import { db } from "~/server/db";
+import {
+  contentItems,
+  linkChecks,
+  type linkStatusEnum,
+} from "~/server/db/schema";
+import {
+  getQueue,
+  type LinkCheckJobPayload,
+} from "~/server/queue/indexing-queue";
+import { fetchFollowingRedirects } from "./content-fetcher";
+import { notDeleted } from "./content-query";
+
+export const LINK_CHECK_QUEUE = "check-links";
+
+// One link check pass at a time
+export const LINK_CHECK_SINGLETON_KEY = "check-links";
+
+export type LinkStatus = (typeof linkStatusEnum.enumValues)[number];
+
+// Statuses reported as broken: HTTP errors, timeouts and unreachable hosts
+export const BROKEN_LINK_STATUSES: LinkStatus[] = [
+  "broken",
+  "timeout",
+  "error",
+];
+
+const PERMANENT_REDIRECT_STATUSES = new Set([301, 308]);
+
+export interface LinkCheckResult {
+  status: LinkStatus;
+  statusCode: number | null;
+  redirectStatusCode: number | null;
+  redirectUrl: string | null;
+  permanentRedirect: boolean;
+  error: string | null;
+  responseTimeMs: number;
+}
+
+/**
+ * Live items never checked, or last checked longer ago than
+ * linkCheckIntervalDays
+ */
+function dueForLinkCheck() {
+  return and(
+    notDeleted,
+    or(
+      isNull(contentItems.linkCheckedAt),
+      lt(
+        contentItems.linkCheckedAt,
+        sql`now() - make_interval(days => ${indexingConfig.linkCheckIntervalDays})`,
+      ),
+    ),
+  );
+}
+
+/**
+ * Number of items currently due for a link check
+ */
+export async function countItemsDueForLinkCheck(): Promise<number> {
+  const [row] = await db
+    .select({ count: count() })
+    .from(contentItems)
+    .where(dueForLinkCheck());
+
+  return row?.count ?? 0;
+}
+
+/**
+ * Queue a link check pass over all due items
+ */
+export async function enqueueLinkCheck() {
+  const queue = await getQueue();
+  await queue.send(LINK_CHECK_QUEUE, {} satisfies LinkCheckJobPayload, {
+    singletonKey: LINK_CHECK_SINGLETON_KEY,
+  });
+}
+
+/**
+ * fetch() reports DNS and connection failures as "fetch failed", with the
+ * reason (ENOTFOUND, ECONNREFUSED, ...) in `cause`
+ */
+function describeFetchError(error: unknown): string {
+  if (!(error instanceof Error)) return "Unknown error";
+  return error.cause instanceof Error ? error.cause.message : error.message;
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Waits until a request to the URL's host is allowed; resolves with the
+ * milliseconds waited
+ */
+type HostThrottle = (url: string) => Promise<number>;
+
+/**
+ * Space requests to the same host at least `delayMs` apart. Slots are
+ * reserved before waiting, so concurrent callers queue up instead of firing
+ * together once the delay passes.
+ */
+function createHostThrottle(delayMs: number): HostThrottle {
+  const nextRequestAt = new Map<string, number>();
+  return async (url) => {
+    const host = hostOf(url);
+    const now = Date.now();
+    const at = Math.max(now, nextRequestAt.get(host) ?? 0);
+    nextRequestAt.set(host, at + delayMs);
+    if (at > now) await sleep(at - now);
+    return at - now;
+  };
+}
+
+/**
+ * Request `url` and classify the response. Some servers reject HEAD, so any
+ * non-2xx HEAD response is confirmed with a GET before reporting it. With a
+ * throttle, every request (HEAD, GET and each redirect hop) waits its turn
+ * for its host; the timeout and response time leave those waits out.
+ */
+export async function checkUrl(
+  url: string,
+  throttle?: HostThrottle,
+): Promise<LinkCheckResult> {
+  const startTime = Date.now();
+  let waitedMs = 0;
+  const controller = new AbortController();
+  let timeout: ReturnType<typeof setTimeout> | undefined;
+  const armTimeout = () => {
+    clearTimeout(timeout);
+    timeout = setTimeout(
+      () => controller.abort(),
+      indexingConfig.linkCheckTimeoutMs - (Date.now() - startTime - waitedMs),
+    );
+  };
+  const beforeRequest =
+    throttle &&
+    (async (requestUrl: string) => {
+      clearTimeout(timeout);
+      waitedMs += await throttle(requestUrl);
+      armTimeout();
+    });
+  armTimeout();
+
+  try {
+    let followed = await fetchFollowingRedirects(url, {
+      method: "HEAD",
+      signal: controller.signal,
+      beforeRequest,
+    });
+    if (!followed.response.ok) {
+      followed = await fetchFollowingRedirects(url, {
+        signal: controller.signal,
+        beforeRequest,
+      });
+    }
+    await followed.response.body?.cancel();
+
+    const { response, finalUrl, redirects } = followed;
+    const redirected = redirects.length > 0;
+
+    return {
+      status: !response.ok ? "broken" : redirected ? "redirect" : "ok",
+      statusCode: response.status,
+      redirectStatusCode: redirects[0]?.status ?? null,
+      redirectUrl: redirected ? finalUrl : null,
+      permanentRedirect:
+        redirected &&
+        response.ok &&
+        redirects.every((hop) => PERMANENT_REDIRECT_STATUSES.has(hop.status)),
+      error: response.ok ? null : `HTTP ${response.status}`,
+      responseTimeMs: Date.now() - startTime - waitedMs,
+    };
+  } catch (error) {
+    const timedOut = error instanceof Error && error.name === "AbortError";
+    return {
+      status: timedOut ? "timeout" : "error",
+      statusCode: null,
+      redirectStatusCode: null,
+      redirectUrl: null,
+      permanentRedirect: false,
+      error: timedOut
+        ? `Timeout after ${indexingConfig.linkCheckTimeoutMs}ms`
+        : describeFetchError(error),
+      responseTimeMs: Date.now() - startTime - waitedMs,
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/**
+ * Check one item's URL and record the result
+ */
+export async function checkItemLink(
+  contentItemId: string,
+  url: string,
+  throttle?: HostThrottle,
+): Promise<LinkCheckResult> {
+  const result = await checkUrl(url, throttle);
+
+  await db.transaction(async (tx) => {
+    await tx.insert(linkChecks).values({
+      contentItemId,
+      url,
+      status: result.status,
+      statusCode: result.statusCode,
+      redirectStatusCode: result.redirectStatusCode,
+      redirectUrl: result.redirectUrl,
+      error: result.error,
+      responseTimeMs: result.responseTimeMs,
+    });
+
+    await tx
+      .update(contentItems)
+      .set({
+        linkStatus: result.status,
+        linkCheckedAt: new Date(),
+        suggestedUrl: result.permanentRedirect ? result.redirectUrl : null,
+      })
+      .where(eq(contentItems.id, contentItemId));
+  });
+
+  return result;
+}
+
+export interface LinkCheckJobResult {
+  done: boolean;
+  checked: number;
+  broken: number;
+  redirected: number;
+}
+
+/**
+ * Check due items, least recently checked first, for up to
+ * linkCheckJobTimeBudgetMs. Each checked item's linkCheckedAt moves forward,
+ * so the next job picks up whatever is still due.
+ */
+export async function processLinkChecks(): Promise<LinkCheckJobResult> {
+  const deadline = Date.now() + indexingConfig.linkCheckJobTimeBudgetMs;
+  const result: LinkCheckJobResult = {
+    done: false,
+    checked: 0,
+    broken: 0,
+    redirected: 0,
+  };
+  // Per-host spacing of every outgoing request, carried across batches
+  const throttle = createHostThrottle(indexingConfig.linkCheckDomainDelayMs);
+
+  while (Date.now() < deadline) {
+    const batch = await db
+      .select({ id: contentItems.id, url: contentItems.currentUrl })
+      .from(contentItems)
+      .where(dueForLinkCheck())
+      .orderBy(sql`${contentItems.linkCheckedAt} ASC NULLS FIRST`)
+      .limit(indexingConfig.linkCheckBatchSize);
+
+    if (batch.length === 0) {
+      result.done = true;
+      break;
+    }
+
+    const byHost = new Map<string, typeof batch>();
+    for (const item of batch) {
+      const host = hostOf(item.url);
+      byHost.set(host, [...(byHost.get(host) ?? []), item]);
+    }
+
+    await Promise.all(
+      [...byHost.values()].map(async (items) => {
+        for (const item of items) {
+          if (Date.now() >= deadline) return;
+
+          const check = await checkItemLink(item.id, item.url, throttle);
+          result.checked++;
+          if (BROKEN_LINK_STATUSES.includes(check.status)) result.broken++;
+          if (check.status === "redirect") result.redirected++;
+        }
+      }),
+    );
+  }
+
+  console.log(
+    `[LinkCheck] ${result.done ? "Complete" : "Time budget reached"}: ${result.checked} checked, ${result.broken} broken, ${result.redirected} redirected`,
+  );
+  return result;
+}
+
+/**
+ * Item counts by latest link status, plus URL updates awaiting review
+ */
+export async function getLinkStatusCounts() {
+  const rows = await db
+    .select({ status: contentItems.linkStatus, count: count() })
+    .from(contentItems)
+    .where(notDeleted)
+    .groupBy(contentItems.linkStatus);
+
+  const countOf = (statuses: (LinkStatus | null)[]) =>
+    rows
+      .filter((row) => statuses.includes(row.status))
+      .reduce((total, row) => total + row.count, 0);
+
+  const [suggestions] = await db
+    .select({ count: count() })
+    .from(contentItems)
+    .where(and(notDeleted, isNotNull(contentItems.suggestedUrl)));
+
+  return {
+    ok: countOf(["ok"]),
+    redirect: countOf(["redirect"]),
+    broken: countOf(BROKEN_LINK_STATUSES),
+    unchecked: countOf([null]),
+    suggestedUpdates: suggestions?.count ?? 0,
+  };
+}
+
+/**
+ * Broken or redirected items, most recently checked first
+ */
+export async function getLinkReport(
+  kind: "broken" | "redirect",
+  limit: number,
+  offset: number,
+) {
+  const items = await db.query.contentItems.findMany({
+    where: and(
+      notDeleted,
+      kind === "broken"
+        ? inArray(contentItems.linkStatus, BROKEN_LINK_STATUSES)
+        : eq(contentItems.linkStatus, "redirect"),
+    ),
+    orderBy: [desc(contentItems.linkCheckedAt)],
+    limit: limit + 1,
+    offset,
+    columns: {
+      id: true,
+      title: true,
+      currentUrl: true,
+      linkStatus: true,
+      linkCheckedAt: true,
+      suggestedUrl: true,
+    },
+    with: {
+      contentTypeRel: true,
+      linkChecks: {
+        orderBy: [desc(linkChecks.checkedAt)],
+        limit: 1,
+        columns: {
+          statusCode: true,
+          redirectStatusCode: true,
+          redirectUrl: true,
+          error: true,
+        },
+      },
+    },
+  });
+
+  return {
+    items: items.slice(0, limit).map(({ linkChecks, ...item }) => ({
+      ...item,
+      lastCheck: linkChecks[0] ?? null,
+    })),
+    hasMore: items.length > limit,
+  };
+}
+
+/**
+ * Link check history of one item, newest first
+ */
+export async function getLinkHistory(contentItemId: string, limit = 20) {
+  return db.query.linkChecks.findMany({
+    where: eq(linkChecks.contentItemId, contentItemId),
+    orderBy: [desc(linkChecks.checkedAt)],
+    limit,
+  });
+}
+
+/**
+ * Move an item to its suggested URL, keeping the old URL in previousUrls
+ */
+export async function applySuggestedUrl(contentItemId: string) {
+  const item = await db.query.contentItems.findFirst({
+    where: eq(contentItems.id, contentItemId),
+    columns: { currentUrl: true, previousUrls: true, suggestedUrl: true },
+  });
+  if (!item) {
+    throw new Error("Content item not found");
+  }
+  if (!item.suggestedUrl) {
+    throw new Error("No URL update is suggested for this item");
+  }
+
+  const conflict = await db.query.contentItems.findFirst({
+    where: and(
+      eq(contentItems.currentUrl, item.suggestedUrl),
+      ne(contentItems.id, contentItemId),
+    ),
+    columns: { title: true },
+  });
+  if (conflict) {
+    throw new Error(
+      `Another item already uses ${item.suggestedUrl}: "${conflict.title}"`,
+    );
+  }
+
+  const [updated] = await db
+    .update(contentItems)
+    .set({
+      currentUrl: item.suggestedUrl,
+      previousUrls: [...(item.previousUrls ?? []), item.currentUrl],
+      suggestedUrl: null,
+      linkStatus: "ok",
+      updatedAt: new Date(),
+    })
+    .where(eq(contentItems.id, contentItemId))
+    .returning({ id: contentItems.id, currentUrl: contentItems.currentUrl });
+
+  return updated;
+}
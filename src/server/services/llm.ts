@@ -0,0 +1,178 @@
+import OpenAI from "openai";
+import { env } from "~/env";
+import {
+  type IndexingConfig,
+  indexingConfig,
+} from "~/server/config/indexing-config";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface ChatOptions {
+  maxTokens: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * A chat model that streams its reply as text deltas.
+ * `model` is shown with answers (e.g. "openai:gpt-4o-mini").
+ */
+export interface LLMProvider {
+  readonly model: string;
+  streamChat(
+    messages: ChatMessage[],
+    options: ChatOptions,
+  ): AsyncIterable<string>;
+}
+
+export type LLMProviderName = IndexingConfig["llmProvider"];
+
+interface OpenAIChatProviderOptions {
+  name: LLMProviderName;
+  model: string;
+  apiKey: string;
+  baseURL?: string;
+  // Older OpenAI-compatible servers only know max_tokens
+  legacyMaxTokens: boolean;
+}
+
+/**
+ * OpenAI chat completions API, or any server speaking the same protocol
+ * (Ollama, vLLM, LM Studio, ...) when a base URL is given
+ */
+export function createOpenAIChatProvider(
+  options: OpenAIChatProviderOptions,
+): LLMProvider {
+  const client = new OpenAI({
+    apiKey: options.apiKey,
+    baseURL: options.baseURL,
+  });
+
+  return {
+    model: `${options.name}:${options.model}`,
+    async *streamChat(messages, { maxTokens, signal }) {
+      const stream = await client.chat.completions.create(
+        {
+          model: options.model,
+          messages,
+          stream: true,
+          temperature: 0.2,
+          ...(options.legacyMaxTokens
+            ? { max_tokens: maxTokens }
+            : { max_completion_tokens: maxTokens }),
+        },
+        { signal },
+      );
+
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          yield delta;
+        }
+      }
+    },
+  };
+}
+
+// Pause between streamed words, so the UI streams like a real model
+const MOCK_WORD_DELAY_MS = 20;
+
+/**
+ * Offline provider for development: answers by quoting, for each numbered
+ * source in the prompt ("[1] Title" followed by its text), the sentence that
+ * shares the most words with the question, cited with the source's number.
+ * No model is involved, so the answer is only as good as retrieval.
+ */
+export function createMockLLMProvider(): LLMProvider {
+  return {
+    model: "mock:extractive-v1",
+    async *streamChat(messages, { signal }) {
+      const prompt =
+        messages.filter((m) => m.role === "user").at(-1)?.content ?? "";
+      const question = prompt.match(/^Question:\s*(.+)$/m)?.[1] ?? "";
+      const questionWords = new Set(
+        question.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) ?? [],
+      );
+
+      const quotes: string[] = [];
+      for (const source of prompt.split(/^(?=\[\d+\] )/m)) {
+        const number = source.match(/^\[(\d+)\] /)?.[1];
+        if (!number) continue;
+
+        const body = source.split("\n").slice(1).join(" ");
+        const sentences = body.match(/[^.!?]+[.!?]+/g) ?? [body];
+        let best = { sentence: "", score: 0 };
+        for (const sentence of sentences) {
+          const words =
+            sentence.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) ?? [];
+          const score = words.filter((word) => questionWords.has(word)).length;
+          if (score > best.score) best = { sentence: sentence.trim(), score };
+        }
+        if (best.sentence) quotes.push(`${best.sentence} [${number}]`);
+      }
+
+      const answer =
+        quotes.length > 0
+          ? `Mock answer (no language model configured). The most relevant passages say:\n\n${quotes.map((quote) => `- ${quote}`).join("\n")}`
+          : "Mock answer (no language model configured): none of the sources mention the question's words.";
+
+      for (const word of answer.split(/(?<=\s)/)) {
+        if (signal?.aborted) return;
+        await new Promise((resolve) => setTimeout(resolve, MOCK_WORD_DELAY_MS));
+        yield word;
+      }
+    },
+  };
+}
+
+/**
+ * Build the provider from configuration (LLM_PROVIDER & co.)
+ */
+export function createLLMProvider(): LLMProvider {
+  const { llmProvider, llmModel, llmBaseUrl, llmApiKey } = indexingConfig;
+
+  switch (llmProvider) {
+    case "openai": {
+      const apiKey = llmApiKey ?? env.OPENAI_API_KEY;
+      if (!apiKey) {
+        throw new Error(
+          "OPENAI_API_KEY is required for Ask the Den. Add it to your .env file, or set LLM_PROVIDER=mock for offline answers.",
+        );
+      }
+      return createOpenAIChatProvider({
+        name: llmProvider,
+        model: llmModel ?? "gpt-4o-mini",
+        apiKey,
+        legacyMaxTokens: false,
+      });
+    }
+
+    case "openai-compatible": {
+      if (!llmBaseUrl || !llmModel) {
+        throw new Error(
+          "A base URL and model are required for the openai-compatible LLM provider (LLM_BASE_URL, LLM_MODEL)",
+        );
+      }
+      return createOpenAIChatProvider({
+        name: llmProvider,
+        model: llmModel,
+        // Local servers usually ignore the key, but the client requires one
+        apiKey: llmApiKey ?? "not-needed",
+        baseURL: llmBaseUrl,
+        legacyMaxTokens: true,
+      });
+    }
+
+    case "mock":
+      return createMockLLMProvider();
+  }
+}
+
+let provider: LLMProvider | undefined;
+
+export function getLLMProvider(): LLMProvider {
+  provider ??= createLLMProvider();
+  return provider;
+}
@@ -0,0 +1,205 @@
+/**
+ * Scheduled Re-crawl
+ * Web-scraped items are fetched again on their content type's interval
+ * (content_types.recrawl_interval_days). Unchanged pages only get a new
+ * crawledAt; changed pages are re-indexed and stamped with lastChangedAt.
+ *
+ * API-synced items (Ghost, Contentful, YouTube) are kept current by their
+ * imports and are never re-crawled here.
+ */
+
+import {
+  and,
+  asc,
+  count,
+  eq,
+  isNotNull,
+  lt,
+  notInArray,
+  sql,
+} from "drizzle-orm";
+import { indexingConfig } from "~/server/config/indexing-config";
+import { db } from "~/server/db";
+import { contentItems, contentText, contentTypes } from "~/server/db/schema";
+import {
+  getQueue,
+  type RecrawlJobPayload,
+} from "~/server/queue/indexing-queue";
+import { fetchContent } from "./content-fetcher";
+import { notDeleted } from "./content-query";
+import {
+  checkRedirectDuplicate,
+  indexFetchedContent,
+} from "./indexing-orchestrator";
+
+export const RECRAWL_QUEUE = "recrawl-content";
+
+// One re-crawl pass at a time
+export const RECRAWL_SINGLETON_KEY = "recrawl";
+
+// Sources whose content comes from an API sync rather than scraping
+const API_SYNCED_SOURCES = [
+  "ghost_api",
+  "contentful_api",
+  "youtube_api",
+] as const;
+
+/**
+ * Live, indexed, web-scraped items whose last crawl is older than their
+ * content type's re-crawl interval
+ */
+function dueForRecrawl() {
+  return and(
+    notDeleted,
+    isNotNull(contentTypes.recrawlIntervalDays),
+    notInArray(contentItems.source, [...API_SYNCED_SOURCES]),
+    eq(contentText.indexStatus, "indexed"),
+    lt(
+      contentText.crawledAt,
+      sql`now() - make_interval(days => ${contentTypes.recrawlIntervalDays})`,
+    ),
+  );
+}
+
+/**
+ * Number of items currently due for a re-crawl
+ */
+export async function countItemsDueForRecrawl(): Promise<number> {
+  const [row] = await db
+    .select({ count: count() })
+    .from(contentItems)
+    .innerJoin(contentTypes, eq(contentTypes.id, contentItems.contentTypeId))
+    .innerJoin(contentText, eq(contentText.contentItemId, contentItems.id))
+    .where(dueForRecrawl());
+
+  return row?.count ?? 0;
+}
+
+/**
+ * Queue a re-crawl pass over all due items
+ */
+export async function enqueueRecrawl() {
+  const queue = await getQueue();
+  await queue.send(RECRAWL_QUEUE, {} satisfies RecrawlJobPayload, {
+    singletonKey: RECRAWL_SINGLETON_KEY,
+  });
+}
+
+export interface RecrawlResult {
+  done: boolean;
+  changed: number;
+  unchanged: number;
+  failed: number;
+}
+
+/**
+ * Re-crawl one item. Fetch errors keep the existing index (the page may be
+ * down briefly) and push the next attempt out by a full interval, as does a
+ * page that now redirects to another item's URL.
+ */
+async function recrawlItem(
+  contentItemId: string,
+  url: string,
+): Promise<"changed" | "unchanged" | "failed"> {
+  try {
+    const fetchResult = await fetchContent(url);
+    if (!fetchResult.plainText) {
+      throw new Error("No content available");
+    }
+
+    const redirectError = await checkRedirectDuplicate(
+      contentItemId,
+      url,
+      fetchResult,
+    );
+    if (redirectError) {
+      throw new Error(redirectError);
+    }
+
+    const result = await indexFetchedContent(contentItemId, fetchResult);
+    if (result.unchanged) {
+      return "unchanged";
+    }
+
+    await db
+      .update(contentItems)
+      .set({ lastChangedAt: new Date() })
+      .where(eq(contentItems.id, contentItemId));
+    return "changed";
+  } catch (error) {
+    console.error(
+      `[Recrawl] Failed to re-crawl ${url}:`,
+      error instanceof Error ? error.message : error,
+    );
+    await db
+      .update(contentText)
+      .set({ crawledAt: new Date() })
+      .where(eq(contentText.contentItemId, contentItemId));
+    return "failed";
+  }
+}
+
+/**
+ * Re-crawl due items, oldest crawl first, for up to recrawlJobTimeBudgetMs.
+ * Each processed item's crawledAt moves forward, so the next job simply
+ * picks up whatever is still due.
+ */
+export async function processRecrawl(): Promise<RecrawlResult> {
+  const deadline = Date.now() + indexingConfig.recrawlJobTimeBudgetMs;
+  const result: RecrawlResult = {
+    done: false,
+    changed: 0,
+    unchanged: 0,
+    failed: 0,
+  };
+
+  while (Date.now() < deadline) {
+    const batch = await db
+      .select({ id: contentItems.id, url: contentItems.currentUrl })
+      .from(contentItems)
+      .innerJoin(contentTypes, eq(contentTypes.id, contentItems.contentTypeId))
+      .innerJoin(contentText, eq(contentText.contentItemId, contentItems.id))
+      .where(dueForRecrawl())
+      .orderBy(asc(contentText.crawledAt))
+      .limit(indexingConfig.recrawlBatchSize);
+
+    if (batch.length === 0) {
+      result.done = true;
+      break;
+    }
+
+    for (const item of batch) {
+      result[await recrawlItem(item.id, item.url)]++;
+      if (Date.now() >= deadline) break;
+    }
+  }
+
+  console.log(
+    `[Recrawl] ${result.done ? "Complete" : "Time budget reached"}: ${result.changed} changed, ${result.unchanged} unchanged, ${result.failed} failed`,
+  );
+  return result;
+}
+
+/**
+ * Items whose content changed on a recent re-crawl, newest first
+ */
+export async function getRecentlyChangedItems(limit: number, offset: number) {
+  const items = await db.query.contentItems.findMany({
+    where: and(notDeleted, isNotNull(contentItems.lastChangedAt)),
+    orderBy: (items, { desc }) => [desc(items.lastChangedAt)],
+    limit: limit + 1,
+    offset,
+    columns: {
+      id: true,
+      title: true,
+      currentUrl: true,
+      lastChangedAt: true,
+    },
+    with: { contentTypeRel: true },
+  });
+
+  return {
+    items: items.slice(0, limit),
+    hasMore: items.length > limit,
+  };
+}
@@ -0,0 +1,368 @@
+/**
+ * Redirect Map
+ * Turns URL history (content_items.previousUrls → currentUrl) into redirect
+ * rules for the web team, in Vercel, Netlify, nginx and CSV formats.
+ *
+ * Chains are collapsed (A→B plus B→C gives A→C) and loops are reported
+ * instead of exported. When two items claim the same old URL, the most
+ * recently updated item wins and the conflict is reported. An old URL that is
+ * still another item's current URL is never redirected (it is reported as
+ * shadowed, usually a duplicate item), but chains still pass through it.
+ */
+
+import { and, desc, eq, sql } from "drizzle-orm";
+import Papa from "papaparse";
+import { db } from "~/server/db";
+import { contentItems } from "~/server/db/schema";
+import { canonicalizeUrl } from "./canonical-url";
+import { notDeleted } from "./content-query";
+
+export const REDIRECT_FORMATS = ["vercel", "netlify", "nginx", "csv"] as const;
+export type RedirectFormat = (typeof REDIRECT_FORMATS)[number];
+
+// Hop limit when resolving an old URL; longer chains are treated as loops
+const MAX_HOPS = 20;
+
+export interface RedirectRule {
+  from: string;
+  to: string;
+  contentItemId: string;
+  title: string;
+  hops: number; // 1 = direct, 2+ = collapsed chain
+}
+
+export interface RedirectConflict {
+  from: string;
+  targets: string[]; // winner first
+}
+
+export interface ShadowedRedirect {
+  from: string; // still the current URL of liveItemId
+  to: string;
+  liveItemId: string;
+}
+
+export interface RedirectMap {
+  rules: RedirectRule[];
+  loops: string[][];
+  conflicts: RedirectConflict[];
+  shadowed: ShadowedRedirect[];
+}
+
+interface RedirectEdge {
+  to: string;
+  contentItemId: string;
+  title: string;
+}
+
+/**
+ * Build the collapsed redirect map from every item's URL history
+ */
+export async function buildRedirectMap(): Promise<RedirectMap> {
+  // Newest first, so the first item to claim an old URL wins
+  const items = await db
+    .select({
+      id: contentItems.id,
+      title: contentItems.title,
+      currentUrl: contentItems.currentUrl,
+      previousUrls: contentItems.previousUrls,
+    })
+    .from(contentItems)
+    .where(and(notDeleted, sql`cardinality(${contentItems.previousUrls}) > 0`))
+    .orderBy(desc(contentItems.updatedAt));
+
+  const edges = new Map<string, RedirectEdge>();
+  const conflicts = new Map<string, RedirectConflict>();
+
+  for (const item of items) {
+    for (const from of new Set(item.previousUrls)) {
+      // An item can move back to an earlier URL
+      if (from === item.currentUrl) continue;
+
+      const existing = edges.get(from);
+      if (!existing) {
+        edges.set(from, {
+          to: item.currentUrl,
+          contentItemId: item.id,
+          title: item.title,
+        });
+      } else if (existing.to !== item.currentUrl) {
+        const conflict = conflicts.get(from) ?? {
+          from,
+          targets: [existing.to],
+        };
+        conflict.targets.push(item.currentUrl);
+        conflicts.set(from, conflict);
+      }
+    }
+  }
+
+  // Items currently living at one of the old URLs
+  const liveItems = await db
+    .select({ id: contentItems.id, currentUrl: contentItems.currentUrl })
+    .from(contentItems)
+    .where(
+      and(
+        notDeleted,
+        sql`${contentItems.currentUrl} IN (SELECT unnest(${contentItems.previousUrls}) FROM ${contentItems})`,
+      ),
+    );
+  const liveItemIds = new Map(
+    liveItems.map((item) => [item.currentUrl, item.id]),
+  );
+
+  const rules: RedirectRule[] = [];
+  const loops = new Map<string, string[]>();
+  const shadowed: ShadowedRedirect[] = [];
+
+  for (const [from, edge] of edges) {
+    const path = [from];
+    let current = edge;
+    let looped = false;
+
+    // Follow the chain while the target is itself an old URL
+    for (let next = edges.get(current.to); next; next = edges.get(current.to)) {
+      if (path.includes(current.to) || path.length >= MAX_HOPS) {
+        looped = true;
+        break;
+      }
+      path.push(current.to);
+      current = next;
+    }
+
+    if (looped) {
+      const cycle = path.slice(path.indexOf(current.to));
+      const key = [...cycle].sort().join("\n");
+      if (!loops.has(key)) loops.set(key, cycle);
+      continue;
+    }
+
+    const liveItemId = liveItemIds.get(from);
+    if (liveItemId) {
+      shadowed.push({ from, to: current.to, liveItemId });
+      continue;
+    }
+
+    rules.push({
+      from,
+      to: current.to,
+      contentItemId: current.contentItemId,
+      title: current.title,
+      hops: path.length,
+    });
+  }
+
+  rules.sort((a, b) => a.from.localeCompare(b.from));
+
+  return {
+    rules,
+    loops: [...loops.values()],
+    conflicts: [...conflicts.values()],
+    shadowed,
+  };
+}
+
+function parseUrl(url: string): URL | null {
+  try {
+    return new URL(url);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Hosts that have old URLs, most rules first (each server config covers one)
+ */
+export function getRedirectHosts(map: RedirectMap) {
+  const counts = new Map<string, number>();
+  for (const rule of map.rules) {
+    const host = parseUrl(rule.from)?.host;
+    if (host) counts.set(host, (counts.get(host) ?? 0) + 1);
+  }
+  return [...counts]
+    .map(([host, count]) => ({ host, count }))
+    .sort((a, b) => b.count - a.count);
+}
+
+interface HostRule {
+  source: string; // path on the exported host
+  sourceWithQuery: string;
+  destination: string; // path if on the same host, otherwise absolute
+}
+
+/**
+ * Rules whose old URL is on `host`, with paths relative to it
+ */
+function rulesForHost(map: RedirectMap, host: string): HostRule[] {
+  const hostRules: HostRule[] = [];
+  for (const rule of map.rules) {
+    const from = parseUrl(rule.from);
+    const to = parseUrl(rule.to);
+    if (!from || from.host !== host) continue;
+
+    hostRules.push({
+      source: from.pathname,
+      sourceWithQuery: from.pathname + from.search,
+      destination:
+        to && to.host === host ? to.pathname + to.search + to.hash : rule.to,
+    });
+  }
+  return hostRules;
+}
+
+/**
+ * Vercel and Netlify match paths only; keep the first rule for each path
+ */
+function uniqueBySource(rules: HostRule[]): HostRule[] {
+  const seen = new Set<string>();
+  return rules.filter((rule) => {
+    if (seen.has(rule.source)) return false;
+    seen.add(rule.source);
+    return true;
+  });
+}
+
+/**
+ * Vercel sources are path-to-regexp patterns; escape its special characters
+ */
+function vercelSource(path: string): string {
+  return path.replace(/[:*?+()[\]{}]/g, "\\$&");
+}
+
+function nginxString(value: string): string {
+  return `"${value.replace(/["\\$]/g, "\\$&")}"`;
+}
+
+/**
+ * Render the map in a redirect config format. Every format except CSV is a
+ * per-site config, so `host` picks the site whose old URLs are exported.
+ */
+export function formatRedirectMap(
+  map: RedirectMap,
+  format: RedirectFormat,
+  host?: string,
+): string {
+  if (format === "csv") {
+    return `${Papa.unparse({
+      fields: ["from", "to", "hops", "content_item_id", "title"],
+      data: map.rules.map((rule) => [
+        rule.from,
+        rule.to,
+        rule.hops,
+        rule.contentItemId,
+        rule.title,
+      ]),
+    })}\n`;
+  }
+
+  if (!host) {
+    throw new Error(`A host is required for ${format} redirects`);
+  }
+  const hostRules = rulesForHost(map, host);
+
+  switch (format) {
+    case "vercel":
+      return `${JSON.stringify(
+        {
+          redirects: uniqueBySource(hostRules).map((rule) => ({
+            source: vercelSource(rule.source),
+            destination: rule.destination,
+            permanent: true,
+          })),
+        },
+        null,
+        2,
+      )}\n`;
+
+    case "netlify":
+      return `${uniqueBySource(hostRules)
+        .map((rule) => `${rule.source}  ${rule.destination}  301`)
+        .join("\n")}\n`;
+
+    case "nginx":
+      return [
+        `# Redirects for ${host}, generated by Tiger Den.`,
+        "# Include inside the http block, then in the server block:",
+        "#   if ($tiger_den_redirect) { return 301 $tiger_den_redirect; }",
+        "map $request_uri $tiger_den_redirect {",
+        ...hostRules.map(
+          (rule) =>
+            `    ${nginxString(rule.sourceWithQuery)} ${nginxString(rule.destination)};`,
+        ),
+        "}",
+        "",
+      ].join("\n");
+  }
+}
+
+/**
+ * Download filename for a redirect export. Vercel and Netlify configs use
+ * the names those platforms expect.
+ */
+export function getRedirectFilename(format: RedirectFormat): string {
+  const date = new Date().toISOString().slice(0, 10);
+  const filenames: Record<RedirectFormat, string> = {
+    vercel: "vercel.json",
+    netlify: "_redirects",
+    nginx: `tiger-den-redirects-${date}.conf`,
+    csv: `tiger-den-redirects-${date}.csv`,
+  };
+  return filenames[format];
+}
+
+export function getRedirectContentType(format: RedirectFormat): string {
+  const contentTypes: Record<RedirectFormat, string> = {
+    vercel: "application/json; charset=utf-8",
+    netlify: "text/plain; charset=utf-8",
+    nginx: "text/plain; charset=utf-8",
+    csv: "text/csv; charset=utf-8",
+  };
+  return contentTypes[format];
+}
+
+/**
+ * Resolve any URL (current or old) to the content item that lives there
+ * now, following moves across items the same way the redirect map does.
+ * Falls back to the canonical form of the URL.
+ */
+export async function resolveUrl(url: string) {
+  const match = await resolveExactUrl(url);
+  const canonicalUrl = canonicalizeUrl(url);
+  if (match || canonicalUrl === url) {
+    return match;
+  }
+  return resolveExactUrl(canonicalUrl);
+}
+
+async function resolveExactUrl(url: string) {
+  const current = await db.query.contentItems.findFirst({
+    where: and(notDeleted, eq(contentItems.currentUrl, url)),
+    columns: { id: true, title: true, currentUrl: true },
+  });
+  if (current) {
+    return { ...current, redirected: false, hops: 0 };
+  }
+
+  const visited = new Set([url]);
+  let target = url;
+  let match: { id: string; title: string; currentUrl: string } | undefined;
+
+  while (visited.size <= MAX_HOPS) {
+    const next = await db.query.contentItems.findFirst({
+      where: and(
+        notDeleted,
+        sql`${target} = ANY(${contentItems.previousUrls}) AND ${contentItems.currentUrl} <> ${target}`,
+      ),
+      orderBy: [desc(contentItems.updatedAt)],
+      columns: { id: true, title: true, currentUrl: true },
+    });
+    if (!next) break;
+    if (visited.has(next.currentUrl)) return null; // loop
+
+    match = next;
+    target = next.currentUrl;
+    visited.add(target);
+  }
+
+  return match ? { ...match, redirected: true, hops: visited.size - 1 } : null;
+}
@@ -0,0 +1,119 @@
+/**
+ * Document-level grouping of chunk search results
+ * Collapses chunk hits into one result per content item with its best passages
+ */
+
+import { indexingConfig } from "~/server/config/indexing-config";
+
+export type MatchType = "keyword" | "semantic" | "both";
+
+export interface ChunkHit {
+  contentItemId: string;
+  chunkId: string;
+  chunkText: string;
+  snippet: string;
+  relevanceScore: number;
+  matchType: MatchType;
+  matchedTerms: string[];
+}
+
+export interface DocumentSearchResult<T extends ChunkHit = ChunkHit> {
+  contentItemId: string;
+  relevanceScore: number;
+  matchType: MatchType;
+  passages: T[];
+}
+
+export interface DocumentSearchPage<T extends ChunkHit = ChunkHit> {
+  results: DocumentSearchResult<T>[];
+  hasMore: boolean;
+  // Every content item in the candidate pool, best first
+  candidateItemIds: string[];
+}
+
+/**
+ * How many chunk candidates to pull so that a page of documents can be filled
+ * even when several top chunks belong to the same item
+ */
+export function documentCandidateLimit(
+  limit: number,
+  offset: number,
+  candidatesPerSearch: number = indexingConfig.candidatesPerSearch,
+): number {
+  return Math.max(
+    candidatesPerSearch,
+    (offset + limit) * indexingConfig.passagesPerResult,
+  );
+}
+
+/**
+ * Combine match types of all passages of a document
+ */
+function combineMatchTypes(types: MatchType[]): MatchType {
+  const hasKeyword = types.some((t) => t === "keyword" || t === "both");
+  const hasSemantic = types.some((t) => t === "semantic" || t === "both");
+  if (hasKeyword && hasSemantic) return "both";
+  return hasKeyword ? "keyword" : "semantic";
+}
+
+/**
+ * Group ranked chunk hits by content item.
+ * Document score = best chunk score + decayed sum of the remaining chunk scores
+ * (score_1 + decay * score_2 + decay^2 * score_3 + ...), so an item with several
+ * relevant passages edges out one with a single equally good passage without
+ * letting long documents dominate.
+ */
+export function groupByContentItem<T extends ChunkHit>(
+  hits: T[],
+  limit: number,
+  offset: number = 0,
+): DocumentSearchPage<T> {
+  const byItem = new Map<string, T[]>();
+  for (const hit of hits) {
+    const group = byItem.get(hit.contentItemId);
+    if (group) {
+      group.push(hit);
+    } else {
+      byItem.set(hit.contentItemId, [hit]);
+    }
+  }
+
+  const documents: DocumentSearchResult<T>[] = [...byItem.entries()].map(
+    ([contentItemId, group]) => {
+      const sorted = [...group].sort(
+        (a, b) => b.relevanceScore - a.relevanceScore,
+      );
+      const score = sorted.reduce(
+        (sum, hit, i) =>
+          sum + hit.relevanceScore * indexingConfig.passageScoreDecay ** i,
+        0,
+      );
+
+      return {
+        contentItemId,
+        relevanceScore: score,
+        matchType: combineMatchTypes(sorted.map((hit) => hit.matchType)),
+        passages: sorted.slice(0, indexingConfig.passagesPerResult),
+      };
+    },
+  );
+
+  documents.sort((a, b) => b.relevanceScore - a.relevanceScore);
+
+  // Normalize against the overall top document so scores stay comparable across pages
+  const maxScore = documents[0]?.relevanceScore ?? 0;
+  const page = documents.slice(offset, offset + limit).map((doc) => ({
+    ...doc,
+    relevanceScore: maxScore > 0 ? doc.relevanceScore / maxScore : 0,
+    passages: doc.passages.map((passage) => ({
+      ...passage,
+      relevanceScore: maxScore > 0 ? passage.relevanceScore / maxScore : 0,
+    })),
+  }));
+
+  return {
+    results: page,
+    hasMore: documents.length > offset + limit,
+    candidateItemIds: documents.map((doc) => doc.contentItemId),
+  };
+}
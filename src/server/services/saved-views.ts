@@ -0,0 +1,125 @@
+/**
+ * Saved Views
+ * Named content list views: filters, sort and search mode. A view belongs to
+ * the user who saved it; shared views are listed for the whole team, and
+ * admins can manage any shared view.
+ */
+
+import { and, asc, eq, ne, or } from "drizzle-orm";
+import { db } from "~/server/db";
+import { savedViews, users } from "~/server/db/schema";
+import { type ContentView, contentViewSchema } from "./content-query";
+
+export interface ViewActor {
+  userId: string;
+  isAdmin: boolean;
+}
+
+/**
+ * The user's own views and every shared view, by name
+ */
+export async function listSavedViews(userId: string) {
+  const rows = await db
+    .select({
+      id: savedViews.id,
+      name: savedViews.name,
+      shared: savedViews.shared,
+      state: savedViews.state,
+      ownerUserId: savedViews.ownerUserId,
+      ownerName: users.name,
+      ownerEmail: users.email,
+      updatedAt: savedViews.updatedAt,
+    })
+    .from(savedViews)
+    .innerJoin(users, eq(users.id, savedViews.ownerUserId))
+    .where(or(eq(savedViews.ownerUserId, userId), eq(savedViews.shared, true)))
+    .orderBy(asc(savedViews.name));
+
+  return rows.map(({ state, ownerEmail, ...view }) => ({
+    ...view,
+    ownerName: view.ownerName ?? ownerEmail,
+    isOwn: view.ownerUserId === userId,
+    state: contentViewSchema.parse(state),
+  }));
+}
+
+async function assertNameFree(userId: string, name: string, exceptId?: string) {
+  const existing = await db.query.savedViews.findFirst({
+    where: and(
+      eq(savedViews.ownerUserId, userId),
+      eq(savedViews.name, name),
+      exceptId ? ne(savedViews.id, exceptId) : undefined,
+    ),
+    columns: { id: true },
+  });
+  if (existing) {
+    throw new Error(`You already have a view named "${name}"`);
+  }
+}
+
+// Owners manage their views; admins can also manage shared ones
+async function findManageableView(id: string, actor: ViewActor) {
+  const view = await db.query.savedViews.findFirst({
+    where: eq(savedViews.id, id),
+  });
+  if (!view) {
+    throw new Error("Saved view not found");
+  }
+  if (view.ownerUserId !== actor.userId && !(actor.isAdmin && view.shared)) {
+    throw new Error("Only the owner can change this view");
+  }
+  return view;
+}
+
+export async function createSavedView(
+  userId: string,
+  input: { name: string; state: ContentView; shared: boolean },
+) {
+  const name = input.name.trim();
+  await assertNameFree(userId, name);
+
+  const [view] = await db
+    .insert(savedViews)
+    .values({
+      name,
+      ownerUserId: userId,
+      shared: input.shared,
+      state: input.state,
+    })
+    .returning();
+
+  if (!view) {
+    throw new Error("Failed to save view");
+  }
+  return view;
+}
+
+export async function updateSavedView(
+  id: string,
+  actor: ViewActor,
+  changes: { name?: string; state?: ContentView; shared?: boolean },
+) {
+  const view = await findManageableView(id, actor);
+  const name = changes.name?.trim();
+  if (name && name !== view.name) {
+    await assertNameFree(view.ownerUserId, name, id);
+  }
+
+  const [updated] = await db
+    .update(savedViews)
+    .set({
+      ...(name && { name }),
+      ...(changes.state && { state: changes.state }),
+      ...(changes.shared !== undefined && { shared: changes.shared }),
+      updatedAt: new Date(),
+    })
+    .where(eq(savedViews.id, id))
+    .returning();
+
+  return updated;
+}
+
+export async function deleteSavedView(id: string, actor: ViewActor) {
+  await findManageableView(id, actor);
+  await db.delete(savedViews).where(eq(savedViews.id, id));
+}
@@ -0,0 +1,192 @@
+/**
+ * Search Analytics
+ * Logs content searches and the clicks from their results, and summarizes
+ * them for the admin analytics page: top queries, zero-result queries (the
+ * clearest sign of a content gap) and click-through rate by search mode.
+ */
+
+import crypto from "node:crypto";
+import { sql } from "drizzle-orm";
+import { db } from "~/server/db";
+import { searchClicks, searchQueries } from "~/server/db/schema";
+import type { SearchFilters } from "./content-query";
+
+export type SearchMode = "metadata" | "keyword" | "fullContent";
+
+export interface SearchLogEntry {
+  userId: string;
+  query: string;
+  mode: SearchMode;
+  filters: SearchFilters;
+  resultCount: number;
+  latencyMs: number;
+}
+
+// Queries listed per table on the analytics page
+const TOP_QUERY_LIMIT = 25;
+
+/**
+ * The filters that narrow the results, without empty lists and blank dates
+ */
+export function appliedSearchFilters(filters: SearchFilters) {
+  return Object.fromEntries(
+    Object.entries(filters).filter(([, value]) =>
+      Array.isArray(value) ? value.length > 0 : !!value,
+    ),
+  ) as Partial<SearchFilters>;
+}
+
+/**
+ * Log a search without holding up the response; returns the id that clicks
+ * on its results refer to. Logging failures are only reported.
+ */
+export function logSearch(entry: SearchLogEntry): string {
+  const id = crypto.randomUUID();
+  db.insert(searchQueries)
+    .values({
+      id,
+      userId: entry.userId,
+      query: entry.query.trim(),
+      mode: entry.mode,
+      filters: appliedSearchFilters(entry.filters),
+      resultCount: entry.resultCount,
+      latencyMs: Math.round(entry.latencyMs),
+    })
+    .catch((error) => {
+      console.error("[SearchAnalytics] Failed to log search:", error);
+    });
+  return id;
+}
+
+export async function recordSearchClick(click: {
+  searchId: string;
+  contentItemId: string;
+  position: number;
+  userId: string;
+}) {
+  await db.insert(searchClicks).values(click);
+}
+
+/**
+ * Search volume, zero-result and click-through rates over the last `days`.
+ * A search counts as clicked through when any of its results was opened.
+ */
+export async function getSearchAnalytics(days: number) {
+  const since = sql`now() - make_interval(days => ${days})`;
+  const searches = sql`
+    SELECT
+      q.mode,
+      lower(btrim(q.query)) AS query,
+      q.user_id,
+      q.result_count,
+      q.latency_ms,
+      q.searched_at,
+      EXISTS (
+        SELECT 1 FROM tiger_den.search_clicks c
+        WHERE c.search_id = q.id AND c.clicked_at >= q.searched_at
+      ) AS clicked
+    FROM tiger_den.search_queries q
+    WHERE q.searched_at >= ${since}
+  `;
+
+  const [byModeRows, topRows, zeroRows] = await Promise.all([
+    db.execute(sql`
+      WITH s AS (${searches})
+      SELECT
+        mode,
+        count(*)::int AS searches,
+        count(*) FILTER (WHERE result_count = 0)::int AS zero_results,
+        count(*) FILTER (WHERE result_count > 0)::int AS with_results,
+        count(*) FILTER (WHERE clicked)::int AS clicked,
+        round(avg(latency_ms))::int AS avg_latency_ms
+      FROM s
+      GROUP BY mode
+      ORDER BY searches DESC
+    `),
+    db.execute(sql`
+      WITH s AS (${searches})
+      SELECT
+        query,
+        count(*)::int AS searches,
+        count(DISTINCT user_id)::int AS users,
+        round(avg(result_count))::int AS avg_results,
+        count(*) FILTER (WHERE result_count > 0)::int AS with_results,
+        count(*) FILTER (WHERE clicked)::int AS clicked
+      FROM s
+      WHERE query <> ''
+      GROUP BY query
+      ORDER BY searches DESC, query
+      LIMIT ${TOP_QUERY_LIMIT}
+    `),
+    db.execute(sql`
+      WITH s AS (${searches})
+      SELECT
+        query,
+        count(*)::int AS searches,
+        count(DISTINCT user_id)::int AS users,
+        array_agg(DISTINCT mode) AS modes,
+        max(searched_at) AS last_searched_at
+      FROM s
+      WHERE query <> '' AND result_count = 0
+      GROUP BY query
+      ORDER BY searches DESC, last_searched_at DESC
+      LIMIT ${TOP_QUERY_LIMIT}
+    `),
+  ]);
+
+  const rate = (part: number, whole: number) => (whole > 0 ? part / whole : 0);
+
+  const byMode = (byModeRows as unknown as Record<string, unknown>[]).map(
+    (row) => ({
+      mode: String(row.mode) as SearchMode,
+      searches: Number(row.searches),
+      zeroResultRate: rate(Number(row.zero_results), Number(row.searches)),
+      clickThroughRate: rate(Number(row.clicked), Number(row.with_results)),
+      avgLatencyMs: Number(row.avg_latency_ms),
+    }),
+  );
+
+  const totals = (byModeRows as unknown as Record<string, unknown>[]).reduce<{
+    searches: number;
+    zeroResults: number;
+    withResults: number;
+    clicked: number;
+    latencyMs: number;
+  }>(
+    (sum, row) => ({
+      searches: sum.searches + Number(row.searches),
+      zeroResults: sum.zeroResults + Number(row.zero_results),
+      withResults: sum.withResults + Number(row.with_results),
+      clicked: sum.clicked + Number(row.clicked),
+      latencyMs:
+        sum.latencyMs + Number(row.avg_latency_ms) * Number(row.searches),
+    }),
+    { searches: 0, zeroResults: 0, withResults: 0, clicked: 0, latencyMs: 0 },
+  );
+
+  return {
+    searches: totals.searches,
+    zeroResultRate: rate(totals.zeroResults, totals.searches),
+    clickThroughRate: rate(totals.clicked, totals.withResults),
+    avgLatencyMs: Math.round(rate(totals.latencyMs, totals.searches)),
+    byMode,
+    topQueries: (topRows as unknown as Record<string, unknown>[]).map(
+      (row) => ({
+        query: String(row.query),
+        searches: Number(row.searches),
+        users: Number(row.users),
+        avgResults: Number(row.avg_results),
+        clickThroughRate: rate(Number(row.clicked), Number(row.with_results)),
+      }),
+    ),
+    zeroResultQueries: (zeroRows as unknown as Record<string, unknown>[]).map(
+      (row) => ({
+        query: String(row.query),
+        searches: Number(row.searches),
+        users: Number(row.users),
+        modes: (row.modes as string[]) ?? [],
+        lastSearchedAt: new Date(String(row.last_searched_at)),
+      }),
+    ),
+  };
+}
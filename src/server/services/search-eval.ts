@@ -0,0 +1,328 @@
+/**
+ * Search Relevance Evaluation
+ * A golden set of queries, maintained by admins, each with the content items
+ * a good search should return and how relevant each one is. The evaluator
+ * runs every query through keyword, semantic and hybrid search and scores the
+ * top results with nDCG@10, MRR@10 and recall@10, optionally under several
+ * search parameter settings so they can be compared side by side.
+ * Run it with scripts/evaluate-search.ts.
+ */
+
+import { and, asc, eq } from "drizzle-orm";
+import { parseSearchQuery, plainSearchText } from "~/lib/search-query";
+import { indexingConfig } from "~/server/config/indexing-config";
+import { db } from "~/server/db";
+import {
+  contentItems,
+  searchEvalJudgments,
+  searchEvalQueries,
+} from "~/server/db/schema";
+import { buildContentFilterWhere } from "./content-query";
+import { generateEmbedding, getActiveEmbeddingProvider } from "./embeddings";
+import { keywordSearch } from "./keyword-search";
+import {
+  type ChunkHit,
+  documentCandidateLimit,
+  groupByContentItem,
+} from "./result-grouping";
+import {
+  hybridSearch,
+  type QueryEmbedding,
+  semanticSearch,
+} from "./search-service";
+
+export const EVAL_MODES = ["keyword", "semantic", "hybrid"] as const;
+export type EvalMode = (typeof EVAL_MODES)[number];
+
+// Results scored per query
+export const EVAL_CUTOFF = 10;
+
+/**
+ * Search parameters under evaluation (defaults from indexingConfig)
+ */
+export interface SearchTuning {
+  rrfK: number;
+  candidatesPerSearch: number;
+}
+
+export interface RelevanceScores {
+  ndcg: number;
+  mrr: number;
+  recall: number;
+}
+
+export interface EvalRun {
+  tuning: SearchTuning;
+  mode: EvalMode;
+  mean: RelevanceScores;
+  perQuery: Array<{
+    query: string;
+    scores: RelevanceScores;
+    // Content item ids of the top results, best first
+    ranked: string[];
+  }>;
+}
+
+export async function listEvalQueries() {
+  return db.query.searchEvalQueries.findMany({
+    orderBy: asc(searchEvalQueries.query),
+    with: {
+      judgments: {
+        with: {
+          contentItem: {
+            columns: { id: true, title: true, currentUrl: true },
+          },
+        },
+      },
+    },
+  });
+}
+
+export async function createEvalQuery(
+  userId: string,
+  input: { query: string; notes?: string },
+) {
+  const existing = await db.query.searchEvalQueries.findFirst({
+    where: eq(searchEvalQueries.query, input.query),
+  });
+  if (existing) {
+    throw new Error("This query is already in the golden set");
+  }
+
+  const [created] = await db
+    .insert(searchEvalQueries)
+    .values({
+      query: input.query,
+      notes: input.notes || null,
+      createdByUserId: userId,
+    })
+    .returning();
+  return created;
+}
+
+export async function updateEvalQuery(
+  id: string,
+  changes: { query?: string; notes?: string },
+) {
+  if (changes.query) {
+    const existing = await db.query.searchEvalQueries.findFirst({
+      where: eq(searchEvalQueries.query, changes.query),
+    });
+    if (existing && existing.id !== id) {
+      throw new Error("This query is already in the golden set");
+    }
+  }
+
+  const [updated] = await db
+    .update(searchEvalQueries)
+    .set({
+      ...(changes.query ? { query: changes.query } : {}),
+      ...(changes.notes !== undefined ? { notes: changes.notes || null } : {}),
+      updatedAt: new Date(),
+    })
+    .where(eq(searchEvalQueries.id, id))
+    .returning();
+  if (!updated) {
+    throw new Error("Golden query not found");
+  }
+  return updated;
+}
+
+export async function deleteEvalQuery(id: string) {
+  await db.delete(searchEvalQueries).where(eq(searchEvalQueries.id, id));
+}
+
+/**
+ * Mark an item relevant to a query (grade 1-3), or change its grade
+ */
+export async function setEvalJudgment(
+  queryId: string,
+  contentItemId: string,
+  grade: number,
+) {
+  await db
+    .insert(searchEvalJudgments)
+    .values({ queryId, contentItemId, grade })
+    .onConflictDoUpdate({
+      target: [searchEvalJudgments.queryId, searchEvalJudgments.contentItemId],
+      set: { grade },
+    });
+  await db
+    .update(searchEvalQueries)
+    .set({ updatedAt: new Date() })
+    .where(eq(searchEvalQueries.id, queryId));
+}
+
+export async function removeEvalJudgment(
+  queryId: string,
+  contentItemId: string,
+) {
+  await db
+    .delete(searchEvalJudgments)
+    .where(
+      and(
+        eq(searchEvalJudgments.queryId, queryId),
+        eq(searchEvalJudgments.contentItemId, contentItemId),
+      ),
+    );
+}
+
+/**
+ * Items to judge for a query: a title and metadata search, without logging
+ * it as a user search
+ */
+export async function findEvalCandidates(search: string) {
+  return db.query.contentItems.findMany({
+    where: buildContentFilterWhere({ search }),
+    columns: { id: true, title: true, currentUrl: true },
+    with: { contentTypeRel: { columns: { name: true, color: true } } },
+    orderBy: asc(contentItems.title),
+    limit: 10,
+  });
+}
+
+/**
+ * Graded relevance of the top results against the judged items.
+ * nDCG uses gain 2^grade - 1, so the best answer counts far more than a
+ * somewhat relevant one; MRR and recall count any judged item as a hit.
+ */
+function scoreRanking(
+  ranked: string[],
+  grades: Map<string, number>,
+): RelevanceScores {
+  const gain = (grade: number) => 2 ** grade - 1;
+  const discounted = (sum: number, grade: number, i: number) =>
+    sum + gain(grade) / Math.log2(i + 2);
+
+  const dcg = ranked.map((id) => grades.get(id) ?? 0).reduce(discounted, 0);
+  const idealDcg = [...grades.values()]
+    .sort((a, b) => b - a)
+    .slice(0, EVAL_CUTOFF)
+    .reduce(discounted, 0);
+  const firstHit = ranked.findIndex((id) => grades.has(id));
+  const hits = ranked.filter((id) => grades.has(id)).length;
+
+  return {
+    ndcg: idealDcg > 0 ? dcg / idealDcg : 0,
+    mrr: firstHit === -1 ? 0 : 1 / (firstHit + 1),
+    recall: grades.size > 0 ? hits / grades.size : 0,
+  };
+}
+
+/**
+ * Top content items for a query, ranked the way the search procedures rank
+ * documents, with the tuning's parameters in place of the configured ones
+ */
+async function rankDocuments(
+  mode: EvalMode,
+  query: string,
+  embedding: QueryEmbedding | undefined,
+  tuning: SearchTuning,
+): Promise<string[]> {
+  const candidateLimit = documentCandidateLimit(
+    EVAL_CUTOFF,
+    0,
+    tuning.candidatesPerSearch,
+  );
+
+  let chunks: ChunkHit[];
+  if (mode === "keyword") {
+    chunks = await keywordSearch(query, candidateLimit);
+  } else {
+    if (!embedding) {
+      throw new Error(`No query embedding for ${mode} search`);
+    }
+    chunks =
+      mode === "semantic"
+        ? await semanticSearch(query, embedding, candidateLimit)
+        : await hybridSearch(
+            query,
+            embedding,
+            candidateLimit * 2,
+            undefined,
+            candidateLimit,
+            tuning.rrfK,
+          );
+  }
+
+  return groupByContentItem(chunks, EVAL_CUTOFF).results.map(
+    (result) => result.contentItemId,
+  );
+}
+
+function meanScores(scores: RelevanceScores[]): RelevanceScores {
+  const mean = (pick: (s: RelevanceScores) => number) =>
+    scores.length > 0
+      ? scores.reduce((sum, s) => sum + pick(s), 0) / scores.length
+      : 0;
+  return {
+    ndcg: mean((s) => s.ndcg),
+    mrr: mean((s) => s.mrr),
+    recall: mean((s) => s.recall),
+  };
+}
+
+export function configuredSearchTuning(): SearchTuning {
+  return {
+    rrfK: indexingConfig.rrfK,
+    candidatesPerSearch: indexingConfig.candidatesPerSearch,
+  };
+}
+
+/**
+ * Score every mode under every tuning against the golden set. Queries with
+ * no judged items are skipped. Each query is embedded once, with the model
+ * search currently uses.
+ */
+export async function evaluateSearch(
+  tunings: SearchTuning[] = [configuredSearchTuning()],
+  modes: readonly EvalMode[] = EVAL_MODES,
+): Promise<{ evaluated: number; skipped: string[]; runs: EvalRun[] }> {
+  const golden = await listEvalQueries();
+  const judged = golden.filter((q) => q.judgments.length > 0);
+
+  const embeddings = new Map<string, QueryEmbedding>();
+  if (modes.some((mode) => mode !== "keyword")) {
+    const provider = await getActiveEmbeddingProvider();
+    for (const { query } of judged) {
+      embeddings.set(query, {
+        model: provider.model,
+        vector: await generateEmbedding(
+          plainSearchText(parseSearchQuery(query)) || query,
+          provider,
+        ),
+      });
+    }
+  }
+
+  const runs: EvalRun[] = [];
+  for (const tuning of tunings) {
+    for (const mode of modes) {
+      const perQuery: EvalRun["perQuery"] = [];
+      for (const { query, judgments } of judged) {
+        const grades = new Map(
+          judgments.map((j) => [j.contentItemId, j.grade]),
+        );
+        const ranked = await rankDocuments(
+          mode,
+          query,
+          embeddings.get(query),
+          tuning,
+        );
+        perQuery.push({ query, scores: scoreRanking(ranked, grades), ranked });
+      }
+      runs.push({
+        tuning,
+        mode,
+        mean: meanScores(perQuery.map((q) => q.scores)),
+        perQuery,
+      });
+    }
+  }
+
+  return {
+    evaluated: judged.length,
+    skipped: golden.filter((q) => q.judgments.length === 0).map((q) => q.query),
+    runs,
+  };
+}
@@ -1,6 +1,20 @@
-import { sql } from "drizzle-orm";
+import { type SQL, sql } from "drizzle-orm";
+import {
+  excludedSearchText,
+  fullTextSearchText,
+  type ParsedSearchQuery,
+  parseSearchQuery,
+  plainSearchText,
+} from "~/lib/search-query";
 import { indexingConfig } from "~/server/config/indexing-config";
 import { db } from "~/server/db";
+import { buildSearchFilterSql, type SearchFilters } from "./content-query";
+import { keywordHitsSql, keywordRankSql } from "./keyword-search";
+import {
+  type DocumentSearchPage,
+  documentCandidateLimit,
+  groupByContentItem,
+} from "./result-grouping";
 import { extractSmartSnippet } from "./snippet-extractor";
 
 export interface SearchResult {
@@ -19,6 +33,15 @@ interface QueryRow {
   chunk_text: string;
 }
 
+/**
+ * Query vector plus the model that produced it, so only chunks embedded by
+ * the same model are compared
+ */
+export interface QueryEmbedding {
+  model: string;
+  vector: number[];
+}
+
 /**
  * Reciprocal Rank Fusion (RRF)
  * Combines keyword and semantic search rankings
@@ -85,16 +108,65 @@ function rrfFusion(
     });
 }
 
+/**
+ * Leaves out chunks containing the query's excluded words. Keyword search
+ * gets this from websearch_to_tsquery; vector search needs it spelled out.
+ */
+function excludedChunksSql(parsed: ParsedSearchQuery) {
+  return parsed.excluded.length > 0
+    ? sql`AND NOT cc.search_vector @@ websearch_to_tsquery('english', ${excludedSearchText(parsed)})`
+    : sql``;
+}
+
+/**
+ * Chunks nearest to the query vector. Only chunks embedded by the active
+ * model are comparable with it; others (e.g. mid-migration) are left to
+ * keyword search.
+ */
+async function semanticCandidates(
+  embedding: QueryEmbedding,
+  filterSql: SQL,
+  candidateLimit: number,
+): Promise<QueryRow[]> {
+  const embeddingStr = `[${embedding.vector.join(",")}]`;
+  // Inlined (not a bind parameter) so the per-dimension partial HNSW index applies
+  const dimensions = sql.raw(String(embedding.vector.length));
+  const rows = await db.execute(sql`
+    SELECT
+      ct.content_item_id,
+      cc.id as chunk_id,
+      cc.chunk_text
+    FROM tiger_den.content_chunks cc
+    JOIN tiger_den.content_text ct ON ct.id = cc.content_text_id
+    JOIN tiger_den.content_items ON tiger_den.content_items.id = ct.content_item_id
+    WHERE cc.embedding IS NOT NULL
+      AND cc.embedding_model = ${embedding.model}
+      AND cc.embedding_dimensions = ${dimensions}
+      ${filterSql}
+    ORDER BY cc.embedding::halfvec(${dimensions}) <=> ${sql.raw(`'${embeddingStr}'`)}::halfvec(${dimensions})
+    LIMIT ${candidateLimit}
+  `);
+  return rows as unknown as QueryRow[];
+}
+
 /**
  * Hybrid search: BM25 keyword + vector semantic with RRF fusion
- * Runs queries in parallel, fuses results client-side
+ * Runs queries in parallel, fuses results client-side.
+ * Structured filters and the query's field operators are applied inside both
+ * candidate queries so the candidate pools only contain matching content
+ * items. Excluded words also leave chunks out of the semantic side.
  */
 export async function hybridSearch(
   query: string,
-  embedding: number[],
+  embedding: QueryEmbedding,
   limit: number = 10,
+  filters?: SearchFilters,
+  candidateLimit: number = indexingConfig.candidatesPerSearch,
+  rrfK: number = indexingConfig.rrfK,
 ): Promise<SearchResult[]> {
-  const candidateLimit = indexingConfig.candidatesPerSearch;
+  const parsed = parseSearchQuery(query);
+  const filterSql = buildSearchFilterSql(filters, parsed);
+  const tsQuery = sql`websearch_to_tsquery('english', ${fullTextSearchText(parsed)})`;
 
   // Run both queries in parallel
   const [keywordResults, semanticResults] = await Promise.all([
@@ -106,34 +178,85 @@ export async function hybridSearch(
         cc.chunk_text
       FROM tiger_den.content_chunks cc
       JOIN tiger_den.content_text ct ON ct.id = cc.content_text_id
-      WHERE to_tsvector('english', cc.chunk_text) @@ plainto_tsquery('english', ${query})
-      ORDER BY ts_rank(to_tsvector('english', cc.chunk_text), plainto_tsquery('english', ${query})) DESC
+      JOIN tiger_den.content_items ON tiger_den.content_items.id = ct.content_item_id
+      WHERE cc.id IN (${keywordHitsSql(tsQuery)})
+        ${filterSql}
+      ORDER BY ${keywordRankSql(tsQuery)} DESC
       LIMIT ${candidateLimit}
     `),
 
     // Query 2: Vector semantic search
-    (async () => {
-      const embeddingStr = `[${embedding.join(",")}]`;
-      return db.execute(sql`
-        SELECT
-          ct.content_item_id,
-          cc.id as chunk_id,
-          cc.chunk_text
-        FROM tiger_den.content_chunks cc
-        JOIN tiger_den.content_text ct ON ct.id = cc.content_text_id
-        WHERE cc.embedding IS NOT NULL
-        ORDER BY cc.embedding <=> ${sql.raw(`'${embeddingStr}'::halfvec(1536)`)}
-        LIMIT ${candidateLimit}
-      `);
-    })(),
+    semanticCandidates(
+      embedding,
+      sql`${filterSql} ${excludedChunksSql(parsed)}`,
+      candidateLimit,
+    ),
   ]);
 
   // Fuse with RRF
   return rrfFusion(
     keywordResults as unknown as QueryRow[],
-    semanticResults as unknown as QueryRow[],
-    query,
-    indexingConfig.rrfK,
+    semanticResults,
+    plainSearchText(parsed),
+    rrfK,
     limit,
   );
 }
+
+/**
+ * Vector search alone, ranked by distance to the query: the semantic side of
+ * hybrid search, for comparing the two (see search-eval.ts)
+ */
+export async function semanticSearch(
+  query: string,
+  embedding: QueryEmbedding,
+  limit: number = 10,
+  filters?: SearchFilters,
+): Promise<SearchResult[]> {
+  const parsed = parseSearchQuery(query);
+  const rows = await semanticCandidates(
+    embedding,
+    sql`${buildSearchFilterSql(filters, parsed)} ${excludedChunksSql(parsed)}`,
+    limit,
+  );
+
+  const searchText = plainSearchText(parsed);
+  return rows.map((row, index) => {
+    const { snippet, matchedTerms } = extractSmartSnippet(
+      row.chunk_text,
+      searchText,
+    );
+    return {
+      contentItemId: row.content_item_id,
+      chunkId: row.chunk_id,
+      chunkText: row.chunk_text,
+      snippet,
+      relevanceScore: 1 / (index + 1), // Simple rank-based score
+      matchType: "semantic" as const,
+      matchedTerms,
+    };
+  });
+}
+
+/**
+ * Document-level hybrid search: one result per content item with its top
+ * passages, paginated by document
+ */
+export async function hybridSearchDocuments(
+  query: string,
+  embedding: QueryEmbedding,
+  limit: number = 10,
+  offset: number = 0,
+  filters?: SearchFilters,
+): Promise<DocumentSearchPage<SearchResult>> {
+  const candidateLimit = documentCandidateLimit(limit, offset);
+  const chunks = await hybridSearch(
+    query,
+    embedding,
+    candidateLimit * 2,
+    filters,
+    candidateLimit,
+  );
+
+  return groupByContentItem(chunks, limit, offset);
+}
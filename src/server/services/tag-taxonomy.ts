@@ -0,0 +1,368 @@
+/**
+ * Tag Taxonomy
+ * Tags are free text on content items. The vocabulary lists canonical tag
+ * spellings, and synonyms map other spellings onto them. Incoming tags
+ * (manual edits, CSV import, API syncs) are mapped through it so
+ * "TimescaleDB", "timescale db" and "timescaledb" land on one tag. In
+ * controlled vocabulary mode, tags that map to nothing are rejected.
+ *
+ * Rename and merge rewrite the tag arrays of every item carrying the tag,
+ * trashed ones included.
+ */
+
+import { eq, inArray, sql } from "drizzle-orm";
+import { db } from "~/server/db";
+import {
+  appSettings,
+  contentItems,
+  tagSynonyms,
+  tagVocabulary,
+} from "~/server/db/schema";
+
+export const CONTROLLED_VOCABULARY_KEY = "tags.controlledVocabulary";
+
+// Vocabulary edits in another process show up within this long
+const CACHE_TTL_MS = 60_000;
+
+interface Taxonomy {
+  // tagKey() of every canonical tag and synonym -> canonical tag
+  lookup: Map<string, string>;
+  controlled: boolean;
+  loadedAt: number;
+}
+
+let cachedTaxonomy: Taxonomy | null = null;
+
+export interface TagMapping {
+  tags: string[];
+  // Tags with no vocabulary entry (only in controlled vocabulary mode)
+  unknown: string[];
+}
+
+export interface TagUsage {
+  name: string;
+  count: number;
+  inVocabulary: boolean;
+  synonyms: string[];
+  // Canonical tag this spelling maps to, when it isn't one itself
+  mapsTo: string | null;
+}
+
+/**
+ * Spelling-insensitive form of a tag: case, spaces, hyphens and underscores
+ * are ignored when matching tags and synonyms
+ */
+export function tagKey(tag: string): string {
+  return tag
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_-]+/g, "");
+}
+
+function textArray(values: string[]) {
+  return sql`ARRAY[${sql.join(
+    values.map((value) => sql`${value}`),
+    sql`, `,
+  )}]::text[]`;
+}
+
+async function loadTaxonomy(): Promise<Taxonomy> {
+  if (cachedTaxonomy && Date.now() - cachedTaxonomy.loadedAt < CACHE_TTL_MS) {
+    return cachedTaxonomy;
+  }
+
+  const [vocabulary, synonyms, controlled] = await Promise.all([
+    db.select({ name: tagVocabulary.name }).from(tagVocabulary),
+    db.select().from(tagSynonyms),
+    isControlledVocabulary(),
+  ]);
+
+  const lookup = new Map<string, string>();
+  for (const { synonym, tag } of synonyms) {
+    lookup.set(tagKey(synonym), tag);
+  }
+  // A canonical spelling wins over a synonym with the same key
+  for (const { name } of vocabulary) {
+    lookup.set(tagKey(name), name);
+  }
+
+  cachedTaxonomy = { lookup, controlled, loadedAt: Date.now() };
+  return cachedTaxonomy;
+}
+
+function invalidateTaxonomy() {
+  cachedTaxonomy = null;
+}
+
+/**
+ * Map incoming tags onto the vocabulary: known spellings become their
+ * canonical tag, duplicates collapse, and unknown tags pass through (or are
+ * set aside as `unknown` in controlled vocabulary mode)
+ */
+export async function mapTags(tags: string[]): Promise<TagMapping> {
+  const { lookup, controlled } = await loadTaxonomy();
+  const mapped = new Map<string, string>();
+  const unknown: string[] = [];
+
+  for (const raw of tags) {
+    const tag = raw.trim();
+    if (!tag) continue;
+    const canonical = lookup.get(tagKey(tag));
+    if (canonical) {
+      mapped.set(tagKey(canonical), canonical);
+    } else if (controlled) {
+      unknown.push(tag);
+    } else if (!mapped.has(tagKey(tag))) {
+      mapped.set(tagKey(tag), tag);
+    }
+  }
+
+  return { tags: [...mapped.values()], unknown };
+}
+
+/**
+ * Like mapTags, but tags outside a controlled vocabulary are an error rather
+ * than dropped (for tags a person typed in)
+ */
+export async function mapTagsOrThrow(tags: string[]): Promise<string[]> {
+  const { tags: mapped, unknown } = await mapTags(tags);
+  if (unknown.length > 0) {
+    throw new Error(
+      `Not in the tag vocabulary: ${unknown.join(", ")}. Ask an admin to add ${unknown.length === 1 ? "it" : "them"} on the Tags page.`,
+    );
+  }
+  return mapped;
+}
+
+export async function isControlledVocabulary(): Promise<boolean> {
+  const setting = await db.query.appSettings.findFirst({
+    where: eq(appSettings.key, CONTROLLED_VOCABULARY_KEY),
+  });
+  return setting?.value === true;
+}
+
+export async function setControlledVocabulary(enabled: boolean) {
+  await db
+    .insert(appSettings)
+    .values({ key: CONTROLLED_VOCABULARY_KEY, value: enabled })
+    .onConflictDoUpdate({
+      target: appSettings.key,
+      set: { value: enabled, updatedAt: new Date() },
+    });
+  invalidateTaxonomy();
+}
+
+/**
+ * Every tag in use or in the vocabulary, with live item counts, plus groups
+ * of in-use tags that differ only in spelling
+ */
+export async function getTagOverview() {
+  const [usage, vocabulary, synonyms, controlled, { lookup }] =
+    await Promise.all([
+      db.execute(sql`
+        SELECT tag, count(*)::int AS count
+        FROM ${contentItems}, unnest(${contentItems.tags}) AS tag
+        WHERE ${contentItems.deletedAt} IS NULL
+        GROUP BY tag
+      `),
+      db.select({ name: tagVocabulary.name }).from(tagVocabulary),
+      db.select().from(tagSynonyms).orderBy(tagSynonyms.synonym),
+      isControlledVocabulary(),
+      loadTaxonomy(),
+    ]);
+
+  const counts = new Map(
+    usage.map((row) => [String(row.tag), Number(row.count)]),
+  );
+  const canonical = new Set(vocabulary.map((t) => t.name));
+  const names = new Set([...counts.keys(), ...canonical]);
+
+  const tags: TagUsage[] = [...names].map((name) => {
+    const mapsTo = lookup.get(tagKey(name));
+    return {
+      name,
+      count: counts.get(name) ?? 0,
+      inVocabulary: canonical.has(name),
+      synonyms: synonyms.filter((s) => s.tag === name).map((s) => s.synonym),
+      mapsTo: mapsTo && mapsTo !== name ? mapsTo : null,
+    };
+  });
+  tags.sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+
+  const byKey = new Map<string, string[]>();
+  for (const tag of tags) {
+    if (tag.count === 0) continue;
+    const key = tagKey(tag.name);
+    byKey.set(key, [...(byKey.get(key) ?? []), tag.name]);
+  }
+  // Most used spelling first
+  const nearDuplicates = [...byKey.values()].filter(
+    (group) => group.length > 1,
+  );
+
+  return { tags, nearDuplicates, controlled };
+}
+
+/**
+ * Items carrying any of the tags, including trashed ones
+ */
+export async function findContentIdsWithTags(
+  tags: string[],
+): Promise<string[]> {
+  if (tags.length === 0) return [];
+  const rows = await db
+    .select({ id: contentItems.id })
+    .from(contentItems)
+    .where(sql`${contentItems.tags} && ${textArray(tags)}`);
+  return rows.map((row) => row.id);
+}
+
+/**
+ * The given spellings plus the vocabulary tags any of them are synonyms of:
+ * the tags a vocabulary edit can touch
+ */
+export async function findVocabularyTags(names: string[]): Promise<string[]> {
+  const spellings = names.map((name) => name.trim()).filter(Boolean);
+  if (spellings.length === 0) return [];
+  const synonyms = await db
+    .select({ tag: tagSynonyms.tag })
+    .from(tagSynonyms)
+    .where(inArray(tagSynonyms.synonym, spellings));
+  return [...new Set([...spellings, ...synonyms.map((row) => row.tag)])];
+}
+
+/**
+ * Replace `sources` with `target` on every item, keeping each item's tag
+ * order and dropping the duplicates this creates. Vocabulary entries and
+ * synonyms of the sources move to the target; with `keepAsSynonyms` the
+ * source spellings keep mapping to the target for future imports.
+ */
+export async function mergeTags(params: {
+  sources: string[];
+  target: string;
+  keepAsSynonyms: boolean;
+}): Promise<{ updated: number }> {
+  const target = params.target.trim();
+  if (!target) {
+    throw new Error("Tag name is required");
+  }
+  const sources = [...new Set(params.sources)].filter((tag) => tag !== target);
+  if (sources.length === 0) {
+    throw new Error("Choose at least one tag other than the target");
+  }
+
+  const updated = await db.transaction(async (tx) => {
+    const rows = await tx
+      .update(contentItems)
+      .set({
+        tags: sql`ARRAY(
+          SELECT CASE WHEN tag = ANY(${textArray(sources)}) THEN ${target} ELSE tag END
+          FROM unnest(${contentItems.tags}) WITH ORDINALITY AS t(tag, ord)
+          GROUP BY 1
+          ORDER BY min(ord)
+        )`,
+        updatedAt: new Date(),
+      })
+      .where(sql`${contentItems.tags} && ${textArray(sources)}`)
+      .returning({ id: contentItems.id });
+
+    const canonicalSources = await tx
+      .select({ name: tagVocabulary.name })
+      .from(tagVocabulary)
+      .where(inArray(tagVocabulary.name, sources));
+
+    if (canonicalSources.length > 0 || params.keepAsSynonyms) {
+      await tx
+        .insert(tagVocabulary)
+        .values({ name: target })
+        .onConflictDoNothing();
+      await tx
+        .update(tagSynonyms)
+        .set({ tag: target })
+        .where(inArray(tagSynonyms.tag, sources));
+      await tx
+        .delete(tagVocabulary)
+        .where(inArray(tagVocabulary.name, sources));
+    }
+
+    // Spellings that only differ from the target by case or spacing already
+    // map to it
+    const synonyms = params.keepAsSynonyms
+      ? sources.filter((tag) => tagKey(tag) !== tagKey(target))
+      : [];
+    if (synonyms.length > 0) {
+      await tx
+        .insert(tagSynonyms)
+        .values(synonyms.map((synonym) => ({ synonym, tag: target })))
+        .onConflictDoUpdate({
+          target: tagSynonyms.synonym,
+          set: { tag: target },
+        });
+    }
+
+    return rows.length;
+  });
+
+  invalidateTaxonomy();
+  console.log(
+    `[Tags] Merged ${sources.join(", ")} into ${target} on ${updated} items`,
+  );
+
+  return { updated };
+}
+
+export async function addToVocabulary(names: string[]) {
+  const tags = [...new Set(names.map((name) => name.trim()).filter(Boolean))];
+  if (tags.length === 0) return;
+  await db
+    .insert(tagVocabulary)
+    .values(tags.map((name) => ({ name })))
+    .onConflictDoNothing();
+  // A canonical tag can't also be a synonym
+  await db.delete(tagSynonyms).where(inArray(tagSynonyms.synonym, tags));
+  invalidateTaxonomy();
+}
+
+/**
+ * Drop a tag from the vocabulary (and its synonyms); items keep the tag
+ */
+export async function removeFromVocabulary(name: string) {
+  await db.delete(tagVocabulary).where(eq(tagVocabulary.name, name));
+  invalidateTaxonomy();
+}
+
+export async function addSynonym(synonym: string, tag: string) {
+  const spelling = synonym.trim();
+  if (!spelling) {
+    throw new Error("Synonym is required");
+  }
+
+  const [canonical, clash] = await Promise.all([
+    db.query.tagVocabulary.findFirst({ where: eq(tagVocabulary.name, tag) }),
+    db
+      .select({ name: tagVocabulary.name })
+      .from(tagVocabulary)
+      .then((rows) =>
+        rows.find(
+          (row) => row.name !== tag && tagKey(row.name) === tagKey(spelling),
+        ),
+      ),
+  ]);
+  if (!canonical) {
+    throw new Error(`"${tag}" is not in the vocabulary`);
+  }
+  if (clash) {
+    throw new Error(`"${spelling}" already matches the tag "${clash.name}"`);
+  }
+
+  await db
+    .insert(tagSynonyms)
+    .values({ synonym: spelling, tag })
+    .onConflictDoUpdate({ target: tagSynonyms.synonym, set: { tag } });
+  invalidateTaxonomy();
+}
+
+export async function removeSynonym(synonym: string) {
+  await db.delete(tagSynonyms).where(eq(tagSynonyms.synonym, synonym));
+  invalidateTaxonomy();
+}
@@ -0,0 +1,154 @@
+/**
+ * Word-level Diff
+ * Myers' O(ND) diff over word tokens, used to compare content versions.
+ * Whitespace is kept with the following word for display but ignored when
+ * comparing, so reflowed text doesn't show up as a change.
+ */
+
+export interface DiffSegment {
+  type: "equal" | "insert" | "delete";
+  text: string;
+}
+
+// Beyond this many word edits the texts are shown as fully replaced; keeps
+// the trace (O(D²)) bounded for unrelated versions
+const MAX_EDIT_DISTANCE = 2000;
+
+function tokenize(text: string): string[] {
+  return text.match(/\s*\S+/g) ?? [];
+}
+
+function sameWord(a: string | undefined, b: string | undefined): boolean {
+  return a?.trim() === b?.trim();
+}
+
+/**
+ * Shortest edit script from `a` to `b`, or null if it exceeds
+ * MAX_EDIT_DISTANCE
+ */
+function myersDiff(a: string[], b: string[]): DiffSegment[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds v for diagonals -d-1..d+1 before step d
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= Math.min(max, MAX_EDIT_DISTANCE); d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+
+    for (let k = -d; k <= d; k += 2) {
+      const down =
+        k === -d ||
+        (k !== d && (v[offset + k - 1] ?? 0) < (v[offset + k + 1] ?? 0));
+      let x = down ? (v[offset + k + 1] ?? 0) : (v[offset + k - 1] ?? 0) + 1;
+      let y = x - k;
+      while (x < n && y < m && sameWord(a[x], b[y])) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(a, b, trace, n, m);
+      }
+    }
+  }
+
+  return null;
+}
+
+function backtrack(
+  a: string[],
+  b: string[],
+  trace: Int32Array[],
+  n: number,
+  m: number,
+): DiffSegment[] {
+  const reversed: DiffSegment[] = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d > 0; d--) {
+    const snapshot = trace[d];
+    if (!snapshot) break;
+    const at = (k: number) => snapshot[k + d + 1] ?? 0;
+
+    const k = x - y;
+    const down = k === -d || (k !== d && at(k - 1) < at(k + 1));
+    const prevK = down ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      reversed.push({ type: "equal", text: b[y - 1] ?? "" });
+      x--;
+      y--;
+    }
+    if (down) {
+      reversed.push({ type: "insert", text: b[y - 1] ?? "" });
+    } else {
+      reversed.push({ type: "delete", text: a[x - 1] ?? "" });
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  while (x > 0 && y > 0) {
+    reversed.push({ type: "equal", text: b[y - 1] ?? "" });
+    x--;
+    y--;
+  }
+
+  return reversed.reverse();
+}
+
+/**
+ * Word-level diff from `before` to `after`. Adjacent tokens of the same type
+ * are merged into one segment.
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // Most versions differ in a few places; skip the shared head and tail
+  let start = 0;
+  while (start < a.length && start < b.length && sameWord(a[start], b[start])) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && sameWord(a[endA - 1], b[endB - 1])) {
+    endA--;
+    endB--;
+  }
+
+  const middleA = a.slice(start, endA);
+  const middleB = b.slice(start, endB);
+  const middle = myersDiff(middleA, middleB) ?? [
+    ...middleA.map((text) => ({ type: "delete" as const, text })),
+    ...middleB.map((text) => ({ type: "insert" as const, text })),
+  ];
+
+  const tokens: DiffSegment[] = [
+    ...b.slice(0, start).map((text) => ({ type: "equal" as const, text })),
+    ...middle,
+    ...b.slice(endB).map((text) => ({ type: "equal" as const, text })),
+  ];
+
+  const segments: DiffSegment[] = [];
+  for (const token of tokens) {
+    const last = segments[segments.length - 1];
+    // Only the first word of each text lacks leading whitespace; keep it
+    // apart from a word of the other text shown before it
+    const text =
+      last && !/^\s/.test(token.text) ? ` ${token.text}` : token.text;
+    if (last?.type === token.type) {
+      last.text += text;
+    } else {
+      segments.push({ type: token.type, text });
+    }
+  }
+  return segments;
+}